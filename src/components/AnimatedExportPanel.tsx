@@ -0,0 +1,157 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ANIMATED_FORMATS,
+  ANIMATED_FRAME_RATES,
+  ANIMATED_SIZES,
+  AnimatedSettings,
+  GIF_PALETTE_SIZES
+} from "@/lib/export/animated";
+import { DITHER_LABELS, DitherMode } from "@/lib/export/gif";
+
+interface AnimatedExportPanelProps {
+  settings: AnimatedSettings;
+  onSettingsChange: (settings: AnimatedSettings) => void;
+  webpSupported: boolean;
+  timelineFps: number;
+}
+
+export const AnimatedExportPanel = ({
+  settings,
+  onSettingsChange,
+  webpSupported,
+  timelineFps
+}: AnimatedExportPanelProps) => {
+  const update = (changes: Partial<AnimatedSettings>) => {
+    onSettingsChange({ ...settings, ...changes });
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Format */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Format</label>
+        <div className="grid grid-cols-2 gap-2">
+          {Object.values(ANIMATED_FORMATS).map(format => {
+            const unsupported = format.id === 'webp' && !webpSupported;
+            return (
+              <Button
+                key={format.id}
+                variant={settings.formatId === format.id ? 'default' : 'outline'}
+                size="sm"
+                disabled={unsupported}
+                title={unsupported ? 'Not supported by this browser' : format.description}
+                onClick={() => update({ formatId: format.id })}
+                className="flex flex-col h-auto py-1"
+              >
+                <span>{format.label}</span>
+                <span className="text-[10px] opacity-70">
+                  {unsupported ? 'Unsupported' : format.description}
+                </span>
+              </Button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Size e frame rate */}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Size</label>
+          <Select value={String(settings.size)} onValueChange={(value) => update({ size: Number(value) })}>
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANIMATED_SIZES.map(size => (
+                <SelectItem key={size} value={String(size)}>{size}px</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Frame Rate</label>
+          <Select value={String(settings.fps)} onValueChange={(value) => update({ fps: Number(value) })}>
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANIMATED_FRAME_RATES.filter(fps => fps <= timelineFps).map(fps => (
+                <SelectItem key={fps} value={String(fps)}>{fps} fps</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {settings.formatId === 'gif' ? (
+        <>
+          {/* Palette */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Colors</label>
+            <Select value={String(settings.colors)} onValueChange={(value) => update({ colors: Number(value) })}>
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GIF_PALETTE_SIZES.map(colors => (
+                  <SelectItem key={colors} value={String(colors)}>{colors} colors</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Dithering */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Dithering</label>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(DITHER_LABELS) as DitherMode[]).map(mode => (
+                <Button
+                  key={mode}
+                  variant={settings.dither === mode ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => update({ dither: mode })}
+                >
+                  {DITHER_LABELS[mode]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </>
+      ) : (
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Quality</label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={10}
+              max={100}
+              step={5}
+              className="h-8 text-sm"
+              value={Math.round(settings.quality * 100)}
+              onChange={(e) => update({ quality: Math.max(0.1, Math.min(1, Number(e.target.value) / 100)) })}
+            />
+            <span className="text-muted-foreground text-sm">%</span>
+          </div>
+        </div>
+      )}
+
+      {/* Limite di dimensione */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Max File Size</label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={1}
+            step={1}
+            className="h-8 text-sm"
+            value={settings.maxSizeMB}
+            onChange={(e) => update({ maxSizeMB: Math.max(1, Number(e.target.value) || 1) })}
+          />
+          <span className="text-muted-foreground text-sm whitespace-nowrap">MB</span>
+        </div>
+      </div>
+    </div>
+  );
+};
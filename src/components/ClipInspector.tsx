@@ -0,0 +1,216 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FlipHorizontal, FlipVertical, RotateCcw, SlidersHorizontal } from "lucide-react";
+import type { TimelineItem } from "./VideoEditor";
+import { KeyframedParameter } from "./KeyframedParameter";
+import { AnimatableParameter, getClipParameters, getEffectParameterId } from "@/lib/keyframes";
+import { getStoredEffectIntensity, hasEffectIntensity } from "@/lib/render/effects";
+import { getEffectName } from "@/lib/effects";
+import { ClipTransform, CropInsets, FIT_MODES, clampCrop, getTransform, setItemTransform } from "@/lib/render/transform";
+import { BLEND_MODES, BlendMode, setItemBlendMode } from "@/lib/render/blending";
+
+interface ClipInspectorProps {
+  item: TimelineItem;
+  items: TimelineItem[];
+  currentTime: number;
+  onItemsChange: (items: TimelineItem[]) => void; // Durante il trascinamento degli slider, senza history
+  onItemsChangeWithHistory: (items: TimelineItem[], label: string) => void;
+  onSeek: (time: number) => void;
+}
+
+const CROP_SIDES: (keyof CropInsets)[] = ['top', 'right', 'bottom', 'left'];
+
+// Parametri animabili del clip selezionato, ciascuno con i suoi keyframe.
+// Per video e immagini ci sono anche fusione e trasformazione
+export const ClipInspector = ({
+  item,
+  items,
+  currentTime,
+  onItemsChange,
+  onItemsChangeWithHistory,
+  onSeek
+}: ClipInspectorProps) => {
+  const localTime = currentTime - item.startTime;
+  const isInsideClip = localTime >= 0 && localTime <= item.duration;
+
+  // Intensità degli effetti di clip come parametri aggiuntivi
+  const effectParameters: AnimatableParameter[] = (item.effects ?? [])
+    .filter(effect => hasEffectIntensity(effect.type))
+    .map(effect => ({
+      id: getEffectParameterId(effect.id),
+      name: `${getEffectName(effect.type)} Intensity`,
+      min: 0,
+      max: 100,
+      step: 1,
+      defaultValue: getStoredEffectIntensity(effect),
+      unit: '%',
+      mediaTypes: [item.mediaFile.type]
+    }));
+  const parameters = [...getClipParameters(item), ...effectParameters];
+  const isVisual = item.mediaFile.type === 'video' || item.mediaFile.type === 'image';
+  const transform = getTransform(item);
+
+  // Fusione con le tracce sottostanti (l'opacità è tra i parametri animabili)
+  const renderBlending = () => (
+    <div className="space-y-1.5 py-3">
+      <span className="text-xs font-medium">Blend Mode</span>
+      <Select
+        value={item.blendMode ?? 'normal'}
+        onValueChange={(value) => onItemsChangeWithHistory(
+          setItemBlendMode(items, item.id, value as BlendMode),
+          'Change blend mode'
+        )}
+      >
+        <SelectTrigger className="h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {BLEND_MODES.map(mode => (
+            <SelectItem key={mode.id} value={mode.id} className="text-xs">{mode.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-[10px] text-muted-foreground">Mixes the clip with the tracks below it.</p>
+    </div>
+  );
+
+  // Proprietà non animabili della trasformazione
+  const renderTransform = () => {
+    const updateTransform = (patch: Partial<ClipTransform> | null, label: string) => {
+      onItemsChangeWithHistory(setItemTransform(items, item.id, patch), label);
+    };
+
+    return (
+      <div className="space-y-2 py-3">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium">Transform</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 px-1 text-[10px]"
+            disabled={!item.transform}
+            onClick={() => updateTransform(null, 'Reset transform')}
+            title="Back to the default layout"
+          >
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Reset
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-1">
+          {FIT_MODES.map(mode => (
+            <Button
+              key={mode.id}
+              variant={item.transform && transform.fit === mode.id ? 'default' : 'outline'}
+              size="sm"
+              className="h-6 text-[10px]"
+              title={mode.description}
+              onClick={() => updateTransform({ fit: mode.id }, `${mode.name} clip to frame`)}
+            >
+              {mode.name}
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-1">
+          <Button
+            variant={transform.flipX ? 'default' : 'outline'}
+            size="sm"
+            className="h-6 text-[10px]"
+            onClick={() => updateTransform({ flipX: !transform.flipX }, 'Flip horizontal')}
+          >
+            <FlipHorizontal className="w-3 h-3 mr-1" />
+            Flip H
+          </Button>
+          <Button
+            variant={transform.flipY ? 'default' : 'outline'}
+            size="sm"
+            className="h-6 text-[10px]"
+            onClick={() => updateTransform({ flipY: !transform.flipY }, 'Flip vertical')}
+          >
+            <FlipVertical className="w-3 h-3 mr-1" />
+            Flip V
+          </Button>
+        </div>
+
+        <div>
+          <p className="text-[10px] text-muted-foreground mb-1">Anchor (%)</p>
+          <div className="grid grid-cols-2 gap-1">
+            {(['anchorX', 'anchorY'] as const).map(field => (
+              <Input
+                key={field}
+                type="number"
+                min={0}
+                max={100}
+                className="h-6 px-1 text-[10px]"
+                title={field === 'anchorX' ? 'Horizontal anchor' : 'Vertical anchor'}
+                value={Math.round(transform[field] * 100)}
+                onChange={(e) => updateTransform(
+                  { [field]: Math.max(0, Math.min(100, Number(e.target.value) || 0)) / 100 },
+                  'Change anchor'
+                )}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-[10px] text-muted-foreground mb-1">Crop (%) top, right, bottom, left</p>
+          <div className="grid grid-cols-4 gap-1">
+            {CROP_SIDES.map(side => (
+              <Input
+                key={side}
+                type="number"
+                min={0}
+                max={95}
+                className="h-6 px-1 text-[10px]"
+                title={`Crop ${side}`}
+                value={Math.round(transform.crop[side] * 100)}
+                onChange={(e) => updateTransform(
+                  { crop: clampCrop({ ...transform.crop, [side]: (Number(e.target.value) || 0) / 100 }) },
+                  'Crop clip'
+                )}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 py-3 border-b border-border">
+        <h3 className="text-sm font-medium flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          Inspector
+        </h3>
+        <p className="text-xs text-muted-foreground truncate">{item.mediaFile.name}</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 divide-y divide-border">
+        {parameters.map(parameter => (
+          <KeyframedParameter
+            key={parameter.id}
+            parameter={parameter}
+            item={item}
+            items={items}
+            currentTime={currentTime}
+            onItemsChange={onItemsChange}
+            onItemsChangeWithHistory={onItemsChangeWithHistory}
+            onSeek={onSeek}
+          />
+        ))}
+        {isVisual && renderBlending()}
+        {isVisual && renderTransform()}
+      </div>
+
+      <p className="px-4 py-2 border-t border-border text-[10px] text-muted-foreground">
+        {isInsideClip
+          ? 'Changing a value sets a keyframe at the playhead.'
+          : 'Move the playhead over the clip to edit keyframes.'}
+      </p>
+    </div>
+  );
+};
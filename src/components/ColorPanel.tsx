@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Columns2, Palette, RotateCcw, X } from "lucide-react";
+import type { TimelineItem } from "./VideoEditor";
+import { CurvesEditor } from "./CurvesEditor";
+import {
+  COLOR_ADJUSTMENTS,
+  CURVE_CHANNELS,
+  ColorCorrection,
+  CurveChannel,
+  DEFAULT_COLOR_CORRECTION,
+  IDENTITY_CURVE,
+  getColorCorrection,
+  setItemColorCorrection
+} from "@/lib/render/color";
+
+interface ColorPanelProps {
+  item?: TimelineItem; // Clip video o immagine selezionato
+  items: TimelineItem[];
+  onItemsChange: (items: TimelineItem[]) => void; // Durante il trascinamento, senza history
+  onItemsChangeWithHistory: (items: TimelineItem[], label: string) => void;
+  compare: boolean;
+  onCompareChange: (compare: boolean) => void;
+  onClose: () => void;
+}
+
+const formatAdjustment = (value: number, step: number, unit: string) => {
+  const rounded = step < 1 ? value.toFixed(1) : Math.round(value).toString();
+  return `${value > 0 && unit !== '%' ? '+' : ''}${rounded}${unit}`;
+};
+
+// Correzione colore del clip selezionato: regolazioni di base, lift/gamma/gain e curve per canale.
+// Doppio click su una regolazione la riporta al valore neutro
+export const ColorPanel = ({
+  item,
+  items,
+  onItemsChange,
+  onItemsChangeWithHistory,
+  compare,
+  onCompareChange,
+  onClose
+}: ColorPanelProps) => {
+  const [channel, setChannel] = useState<CurveChannel>('master');
+
+  const renderContent = (clip: TimelineItem) => {
+    const correction = getColorCorrection(clip);
+    const update = (patch: Partial<ColorCorrection>, label?: string) => {
+      const updated = setItemColorCorrection(items, clip.id, patch);
+      if (label) {
+        onItemsChangeWithHistory(updated, label);
+      } else {
+        onItemsChange(updated);
+      }
+    };
+
+    const renderAdjustment = (adjustment: typeof COLOR_ADJUSTMENTS[number]) => (
+      <div key={adjustment.id} className="space-y-1.5" onDoubleClick={() => update(
+        { [adjustment.id]: DEFAULT_COLOR_CORRECTION[adjustment.id] },
+        `Reset ${adjustment.name.toLowerCase()}`
+      )}>
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium">{adjustment.name}</span>
+          <span className="text-xs font-mono text-muted-foreground">
+            {formatAdjustment(correction[adjustment.id], adjustment.step, adjustment.unit)}
+          </span>
+        </div>
+        <Slider
+          value={[correction[adjustment.id]]}
+          min={adjustment.min}
+          max={adjustment.max}
+          step={adjustment.step}
+          onValueChange={([value]) => update({ [adjustment.id]: value })}
+          onValueCommit={([value]) => update({ [adjustment.id]: value }, `Change ${adjustment.name.toLowerCase()}`)}
+        />
+      </div>
+    );
+
+    const channelInfo = CURVE_CHANNELS.find(c => c.id === channel)!;
+
+    return (
+      <>
+        <div className="space-y-3 py-3">
+          {COLOR_ADJUSTMENTS.filter(a => a.group === 'basic').map(renderAdjustment)}
+        </div>
+
+        <div className="space-y-3 py-3">
+          <span className="text-xs font-medium text-muted-foreground">Lift / Gamma / Gain</span>
+          {COLOR_ADJUSTMENTS.filter(a => a.group === 'wheels').map(renderAdjustment)}
+        </div>
+
+        <div className="space-y-2 py-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium">Curves</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-5 px-1 text-[10px]"
+              onClick={() => update({ curves: { ...correction.curves, [channel]: IDENTITY_CURVE } }, 'Reset curve')}
+            >
+              <RotateCcw className="w-3 h-3 mr-1" />
+              Reset
+            </Button>
+          </div>
+          <div className="grid grid-cols-4 gap-1">
+            {CURVE_CHANNELS.map(c => (
+              <Button
+                key={c.id}
+                variant={channel === c.id ? 'default' : 'outline'}
+                size="sm"
+                className="h-6 text-[10px]"
+                onClick={() => setChannel(c.id)}
+              >
+                {c.name}
+              </Button>
+            ))}
+          </div>
+          <CurvesEditor
+            points={correction.curves[channel]}
+            color={channelInfo.color}
+            onChange={(points, commit) => update(
+              { curves: { ...correction.curves, [channel]: points } },
+              commit ? `Adjust ${channelInfo.name.toLowerCase()} curve` : undefined
+            )}
+          />
+          <p className="text-[10px] text-muted-foreground">Click to add a point, drag to move it, double-click to remove it.</p>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 py-3 border-b border-border flex items-start gap-2">
+        <div className="flex-1 min-w-0">
+          <h3 className="text-sm font-medium flex items-center gap-2">
+            <Palette className="w-4 h-4" />
+            Colors
+          </h3>
+          <p className="text-xs text-muted-foreground truncate">{item ? item.mediaFile.name : 'No clip selected'}</p>
+        </div>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onClose} title="Close">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 divide-y divide-border">
+        {item ? renderContent(item) : (
+          <p className="py-6 text-xs text-center text-muted-foreground">Select a video or image clip on the timeline to correct its colors.</p>
+        )}
+      </div>
+
+      <div className="px-4 py-2 border-t border-border flex items-center gap-2">
+        <Button
+          variant={compare ? 'default' : 'outline'}
+          size="sm"
+          className="h-7 flex-1 text-xs"
+          onClick={() => onCompareChange(!compare)}
+          title="Show the original colors on the left half of the preview"
+        >
+          <Columns2 className="w-3 h-3 mr-1" />
+          Before / After
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          disabled={!item?.colorCorrection}
+          onClick={() => item && onItemsChangeWithHistory(setItemColorCorrection(items, item.id, null), 'Reset colors')}
+        >
+          <RotateCcw className="w-3 h-3 mr-1" />
+          Reset
+        </Button>
+      </div>
+    </div>
+  );
+};
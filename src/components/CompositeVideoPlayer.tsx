@@ -1,9 +1,38 @@
 import { useRef, useEffect, useState, useCallback, useMemo } from "react";
-import { Play, Pause, SkipBack, SkipForward, Volume2 } from "lucide-react";
+import { Play, Pause, SkipBack, SkipForward, Volume2, Layers, Camera } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Slider } from "@/components/ui/slider";
 import { Card } from "@/components/ui/card";
 import { TimelineItem } from "./VideoEditor";
+import {
+  MediaResolver,
+  getClipAnimation,
+  getClipPlacement,
+  getFrameSize,
+  getPixelScale,
+  getSourceSize,
+  renderFrame
+} from "@/lib/render/compositor";
+import {
+  TransformHandle,
+  drawCompareDivider,
+  drawEffectIndicators,
+  drawItemLabels,
+  drawTransformHandles,
+  hitTestTransformHandles
+} from "@/lib/render/overlays";
+import { withoutColorCorrection } from "@/lib/render/color";
+import type { RenderBackend } from "@/lib/render/pixels";
+import type { Point } from "@/lib/render/transform";
+import { getTransitionItemIds } from "@/lib/render/transitions";
+import { getClipParameter, setParameterValue } from "@/lib/keyframes";
+import { STILL_BASE_WIDTH, STILL_FORMATS, StillFormatId, canvasToBlob } from "@/lib/export/stills";
+import { downloadBlob } from "@/lib/export/download";
+import { getExportFileName } from "@/lib/export/formats";
+import { getItemGain, getItemGainAt } from "@/lib/export/audioMix";
+import { releasePreviewAudio, resumePreviewAudio, setPreviewGain } from "@/lib/previewAudio";
+import { useToast } from "@/hooks/use-toast";
 
 interface CompositeVideoPlayerProps {
   timelineItems: TimelineItem[];
@@ -13,16 +42,29 @@ interface CompositeVideoPlayerProps {
   onPlayStateChange: (playing: boolean) => void;
   aspectRatio: '16:9' | '4:3' | '9:16';
   trackVolumes: Map<string, number>; // itemId -> volume (0-200)
+  onMediaError?: (mediaFileId: string, reason: string) => void;
+  // Maniglie di trasformazione sul clip selezionato
+  selectedItemId?: string;
+  onItemsChange?: (items: TimelineItem[]) => void; // Durante il trascinamento, senza history
+  onItemsChangeWithHistory?: (items: TimelineItem[], label: string) => void;
+  colorCompare?: boolean; // Vista prima/dopo della correzione colore
+  renderBackend?: RenderBackend; // Solo per ridisegnare quando cambia: il backend è impostato dall'editor
 }
 
-// AGGIORNATO: Interfaccia per gestire tutti gli effetti attivi
-interface ActiveEffect {
-  id: string;
-  name: string;
-  type: string;
-  progress: number; // 0 a 1
-  intensity: number; // Intensità dell'effetto (0 a 1)
-}
+const TRANSFORM_CURSORS: Record<TransformHandle, string> = {
+  move: 'move',
+  scale: 'nwse-resize',
+  rotate: 'grab'
+};
+
+const TRANSFORM_LABELS: Record<TransformHandle, string> = {
+  move: 'Move clip in frame',
+  scale: 'Scale clip',
+  rotate: 'Rotate clip'
+};
+
+// Passo della rotazione con Shift premuto
+const ROTATION_SNAP_DEGREES = 15;
 
 export const CompositeVideoPlayer = ({
   timelineItems,
@@ -31,7 +73,13 @@ export const CompositeVideoPlayer = ({
   onTimeUpdate,
   onPlayStateChange,
   aspectRatio,
-  trackVolumes
+  trackVolumes,
+  onMediaError,
+  selectedItemId,
+  onItemsChange,
+  onItemsChangeWithHistory,
+  colorCompare = false,
+  renderBackend
 }: CompositeVideoPlayerProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const hiddenVideoContainerRef = useRef<HTMLDivElement>(null);
@@ -40,6 +88,13 @@ export const CompositeVideoPlayer = ({
   const audioElementsRef = useRef<Map<string, HTMLAudioElement>>(new Map());
   const imageElementsRef = useRef<Map<string, HTMLImageElement>>(new Map());
   const [volume, setVolume] = useState(100);
+  // Indicatori sopra il video (nomi, effetti): disattivati, la preview coincide con l'export
+  const [showOverlays, setShowOverlays] = useState(false);
+  const { toast } = useToast();
+
+  // Segnala all'editor le sorgenti che non si caricano (blob revocati, file mancanti)
+  const onMediaErrorRef = useRef(onMediaError);
+  onMediaErrorRef.current = onMediaError;
   
   // OTTIMIZZAZIONE: Gestione timing migliorata
   const lastRenderTimeRef = useRef<number>(0);
@@ -47,195 +102,45 @@ export const CompositeVideoPlayer = ({
   const needsRenderRef = useRef<boolean>(true);
   
   // OTTIMIZZAZIONE: Cache delle dimensioni canvas
-  const canvasDimensions = useMemo(() => {
-    const baseWidth = 1280;
-    switch (aspectRatio) {
-      case '16:9':
-        return { width: baseWidth, height: Math.round(baseWidth / (16/9)) };
-      case '4:3':
-        return { width: baseWidth, height: Math.round(baseWidth / (4/3)) };
-      case '9:16':
-        return { width: Math.round(baseWidth * (9/16)), height: baseWidth };
-      default:
-        return { width: baseWidth, height: Math.round(baseWidth / (16/9)) };
-    }
-  }, [aspectRatio]);
+  const canvasDimensions = useMemo(() => getFrameSize(aspectRatio), [aspectRatio]);
 
-  // OTTIMIZZAZIONE: Memoizza gli elementi attivi
+  // OTTIMIZZAZIONE: Memoizza gli elementi attivi (compresi i clip coinvolti in una transizione)
+  const transitionItemIds = useMemo(() => getTransitionItemIds(timelineItems, currentTime), [timelineItems, currentTime]);
   const activeItems = useMemo(() => {
     return timelineItems.filter(item =>
-      currentTime >= item.startTime &&
-      currentTime < item.startTime + item.duration
+      (currentTime >= item.startTime && currentTime < item.startTime + item.duration) ||
+      transitionItemIds.has(item.id)
     ).sort((a, b) => a.track - b.track);
-  }, [timelineItems, currentTime]);
-
-  // AGGIORNATO: Funzione per calcolare tutti gli effetti attivi
-  const calculateActiveEffects = useCallback((time: number): ActiveEffect[] => {
-    const activeEffects = timelineItems.filter(item =>
-      item.mediaFile.type === 'effect' &&
-      time >= item.startTime &&
-      time < item.startTime + item.duration
-    );
-
-    return activeEffects.map(effect => {
-      const relativeTime = time - effect.startTime;
-      const progress = relativeTime / effect.duration; // 0 a 1
-      
-      let intensity = 1; // Intensità di default per la maggior parte degli effetti
-
-      switch (effect.mediaFile.effectType) {
-        case 'fade-in':
-          intensity = Math.min(progress, 1);
-          break;
-        case 'fade-out':
-          intensity = Math.max(1 - progress, 0);
-          break;
-        case 'black-white':
-          intensity = 1; // Sempre attivo
-          break;
-        case 'zoom-in':
-        case 'zoom-out':
-        case 'blur':
-          intensity = 1; // Per zoom e blur usiamo sempre intensità 1, il valore è calcolato separatamente
-          break;
-        default:
-          intensity = 1;
-      }
-
-      return {
-        id: effect.id,
-        name: effect.mediaFile.name,
-        type: effect.mediaFile.effectType || 'unknown',
-        progress: Math.min(Math.max(progress, 0), 1),
-        intensity: Math.min(Math.max(intensity, 0), 1)
-      };
-    });
-  }, [timelineItems]);
-
-  // Funzione per calcolare l'alfa globale (solo per effetti di fade)
-  const calculateGlobalAlpha = useCallback((activeEffects: ActiveEffect[]) => {
-    let globalAlpha = 1.0;
+  }, [timelineItems, currentTime, transitionItemIds]);
 
-    activeEffects.forEach(effect => {
-      if (effect.type === 'fade-in' || effect.type === 'fade-out') {
-        globalAlpha *= effect.intensity;
-      }
-    });
-
-    return Math.max(0, Math.min(1, globalAlpha));
-  }, []);
-
-  // Funzione per verificare se è attivo l'effetto black & white
-  const isBlackWhiteActive = useCallback((activeEffects: ActiveEffect[]) => {
-    return activeEffects.some(effect => effect.type === 'black-white');
+  // Sorgenti pronte per il compositor: i video vengono sincronizzati dall'effetto di playback
+  const resolveMedia = useCallback<MediaResolver>((item) => {
+    if (item.mediaFile.type === 'video') {
+      const video = videoElementsRef.current.get(item.id);
+      return video && video.readyState >= 2 ? video : null;
+    }
+    if (item.mediaFile.type === 'image') {
+      const img = imageElementsRef.current.get(item.id);
+      return img && img.complete && img.naturalWidth > 0 ? img : null;
+    }
+    return null;
   }, []);
 
-  // NUOVO: Funzione per calcolare l'intensità del blur attivo
-  const calculateBlurIntensity = useCallback((time: number) => {
-    const activeBlurEffects = timelineItems.filter(item =>
-      item.mediaFile.type === 'effect' &&
-      item.mediaFile.effectType === 'blur' &&
-      time >= item.startTime &&
-      time < item.startTime + item.duration
+  // Clip selezionato con il suo posizionamento: le maniglie compaiono solo in pausa e dentro la durata del clip
+  const getSelectedPlacement = useCallback(() => {
+    if (isPlaying || !selectedItemId || !onItemsChangeWithHistory) return null;
+    const item = activeItems.find(i =>
+      i.id === selectedItemId &&
+      (i.mediaFile.type === 'video' || i.mediaFile.type === 'image') &&
+      currentTime >= i.startTime && currentTime < i.startTime + i.duration
     );
+    const source = item && resolveMedia(item, currentTime);
+    if (!item || !source) return null;
 
-    let blurIntensity = 0;
-
-    activeBlurEffects.forEach(effect => {
-      const relativeTime = time - effect.startTime;
-      const progress = relativeTime / effect.duration; // 0 a 1
-      const effectIntensity = effect.mediaFile.effectIntensity || 50;
-
-      // Il blur aumenta progressivamente fino al valore massimo e rimane costante
-      // Durante tutto l'effetto
-      const currentBlur = (effectIntensity / 100) * 10; // 0% = 0px, 100% = 10px
-      blurIntensity = Math.max(blurIntensity, currentBlur);
-    });
-
-    return Math.max(0, Math.min(10, blurIntensity)); // Limita tra 0px e 10px
-  }, [timelineItems]);
-
-  // CORRETTO: Funzione per calcolare il fattore di scala per effetti zoom
-  const calculateZoomScale = useCallback((time: number) => {
-    const activeZoomEffects = timelineItems.filter(item =>
-      item.mediaFile.type === 'effect' &&
-      (item.mediaFile.effectType === 'zoom-in' || item.mediaFile.effectType === 'zoom-out') &&
-      time >= item.startTime &&
-      time < item.startTime + item.duration
-    );
-
-    let zoomScale = 1.0;
-
-    activeZoomEffects.forEach(effect => {
-      const relativeTime = time - effect.startTime;
-      const progress = relativeTime / effect.duration; // 0 a 1
-      const effectIntensity = effect.mediaFile.effectIntensity || 50;
-
-      if (effect.mediaFile.effectType === 'zoom-in') {
-        // Zoom in: scala progressivamente da 1.0 al valore finale
-        const maxZoomFactor = 1 + (effectIntensity / 100) * 2; // 0% = 1.0x, 100% = 3.0x
-        const currentScale = 1 + (progress * (maxZoomFactor - 1));
-        zoomScale *= currentScale;
-      } else if (effect.mediaFile.effectType === 'zoom-out') {
-        // CORRETTO: Zoom out parte da 1.0 e va verso valori più piccoli
-        const minZoomFactor = 1 - (effectIntensity / 100) * 0.8; // 0% = 1.0x, 100% = 0.2x
-        const currentScale = 1 - (progress * (1 - minZoomFactor));
-        zoomScale *= currentScale;
-      }
-    });
-
-    return Math.max(0.1, Math.min(5.0, zoomScale)); // Limita tra 0.1x e 5.0x
-  }, [timelineItems]);
-
-  // AGGIORNATO: Funzione per renderizzare indicatori degli effetti con supporto per tutti gli effetti
-  const renderEffectIndicators = useCallback((ctx: CanvasRenderingContext2D, canvasWidth: number, canvasHeight: number, activeEffects: ActiveEffect[], currentTime: number) => {
-    if (activeEffects.length === 0) return;
-
-    // Salva il contesto per gli indicatori
-    ctx.save();
-    ctx.globalAlpha = 0.8;
-
-    activeEffects.forEach((effect, index) => {
-      // Disegna un sottile bordo rosso per indicare l'effetto attivo
-      ctx.strokeStyle = '#ff0000';
-      ctx.lineWidth = 3;
-      ctx.setLineDash([8, 4]);
-      ctx.strokeRect(5 + index * 3, 5 + index * 3, canvasWidth - 10 - index * 6, canvasHeight - 10 - index * 6);
-      
-      // Testo dell'effetto nell'angolo
-      const textY = 25 + index * 25;
-      
-      // Colore di sfondo specifico per tipo di effetto
-      let bgColor = 'rgba(255, 0, 0, 0.9)'; // Default rosso
-      if (effect.type === 'black-white') {
-        bgColor = 'rgba(128, 128, 128, 0.9)'; // Grigio per black & white
-      } else if (effect.type === 'zoom-in' || effect.type === 'zoom-out') {
-        bgColor = 'rgba(0, 123, 255, 0.9)'; // Blu per zoom
-      } else if (effect.type === 'blur') {
-        bgColor = 'rgba(128, 0, 128, 0.9)'; // Viola per blur
-      }
-      
-      ctx.fillStyle = bgColor;
-      ctx.fillRect(10, textY - 15, 180, 20);
-      ctx.fillStyle = '#ffffff';
-      ctx.font = '12px Arial';
-      ctx.textAlign = 'left';
-      
-      // Testo specifico per tipo di effetto
-      let displayText = `${effect.name} (${(effect.progress * 100).toFixed(0)}%)`;
-      if (effect.type === 'zoom-in' || effect.type === 'zoom-out') {
-        const currentZoom = calculateZoomScale(currentTime);
-        displayText = `${effect.name} (${currentZoom.toFixed(2)}x)`;
-      } else if (effect.type === 'blur') {
-        const currentBlur = calculateBlurIntensity(currentTime);
-        displayText = `${effect.name} (${currentBlur.toFixed(1)}px)`;
-      }
-      
-      ctx.fillText(displayText, 15, textY);
-    });
-
-    ctx.restore();
-  }, [calculateZoomScale, calculateBlurIntensity]);
+    const sourceSize = getSourceSize(source);
+    if (!sourceSize.width || !sourceSize.height) return null;
+    return { item, placement: getClipPlacement(item, sourceSize, canvasDimensions, currentTime) };
+  }, [isPlaying, selectedItemId, onItemsChangeWithHistory, activeItems, currentTime, resolveMedia, canvasDimensions]);
 
   // OTTIMIZZAZIONE: Throttled render function
   const renderComposite = useCallback(() => {
@@ -254,12 +159,10 @@ export const CompositeVideoPlayer = ({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Clear canvas solo se necessario
-    if (needsRenderRef.current) {
-      ctx.fillStyle = '#000000';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      needsRenderRef.current = false;
-    }
+    needsRenderRef.current = false;
+
+    // Stesso motore di composizione usato dall'export
+    const frame = renderFrame(ctx, { time: currentTime, items: timelineItems, resolveMedia });
 
     if (activeItems.length === 0) {
       ctx.fillStyle = '#666666';
@@ -271,152 +174,127 @@ export const CompositeVideoPlayer = ({
       return;
     }
 
-    // AGGIORNATO: Calcola gli effetti attivi
-    const activeEffects = calculateActiveEffects(currentTime);
-    const globalAlpha = calculateGlobalAlpha(activeEffects);
-    const blackWhiteActive = isBlackWhiteActive(activeEffects);
-    const zoomScale = calculateZoomScale(currentTime);
-    const blurIntensity = calculateBlurIntensity(currentTime); // NUOVO
-    
-    // Separa gli elementi media dagli effetti
-    const mediaItems = activeItems.filter(item => item.mediaFile.type !== 'effect');
-
-    // AGGIORNATO: Applica gli effetti prima di renderizzare i media
-    ctx.save();
-    
-    // Applica l'alfa globale per gli effetti di fade
-    ctx.globalAlpha = globalAlpha;
-    
-    // AGGIORNATO: Combina tutti i filtri CSS
-    let filterString = 'none';
-    const filters = [];
-    
-    if (blackWhiteActive) {
-      filters.push('grayscale(1)');
-    }
-    
-    if (blurIntensity > 0) {
-      filters.push(`blur(${blurIntensity}px)`);
+    // Metà sinistra ridisegnata senza correzione colore
+    if (colorCompare) {
+      const splitX = canvas.width / 2;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(0, 0, splitX, canvas.height);
+      ctx.clip();
+      renderFrame(ctx, { time: currentTime, items: withoutColorCorrection(timelineItems), resolveMedia });
+      ctx.restore();
+      drawCompareDivider(ctx, splitX);
     }
-    
-    if (filters.length > 0) {
-      filterString = filters.join(' ');
+
+    if (showOverlays) {
+      drawItemLabels(ctx, frame, currentTime, item => resolveMedia(item, currentTime));
+      drawEffectIndicators(ctx, frame);
     }
-    
-    ctx.filter = filterString;
 
-    // Applica la trasformazione di zoom se attiva
-    if (zoomScale !== 1.0) {
-      // Scala dal centro del canvas
-      const centerX = canvas.width / 2;
-      const centerY = canvas.height / 2;
-      
-      ctx.translate(centerX, centerY);
-      ctx.scale(zoomScale, zoomScale);
-      ctx.translate(-centerX, -centerY);
+    const selected = getSelectedPlacement();
+    if (selected) {
+      drawTransformHandles(ctx, selected.placement);
     }
+  }, [activeItems, currentTime, timelineItems, resolveMedia, showOverlays, getSelectedPlacement, colorCompare]);
+
+  // Da coordinate del mouse a pixel del canvas (il canvas è ridimensionato via CSS)
+  const getCanvasPoint = (clientX: number, clientY: number): Point => {
+    const canvas = canvasRef.current!;
+    const bounds = canvas.getBoundingClientRect();
+    return {
+      x: ((clientX - bounds.left) * canvas.width) / bounds.width,
+      y: ((clientY - bounds.top) * canvas.height) / bounds.height
+    };
+  };
 
-    // Renderizza tutti gli elementi media con gli effetti applicati
-    mediaItems.forEach(item => {
-      const relativeTime = currentTime - item.startTime;
-      
-      try {
-        if (item.mediaFile.type === 'video') {
-          const video = videoElementsRef.current.get(item.id);
-          if (video && video.readyState >= 2) {
-            // OTTIMIZZAZIONE: Cache delle dimensioni di rendering
-            const videoAspect = video.videoWidth / video.videoHeight;
-            const canvasAspect = canvas.width / canvas.height;
-
-            let renderWidth, renderHeight, offsetX, offsetY;
-            if (videoAspect > canvasAspect) {
-              renderWidth = canvas.width;
-              renderHeight = canvas.width / videoAspect;
-              offsetX = 0;
-              offsetY = (canvas.height - renderHeight) / 2;
-            } else {
-              renderWidth = canvas.height * videoAspect;
-              renderHeight = canvas.height;
-              offsetX = (canvas.width - renderWidth) / 2;
-              offsetY = 0;
-            }
+  const handleCanvasHover = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const selected = getSelectedPlacement();
+    const handle = selected && hitTestTransformHandles(selected.placement, getCanvasPoint(e.clientX, e.clientY), canvasDimensions);
+    e.currentTarget.style.cursor = handle ? TRANSFORM_CURSORS[handle] : 'default';
+  };
 
-            const trackOffsetX = item.track * 20;
-            const trackOffsetY = item.track * 20;
-
-            ctx.drawImage(
-              video,
-              offsetX + trackOffsetX,
-              offsetY + trackOffsetY,
-              renderWidth - trackOffsetX * 2,
-              renderHeight - trackOffsetY * 2
-            );
-
-            // Overlay ottimizzato (solo se globalAlpha è vicino a 1)
-            if (globalAlpha > 0.8) {
-              ctx.save();
-              ctx.globalAlpha = globalAlpha * 0.7;
-              ctx.filter = 'none'; // Rimuovi filtri per l'overlay
-              ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-              ctx.fillRect(offsetX + trackOffsetX, offsetY + trackOffsetY, 250, 30);
-              ctx.globalAlpha = globalAlpha;
-              ctx.fillStyle = '#ffffff';
-              ctx.font = '14px Arial';
-              ctx.textAlign = 'left';
-              const audioIcon = video.muted ? '🔇' : '🔊';
-              const mediaOffset = item.mediaStartOffset || 0;
-              const displayTime = relativeTime + mediaOffset;
-              ctx.fillText(
-                `${audioIcon} ${item.mediaFile.name} (${displayTime.toFixed(1)}s)`,
-                offsetX + trackOffsetX + 10,
-                offsetY + trackOffsetY + 20
-              );
-              ctx.restore();
-            }
-          }
-        } else if (item.mediaFile.type === 'image') {
-          const img = imageElementsRef.current.get(item.id);
-          if (img && img.complete) {
-            // Similar optimization for images...
-            const imgAspect = img.width / img.height;
-            const canvasAspect = canvas.width / canvas.height;
-
-            let renderWidth, renderHeight, offsetX, offsetY;
-            if (imgAspect > canvasAspect) {
-              renderWidth = canvas.width * 0.8;
-              renderHeight = renderWidth / imgAspect;
-              offsetX = (canvas.width - renderWidth) / 2;
-              offsetY = (canvas.height - renderHeight) / 2;
-            } else {
-              renderHeight = canvas.height * 0.8;
-              renderWidth = renderHeight * imgAspect;
-              offsetX = (canvas.width - renderWidth) / 2;
-              offsetY = (canvas.height - renderHeight) / 2;
-            }
+  // Trascinamento delle maniglie: sposta, scala (dagli angoli) o ruota il clip selezionato
+  const handleCanvasMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const selected = getSelectedPlacement();
+    if (!selected || !onItemsChangeWithHistory) return;
+
+    const start = getCanvasPoint(e.clientX, e.clientY);
+    const handle = hitTestTransformHandles(selected.placement, start, canvasDimensions);
+    if (!handle) return;
+    e.preventDefault();
+
+    const { item, placement } = selected;
+    const pixelScale = getPixelScale(canvasDimensions.width, canvasDimensions.height);
+    const animation = getClipAnimation(item, currentTime);
+    const center = { x: placement.pivot.x + placement.offsetX, y: placement.pivot.y + placement.offsetY };
+    const startDistance = Math.hypot(start.x - center.x, start.y - center.y) || 1;
+    const startAngle = Math.atan2(start.y - center.y, start.x - center.x);
+    const scaleParameter = getClipParameter('scale')!;
+    const baseItems = timelineItems;
+    let updated = baseItems;
+
+    const apply = (values: Record<string, number>) => Object.entries(values).reduce(
+      (result, [parameterId, value]) => setParameterValue(result, item.id, parameterId, currentTime, value),
+      baseItems
+    );
 
-            const trackOffsetX = item.track * 40;
-            const trackOffsetY = item.track * 40;
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const point = getCanvasPoint(moveEvent.clientX, moveEvent.clientY);
+      if (handle === 'move') {
+        updated = apply({
+          positionX: Math.round(animation.positionX + (point.x - start.x) / pixelScale),
+          positionY: Math.round(animation.positionY + (point.y - start.y) / pixelScale)
+        });
+      } else if (handle === 'scale') {
+        const distance = Math.hypot(point.x - center.x, point.y - center.y);
+        const scale = Math.round(animation.scale * (distance / startDistance));
+        updated = apply({ scale: Math.max(scaleParameter.min, Math.min(scaleParameter.max, scale)) });
+      } else {
+        const delta = ((Math.atan2(point.y - center.y, point.x - center.x) - startAngle) * 180) / Math.PI;
+        let rotation = animation.rotation + delta;
+        if (moveEvent.shiftKey) rotation = Math.round(rotation / ROTATION_SNAP_DEGREES) * ROTATION_SNAP_DEGREES;
+        updated = apply({ rotation: Math.round(rotation * 10) / 10 });
+      }
+      onItemsChange?.(updated);
+    };
 
-            ctx.drawImage(
-              img,
-              offsetX + trackOffsetX,
-              offsetY + trackOffsetY,
-              renderWidth - trackOffsetX,
-              renderHeight - trackOffsetY
-            );
-          }
-        }
-      } catch (error) {
-        console.warn(`Error rendering item ${item.id}:`, error);
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      if (updated !== baseItems) {
+        onItemsChangeWithHistory(updated, TRANSFORM_LABELS[handle]);
       }
-    });
+    };
 
-    // Ripristina il contesto dopo aver applicato gli effetti
-    ctx.restore();
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
 
-    // Renderizza gli indicatori degli effetti sopra tutto (solo per preview)
-    renderEffectIndicators(ctx, canvas.width, canvas.height, activeEffects, currentTime);
-  }, [activeItems, currentTime, canvasDimensions, calculateActiveEffects, calculateGlobalAlpha, isBlackWhiteActive, calculateZoomScale, calculateBlurIntensity, renderEffectIndicators]);
+  // Salva il fotogramma corrente senza overlay, alla risoluzione delle immagini esportate
+  const handleExportFrame = useCallback(async (formatId: StillFormatId) => {
+    const format = STILL_FORMATS[formatId];
+    const size = getFrameSize(aspectRatio, STILL_BASE_WIDTH);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    try {
+      renderFrame(ctx, { time: currentTime, items: timelineItems, resolveMedia });
+      const blob = await canvasToBlob(canvas, format);
+      downloadBlob(blob, getExportFileName('frame', format.extension, `${currentTime.toFixed(2)}s`));
+    } catch (error) {
+      console.error('Frame export failed:', error);
+      toast({
+        title: "Frame export failed",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    }
+  }, [aspectRatio, currentTime, timelineItems, resolveMedia, toast]);
 
   // AGGIORNATO: Gestione elementi media migliorata - ora gestisce anche gli effetti
   useEffect(() => {
@@ -429,6 +307,7 @@ export const CompositeVideoPlayer = ({
     videoElementsRef.current.forEach((video, itemId) => {
       if (!currentItemIds.has(itemId)) {
         video.pause();
+        releasePreviewAudio(video);
         video.remove();
         videoElementsRef.current.delete(itemId);
       }
@@ -437,6 +316,7 @@ export const CompositeVideoPlayer = ({
     audioElementsRef.current.forEach((audio, itemId) => {
       if (!currentItemIds.has(itemId)) {
         audio.pause();
+        releasePreviewAudio(audio);
         audio.remove();
         audioElementsRef.current.delete(itemId);
       }
@@ -451,9 +331,20 @@ export const CompositeVideoPlayer = ({
     // Crea solo elementi nuovi (escludendo gli effetti che non hanno elementi media)
     timelineItems.forEach(item => {
       try {
+        // Aggiorna la sorgente degli elementi esistenti se il media è stato ricollegato
+        const existingElement = videoElementsRef.current.get(item.id)
+          || audioElementsRef.current.get(item.id)
+          || imageElementsRef.current.get(item.id);
+        if (existingElement && existingElement.dataset.sourceUrl !== item.mediaFile.url) {
+          existingElement.src = item.mediaFile.url;
+          existingElement.dataset.sourceUrl = item.mediaFile.url;
+          needsRenderRef.current = true;
+        }
+
         if (item.mediaFile.type === 'video' && !videoElementsRef.current.has(item.id)) {
           const video = document.createElement('video');
           video.src = item.mediaFile.url;
+          video.dataset.sourceUrl = item.mediaFile.url;
           video.crossOrigin = 'anonymous';
           video.muted = false;
           video.style.display = 'none';
@@ -462,8 +353,7 @@ export const CompositeVideoPlayer = ({
           // SICUREZZA: Imposta il volume solo dopo che l'elemento è pronto
           const setInitialVolume = () => {
             try {
-              const itemVolume = trackVolumes.get(item.id) ?? 100;
-              video.volume = Math.max(0, Math.min(1, (itemVolume / 100) * (volume / 100)));
+              setPreviewGain(video, getItemGain(item, trackVolumes) * (volume / 100));
             } catch (error) {
               console.warn(`Error setting initial video volume for ${item.id}:`, error);
             }
@@ -471,6 +361,9 @@ export const CompositeVideoPlayer = ({
           
           video.addEventListener('loadedmetadata', setInitialVolume);
           video.addEventListener('canplay', setInitialVolume);
+          video.addEventListener('error', () => {
+            onMediaErrorRef.current?.(item.mediaFile.id, 'Playback source failed to load');
+          });
           
           // OTTIMIZZAZIONE: Previeni eventi automatici
           video.addEventListener('timeupdate', (e) => e.stopPropagation());
@@ -483,6 +376,7 @@ export const CompositeVideoPlayer = ({
         } else if (item.mediaFile.type === 'audio' && !audioElementsRef.current.has(item.id)) {
           const audio = document.createElement('audio');
           audio.src = item.mediaFile.url;
+          audio.dataset.sourceUrl = item.mediaFile.url;
           audio.crossOrigin = 'anonymous';
           audio.muted = false;
           audio.preload = 'metadata';
@@ -490,8 +384,7 @@ export const CompositeVideoPlayer = ({
           // SICUREZZA: Imposta il volume solo dopo che l'elemento è pronto
           const setInitialVolume = () => {
             try {
-              const itemVolume = trackVolumes.get(item.id) ?? 100;
-              audio.volume = Math.max(0, Math.min(1, (itemVolume / 100) * (volume / 100)));
+              setPreviewGain(audio, getItemGain(item, trackVolumes) * (volume / 100));
             } catch (error) {
               console.warn(`Error setting initial audio volume for ${item.id}:`, error);
             }
@@ -499,6 +392,9 @@ export const CompositeVideoPlayer = ({
           
           audio.addEventListener('loadedmetadata', setInitialVolume);
           audio.addEventListener('canplay', setInitialVolume);
+          audio.addEventListener('error', () => {
+            onMediaErrorRef.current?.(item.mediaFile.id, 'Playback source failed to load');
+          });
           audio.addEventListener('timeupdate', (e) => e.stopPropagation());
           
           container.appendChild(audio);
@@ -509,7 +405,11 @@ export const CompositeVideoPlayer = ({
         } else if (item.mediaFile.type === 'image' && !imageElementsRef.current.has(item.id)) {
           const img = new Image();
           img.crossOrigin = 'anonymous';
+          img.onerror = () => {
+            onMediaErrorRef.current?.(item.mediaFile.id, 'Image failed to load');
+          };
           img.src = item.mediaFile.url;
+          img.dataset.sourceUrl = item.mediaFile.url;
           imageElementsRef.current.set(item.id, img);
         }
         // Gli effetti non creano elementi media, vengono gestiti direttamente nel rendering
@@ -525,6 +425,9 @@ export const CompositeVideoPlayer = ({
     
     // Filtra solo gli elementi media attivi (escludendo gli effetti)
     const activeMediaItems = activeItems.filter(item => item.mediaFile.type !== 'effect');
+
+    // Anche la riproduzione avviata da tastiera deve riprendere l'audio della preview
+    if (isPlaying) resumePreviewAudio();
     
     // Gestisci video
     videoElementsRef.current.forEach((video, itemId) => {
@@ -542,8 +445,10 @@ export const CompositeVideoPlayer = ({
 
           if (isPlaying && targetTime >= 0 && targetTime <= video.duration && video.readyState >= 2) {
             try {
-              const itemVolume = trackVolumes.get(itemId) ?? 100;
-              video.volume = Math.max(0, Math.min(1, (itemVolume / 100) * (volume / 100)));
+              // Fuori dalla sua durata il clip si vede solo per la transizione: l'audio resta quello dell'export
+              const inOwnSpan = currentTime >= item.startTime && currentTime < item.startTime + item.duration;
+              const itemGain = inOwnSpan ? getItemGainAt(item, trackVolumes, currentTime) : 0;
+              setPreviewGain(video, itemGain * (volume / 100));
               if (video.paused) {
                 video.play().catch(e => console.warn('Video play failed:', e));
               }
@@ -576,8 +481,7 @@ export const CompositeVideoPlayer = ({
 
           if (isPlaying && targetTime >= 0 && targetTime <= audio.duration && audio.readyState >= 2) {
             try {
-              const itemVolume = trackVolumes.get(itemId) ?? 100;
-              audio.volume = Math.max(0, Math.min(1, (itemVolume / 100) * (volume / 100)));
+              setPreviewGain(audio, getItemGainAt(item, trackVolumes, currentTime) * (volume / 100));
               if (audio.paused) {
                 audio.play().catch(e => console.warn('Audio play failed:', e));
               }
@@ -630,6 +534,11 @@ export const CompositeVideoPlayer = ({
     };
   }, [isPlaying, currentTime, onTimeUpdate]);
 
+  // Selezionare un altro clip cambia le maniglie da disegnare, la vista prima/dopo e il backend l'intero fotogramma
+  useEffect(() => {
+    needsRenderRef.current = true;
+  }, [selectedItemId, isPlaying, colorCompare, renderBackend]);
+
   // OTTIMIZZAZIONE: Rendering condizionale
   useEffect(() => {
     if (needsRenderRef.current) {
@@ -639,6 +548,7 @@ export const CompositeVideoPlayer = ({
 
   // Resta del codice per i controlli...
   const handlePlayPause = () => {
+    resumePreviewAudio();
     onPlayStateChange(!isPlaying);
   };
 
@@ -661,11 +571,15 @@ export const CompositeVideoPlayer = ({
     // SICUREZZA: Batch update del volume con controlli di sicurezza
     try {
       const volumeDecimal = newVolume / 100;
+      // Stesso guadagno della riproduzione: mixer e volume a keyframe al cursore
+      const getGain = (itemId: string) => {
+        const item = timelineItems.find(timelineItem => timelineItem.id === itemId);
+        return item ? getItemGainAt(item, trackVolumes, currentTime) : 0;
+      };
       videoElementsRef.current.forEach((video, itemId) => {
         try {
           if (video && !video.error && video.readyState > 0) {
-            const itemVolume = trackVolumes.get(itemId) ?? 100;
-            video.volume = Math.max(0, Math.min(1, (itemVolume / 100) * volumeDecimal));
+            setPreviewGain(video, getGain(itemId) * volumeDecimal);
           }
         } catch (error) {
           console.warn(`Error updating video volume for ${itemId}:`, error);
@@ -675,8 +589,7 @@ export const CompositeVideoPlayer = ({
       audioElementsRef.current.forEach((audio, itemId) => {
         try {
           if (audio && !audio.error && audio.readyState > 0) {
-            const itemVolume = trackVolumes.get(itemId) ?? 100;
-            audio.volume = Math.max(0, Math.min(1, (itemVolume / 100) * volumeDecimal));
+            setPreviewGain(audio, getGain(itemId) * volumeDecimal);
           }
         } catch (error) {
           console.warn(`Error updating audio volume for ${itemId}:`, error);
@@ -708,6 +621,8 @@ export const CompositeVideoPlayer = ({
             maxHeight: 'calc(100% - 20px)',
             maxWidth: 'calc(100% - 20px)'
           }}
+          onMouseDown={handleCanvasMouseDown}
+          onMouseMove={handleCanvasHover}
         />
       </div>
 
@@ -757,18 +672,54 @@ export const CompositeVideoPlayer = ({
             )}
           </div>
 
-          <div className="flex items-center space-x-2 w-24">
-            <Volume2 className="w-4 h-4 text-muted-foreground" />
-            <Slider
-              value={[volume]}
-              onValueChange={handleVolumeChange}
-              max={100}
-              step={1}
-              className="flex-1"
-            />
-            <span className="text-xs text-muted-foreground w-8">
-              {volume}%
-            </span>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant={showOverlays ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => {
+                needsRenderRef.current = true;
+                setShowOverlays(prev => !prev);
+              }}
+              className="w-8 h-8 p-0"
+              title={showOverlays ? "Hide preview overlays" : "Show preview overlays (not exported)"}
+            >
+              <Layers className="w-4 h-4" />
+            </Button>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-8 h-8 p-0"
+                  disabled={timelineItems.length === 0}
+                  title="Export current frame"
+                >
+                  <Camera className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {Object.values(STILL_FORMATS).map(format => (
+                  <DropdownMenuItem key={format.id} onClick={() => handleExportFrame(format.id)}>
+                    Export frame as {format.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <div className="flex items-center space-x-2 w-24">
+              <Volume2 className="w-4 h-4 text-muted-foreground" />
+              <Slider
+                value={[volume]}
+                onValueChange={handleVolumeChange}
+                max={100}
+                step={1}
+                className="flex-1"
+              />
+              <span className="text-xs text-muted-foreground w-8">
+                {volume}%
+              </span>
+            </div>
           </div>
         </div>
       </Card>
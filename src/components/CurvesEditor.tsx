@@ -0,0 +1,114 @@
+import { useRef } from "react";
+import { CurvePoint, evaluateCurve } from "@/lib/render/color";
+
+interface CurvesEditorProps {
+  points: CurvePoint[];
+  color: string;
+  onChange: (points: CurvePoint[], commit: boolean) => void; // commit = fine trascinamento, con history
+}
+
+// Dimensione del disegno in unità SVG e campioni usati per tracciare la curva
+const SIZE = 200;
+const SAMPLES = 64;
+// Distanza minima in ingresso tra due punti, perché la curva resti una funzione
+const MIN_POINT_GAP = 0.02;
+const HIT_RADIUS = 0.04;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Editor della curva: click su uno spazio vuoto aggiunge un punto, trascinamento per spostarlo,
+// doppio click per rimuoverlo. Gli estremi si spostano solo in verticale
+export const CurvesEditor = ({ points, color, onChange }: CurvesEditorProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+
+  const toCurve = (clientX: number, clientY: number): CurvePoint => {
+    const bounds = svgRef.current!.getBoundingClientRect();
+    return {
+      x: clamp01((clientX - bounds.left) / bounds.width),
+      y: clamp01(1 - (clientY - bounds.top) / bounds.height)
+    };
+  };
+
+  const startDrag = (index: number, initial: CurvePoint[]) => {
+    const isEndpoint = index === 0 || index === initial.length - 1;
+    let current = initial;
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const point = toCurve(moveEvent.clientX, moveEvent.clientY);
+      const x = isEndpoint
+        ? initial[index].x
+        : Math.max(initial[index - 1].x + MIN_POINT_GAP, Math.min(initial[index + 1].x - MIN_POINT_GAP, point.x));
+      current = initial.map((p, i) => i === index ? { x, y: point.y } : p);
+      onChange(current, false);
+    };
+
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      onChange(current, true);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const point = toCurve(e.clientX, e.clientY);
+    const hit = sorted.findIndex(p => Math.hypot(p.x - point.x, p.y - point.y) <= HIT_RADIUS);
+    if (hit >= 0) {
+      startDrag(hit, sorted);
+      return;
+    }
+
+    if (sorted.some(p => Math.abs(p.x - point.x) < MIN_POINT_GAP)) return;
+    const added = [...sorted, point].sort((a, b) => a.x - b.x);
+    onChange(added, false);
+    startDrag(added.indexOf(point), added);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    const point = toCurve(e.clientX, e.clientY);
+    const hit = sorted.findIndex(p => Math.hypot(p.x - point.x, p.y - point.y) <= HIT_RADIUS);
+    if (hit > 0 && hit < sorted.length - 1) {
+      onChange(sorted.filter((_, i) => i !== hit), true);
+    }
+  };
+
+  const path = Array.from({ length: SAMPLES + 1 }, (_, i) => {
+    const x = i / SAMPLES;
+    const y = clamp01(evaluateCurve(sorted, x));
+    return `${i === 0 ? 'M' : 'L'}${(x * SIZE).toFixed(1)},${((1 - y) * SIZE).toFixed(1)}`;
+  }).join(' ');
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      className="w-full aspect-square bg-black/60 rounded border border-border cursor-crosshair select-none"
+      onMouseDown={handleMouseDown}
+      onDoubleClick={handleDoubleClick}
+    >
+      {[0.25, 0.5, 0.75].map(line => (
+        <g key={line} stroke="rgba(255, 255, 255, 0.12)">
+          <line x1={line * SIZE} y1={0} x2={line * SIZE} y2={SIZE} />
+          <line x1={0} y1={line * SIZE} x2={SIZE} y2={line * SIZE} />
+        </g>
+      ))}
+      <line x1={0} y1={SIZE} x2={SIZE} y2={0} stroke="rgba(255, 255, 255, 0.2)" strokeDasharray="4 4" />
+      <path d={path} fill="none" stroke={color} strokeWidth={2} />
+      {sorted.map((point, index) => (
+        <circle
+          key={index}
+          cx={point.x * SIZE}
+          cy={(1 - point.y) * SIZE}
+          r={5}
+          fill="#000000"
+          stroke={color}
+          strokeWidth={2}
+        />
+      ))}
+    </svg>
+  );
+};
@@ -0,0 +1,110 @@
+import { Button } from "@/components/ui/button";
+import { RotateCcw, SlidersHorizontal } from "lucide-react";
+import type { TimelineItem } from "./VideoEditor";
+import { EffectParameterField } from "./EffectParameterField";
+import { KeyframedParameter } from "./KeyframedParameter";
+import { getEffectItemParams, setEffectItemParams } from "@/lib/render/effects";
+import { INTENSITY_PARAMETER, getDefaultEffectParams, getEffectDefinition } from "@/lib/effects";
+import type { EffectParamValue } from "@/lib/effects";
+
+interface EffectInspectorProps {
+  item: TimelineItem;
+  items: TimelineItem[];
+  currentTime: number;
+  onItemsChange: (items: TimelineItem[]) => void; // Durante il trascinamento degli slider, senza history
+  onItemsChangeWithHistory: (items: TimelineItem[], label: string) => void;
+  onSeek: (time: number) => void;
+}
+
+// Parametri dell'elemento 'effect' selezionato sulla timeline, generati dallo schema del suo plugin.
+// L'intensità si anima a keyframe; gli altri parametri valgono per tutta la durata dell'elemento
+export const EffectInspector = ({
+  item,
+  items,
+  currentTime,
+  onItemsChange,
+  onItemsChangeWithHistory,
+  onSeek
+}: EffectInspectorProps) => {
+  const definition = getEffectDefinition(item.mediaFile.effectType);
+  const params = getEffectItemParams(item);
+
+  const withValue = (parameterId: string, value: EffectParamValue) => {
+    return setEffectItemParams(items, item.id, { ...params, [parameterId]: value });
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 py-3 border-b border-border">
+        <h3 className="text-sm font-medium flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          Inspector
+        </h3>
+        <p className="text-xs text-muted-foreground truncate">{item.mediaFile.name}</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 divide-y divide-border">
+        {!definition ? (
+          <p className="py-3 text-xs text-muted-foreground">This effect is not available in this version of the editor.</p>
+        ) : definition.parameters.length === 0 ? (
+          <p className="py-3 text-xs text-muted-foreground">{definition.name} has no parameters.</p>
+        ) : (
+          definition.parameters.map(parameter => parameter.id === INTENSITY_PARAMETER && parameter.type === 'number' ? (
+            <KeyframedParameter
+              key={parameter.id}
+              parameter={{
+                id: INTENSITY_PARAMETER,
+                name: parameter.name,
+                min: parameter.min,
+                max: parameter.max,
+                step: parameter.step,
+                defaultValue: params[INTENSITY_PARAMETER] as number,
+                unit: parameter.unit ?? '',
+                mediaTypes: ['effect']
+              }}
+              item={item}
+              items={items}
+              currentTime={currentTime}
+              onItemsChange={onItemsChange}
+              onItemsChangeWithHistory={onItemsChangeWithHistory}
+              onSeek={onSeek}
+            />
+          ) : (
+            <div key={parameter.id} className="py-3">
+              <EffectParameterField
+                parameter={parameter}
+                value={params[parameter.id]}
+                onChange={value => onItemsChange(withValue(parameter.id, value))}
+                onCommit={value => onItemsChangeWithHistory(
+                  withValue(parameter.id, value),
+                  `Change ${definition.name} ${parameter.name.toLowerCase()}`
+                )}
+              />
+            </div>
+          ))
+        )}
+
+        {definition && definition.parameters.length > 0 && (
+          <div className="py-3">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 w-full text-xs"
+              onClick={() => onItemsChangeWithHistory(
+                setEffectItemParams(items, item.id, getDefaultEffectParams(definition)),
+                `Reset ${definition.name}`
+              )}
+            >
+              <RotateCcw className="w-3 h-3 mr-1" />
+              Reset to Defaults
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {definition && (
+        <p className="px-4 py-2 border-t border-border text-[10px] text-muted-foreground">{definition.previewHint}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import { useRef } from "react";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getEnumOptions } from "@/lib/effects";
+import type { EffectParameter, EffectParamValue } from "@/lib/effects";
+
+interface EffectParameterFieldProps {
+  parameter: EffectParameter;
+  value: EffectParamValue;
+  onChange: (value: EffectParamValue) => void; // Durante il trascinamento
+  onCommit?: (value: EffectParamValue) => void; // A modifica conclusa (per la history); assente = onChange
+}
+
+// Controllo generato dallo schema di un parametro di effetto
+export const EffectParameterField = ({ parameter, value, onChange, onCommit = onChange }: EffectParameterFieldProps) => {
+  // Il selettore colore cambia il valore di continuo: si conclude all'uscita, solo se è cambiato
+  const colorOnFocusRef = useRef<string | null>(null);
+
+  const renderControl = () => {
+    switch (parameter.type) {
+      case 'number':
+        return (
+          <Slider
+            value={[value as number]}
+            min={parameter.min}
+            max={parameter.max}
+            step={parameter.step}
+            onValueChange={([newValue]) => onChange(newValue)}
+            onValueCommit={([newValue]) => onCommit(newValue)}
+          />
+        );
+      case 'color':
+        return (
+          <input
+            type="color"
+            value={value as string}
+            onFocus={event => { colorOnFocusRef.current = event.target.value; }}
+            onChange={event => onChange(event.target.value)}
+            onBlur={event => {
+              if (event.target.value !== colorOnFocusRef.current) onCommit(event.target.value);
+            }}
+            className="h-8 w-full cursor-pointer rounded border bg-transparent"
+          />
+        );
+      case 'enum': {
+        const options = getEnumOptions(parameter);
+        if (options.length === 0) {
+          return <p className="text-xs text-muted-foreground">{parameter.emptyMessage ?? 'No options available.'}</p>;
+        }
+        return (
+          <Select value={value as string} onValueChange={onCommit}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map(option => (
+                <SelectItem key={option.value} value={option.value} className="text-xs">{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+      case 'bool':
+        return <Switch checked={value as boolean} onCheckedChange={onCommit} />;
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium text-muted-foreground">{parameter.name}</span>
+        {parameter.type === 'number' && (
+          <span className="tabular-nums">{value}{parameter.unit ?? ''}</span>
+        )}
+      </div>
+      {renderControl()}
+    </div>
+  );
+};
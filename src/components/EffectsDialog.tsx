@@ -2,109 +2,43 @@ import { useState, useCallback } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Slider } from "@/components/ui/slider";
-import { TrendingUp, TrendingDown, Sparkles, X, Info, Filter, ZoomIn, ZoomOut, Circle } from "lucide-react";
+import { TrendingUp, TrendingDown, Sparkles, X, Info, Filter, ChevronUp, ChevronDown, Trash2, Layers } from "lucide-react";
 import { TimelineItem } from "./VideoEditor";
-
-interface Effect {
-  id: string;
-  name: string;
-  description: string;
-  icon: React.ComponentType<{ className?: string }>;
-  category: 'transition' | 'visual' | 'audio';
-  duration: number; // Durata predefinita in secondi
-  previewHint: string; // Suggerimento per l'anteprima
-  hasIntensityControl?: boolean; // Se l'effetto ha controllo intensità
-  defaultIntensity?: number; // Intensità di default (0-100)
-  intensityLabel?: string; // Label per lo slider
-}
+import { EffectParameterField } from "./EffectParameterField";
+import { ClipEffect, getClipEffectValues, moveClipEffect, removeClipEffect } from "@/lib/render/effects";
+import {
+  formatEffectParams,
+  getDefaultEffectParams,
+  getEffectDefinition,
+  getEffectDefinitions,
+  getEffectName,
+  getMissingParameter,
+  resolveEffectParams
+} from "@/lib/effects";
+import type { EffectDefinition, EffectParams } from "@/lib/effects";
 
 interface EffectsDialogProps {
   isOpen: boolean;
   onClose: () => void;
   timelineItems: TimelineItem[];
   selectedItemId?: string;
-  onApplyEffect: (effectId: string, itemId?: string, intensity?: number) => void;
+  onApplyEffect: (effectId: string, itemId: string | undefined, params: EffectParams) => void;
+  onTimelineItemsChange: (items: TimelineItem[], label: string) => void; // Modifiche allo stack del clip, con history
 }
 
-const AVAILABLE_EFFECTS: Effect[] = [
-  {
-    id: 'fade-in',
-    name: 'Fade In',
-    description: 'Gradually increase opacity from 0 to 100%',
-    icon: TrendingUp,
-    category: 'transition',
-    duration: 2,
-    previewHint: 'Creates a smooth transition from transparent to opaque'
-  },
-  {
-    id: 'fade-out',
-    name: 'Fade Out',
-    description: 'Gradually decrease opacity from 100% to 0',
-    icon: TrendingDown,
-    category: 'transition',
-    duration: 2,
-    previewHint: 'Creates a smooth transition from opaque to transparent'
-  },
-  {
-    id: 'black-white',
-    name: 'Black & White',
-    description: 'Convert colors to grayscale for artistic effect',
-    icon: Filter,
-    category: 'visual',
-    duration: 3,
-    previewHint: 'Removes all color information, creating a classic black and white look'
-  },
-  {
-    id: 'zoom-in',
-    name: 'Zoom In',
-    description: 'Gradually zoom into the content with customizable intensity',
-    icon: ZoomIn,
-    category: 'visual',
-    duration: 3,
-    previewHint: 'Smoothly scales up the content from normal to zoomed view',
-    hasIntensityControl: true,
-    defaultIntensity: 50, // 50% = 1.5x zoom
-    intensityLabel: 'Zoom Level'
-  },
-  {
-    id: 'zoom-out',
-    name: 'Zoom Out',
-    description: 'Gradually zoom out from normal size with customizable intensity',
-    icon: ZoomOut,
-    category: 'visual',
-    duration: 3,
-    previewHint: 'Smoothly scales down the content from normal to smaller view',
-    hasIntensityControl: true,
-    defaultIntensity: 50, // 50% = 0.5x zoom (rimpicciolisce)
-    intensityLabel: 'Zoom Level'
-  },
-  {
-    id: 'blur',
-    name: 'Blur',
-    description: 'Apply customizable blur effect to content',
-    icon: Circle,
-    category: 'visual',
-    duration: 3,
-    previewHint: 'Creates a soft, unfocused look with adjustable intensity',
-    hasIntensityControl: true,
-    defaultIntensity: 50, // 50% blur
-    intensityLabel: 'Blur Intensity'
-  }
-];
-
 export const EffectsDialog = ({
   isOpen,
   onClose,
   timelineItems,
   selectedItemId,
-  onApplyEffect
+  onApplyEffect,
+  onTimelineItemsChange
 }: EffectsDialogProps) => {
   const [selectedEffect, setSelectedEffect] = useState<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [effectIntensity, setEffectIntensity] = useState<number>(50); // Intensità dell'effetto (0-100)
+  const [effectParams, setEffectParams] = useState<EffectParams>({}); // Parametri dell'effetto selezionato
 
-  const filteredEffects = AVAILABLE_EFFECTS.filter(effect =>
+  const filteredEffects = getEffectDefinitions().filter(effect =>
     selectedCategory === 'all' || effect.category === selectedCategory
   );
 
@@ -115,51 +49,51 @@ export const EffectsDialog = ({
     { id: 'audio', name: 'Audio', icon: TrendingDown }
   ];
 
+  const selectedEffectData = getEffectDefinition(selectedEffect ?? undefined);
+  // Valori validi anche se nel frattempo le opzioni sono cambiate (es. LUT rimossa dalla libreria)
+  const resolvedParams = selectedEffectData ? resolveEffectParams(selectedEffectData, effectParams) : {};
+  const missingParameter = selectedEffectData ? getMissingParameter(selectedEffectData) : null;
+
   const handleEffectSelect = useCallback((effectId: string) => {
     setSelectedEffect(effectId);
-    // Imposta l'intensità di default quando si seleziona un effetto
-    const effect = AVAILABLE_EFFECTS.find(e => e.id === effectId);
-    if (effect && effect.hasIntensityControl) {
-      setEffectIntensity(effect.defaultIntensity || 50);
-    }
+    // Parte dai valori predefiniti dello schema
+    const definition = getEffectDefinition(effectId);
+    setEffectParams(definition ? getDefaultEffectParams(definition) : {});
   }, []);
 
   const handleApplyEffect = useCallback(() => {
     if (selectedEffect) {
-      const effect = AVAILABLE_EFFECTS.find(e => e.id === selectedEffect);
-      const intensity = effect?.hasIntensityControl ? effectIntensity : undefined;
-      onApplyEffect(selectedEffect, selectedItemId, intensity);
+      // I valori vengono validati sullo schema da chi applica l'effetto
+      onApplyEffect(selectedEffect, selectedItemId, effectParams);
       setSelectedEffect(null);
       onClose();
     }
-  }, [selectedEffect, selectedItemId, effectIntensity, onApplyEffect, onClose]);
+  }, [selectedEffect, selectedItemId, effectParams, onApplyEffect, onClose]);
 
   const handleClose = useCallback(() => {
     setSelectedEffect(null);
-    setEffectIntensity(50);
+    setEffectParams({});
     onClose();
   }, [onClose]);
 
-  const getEffectPreview = (effect: Effect) => {
-    switch (effect.id) {
-      case 'fade-in':
-        return `opacity: 0 → 100% (${effect.duration}s)`;
-      case 'fade-out':
-        return `opacity: 100% → 0 (${effect.duration}s)`;
-      case 'black-white':
-        return `color → grayscale (${effect.duration}s)`;
-      case 'zoom-in':
-        return `zoom: 100% → ${100 + effectIntensity}% (${effect.duration}s)`;
-      case 'zoom-out':
-        return `zoom: 100% → ${100 - effectIntensity}% (${effect.duration}s)`;
-      case 'blur':
-        return `blur: 0% → ${effectIntensity}% (${effect.duration}s)`;
-      default:
-        return `${effect.description} (${effect.duration}s)`;
-    }
+  const getEffectPreview = (effect: EffectDefinition) => {
+    const params = effect.id === selectedEffect ? resolvedParams : getDefaultEffectParams(effect);
+    const summary = effect.summarize?.(params) ?? effect.description;
+    return effect.clipOnly ? summary : `${summary} (${effect.defaultDuration}s)`;
   };
 
-  const selectedEffectData = selectedEffect ? AVAILABLE_EFFECTS.find(e => e.id === selectedEffect) : null;
+  // Clip selezionato che riceve gli effetti nel proprio stack (gli effetti globali vanno sulla timeline)
+  const selectedClip = timelineItems.find(item =>
+    item.id === selectedItemId && (item.mediaFile.type === 'video' || item.mediaFile.type === 'image')
+  );
+  const clipEffects = selectedClip?.effects ?? [];
+
+  const getClipEffectDetail = (effect: ClipEffect) => {
+    const definition = getEffectDefinition(effect.type);
+    if (!definition) return '';
+    if (definition.edge) return `${effect.duration ?? 1}s`;
+    return formatEffectParams(definition, resolveEffectParams(definition, getClipEffectValues(effect)));
+  };
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
@@ -205,7 +139,7 @@ export const EffectsDialog = ({
 
               {selectedItemId && (
                 <div className="text-xs text-muted-foreground">
-                  Applying to selected item
+                  {selectedClip ? `Applying to ${selectedClip.mediaFile.name}` : 'Applying to selected item'}
                 </div>
               )}
             </div>
@@ -251,11 +185,11 @@ export const EffectsDialog = ({
 
                         {/* Duration badge */}
                         <span className="text-[10px] bg-red-500/20 text-red-600 px-2 py-0.5 rounded-full">
-                          {effect.duration}s
+                          {effect.clipOnly ? 'Clip' : `${effect.defaultDuration}s`}
                         </span>
 
-                        {/* Intensity Control Indicator - rosso */}
-                        {effect.hasIntensityControl && (
+                        {/* Indicatore dei parametri personalizzabili - rosso */}
+                        {effect.parameters.length > 0 && (
                           <div className="absolute top-2 left-2 w-3 h-3 bg-red-500 rounded-full flex items-center justify-center">
                             <div className="w-1 h-1 bg-white rounded-full" />
                           </div>
@@ -286,96 +220,125 @@ export const EffectsDialog = ({
             </div>
           </div>
 
-          {/* Right Sidebar - Effect Details */}
-          {selectedEffectData && (
-            <div className="w-64 space-y-4">
-              <div className="border rounded-lg p-4">
-                <h3 className="font-medium text-sm mb-3 flex items-center gap-2">
-                  <Info className="w-4 h-4" />
-                  Effect Details
-                </h3>
+          {/* Right Sidebar - Clip Effects Stack ed Effect Details */}
+          {(selectedEffectData || selectedClip) && (
+            <div className="w-64 space-y-4 overflow-y-auto">
+              {selectedClip && (
+                <div className="border rounded-lg p-4">
+                  <h3 className="font-medium text-sm mb-1 flex items-center gap-2">
+                    <Layers className="w-4 h-4" />
+                    Clip Effects
+                  </h3>
+                  <p className="text-xs text-muted-foreground truncate mb-3">{selectedClip.mediaFile.name}</p>
+
+                  {clipEffects.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No effects on this clip yet</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {clipEffects.map((effect, index) => (
+                        <div key={effect.id} className="flex items-center gap-1 text-xs rounded bg-muted/50 px-2 py-1">
+                          <span className="flex-1 truncate">{getEffectName(effect.type)}</span>
+                          <span className="text-muted-foreground">{getClipEffectDetail(effect)}</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-5 w-5 p-0"
+                            disabled={index === 0}
+                            onClick={() => onTimelineItemsChange(moveClipEffect(timelineItems, selectedClip.id, effect.id, -1), 'Reorder clip effects')}
+                            title="Move up"
+                          >
+                            <ChevronUp className="w-3 h-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-5 w-5 p-0"
+                            disabled={index === clipEffects.length - 1}
+                            onClick={() => onTimelineItemsChange(moveClipEffect(timelineItems, selectedClip.id, effect.id, 1), 'Reorder clip effects')}
+                            title="Move down"
+                          >
+                            <ChevronDown className="w-3 h-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-5 w-5 p-0 text-destructive hover:text-destructive"
+                            onClick={() => onTimelineItemsChange(
+                              removeClipEffect(timelineItems, selectedClip.id, effect.id),
+                              `Remove ${getEffectName(effect.type)} from clip`
+                            )}
+                            title="Remove effect"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {selectedEffectData && (
+                <div className="border rounded-lg p-4">
+                  <h3 className="font-medium text-sm mb-3 flex items-center gap-2">
+                    <Info className="w-4 h-4" />
+                    Effect Details
+                  </h3>
                 
-                <div className="space-y-3">
-                  <div>
-                    <p className="text-xs font-medium text-muted-foreground mb-1">Name</p>
-                    <p className="text-sm">{selectedEffectData.name}</p>
-                  </div>
-                  
-                  <div>
-                    <p className="text-xs font-medium text-muted-foreground mb-1">Duration</p>
-                    <p className="text-sm">{selectedEffectData.duration} seconds</p>
-                  </div>
+                  <div className="space-y-3">
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground mb-1">Name</p>
+                      <p className="text-sm">{selectedEffectData.name}</p>
+                    </div>
                   
-                  <div>
-                    <p className="text-xs font-medium text-muted-foreground mb-1">Category</p>
-                    <p className="text-sm capitalize">{selectedEffectData.category}</p>
-                  </div>
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground mb-1">Duration</p>
+                      <p className="text-sm">{selectedEffectData.clipOnly ? 'Whole clip' : `${selectedEffectData.defaultDuration} seconds`}</p>
+                    </div>
 
-                  {/* Controllo Intensità per effetti con controlli personalizzabili */}
-                  {selectedEffectData.hasIntensityControl && (
+                  
                     <div>
-                      <p className="text-xs font-medium text-muted-foreground mb-2">
-                        {selectedEffectData.intensityLabel || 'Intensity'}
-                      </p>
-                      <div className="space-y-2">
-                        <Slider
-                          value={[effectIntensity]}
-                          onValueChange={(value) => setEffectIntensity(value[0])}
-                          max={100}
-                          min={0}
-                          step={1}
-                          className="w-full"
-                        />
-                        <div className="flex justify-between text-xs text-muted-foreground">
-                          <span>0%</span>
-                          <span className="font-medium">{effectIntensity}%</span>
-                          <span>100%</span>
-                        </div>
-                        {selectedEffectData.id === 'zoom-in' && (
-                          <p className="text-[10px] text-muted-foreground mt-1">
-                            Zooms from normal size to {100 + effectIntensity}% magnification
-                          </p>
-                        )}
-                        {selectedEffectData.id === 'zoom-out' && (
-                          <p className="text-[10px] text-muted-foreground mt-1">
-                            Zooms from normal size to {100 - effectIntensity}% reduction
-                          </p>
-                        )}
-                        {selectedEffectData.id === 'blur' && (
-                          <p className="text-[10px] text-muted-foreground mt-1">
-                            Applies {effectIntensity}% blur intensity to the content
-                          </p>
-                        )}
-                      </div>
+                      <p className="text-xs font-medium text-muted-foreground mb-1">Category</p>
+                      <p className="text-sm capitalize">{selectedEffectData.category}</p>
                     </div>
-                  )}
+
+                    {/* Controlli generati dallo schema dei parametri */}
+                    {selectedEffectData.parameters.map(parameter => (
+                      <EffectParameterField
+                        key={parameter.id}
+                        parameter={parameter}
+                        value={resolvedParams[parameter.id]}
+                        onChange={value => setEffectParams(params => ({ ...params, [parameter.id]: value }))}
+                      />
+                    ))}
                   
-                  <div>
-                    <p className="text-xs font-medium text-muted-foreground mb-1">Description</p>
-                    <p className="text-xs text-muted-foreground">{selectedEffectData.description}</p>
-                  </div>
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground mb-1">Description</p>
+                      <p className="text-xs text-muted-foreground">{selectedEffectData.description}</p>
+                    </div>
                   
-                  <div>
-                    <p className="text-xs font-medium text-muted-foreground mb-1">Preview</p>
-                    <p className="text-xs text-muted-foreground">{selectedEffectData.previewHint}</p>
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground mb-1">Preview</p>
+                      <p className="text-xs text-muted-foreground">{selectedEffectData.previewHint}</p>
+                    </div>
                   </div>
-                </div>
 
-                {/* Color indicator per la timeline */}
-                <div className="mt-3 pt-3 border-t">
-                  <p className="text-xs font-medium text-muted-foreground mb-2">Timeline Appearance</p>
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-4 bg-red-600 rounded border"></div>
-                    <span className="text-xs text-muted-foreground">Effects appear in red</span>
-                  </div>
-                  {selectedEffectData.hasIntensityControl && (
-                    <div className="flex items-center gap-2 mt-1">
-                      <div className="w-4 h-4 bg-red-500 rounded-full border"></div>
-                      <span className="text-xs text-muted-foreground">Customizable intensity</span>
+                  {/* Color indicator per la timeline */}
+                  <div className="mt-3 pt-3 border-t">
+                    <p className="text-xs font-medium text-muted-foreground mb-2">Timeline Appearance</p>
+                    <div className="flex items-center gap-2">
+                      <div className="w-4 h-4 bg-red-600 rounded border"></div>
+                      <span className="text-xs text-muted-foreground">Effects appear in red</span>
                     </div>
-                  )}
+                    {selectedEffectData.parameters.length > 0 && (
+                      <div className="flex items-center gap-2 mt-1">
+                        <div className="w-4 h-4 bg-red-500 rounded-full border"></div>
+                        <span className="text-xs text-muted-foreground">Customizable parameters</span>
+                      </div>
+                    )}
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
           )}
         </div>
@@ -386,14 +349,16 @@ export const EffectsDialog = ({
             {selectedEffect ? (
               <>
                 Selected: <span className="font-medium">
-                  {AVAILABLE_EFFECTS.find(e => e.id === selectedEffect)?.name}
+                  {selectedEffectData?.name}
                 </span>
-                {selectedEffectData?.hasIntensityControl && (
+                {selectedEffectData && selectedEffectData.parameters.length > 0 && (
                   <span className="ml-2 text-xs">
-                    ({effectIntensity}% intensity)
+                    ({formatEffectParams(selectedEffectData, resolvedParams)})
                   </span>
                 )}
-                {selectedItemId ? (
+                {selectedClip ? (
+                  <span className="ml-2 text-xs">(will be added to the clip's effect stack)</span>
+                ) : selectedItemId ? (
                   <span className="ml-2 text-xs">(will be applied to selected item)</span>
                 ) : (
                   <span className="ml-2 text-xs">(will be added at current time)</span>
@@ -412,7 +377,11 @@ export const EffectsDialog = ({
 
             <Button
               onClick={handleApplyEffect}
-              disabled={!selectedEffect}
+              disabled={
+                !selectedEffect ||
+                (selectedEffectData?.clipOnly && !selectedClip) ||
+                !!missingParameter
+              }
               className="bg-gradient-primary hover:opacity-90"
             >
               <Sparkles className="w-4 h-4 mr-2" />
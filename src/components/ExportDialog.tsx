@@ -1,921 +1,562 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
-import { Download, CheckCircle, X, AlertCircle, Cpu } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Download, ListPlus } from "lucide-react";
 import { TimelineItem } from "./VideoEditor";
+import { ExportSettingsPanel } from "./ExportSettingsPanel";
+import { AnimatedExportPanel } from "./AnimatedExportPanel";
+import { PreflightReport } from "./PreflightReport";
+import { getTotalFrames } from "@/lib/export/offlineExport";
+import {
+  EXPORT_FORMATS,
+  EncodingSettings,
+  ExportFormatId,
+  FormatSupport,
+  checkFormatSupport,
+  isFormatSupported
+} from "@/lib/export/formats";
+import {
+  BUILT_IN_PRESETS,
+  DEFAULT_PRESET,
+  ExportPreset,
+  ExportSettings,
+  calculateVideoBitrate,
+  createPreset,
+  estimateFileSizeMB,
+  getOutputSize,
+  loadCustomPresets,
+  saveCustomPresets
+} from "@/lib/export/presets";
+import {
+  EXPORT_RANGE_LABELS,
+  ExportRangeMode,
+  formatRangeTime,
+  getDefaultRangeMode,
+  getExportRanges,
+  getRangeDuration
+} from "@/lib/export/range";
+import { AUDIO_FORMATS, AudioFormatId, isAudioFormatSupported } from "@/lib/export/audioExport";
+import {
+  MAX_SEQUENCE_FRAMES,
+  MAX_SEQUENCE_SIZE_MB,
+  STILL_FORMATS,
+  StillFormatId,
+  estimateSequenceSizeMB,
+  getSequenceFrameTimes
+} from "@/lib/export/stills";
+import {
+  ANIMATED_FORMATS,
+  AnimatedSettings,
+  DEFAULT_ANIMATED_SETTINGS,
+  estimateAnimatedSizeMB,
+  getAnimatedFrameSize,
+  getAnimatedFrameTimes,
+  getEffectiveFrameRate
+} from "@/lib/export/animated";
+import { isWebpEncodingSupported } from "@/lib/export/animatedWebp";
+import { PreflightIssue, checkMediaSources, checkTimeline, getFormatIssues, getSequenceIssues, hasBlockingIssues } from "@/lib/export/preflight";
+import { ExportRequest, ExportSnapshot } from "@/lib/export/tasks";
+import { InOutMarkers } from "@/lib/timeline";
 
 interface ExportDialogProps {
   isOpen: boolean;
   onClose: () => void;
   timelineItems: TimelineItem[];
-  totalDuration: number;
   aspectRatio: '16:9' | '4:3' | '9:16';
   selectedFPS: 24 | 30 | 60;
   trackVolumes: Map<string, number>;
+  markers: InOutMarkers;
+  selectedItemIds: string[];
+  onQueueExport: (request: ExportRequest) => void;
+  onMediaLoadError?: (mediaFileId: string, reason: string) => void;
+  onRelinkMedia?: () => void;
 }
 
-interface MediaCache {
-  videos: Map<string, HTMLVideoElement>;
-  audios: Map<string, HTMLAudioElement>;
-  images: Map<string, HTMLImageElement>;
-}
-
-interface ExportStats {
-  framesRendered: number;
-  framesTotal: number;
-  startTime: number;
-  avgFrameTime: number;
-  estimatedTimeLeft: string;
-}
+type ExportMode = 'video' | 'audio' | 'frames' | 'animated';
 
 export const ExportDialog = ({ 
   isOpen, 
   onClose, 
   timelineItems, 
-  totalDuration, 
   aspectRatio,
   selectedFPS,
-  trackVolumes 
+  trackVolumes,
+  markers,
+  selectedItemIds,
+  onQueueExport,
+  onMediaLoadError,
+  onRelinkMedia
 }: ExportDialogProps) => {
-  const [progress, setProgress] = useState(0);
-  const [status, setStatus] = useState<'preparing' | 'loading' | 'rendering' | 'encoding' | 'completed' | 'error'>('preparing');
-  const [exportStats, setExportStats] = useState<ExportStats>({
-    framesRendered: 0,
-    framesTotal: 0,
-    startTime: 0,
-    avgFrameTime: 0,
-    estimatedTimeLeft: ''
-  });
-  const [qualityMode, setQualityMode] = useState<'standard' | 'high'>('standard');
-  
-  // Refs
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const recordedChunksRef = useRef<Blob[]>([]);
-  const cancelledRef = useRef<boolean>(false);
-  const renderingRef = useRef<boolean>(false);
-  const mediaCacheRef = useRef<MediaCache>({
-    videos: new Map(),
-    audios: new Map(),
-    images: new Map()
-  });
-  const audioNodesRef = useRef<Map<string, { element: HTMLAudioElement | HTMLVideoElement; gainNode: GainNode; source: MediaElementAudioSourceNode }>>(new Map());
-
-  // Calculate dimensions based on quality and aspect ratio
-  const getCanvasDimensions = useCallback(() => {
-    const baseWidth = qualityMode === 'high' ? 1920 : 1280;
-    
-    switch (aspectRatio) {
-      case '16:9':
-        return { width: baseWidth, height: Math.round(baseWidth / (16/9)) };
-      case '4:3':
-        return { width: baseWidth, height: Math.round(baseWidth / (4/3)) };
-      case '9:16':
-        return { width: Math.round(baseWidth * (9/16)), height: baseWidth };
-      default:
-        return { width: baseWidth, height: Math.round(baseWidth / (16/9)) };
-    }
-  }, [aspectRatio, qualityMode]);
-
-  // Preload all media elements
-  const preloadMedia = useCallback(async () => {
-    if (cancelledRef.current) return;
-    
-    setStatus('loading');
-    const cache = mediaCacheRef.current;
-    
-    // Filter unique media items
-    const mediaItems = timelineItems.filter(item => 
-      item.mediaFile.type !== 'effect'
-    );
-    
-    const loadPromises = mediaItems.map(async (item, index) => {
-      if (cancelledRef.current) return;
-      
-      try {
-        if (item.mediaFile.type === 'video' && !cache.videos.has(item.id)) {
-          const video = document.createElement('video');
-          video.src = item.mediaFile.url;
-          video.crossOrigin = 'anonymous';
-          video.muted = false;
-          video.preload = 'auto';
-          video.playsInline = true;
-          
-          await new Promise<void>((resolve, reject) => {
-            const timeout = setTimeout(() => {
-              reject(new Error(`Video load timeout: ${item.mediaFile.name}`));
-            }, 10000);
-            
-            const handleLoad = () => {
-              clearTimeout(timeout);
-              video.removeEventListener('loadeddata', handleLoad);
-              video.removeEventListener('error', handleError);
-              
-              // Set volume
-              const itemVolume = trackVolumes.get(item.id) ?? 100;
-              video.volume = Math.max(0, Math.min(1, itemVolume / 100));
-              
-              cache.videos.set(item.id, video);
-              resolve();
-            };
-            
-            const handleError = (e: any) => {
-              clearTimeout(timeout);
-              video.removeEventListener('loadeddata', handleLoad);
-              video.removeEventListener('error', handleError);
-              reject(new Error(`Failed to load video: ${item.mediaFile.name}`));
-            };
-            
-            video.addEventListener('loadeddata', handleLoad);
-            video.addEventListener('error', handleError);
-          });
-        }
-        
-        if (item.mediaFile.type === 'audio' && !cache.audios.has(item.id)) {
-          const audio = document.createElement('audio');
-          audio.src = item.mediaFile.url;
-          audio.crossOrigin = 'anonymous';
-          audio.preload = 'auto';
-          
-          await new Promise<void>((resolve, reject) => {
-            const timeout = setTimeout(() => {
-              reject(new Error(`Audio load timeout: ${item.mediaFile.name}`));
-            }, 8000);
-            
-            const handleLoad = () => {
-              clearTimeout(timeout);
-              audio.removeEventListener('loadeddata', handleLoad);
-              audio.removeEventListener('error', handleError);
-              
-              // Set volume
-              const itemVolume = trackVolumes.get(item.id) ?? 100;
-              audio.volume = Math.max(0, Math.min(1, itemVolume / 100));
-              
-              cache.audios.set(item.id, audio);
-              resolve();
-            };
-            
-            const handleError = (e: any) => {
-              clearTimeout(timeout);
-              audio.removeEventListener('loadeddata', handleLoad);
-              audio.removeEventListener('error', handleError);
-              reject(new Error(`Failed to load audio: ${item.mediaFile.name}`));
-            };
-            
-            audio.addEventListener('loadeddata', handleLoad);
-            audio.addEventListener('error', handleError);
-          });
-        }
-        
-        if (item.mediaFile.type === 'image' && !cache.images.has(item.id)) {
-          const img = new Image();
-          img.crossOrigin = 'anonymous';
-          
-          await new Promise<void>((resolve, reject) => {
-            const timeout = setTimeout(() => {
-              reject(new Error(`Image load timeout: ${item.mediaFile.name}`));
-            }, 5000);
-            
-            img.onload = () => {
-              clearTimeout(timeout);
-              cache.images.set(item.id, img);
-              resolve();
-            };
-            
-            img.onerror = () => {
-              clearTimeout(timeout);
-              reject(new Error(`Failed to load image: ${item.mediaFile.name}`));
-            };
-            
-            img.src = item.mediaFile.url;
-          });
-        }
-        
-        // Update loading progress
-        const loadProgress = ((index + 1) / mediaItems.length) * 100;
-        setProgress(loadProgress);
-        
-      } catch (error) {
-        console.warn(`Failed to load media ${item.id}:`, error);
-      }
-    });
-    
-    await Promise.all(loadPromises);
-  }, [timelineItems, trackVolumes]);
-
-  // Setup audio context with all audio elements
-  const setupAudioContext = useCallback(async () => {
-    if (cancelledRef.current) return null;
-    
-    try {
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: 48000
-      });
-      
-      const destination = audioContext.createMediaStreamDestination();
-      const masterGain = audioContext.createGain();
-      masterGain.gain.value = 1.0;
-      masterGain.connect(destination);
-      
-      // Setup audio nodes for all audio and video elements
-      const cache = mediaCacheRef.current;
-      const audioNodes = audioNodesRef.current;
-      
-      // Setup video audio
-      cache.videos.forEach((video, id) => {
-        try {
-          const source = audioContext.createMediaElementSource(video);
-          const gainNode = audioContext.createGain();
-          const itemVolume = trackVolumes.get(id) ?? 100;
-          gainNode.gain.value = itemVolume / 100;
-          
-          source.connect(gainNode);
-          gainNode.connect(masterGain);
-          
-          audioNodes.set(id, { element: video, gainNode, source });
-        } catch (error) {
-          console.warn(`Failed to setup video audio for ${id}:`, error);
-        }
-      });
-      
-      // Setup audio elements
-      cache.audios.forEach((audio, id) => {
-        try {
-          const source = audioContext.createMediaElementSource(audio);
-          const gainNode = audioContext.createGain();
-          const itemVolume = trackVolumes.get(id) ?? 100;
-          gainNode.gain.value = itemVolume / 100;
-          
-          source.connect(gainNode);
-          gainNode.connect(masterGain);
-          
-          audioNodes.set(id, { element: audio, gainNode, source });
-        } catch (error) {
-          console.warn(`Failed to setup audio for ${id}:`, error);
-        }
-      });
-      
-      audioContextRef.current = audioContext;
-      return { audioContext, destination };
-      
-    } catch (error) {
-      console.error('Failed to setup audio context:', error);
-      return null;
-    }
-  }, [trackVolumes]);
-
-  // Effect calculation functions
-  const calculateGlobalAlpha = useCallback((time: number) => {
-    const activeEffects = timelineItems.filter(item =>
-      item.mediaFile.type === 'effect' &&
-      time >= item.startTime &&
-      time < item.startTime + item.duration
-    );
-
-    let globalAlpha = 1.0;
-
-    activeEffects.forEach(effect => {
-      if (!effect.mediaFile.effectType) return;
-
-      const relativeTime = time - effect.startTime;
-      const progress = relativeTime / effect.duration;
-
-      switch (effect.mediaFile.effectType) {
-        case 'fade-in':
-          globalAlpha *= Math.min(progress, 1);
-          break;
-        case 'fade-out':
-          globalAlpha *= Math.max(1 - progress, 0);
-          break;
-      }
-    });
-
-    return Math.max(0, Math.min(1, globalAlpha));
-  }, [timelineItems]);
-
-  const isBlackWhiteActive = useCallback((time: number) => {
-    return timelineItems.some(item =>
-      item.mediaFile.type === 'effect' &&
-      item.mediaFile.effectType === 'black-white' &&
-      time >= item.startTime &&
-      time < item.startTime + item.duration
-    );
-  }, [timelineItems]);
-
-  const calculateBlurIntensity = useCallback((time: number) => {
-    const activeBlurEffects = timelineItems.filter(item =>
-      item.mediaFile.type === 'effect' &&
-      item.mediaFile.effectType === 'blur' &&
-      time >= item.startTime &&
-      time < item.startTime + item.duration
-    );
-
-    let blurIntensity = 0;
-    activeBlurEffects.forEach(effect => {
-      const relativeTime = time - effect.startTime;
-      const progress = relativeTime / effect.duration;
-      const effectIntensity = effect.mediaFile.effectIntensity || 50;
-      const currentBlur = (effectIntensity / 100) * 10;
-      blurIntensity = Math.max(blurIntensity, currentBlur);
-    });
+  const [settings, setSettings] = useState<ExportSettings>(DEFAULT_PRESET.settings);
+  const [presets, setPresets] = useState<ExportPreset[]>(() => [...BUILT_IN_PRESETS, ...loadCustomPresets()]);
+  const [selectedPresetId, setSelectedPresetId] = useState<string | null>(DEFAULT_PRESET.id);
+  const [exportMode, setExportMode] = useState<ExportMode>('video');
+  const [audioFormatId, setAudioFormatId] = useState<AudioFormatId>('wav');
+  const [audioFormatSupport, setAudioFormatSupport] = useState<Partial<Record<AudioFormatId, boolean>>>({});
+  const [stillFormatId, setStillFormatId] = useState<StillFormatId>('png');
+  const [everyNth, setEveryNth] = useState(1); // Un'immagine ogni N fotogrammi
+  const [animatedSettings, setAnimatedSettings] = useState<AnimatedSettings>(DEFAULT_ANIMATED_SETTINGS);
+  const [webpSupported] = useState(isWebpEncodingSupported);
+  const [rangeMode, setRangeMode] = useState<ExportRangeMode | null>(null); // null = scelta automatica
+  const [formatSupport, setFormatSupport] = useState<Partial<Record<ExportFormatId, FormatSupport>>>({});
+  const [mediaIssues, setMediaIssues] = useState<PreflightIssue[] | null>(null); // null = verifica in corso
+
+  const formatId = settings.formatId;
+
+  const exportRanges = useMemo(() => {
+    return getExportRanges({ items: timelineItems, markers, selectedItemIds });
+  }, [timelineItems, markers, selectedItemIds]);
+
+  const activeRangeMode = rangeMode && exportRanges[rangeMode] ? rangeMode : getDefaultRangeMode(exportRanges);
+  const exportRange = exportRanges[activeRangeMode] ?? exportRanges.timeline;
+  const exportDuration = getRangeDuration(exportRange);
+
+  // Risoluzione e bitrate effettivi dalle impostazioni scelte
+  const getEncodingSettings = useCallback((): EncodingSettings => {
+    const { width, height } = getOutputSize(settings, aspectRatio);
+    return {
+      width,
+      height,
+      fps: selectedFPS,
+      videoBitrate: calculateVideoBitrate(settings, exportDuration),
+      audioBitrate: settings.audioBitrate
+    };
+  }, [settings, aspectRatio, selectedFPS, exportDuration]);
 
-    return Math.max(0, Math.min(10, blurIntensity));
-  }, [timelineItems]);
-
-  const calculateZoomScale = useCallback((time: number) => {
-    const activeZoomEffects = timelineItems.filter(item =>
-      item.mediaFile.type === 'effect' &&
-      (item.mediaFile.effectType === 'zoom-in' || item.mediaFile.effectType === 'zoom-out') &&
-      time >= item.startTime &&
-      time < item.startTime + item.duration
-    );
-
-    let zoomScale = 1.0;
-    activeZoomEffects.forEach(effect => {
-      const relativeTime = time - effect.startTime;
-      const progress = relativeTime / effect.duration;
-      const effectIntensity = effect.mediaFile.effectIntensity || 50;
-
-      if (effect.mediaFile.effectType === 'zoom-in') {
-        const maxZoomFactor = 1 + (effectIntensity / 100) * 2;
-        const currentScale = 1 + (progress * (maxZoomFactor - 1));
-        zoomScale *= currentScale;
-      } else if (effect.mediaFile.effectType === 'zoom-out') {
-        const minZoomFactor = 1 - (effectIntensity / 100) * 0.8;
-        const currentScale = 1 - (progress * (1 - minZoomFactor));
-        zoomScale *= currentScale;
-      }
+  // Verifica in anticipo quali formati il browser sa codificare con le impostazioni correnti
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let active = true;
+    const encoding = getEncodingSettings();
+
+    Promise.all(
+      Object.values(EXPORT_FORMATS).map(async format => [format.id, await checkFormatSupport(format, encoding)] as const)
+    ).then(results => {
+      if (!active) return;
+      const support = Object.fromEntries(results) as Record<ExportFormatId, FormatSupport>;
+      setFormatSupport(support);
+
+      // Se il formato scelto non è disponibile passiamo al primo supportato
+      setSettings(current => {
+        if (isFormatSupported(support[current.formatId])) return current;
+        const fallback = (Object.keys(support) as ExportFormatId[]).find(id => isFormatSupported(support[id]));
+        return fallback ? { ...current, formatId: fallback } : current;
+      });
     });
 
-    return Math.max(0.1, Math.min(5.0, zoomScale));
-  }, [timelineItems]);
-
-  // Render single frame
-  const renderFrame = useCallback(async (time: number, ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement) => {
-    if (cancelledRef.current) return;
-    
-    // Clear canvas
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // Get active items
-    const activeItems = timelineItems.filter(item =>
-      item.mediaFile.type !== 'effect' &&
-      time >= item.startTime && 
-      time < item.startTime + item.duration
-    ).sort((a, b) => a.track - b.track);
-
-    if (activeItems.length === 0) return;
-
-    // Calculate effects
-    const globalAlpha = calculateGlobalAlpha(time);
-    const blackWhite = isBlackWhiteActive(time);
-    const zoomScale = calculateZoomScale(time);
-    const blurIntensity = calculateBlurIntensity(time);
-
-    // Apply effects
-    ctx.save();
-    ctx.globalAlpha = globalAlpha;
-
-    // Build filter string
-    const filters = [];
-    if (blackWhite) filters.push('grayscale(1)');
-    if (blurIntensity > 0) filters.push(`blur(${blurIntensity}px)`);
-    ctx.filter = filters.length > 0 ? filters.join(' ') : 'none';
-
-    // Apply zoom
-    if (zoomScale !== 1.0) {
-      const centerX = canvas.width / 2;
-      const centerY = canvas.height / 2;
-      ctx.translate(centerX, centerY);
-      ctx.scale(zoomScale, zoomScale);
-      ctx.translate(-centerX, -centerY);
-    }
-
-    // Render items
-    const cache = mediaCacheRef.current;
-    
-    for (const item of activeItems) {
-      if (cancelledRef.current) break;
-
-      try {
-        if (item.mediaFile.type === 'video') {
-          const video = cache.videos.get(item.id);
-          if (!video) continue;
-
-          const relativeTime = time - item.startTime;
-          const mediaOffset = item.mediaStartOffset || 0;
-          const targetTime = relativeTime + mediaOffset;
-
-          if (Math.abs(video.currentTime - targetTime) > 0.1) {
-            video.currentTime = Math.max(0, targetTime);
-          }
-
-          if (video.readyState >= 2) {
-            const videoAspect = video.videoWidth / video.videoHeight;
-            const canvasAspect = canvas.width / canvas.height;
-
-            let renderWidth, renderHeight, offsetX, offsetY;
-
-            if (videoAspect > canvasAspect) {
-              renderWidth = canvas.width;
-              renderHeight = canvas.width / videoAspect;
-              offsetX = 0;
-              offsetY = (canvas.height - renderHeight) / 2;
-            } else {
-              renderWidth = canvas.height * videoAspect;
-              renderHeight = canvas.height;
-              offsetX = (canvas.width - renderWidth) / 2;
-              offsetY = 0;
-            }
-
-            ctx.drawImage(video, offsetX, offsetY, renderWidth, renderHeight);
-          }
-        }
-
-        if (item.mediaFile.type === 'image') {
-          const img = cache.images.get(item.id);
-          if (!img || !img.complete) continue;
-
-          const imgAspect = img.width / img.height;
-          const canvasAspect = canvas.width / canvas.height;
-
-          let renderWidth, renderHeight, offsetX, offsetY;
-
-          if (imgAspect > canvasAspect) {
-            renderWidth = canvas.width * 0.9;
-            renderHeight = renderWidth / imgAspect;
-            offsetX = (canvas.width - renderWidth) / 2;
-            offsetY = (canvas.height - renderHeight) / 2;
-          } else {
-            renderHeight = canvas.height * 0.9;
-            renderWidth = renderHeight * imgAspect;
-            offsetX = (canvas.width - renderWidth) / 2;
-            offsetY = (canvas.height - renderHeight) / 2;
-          }
-
-          const trackOffsetX = item.track * 10;
-          const trackOffsetY = item.track * 10;
-
-          ctx.drawImage(
-            img,
-            offsetX + trackOffsetX,
-            offsetY + trackOffsetY,
-            renderWidth - trackOffsetX,
-            renderHeight - trackOffsetY
-          );
-        }
-      } catch (error) {
-        console.warn(`Error rendering item ${item.id}:`, error);
-      }
-    }
+    return () => {
+      active = false;
+    };
+  }, [isOpen, getEncodingSettings]);
 
-    ctx.restore();
-  }, [timelineItems, calculateGlobalAlpha, isBlackWhiteActive, calculateZoomScale, calculateBlurIntensity]);
-
-  // Sync audio elements
-  const syncAudio = useCallback((time: number) => {
-    if (cancelledRef.current) return;
-
-    const activeItems = timelineItems.filter(item =>
-      (item.mediaFile.type === 'audio' || item.mediaFile.type === 'video') &&
-      time >= item.startTime && 
-      time < item.startTime + item.duration
-    );
-
-    const cache = mediaCacheRef.current;
-    const audioNodes = audioNodesRef.current;
-
-    // Update active audio
-    activeItems.forEach(item => {
-      const element = item.mediaFile.type === 'video' 
-        ? cache.videos.get(item.id)
-        : cache.audios.get(item.id);
-      
-      const audioNode = audioNodes.get(item.id);
-      
-      if (element && audioNode) {
-        const relativeTime = time - item.startTime;
-        const mediaOffset = item.mediaStartOffset || 0;
-        const targetTime = relativeTime + mediaOffset;
-
-        if (targetTime >= 0 && targetTime <= element.duration) {
-          if (Math.abs(element.currentTime - targetTime) > 0.1) {
-            element.currentTime = Math.max(0, targetTime);
-          }
-          
-          if (element.paused) {
-            element.play().catch(() => {});
-          }
-          
-          // Apply volume with fade effects
-          const globalAlpha = calculateGlobalAlpha(time);
-          const itemVolume = trackVolumes.get(item.id) ?? 100;
-          audioNode.gainNode.gain.value = (itemVolume / 100) * globalAlpha;
-        } else {
-          element.pause();
-          audioNode.gainNode.gain.value = 0;
-        }
-      }
-    });
+  useEffect(() => {
+    if (!isOpen) return;
 
-    // Pause inactive audio
-    cache.videos.forEach((video, id) => {
-      if (!activeItems.some(item => item.id === id)) {
-        video.pause();
-        const audioNode = audioNodes.get(id);
-        if (audioNode) audioNode.gainNode.gain.value = 0;
-      }
+    let active = true;
+    Promise.all(
+      Object.values(AUDIO_FORMATS).map(async format => [format.id, await isAudioFormatSupported(format, settings.audioBitrate)] as const)
+    ).then(results => {
+      if (active) setAudioFormatSupport(Object.fromEntries(results));
     });
 
-    cache.audios.forEach((audio, id) => {
-      if (!activeItems.some(item => item.id === id)) {
-        audio.pause();
-        const audioNode = audioNodes.get(id);
-        if (audioNode) audioNode.gainNode.gain.value = 0;
-      }
-    });
-  }, [timelineItems, calculateGlobalAlpha, trackVolumes]);
-
-  // Main export function
-  const exportVideo = useCallback(async () => {
-    try {
-      if (cancelledRef.current || renderingRef.current) return;
-
-      renderingRef.current = true;
-      setStatus('preparing');
-      setProgress(0);
-
-      // Preload media
-      await preloadMedia();
-      if (cancelledRef.current) return;
-
-      // Setup canvas
-      const canvas = canvasRef.current;
-      if (!canvas) throw new Error('Canvas not available');
-
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error('Canvas context not available');
-
-      const dimensions = getCanvasDimensions();
-      canvas.width = dimensions.width;
-      canvas.height = dimensions.height;
-
-      // Calculate export parameters
-      const maxEndTime = Math.max(...timelineItems.map(item => item.startTime + item.duration), 1);
-      const exportDuration = maxEndTime;
-      const totalFrames = Math.ceil(exportDuration * selectedFPS);
-
-      setExportStats({
-        framesRendered: 0,
-        framesTotal: totalFrames,
-        startTime: performance.now(),
-        avgFrameTime: 0,
-        estimatedTimeLeft: ''
-      });
+    return () => {
+      active = false;
+    };
+  }, [isOpen, settings.audioBitrate]);
 
-      // Setup audio
-      const audioSetup = await setupAudioContext();
-      if (cancelledRef.current) return;
-
-      setStatus('rendering');
-
-      // Setup MediaRecorder
-      const canvasStream = canvas.captureStream(selectedFPS);
-      const audioStream = audioSetup?.destination?.stream;
-      
-      const combinedStream = new MediaStream([
-        ...canvasStream.getVideoTracks(),
-        ...(audioStream?.getAudioTracks() || [])
-      ]);
-
-      const bitrates = {
-        'standard': { video: 5000000, audio: 128000 },
-        'high': { video: 10000000, audio: 192000 }
-      };
-
-      const mediaRecorder = new MediaRecorder(combinedStream, {
-        mimeType: 'video/webm;codecs=vp9,opus',
-        videoBitsPerSecond: bitrates[qualityMode].video,
-        audioBitsPerSecond: bitrates[qualityMode].audio
+  // Pre-flight: le sorgenti vengono aperte subito, così un file mancante si scopre prima di accodare
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let active = true;
+    setMediaIssues(null);
+    checkMediaSources(timelineItems, exportRange).then(issues => {
+      if (!active) return;
+      setMediaIssues(issues);
+      issues.forEach(issue => {
+        if (issue.mediaFileId) onMediaLoadError?.(issue.mediaFileId, issue.reason ?? 'Failed to load');
       });
-
-      mediaRecorderRef.current = mediaRecorder;
-      recordedChunksRef.current = [];
-
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0 && !cancelledRef.current) {
-          recordedChunksRef.current.push(event.data);
-        }
-      };
-
-      mediaRecorder.onstop = () => {
-        if (!cancelledRef.current) {
-          setStatus('encoding');
-          
-          setTimeout(() => {
-            const blob = new Blob(recordedChunksRef.current, { type: 'video/webm' });
-            const url = URL.createObjectURL(blob);
-
-            // Auto-download
-            const link = document.createElement('a');
-            link.href = url;
-            link.download = `video-export-${aspectRatio}-${qualityMode}-${Date.now()}.webm`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-
-            setStatus('completed');
-            
-            setTimeout(() => {
-              URL.revokeObjectURL(url);
-              onClose();
-            }, 2000);
-          }, 500);
-        }
-      };
-
-      mediaRecorder.start();
-
-      // Rendering loop
-      let currentFrame = 0;
-      const startTime = performance.now();
-
-      const renderLoop = async () => {
-        if (cancelledRef.current || currentFrame >= totalFrames) {
-          if (mediaRecorder.state === 'recording') {
-            mediaRecorder.stop();
-          }
-          return;
-        }
-
-        const currentTime = currentFrame / selectedFPS;
-
-        // Sync audio
-        syncAudio(currentTime);
-
-        // Render frame
-        await renderFrame(currentTime, ctx, canvas);
-
-        currentFrame++;
-        const progressPercent = (currentFrame / totalFrames) * 100;
-        setProgress(progressPercent);
-
-        // Update stats
-        const elapsed = performance.now() - startTime;
-        const avgFrameTime = elapsed / currentFrame;
-        const remainingFrames = totalFrames - currentFrame;
-        const estimatedTimeLeft = (remainingFrames * avgFrameTime) / 1000;
-        
-        setExportStats(prev => ({
-          ...prev,
-          framesRendered: currentFrame,
-          avgFrameTime,
-          estimatedTimeLeft: `${Math.floor(estimatedTimeLeft / 60)}:${String(Math.floor(estimatedTimeLeft % 60)).padStart(2, '0')}`
-        }));
-
-        // Schedule next frame
-        setTimeout(renderLoop, Math.max(1, 1000 / selectedFPS - 5));
-      };
-
-      renderLoop();
-
-    } catch (error) {
-      console.error('Export failed:', error);
-      if (!cancelledRef.current) {
-        renderingRef.current = false;
-        setStatus('error');
-      }
-    }
-  }, [timelineItems, aspectRatio, qualityMode, selectedFPS, getCanvasDimensions, preloadMedia, setupAudioContext, renderFrame, syncAudio]);
-
-  // Cleanup resources
-  const cleanupResources = useCallback(() => {
-    cancelledRef.current = true;
-    
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
-      try {
-        mediaRecorderRef.current.stop();
-      } catch (error) {
-        console.warn('Error stopping MediaRecorder:', error);
-      }
-    }
-    
-    if (audioContextRef.current) {
-      try {
-        audioContextRef.current.close();
-      } catch (error) {
-        console.warn('Error closing audio context:', error);
-      }
-      audioContextRef.current = null;
-    }
-    
-    // Cleanup media cache
-    const cache = mediaCacheRef.current;
-    cache.videos.forEach(video => {
-      video.pause();
-      video.src = '';
-    });
-    cache.videos.clear();
-    
-    cache.audios.forEach(audio => {
-      audio.pause();
-      audio.src = '';
     });
-    cache.audios.clear();
-    
-    cache.images.clear();
-    audioNodesRef.current.clear();
-    recordedChunksRef.current = [];
-    renderingRef.current = false;
-  }, []);
-
-  // Dialog management
-  useEffect(() => {
-    if (!isOpen) {
-      cleanupResources();
-      setProgress(0);
-      setStatus('preparing');
-      return;
-    }
-
-    cancelledRef.current = false;
-    renderingRef.current = false;
-    setProgress(0);
-    setStatus('preparing');
-
-    const startExport = setTimeout(() => {
-      if (!cancelledRef.current && !renderingRef.current) {
-        exportVideo();
-      }
-    }, 1000);
 
     return () => {
-      clearTimeout(startExport);
+      active = false;
     };
-  }, [isOpen, exportVideo, cleanupResources]);
-
-  // Event handlers
-  const handleCancel = useCallback(() => {
-    cleanupResources();
-    setProgress(0);
-    setStatus('preparing');
-  }, [cleanupResources]);
-
-  const handleClose = useCallback(() => {
-    if (status === 'preparing' || status === 'rendering' || status === 'loading') {
-      handleCancel();
-    } else {
-      cleanupResources();
-    }
-    onClose();
-  }, [status, handleCancel, cleanupResources, onClose]);
+  }, [isOpen, timelineItems, exportRange, onMediaLoadError]);
 
-  const handleQualityChange = useCallback((newQuality: 'standard' | 'high') => {
-    if (status === 'preparing') {
-      setQualityMode(newQuality);
-    }
-  }, [status]);
-
-  // UI helpers
-  const getStatusText = () => {
-    if (cancelledRef.current) return 'Export cancelled';
-    
-    switch (status) {
-      case 'preparing': return 'Preparing export...';
-      case 'loading': return 'Loading media files...';
-      case 'rendering': return `Rendering frames (${exportStats.framesRendered}/${exportStats.framesTotal})`;
-      case 'encoding': return 'Finalizing video...';
-      case 'completed': return 'Export completed successfully!';
-      case 'error': return 'Export failed';
-      default: return 'Processing...';
-    }
-  };
-
-  const getStatusColor = () => {
-    if (cancelledRef.current) return 'text-orange-500';
-    
-    switch (status) {
-      case 'preparing': return 'text-blue-500';
-      case 'loading': return 'text-blue-500';
-      case 'rendering': return 'text-yellow-500';
-      case 'encoding': return 'text-purple-500';
-      case 'completed': return 'text-green-500';
-      case 'error': return 'text-red-500';
-      default: return 'text-gray-500';
+  // La scelta del range vale solo per l'export corrente
+  useEffect(() => {
+    if (isOpen) setRangeMode(null);
+  }, [isOpen]);
+
+  // Ogni modifica manuale stacca le impostazioni dal preset selezionato
+  const handleSettingsChange = useCallback((newSettings: ExportSettings) => {
+    const support = formatSupport[newSettings.formatId];
+    if (support && !isFormatSupported(support)) return;
+    setSettings(newSettings);
+    setSelectedPresetId(null);
+  }, [formatSupport]);
+
+  const handleSelectPreset = useCallback((presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset) return;
+    setSettings(preset.settings);
+    setSelectedPresetId(preset.id);
+  }, [presets]);
+
+  // Un preset salvato con lo stesso nome di uno esistente lo sostituisce
+  const handleSavePreset = useCallback((name: string) => {
+    const preset = createPreset(name, settings);
+    const customPresets = [
+      ...presets.filter(p => !p.builtIn && p.name.toLowerCase() !== preset.name.toLowerCase()),
+      preset
+    ];
+    saveCustomPresets(customPresets);
+    setPresets([...BUILT_IN_PRESETS, ...customPresets]);
+    setSelectedPresetId(preset.id);
+  }, [settings, presets]);
+
+  const handleDeletePreset = useCallback((presetId: string) => {
+    const customPresets = presets.filter(p => !p.builtIn && p.id !== presetId);
+    saveCustomPresets(customPresets);
+    setPresets([...BUILT_IN_PRESETS, ...customPresets]);
+    if (selectedPresetId === presetId) {
+      setSelectedPresetId(null);
     }
-  };
-
-  const getStatusIcon = () => {
-    if (cancelledRef.current) return <AlertCircle className="w-5 h-5 text-orange-500" />;
-    
-    switch (status) {
-      case 'rendering': return <Cpu className="w-5 h-5 text-yellow-500 animate-pulse" />;
-      case 'completed': return <CheckCircle className="w-5 h-5 text-green-500" />;
-      case 'error': return <X className="w-5 h-5 text-red-500" />;
-      default: return null;
+  }, [presets, selectedPresetId]);
+
+  const encodingSettings = getEncodingSettings();
+  const estimatedSizeMB = estimateFileSizeMB(encodingSettings.videoBitrate, encodingSettings.audioBitrate, exportDuration);
+  const sequenceImageCount = getSequenceFrameTimes(exportRange, selectedFPS, everyNth).length;
+  const sequenceSizeMB = estimateSequenceSizeMB(STILL_FORMATS[stillFormatId], encodingSettings, sequenceImageCount);
+  const animatedFrameSize = getAnimatedFrameSize(animatedSettings, aspectRatio);
+  const animatedFrameCount = getAnimatedFrameTimes(exportRange, selectedFPS, animatedSettings.fps).length;
+  const animatedSizeMB = estimateAnimatedSizeMB(animatedSettings, animatedFrameSize, animatedFrameCount);
+
+  // Il job riceve una copia dello stato attuale: si può continuare a montare mentre esporta
+  const handleQueueExport = useCallback(() => {
+    const snapshot: ExportSnapshot = {
+      items: timelineItems,
+      trackVolumes: new Map(trackVolumes),
+      range: exportRange,
+      aspectRatio,
+      fps: selectedFPS
+    };
+
+    switch (exportMode) {
+      case 'audio':
+        onQueueExport({ ...snapshot, kind: 'audio', format: AUDIO_FORMATS[audioFormatId], bitrate: settings.audioBitrate });
+        break;
+      case 'frames':
+        onQueueExport({
+          ...snapshot,
+          kind: 'frames',
+          format: STILL_FORMATS[stillFormatId],
+          everyNth,
+          size: getOutputSize(settings, aspectRatio)
+        });
+        break;
+      case 'animated':
+        onQueueExport({ ...snapshot, kind: 'animated', settings: animatedSettings, size: animatedFrameSize });
+        break;
+      default:
+        onQueueExport({ ...snapshot, kind: 'video', format: EXPORT_FORMATS[formatId], encoding: encodingSettings });
     }
-  };
+    onClose();
+  }, [
+    timelineItems, trackVolumes, exportRange, aspectRatio, selectedFPS, exportMode, audioFormatId, settings,
+    stillFormatId, everyNth, animatedSettings, animatedFrameSize, formatId, encodingSettings, onQueueExport, onClose
+  ]);
+
+  const timelineIssues = useMemo(() => checkTimeline({
+    items: timelineItems,
+    range: exportRange,
+    trackVolumes,
+    fps: selectedFPS,
+    checkVisuals: exportMode !== 'audio',
+    checkAudio: exportMode === 'video' || exportMode === 'audio'
+  }), [timelineItems, exportRange, trackVolumes, selectedFPS, exportMode]);
+
+  const formatIssues = exportMode === 'video'
+    ? getFormatIssues(
+      `${EXPORT_FORMATS[formatId].label} (${EXPORT_FORMATS[formatId].description})`,
+      formatSupport[formatId] ? isFormatSupported(formatSupport[formatId]) : undefined
+    )
+    : exportMode === 'audio'
+      ? getFormatIssues(`${AUDIO_FORMATS[audioFormatId].label} audio`, audioFormatSupport[audioFormatId])
+      : exportMode === 'animated' && animatedSettings.formatId === 'webp'
+        ? getFormatIssues('Animated WebP', webpSupported)
+        : exportMode === 'frames'
+          ? getSequenceIssues(sequenceImageCount, sequenceSizeMB)
+          : [];
+
+  const preflightIssues = [...(mediaIssues ?? []), ...formatIssues, ...timelineIssues];
 
   return (
-    <>
-      <canvas ref={canvasRef} style={{ display: 'none' }} />
-      
-      <Dialog open={isOpen} onOpenChange={handleClose}>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle className="flex items-center gap-2">
-              <Download className="w-5 h-5" />
-              Export Video
-            </DialogTitle>
-          </DialogHeader>
-          
-          <div className="space-y-6">
-            {/* Quality Selection */}
-            {status === 'preparing' && (
-              <div className="space-y-3">
-                <label className="text-sm font-medium">Export Quality</label>
-                <div className="grid grid-cols-2 gap-2">
-                  {(['standard', 'high'] as const).map((quality) => (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="w-5 h-5" />
+            {exportMode === 'audio'
+              ? 'Export Audio'
+              : exportMode === 'frames'
+                ? 'Export Image Sequence'
+                : exportMode === 'animated' ? `Export ${ANIMATED_FORMATS[animatedSettings.formatId].label}` : 'Export Video'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Output */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Output</label>
+            <div className="grid grid-cols-2 gap-2">
+              {([['video', 'Video'], ['audio', 'Audio only'], ['frames', 'Image sequence'], ['animated', 'GIF / WebP']] as [ExportMode, string][]).map(([mode, label]) => (
+                <Button
+                  key={mode}
+                  variant={exportMode === mode ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setExportMode(mode)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {/* Export Range */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Range</label>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(EXPORT_RANGE_LABELS) as ExportRangeMode[]).map(mode => (
+                <Button
+                  key={mode}
+                  variant={activeRangeMode === mode ? 'default' : 'outline'}
+                  size="sm"
+                  disabled={!exportRanges[mode]}
+                  title={!exportRanges[mode]
+                    ? (mode === 'marked' ? 'Set in/out points on the timeline (I / O)' : 'Select clips on the timeline')
+                    : undefined}
+                  onClick={() => setRangeMode(mode)}
+                >
+                  {EXPORT_RANGE_LABELS[mode]}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {/* Audio Format */}
+          {exportMode === 'audio' && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Audio Format</label>
+              <div className="grid grid-cols-2 gap-2">
+                {Object.values(AUDIO_FORMATS).map(format => {
+                  const unsupported = audioFormatSupport[format.id] === false;
+                  return (
                     <Button
-                      key={quality}
-                      variant={qualityMode === quality ? 'default' : 'outline'}
+                      key={format.id}
+                      variant={audioFormatId === format.id ? 'default' : 'outline'}
                       size="sm"
-                      onClick={() => handleQualityChange(quality)}
+                      disabled={unsupported}
+                      title={unsupported ? 'Not supported by this browser' : format.description}
+                      onClick={() => setAudioFormatId(format.id)}
+                      className="flex flex-col h-auto py-1"
                     >
-                      {quality.charAt(0).toUpperCase() + quality.slice(1)}
+                      <span>{format.label}</span>
+                      <span className="text-[10px] opacity-70">
+                        {unsupported ? 'Unsupported' : format.description}
+                      </span>
                     </Button>
-                  ))}
-                </div>
+                  );
+                })}
               </div>
-            )}
+            </div>
+          )}
 
-            {/* Export Details */}
+          {/* Image Sequence */}
+          {exportMode === 'frames' && (
             <div className="space-y-2">
-              <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">Quality:</span>
-                <span className="font-medium">{qualityMode}</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">Aspect Ratio:</span>
-                <span className="font-medium">{aspectRatio}</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">Frame Rate:</span>
-                <span className="font-medium">{selectedFPS} fps</span>
+              <label className="text-sm font-medium">Image Format</label>
+              <div className="grid grid-cols-2 gap-2">
+                {Object.values(STILL_FORMATS).map(format => (
+                  <Button
+                    key={format.id}
+                    variant={stillFormatId === format.id ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setStillFormatId(format.id)}
+                  >
+                    {format.label}
+                  </Button>
+                ))}
               </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">Duration:</span>
-                <span className="font-medium">{Math.round(totalDuration)}s</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">Total Frames:</span>
-                <span className="font-medium">{exportStats.framesTotal}</span>
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground text-sm whitespace-nowrap">Every</span>
+                <Input
+                  type="number"
+                  min={1}
+                  step={1}
+                  className="h-8 text-sm"
+                  value={everyNth}
+                  onChange={(e) => setEveryNth(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                />
+                <span className="text-muted-foreground text-sm whitespace-nowrap">
+                  {everyNth === 1 ? 'frame' : 'frames'}
+                </span>
               </div>
             </div>
-
-            {/* Progress Section */}
-            <div className="space-y-4">
-              <div className="flex items-center justify-between">
-                <span className={`text-sm font-medium ${getStatusColor()}`}>
-                  {getStatusText()}
+          )}
+
+          {/* Animated Settings */}
+          {exportMode === 'animated' && (
+            <AnimatedExportPanel
+              settings={animatedSettings}
+              onSettingsChange={setAnimatedSettings}
+              webpSupported={webpSupported}
+              timelineFps={selectedFPS}
+            />
+          )}
+
+          {/* Export Settings */}
+          {(exportMode === 'video' || exportMode === 'frames') && (
+            <ExportSettingsPanel
+              settings={settings}
+              onSettingsChange={handleSettingsChange}
+              presets={presets}
+              selectedPresetId={selectedPresetId}
+              onSelectPreset={handleSelectPreset}
+              onSavePreset={handleSavePreset}
+              onDeletePreset={handleDeletePreset}
+              formatSupport={formatSupport}
+              showEncoding={exportMode === 'video'}
+            />
+          )}
+
+          {/* Export Details */}
+          <div className="space-y-2">
+            {exportMode === 'audio' ? (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Audio:</span>
+                <span className="font-medium">
+                  {AUDIO_FORMATS[audioFormatId].label}, 48 kHz stereo
+                  {audioFormatId === 'opus' && `, ${Math.round(settings.audioBitrate / 1000)} kbps`}
                 </span>
-                {getStatusIcon()}
               </div>
-              
-              <Progress value={progress} className="w-full" />
-              
-              <div className="flex justify-between text-xs text-muted-foreground">
-                <span>{progress.toFixed(1)}% completed</span>
-                {status === 'rendering' && exportStats.estimatedTimeLeft && (
-                  <span>Est. {exportStats.estimatedTimeLeft} remaining</span>
+            ) : exportMode === 'animated' ? (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Resolution:</span>
+                  <span className="font-medium">{animatedFrameSize.width}×{animatedFrameSize.height}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Frames:</span>
+                  <span className="font-medium">
+                    {animatedFrameCount} at {+getEffectiveFrameRate(selectedFPS, animatedSettings.fps).toFixed(2)} fps
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Estimated Size:</span>
+                  <span className={`font-medium ${animatedSizeMB > animatedSettings.maxSizeMB ? 'text-red-500' : ''}`}>
+                    ~{animatedSizeMB.toFixed(1)} MB (limit {animatedSettings.maxSizeMB} MB)
+                  </span>
+                </div>
+              </>
+            ) : exportMode === 'frames' ? (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Resolution:</span>
+                  <span className="font-medium">{encodingSettings.width}×{encodingSettings.height}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Images:</span>
+                  <span className={`font-medium ${sequenceImageCount > MAX_SEQUENCE_FRAMES ? 'text-red-500' : ''}`}>
+                    {sequenceImageCount} × {STILL_FORMATS[stillFormatId].label} (ZIP)
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Estimated Size:</span>
+                  <span className={`font-medium ${sequenceSizeMB > MAX_SEQUENCE_SIZE_MB ? 'text-red-500' : ''}`}>
+                    ~{sequenceSizeMB.toFixed(0)} MB (limit {MAX_SEQUENCE_SIZE_MB} MB)
+                  </span>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Resolution:</span>
+                  <span className="font-medium">{encodingSettings.width}×{encodingSettings.height}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Bitrate:</span>
+                  <span className="font-medium">
+                    {(encodingSettings.videoBitrate / 1000000).toFixed(1)} Mbps (~{estimatedSizeMB.toFixed(0)} MB)
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Format:</span>
+                  <span className="font-medium">
+                    {EXPORT_FORMATS[formatId].label} ({EXPORT_FORMATS[formatId].description})
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Aspect Ratio:</span>
+                  <span className="font-medium">{aspectRatio}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Frame Rate:</span>
+                  <span className="font-medium">{selectedFPS} fps</span>
+                </div>
+                {formatSupport[formatId] && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Engine:</span>
+                    <span className="font-medium">
+                      {formatSupport[formatId].offline ? 'WebCodecs (offline)' : 'MediaRecorder (realtime)'}
+                    </span>
+                  </div>
                 )}
-              </div>
+              </>
+            )}
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Duration:</span>
+              <span className="font-medium">{Math.round(exportDuration)}s</span>
             </div>
-
-            {/* Rendering Stats */}
-            {status === 'rendering' && exportStats.avgFrameTime > 0 && (
-              <div className="text-xs text-muted-foreground space-y-1">
-                <div>Avg frame time: {exportStats.avgFrameTime.toFixed(1)}ms</div>
-                <div>Rendering speed: {(1000 / exportStats.avgFrameTime).toFixed(1)} fps</div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Range:</span>
+              <span className="font-medium">
+                {EXPORT_RANGE_LABELS[activeRangeMode]} ({formatRangeTime(exportRange.start)} – {formatRangeTime(exportRange.end)})
+              </span>
+            </div>
+            {exportMode === 'video' && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Total Frames:</span>
+                <span className="font-medium">{getTotalFrames(exportDuration, selectedFPS)}</span>
               </div>
             )}
+          </div>
 
-            {/* Action Buttons */}
-            <div className="flex justify-end gap-2">
-              <Button
-                onClick={handleClose}
-                variant={status === 'completed' ? 'default' : 'outline'}
-                size="sm"
-              >
-                {status === 'preparing' || status === 'loading' || status === 'rendering' ? 'Cancel' : 'Close'}
-              </Button>
-            </div>
+          {/* Pre-flight */}
+          <PreflightReport issues={preflightIssues} checking={mediaIssues === null} onRelinkMedia={onRelinkMedia} />
+
+          <p className="text-xs text-muted-foreground">
+            Exports run in the background, one at a time. Track progress from the Exports button in the toolbar.
+          </p>
+
+          {/* Action Buttons */}
+          <div className="flex justify-end gap-2">
+            <Button
+              onClick={handleQueueExport}
+              size="sm"
+              disabled={exportDuration <= 0 || mediaIssues === null || hasBlockingIssues(preflightIssues)}
+            >
+              <ListPlus className="w-4 h-4 mr-1" />
+              Add to Queue
+            </Button>
+            <Button onClick={onClose} variant="outline" size="sm">
+              Cancel
+            </Button>
           </div>
-        </DialogContent>
-      </Dialog>
-    </>
+        </div>
+      </DialogContent>
+    </Dialog>
   );
-};
\ No newline at end of file
+};
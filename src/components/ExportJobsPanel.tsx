@@ -0,0 +1,188 @@
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, Download, Film, Image as ImageIcon, ListVideo, Loader2, Music, Trash2, X } from "lucide-react";
+import {
+  EXPORT_JOB_STATUS_LABELS,
+  ExportJob,
+  ExportKind,
+  formatTimeLeft,
+  isJobActive,
+  isJobFinished
+} from "@/lib/export/queue";
+
+interface ExportJobsPanelProps {
+  jobs: ExportJob[];
+  onCancel: (jobId: string) => void;
+  onRemove: (jobId: string) => void;
+  onDownload: (jobId: string) => void;
+  onClearFinished: () => void;
+  onRelinkMedia?: () => void;
+}
+
+const getKindIcon = (kind: ExportKind) => {
+  switch (kind) {
+    case 'audio':
+      return <Music className="w-4 h-4 text-audio-track flex-shrink-0" />;
+    case 'frames':
+    case 'animated':
+      return <ImageIcon className="w-4 h-4 text-image-icon flex-shrink-0" />;
+    default:
+      return <Film className="w-4 h-4 text-video-track flex-shrink-0" />;
+  }
+};
+
+const getStatusText = (job: ExportJob) => {
+  if (job.status === 'rendering' && job.framesTotal > 0) {
+    return `Rendering ${job.framesRendered}/${job.framesTotal}`;
+  }
+  if (job.status === 'rendering' && job.engine === 'realtime') {
+    return 'Rendering (realtime)';
+  }
+  return EXPORT_JOB_STATUS_LABELS[job.status];
+};
+
+const getStatusColor = (job: ExportJob) => {
+  switch (job.status) {
+    case 'completed': return 'text-green-500';
+    case 'failed': return 'text-red-500';
+    case 'cancelled': return 'text-orange-500';
+    case 'queued': return 'text-muted-foreground';
+    default: return 'text-yellow-500';
+  }
+};
+
+export const ExportJobsPanel = ({
+  jobs,
+  onCancel,
+  onRemove,
+  onDownload,
+  onClearFinished,
+  onRelinkMedia
+}: ExportJobsPanelProps) => {
+  if (jobs.length === 0) return null;
+
+  const pendingCount = jobs.filter(job => job.status === 'queued' || isJobActive(job)).length;
+  const activeJob = jobs.find(isJobActive);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 px-2 text-xs font-medium bg-background/80 backdrop-blur-sm border border-border"
+          title="Export jobs"
+        >
+          {activeJob ? (
+            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+          ) : (
+            <ListVideo className="w-4 h-4 mr-1" />
+          )}
+          {activeJob ? `${Math.round(activeJob.progress)}%` : 'Exports'}
+          {pendingCount > 0 && <span className="ml-1 text-muted-foreground">({pendingCount})</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-border">
+          <span className="text-sm font-medium">Exports</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            disabled={!jobs.some(isJobFinished)}
+            onClick={onClearFinished}
+          >
+            Clear finished
+          </Button>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto divide-y divide-border">
+          {[...jobs].reverse().map(job => (
+            <div key={job.id} className="px-4 py-3 space-y-2">
+              <div className="flex items-start gap-2">
+                {getKindIcon(job.kind)}
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">{job.label}</div>
+                  <div className="text-xs text-muted-foreground truncate">{job.description}</div>
+                </div>
+                {job.status === 'completed' && job.blob && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title={`Download ${job.fileName}`}
+                    onClick={() => onDownload(job.id)}
+                  >
+                    <Download className="w-4 h-4" />
+                  </Button>
+                )}
+                {job.status === 'queued' || isJobActive(job) ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Cancel export"
+                    onClick={() => onCancel(job.id)}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Remove from list"
+                    onClick={() => onRemove(job.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+
+              {isJobActive(job) && <Progress value={job.progress} className="h-1.5" />}
+
+              <div className="flex justify-between text-xs">
+                <span className={`flex items-center gap-1 ${getStatusColor(job)}`}>
+                  {job.status === 'completed' && <CheckCircle className="w-3 h-3" />}
+                  {getStatusText(job)}
+                </span>
+                {job.status === 'rendering' && job.etaSeconds != null && (
+                  <span className="text-muted-foreground">Est. {formatTimeLeft(job.etaSeconds)} remaining</span>
+                )}
+                {job.status === 'completed' && job.blob && (
+                  <span className="text-muted-foreground">{(job.blob.size / (1024 * 1024)).toFixed(1)} MB</span>
+                )}
+                {job.status === 'completed' && job.blobReleased && (
+                  <span className="text-muted-foreground" title="Only the most recent exports are kept for downloading again">
+                    Released from memory
+                  </span>
+                )}
+              </div>
+
+              {job.status === 'failed' && job.error && (
+                <div className="rounded-md border border-red-500/30 bg-red-500/5 p-2 space-y-1">
+                  <p className="text-xs text-red-500">{job.error}</p>
+                  {job.failedMediaNames.length > 0 && (
+                    <>
+                      <ul className="text-xs text-muted-foreground list-disc pl-4">
+                        {job.failedMediaNames.map(name => (
+                          <li key={name} className="truncate">{name}</li>
+                        ))}
+                      </ul>
+                      {onRelinkMedia && (
+                        <Button size="sm" variant="outline" className="h-7 text-xs" onClick={onRelinkMedia}>
+                          Relink Missing Media
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Save, Trash2 } from "lucide-react";
+import { EXPORT_FORMATS, ExportFormatId, FormatSupport, isFormatSupported } from "@/lib/export/formats";
+import {
+  BitrateMode,
+  ExportPreset,
+  ExportSettings,
+  MAX_OUTPUT_SIZE,
+  MIN_OUTPUT_SIZE,
+  RESOLUTIONS,
+  ResolutionId
+} from "@/lib/export/presets";
+
+interface ExportSettingsPanelProps {
+  settings: ExportSettings;
+  onSettingsChange: (settings: ExportSettings) => void;
+  presets: ExportPreset[];
+  selectedPresetId: string | null;
+  onSelectPreset: (presetId: string) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (presetId: string) => void;
+  formatSupport: Partial<Record<ExportFormatId, FormatSupport>>;
+  showEncoding?: boolean; // Formato e bitrate non servono per le sequenze di immagini
+}
+
+const CUSTOM_PRESET_VALUE = '__custom__';
+
+export const ExportSettingsPanel = ({
+  settings,
+  onSettingsChange,
+  presets,
+  selectedPresetId,
+  onSelectPreset,
+  onSavePreset,
+  onDeletePreset,
+  formatSupport,
+  showEncoding = true
+}: ExportSettingsPanelProps) => {
+  const [presetName, setPresetName] = useState('');
+
+  const update = (changes: Partial<ExportSettings>) => {
+    onSettingsChange({ ...settings, ...changes });
+  };
+
+  const selectedPreset = presets.find(preset => preset.id === selectedPresetId);
+  const builtInPresets = presets.filter(preset => preset.builtIn);
+  const customPresets = presets.filter(preset => !preset.builtIn);
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName);
+    setPresetName('');
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Preset */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Preset</label>
+        <div className="flex gap-2">
+          <Select
+            value={selectedPresetId ?? CUSTOM_PRESET_VALUE}
+            onValueChange={(value) => value !== CUSTOM_PRESET_VALUE && onSelectPreset(value)}
+          >
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectLabel>Built-in</SelectLabel>
+                {builtInPresets.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                ))}
+              </SelectGroup>
+              {customPresets.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Saved</SelectLabel>
+                  {customPresets.map(preset => (
+                    <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+              {selectedPresetId === null && (
+                <SelectItem value={CUSTOM_PRESET_VALUE}>Custom settings</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+          {selectedPreset && !selectedPreset.builtIn && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 px-2"
+              title="Delete preset"
+              onClick={() => onDeletePreset(selectedPreset.id)}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Format */}
+      {showEncoding && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Format</label>
+          <div className="grid grid-cols-2 gap-2">
+            {Object.values(EXPORT_FORMATS).map((format) => {
+              const support = formatSupport[format.id];
+              const unsupported = support !== undefined && !isFormatSupported(support);
+              return (
+                <Button
+                  key={format.id}
+                  variant={settings.formatId === format.id ? 'default' : 'outline'}
+                  size="sm"
+                  disabled={unsupported}
+                  title={unsupported ? 'Not supported by this browser' : format.description}
+                  onClick={() => update({ formatId: format.id })}
+                  className="flex flex-col h-auto py-1"
+                >
+                  <span>{format.label}</span>
+                  <span className="text-[10px] opacity-70">
+                    {unsupported ? 'Unsupported' : format.description}
+                  </span>
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Resolution */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Resolution</label>
+        <Select value={settings.resolution} onValueChange={(value) => update({ resolution: value as ResolutionId })}>
+          <SelectTrigger className="h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(RESOLUTIONS) as ResolutionId[]).map(id => (
+              <SelectItem key={id} value={id}>{RESOLUTIONS[id].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {settings.resolution === 'custom' && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={MIN_OUTPUT_SIZE}
+              max={MAX_OUTPUT_SIZE}
+              step={2}
+              className="h-8 text-sm"
+              value={settings.customWidth}
+              onChange={(e) => update({ customWidth: Number(e.target.value) })}
+            />
+            <span className="text-muted-foreground text-sm">×</span>
+            <Input
+              type="number"
+              min={MIN_OUTPUT_SIZE}
+              max={MAX_OUTPUT_SIZE}
+              step={2}
+              className="h-8 text-sm"
+              value={settings.customHeight}
+              onChange={(e) => update({ customHeight: Number(e.target.value) })}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Bitrate */}
+      {showEncoding && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Bitrate</label>
+          <div className="grid grid-cols-2 gap-2">
+            {([['manual', 'Manual'], ['target-size', 'Target size']] as [BitrateMode, string][]).map(([mode, label]) => (
+              <Button
+                key={mode}
+                variant={settings.bitrateMode === mode ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => update({ bitrateMode: mode })}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            {settings.bitrateMode === 'manual' ? (
+              <>
+                <Input
+                  type="number"
+                  min={0.1}
+                  step={0.5}
+                  className="h-8 text-sm"
+                  value={settings.videoBitrate / 1000000}
+                  onChange={(e) => update({ videoBitrate: Math.round(Number(e.target.value) * 1000000) })}
+                />
+                <span className="text-muted-foreground text-sm whitespace-nowrap">Mbps video</span>
+              </>
+            ) : (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  step={1}
+                  className="h-8 text-sm"
+                  value={settings.targetSizeMB}
+                  onChange={(e) => update({ targetSizeMB: Number(e.target.value) })}
+                />
+                <span className="text-muted-foreground text-sm whitespace-nowrap">MB total</span>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Salva le impostazioni correnti come preset */}
+      <div className="flex gap-2">
+        <Input
+          placeholder="Preset name"
+          className="h-8 text-sm"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+        />
+        <Button variant="outline" size="sm" className="h-8" disabled={!presetName.trim()} onClick={handleSavePreset}>
+          <Save className="w-4 h-4 mr-1" />
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
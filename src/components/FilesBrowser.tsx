@@ -1,13 +1,22 @@
 import { useState, useRef, DragEvent } from "react";
-import { Upload, File, Music, Video, Image as ImageIcon, Undo2, Redo2, Sparkles } from "lucide-react";
+import { Upload, File, Music, Video, Image as ImageIcon, Undo2, Redo2, Sparkles, History, X, Palette, Trash2 } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { MediaFile, TimelineItem } from "./VideoEditor";
 import { Track } from "./Timeline";
+import { HistoryEntry } from "@/lib/history";
+import { calculateOptimalStartTime, findFirstTrackForMedia } from "@/lib/timeline";
+import { LUT_FILE_EXTENSION, LutAsset, createLutAsset } from "@/lib/render/lut";
+import { useToast } from "@/hooks/use-toast";
 
 interface FilesBrowserProps {
   files: MediaFile[];
   onFilesAdded: (files: MediaFile[]) => void;
+  luts: LutAsset[];
+  onLutsAdded: (luts: LutAsset[]) => void;
+  onRemoveLut: (lutId: string) => void;
+  onApplyLut: (lutId: string) => void; // Applica al clip selezionato
+  canApplyLut: boolean;
   onItemAddedToTimeline: (item: TimelineItem) => void;
   timelineItems: TimelineItem[];
   tracks: Track[];
@@ -15,13 +24,19 @@ interface FilesBrowserProps {
   onRedo: () => void;
   canUndo: boolean;
   canRedo: boolean;
+  historyEntries: HistoryEntry[];
   historyIndex: number;
-  historyLength: number;
+  onJumpToHistory: (index: number) => void;
 }
 
 export const FilesBrowser = ({
   files,
   onFilesAdded,
+  luts,
+  onLutsAdded,
+  onRemoveLut,
+  onApplyLut,
+  canApplyLut,
   onItemAddedToTimeline,
   timelineItems,
   tracks,
@@ -29,11 +44,14 @@ export const FilesBrowser = ({
   onRedo,
   canUndo,
   canRedo,
+  historyEntries,
   historyIndex,
-  historyLength
+  onJumpToHistory
 }: FilesBrowserProps) => {
   const [isDragOver, setIsDragOver] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
 
   const handleDragOver = (e: DragEvent) => {
     e.preventDefault();
@@ -60,10 +78,34 @@ export const FilesBrowser = ({
     }
   };
 
+  // I file .cube vanno nella libreria LUT, non tra i media
+  const processLuts = async (lutFiles: File[]) => {
+    const assets: LutAsset[] = [];
+
+    for (const file of lutFiles) {
+      try {
+        assets.push(createLutAsset(file.name, await file.text()));
+      } catch (error) {
+        toast({
+          title: "Invalid LUT",
+          description: `${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          variant: "destructive",
+        });
+      }
+    }
+
+    if (assets.length > 0) {
+      onLutsAdded(assets);
+    }
+  };
+
   const processFiles = async (fileList: File[]) => {
     const mediaFiles: MediaFile[] = [];
+    const isLut = (file: File) => file.name.toLowerCase().endsWith(LUT_FILE_EXTENSION);
 
-    for (const file of fileList) {
+    await processLuts(fileList.filter(isLut));
+
+    for (const file of fileList.filter(file => !isLut(file))) {
       if (file.type.startsWith('video/') || file.type.startsWith('audio/') || file.type.startsWith('image/')) {
         const url = URL.createObjectURL(file);
         let duration = 0;
@@ -93,7 +135,9 @@ export const FilesBrowser = ({
       }
     }
 
-    onFilesAdded(mediaFiles);
+    if (mediaFiles.length > 0) {
+      onFilesAdded(mediaFiles);
+    }
   };
 
   const getMediaDuration = (url: string, type: string): Promise<number> => {
@@ -111,56 +155,12 @@ export const FilesBrowser = ({
   };
 
   // AGGIORNATO: Trova la prima traccia disponibile del tipo specificato - ora include 'effect'
-  const findFirstAvailableTrack = (mediaType: 'video' | 'audio' | 'image' | 'effect'): Track | null => {
-    const targetType = (mediaType === 'video' || mediaType === 'image' || mediaType === 'effect') ? 'video' : 'audio';
-    
-    // Trova tutte le tracce del tipo corretto, ordinate per indice
-    const relevantTracks = tracks
-      .filter(track => track.type === targetType)
-      .sort((a, b) => a.index - b.index);
-    
-    if (relevantTracks.length === 0) {
-      return null; // Nessuna traccia del tipo corretto trovata
-    }
-    
-    // Restituisce la prima traccia disponibile
-    return relevantTracks[0];
-  };
-
-  // Calcola la posizione ottimale per un nuovo elemento nella timeline
-  const calculateOptimalStartTime = (mediaFile: MediaFile): { startTime: number; track: number } => {
-    const availableTrack = findFirstAvailableTrack(mediaFile.type);
-    
-    if (!availableTrack) {
-      // Fallback: usa la traccia 0 se non ci sono tracce appropriate
-      return { startTime: 0, track: 0 };
-    }
-    
-    const targetTrack = availableTrack.index;
-    
-    // Trova tutti gli elementi nella traccia target
-    const itemsInTrack = timelineItems.filter(item => item.track === targetTrack);
-
-    if (itemsInTrack.length === 0) {
-      return { startTime: 0, track: targetTrack }; // Se la traccia è vuota, inizia da 0
-    }
-
-    // Trova l'ultimo elemento nella traccia
-    const lastItem = itemsInTrack.reduce((latest, current) => {
-      const currentEndTime = current.startTime + current.duration;
-      const latestEndTime = latest.startTime + latest.duration;
-      return currentEndTime > latestEndTime ? current : latest;
-    });
-
-    // Restituisce il tempo di fine dell'ultimo elemento
-    return { 
-      startTime: lastItem.startTime + lastItem.duration, 
-      track: targetTrack 
-    };
+  const findFirstAvailableTrack = (mediaType: MediaFile['type']): Track | null => {
+    return findFirstTrackForMedia(tracks, mediaType);
   };
 
   const handleAddToTimeline = (file: MediaFile) => {
-    const { startTime, track } = calculateOptimalStartTime(file);
+    const { startTime, track } = calculateOptimalStartTime(timelineItems, tracks, file.type);
 
     const newItem: TimelineItem = {
       id: `timeline-${Date.now()}-${Math.random()}`,
@@ -239,10 +239,17 @@ export const FilesBrowser = ({
 
           {/* History indicator and Undo/Redo buttons */}
           <div className="flex items-center space-x-2">
-            {/* History indicator */}
-            <span className="text-xs text-muted-foreground/70 font-mono">
-              {historyIndex + 1}/{historyLength}
-            </span>
+            {/* History indicator - apre il pannello della history */}
+            <Button
+              variant={isHistoryOpen ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setIsHistoryOpen(prev => !prev)}
+              className="h-8 px-2 text-xs text-muted-foreground/70 font-mono"
+              title="Show history"
+            >
+              <History className="w-3 h-3 mr-1" />
+              {historyIndex}/{historyEntries.length}
+            </Button>
             
             {/* Undo/Redo buttons */}
             <div className="flex items-center space-x-1">
@@ -287,7 +294,7 @@ export const FilesBrowser = ({
           <div className="flex flex-col items-center text-center">
             <Upload className={`w-8 h-8 mb-2 ${isDragOver ? 'text-primary' : 'text-muted-foreground'}`} />
             <p className="text-sm text-muted-foreground">
-              Drop video/audio/image files here or click to browse
+              Drop video/audio/image files or .cube LUTs here, or click to browse
             </p>
           </div>
         </Card>
@@ -296,14 +303,60 @@ export const FilesBrowser = ({
           ref={fileInputRef}
           type="file"
           multiple
-          accept="video/*,audio/*,image/*"
+          accept={`video/*,audio/*,image/*,${LUT_FILE_EXTENSION}`}
           onChange={handleFileInput}
           className="hidden"
         />
       </div>
 
+      {/* History Panel */}
+      {isHistoryOpen && (
+        <div className="flex-1 overflow-y-auto p-4">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-foreground">History</h3>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsHistoryOpen(false)}
+              className="w-6 h-6 p-0"
+              title="Close history"
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+          <div className="space-y-1">
+            {[{ id: 'initial', label: 'Initial state', timestamp: undefined as number | undefined }, ...historyEntries].map((entry, step) => {
+              const isCurrent = step === historyIndex;
+              const isUndone = step > historyIndex;
+
+              return (
+                <button
+                  key={entry.id}
+                  onClick={() => onJumpToHistory(step)}
+                  className={`w-full flex items-center justify-between gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors ${
+                    isCurrent
+                      ? 'bg-primary/15 text-foreground font-medium'
+                      : isUndone
+                        ? 'text-muted-foreground/50 hover:bg-accent/50'
+                        : 'text-foreground hover:bg-accent/50'
+                  }`}
+                  title={`Jump to step ${step}`}
+                >
+                  <span className="truncate">{entry.label}</span>
+                  {entry.timestamp !== undefined && (
+                    <span className="text-[10px] text-muted-foreground font-mono flex-shrink-0">
+                      {new Date(entry.timestamp).toLocaleTimeString()}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Files List */}
-      <div className="flex-1 overflow-y-auto p-4">
+      <div className={`flex-1 overflow-y-auto p-4 ${isHistoryOpen ? 'hidden' : ''}`}>
         {files.length === 0 ? (
           <p className="text-muted-foreground text-center py-8">
             No files imported yet
@@ -355,6 +408,49 @@ export const FilesBrowser = ({
             ))}
           </div>
         )}
+
+        {/* Libreria LUT */}
+        {luts.length > 0 && (
+          <div className="mt-6">
+            <h3 className="text-sm font-semibold text-foreground mb-2">LUTs</h3>
+            <div className="space-y-2">
+              {luts.map((lut) => (
+                <Card key={lut.id} className="p-3 hover:bg-accent/50 transition-colors">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3 flex-1 min-w-0">
+                      <Palette className="w-4 h-4 text-orange-500 flex-shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium text-foreground truncate">{lut.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {lut.kind.toUpperCase()} · {lut.kind === '3d' ? `${lut.size}³` : lut.size} points
+                        </p>
+                      </div>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => onApplyLut(lut.id)}
+                      className="ml-2 flex-shrink-0"
+                      disabled={!canApplyLut}
+                      title={canApplyLut ? 'Apply to the selected clip' : 'Select a video or image clip first'}
+                    >
+                      Apply
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => onRemoveLut(lut.id)}
+                      className="ml-1 w-8 h-8 p-0 flex-shrink-0 text-muted-foreground hover:text-destructive"
+                      title="Remove from library"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
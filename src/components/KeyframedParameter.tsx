@@ -0,0 +1,167 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Diamond } from "lucide-react";
+import type { TimelineItem } from "./VideoEditor";
+import {
+  AnimatableParameter,
+  BezierHandles,
+  DEFAULT_BEZIER,
+  EASINGS,
+  Easing,
+  Keyframe,
+  findKeyframeAt,
+  getParameterValue,
+  getStaticValue,
+  removeKeyframe,
+  setKeyframe,
+  setParameterValue,
+  updateKeyframe
+} from "@/lib/keyframes";
+
+interface KeyframedParameterProps {
+  parameter: AnimatableParameter;
+  item: TimelineItem;
+  items: TimelineItem[];
+  currentTime: number;
+  onItemsChange: (items: TimelineItem[]) => void; // Durante il trascinamento degli slider, senza history
+  onItemsChangeWithHistory: (items: TimelineItem[], label: string) => void;
+  onSeek: (time: number) => void;
+}
+
+const BEZIER_LABELS = ['x1', 'y1', 'x2', 'y2'];
+
+const formatValue = (value: number, parameter: AnimatableParameter) => {
+  const rounded = parameter.step < 1 ? value.toFixed(1) : Math.round(value).toString();
+  return `${rounded}${parameter.unit}`;
+};
+
+// Parametro animabile di un elemento: il valore al cursore, il rombo per aggiungere o togliere il keyframe
+// e la curva verso il keyframe successivo. Su un parametro animato cambiare il valore crea un keyframe al cursore;
+// altrimenti cambia il valore statico
+export const KeyframedParameter = ({
+  parameter,
+  item,
+  items,
+  currentTime,
+  onItemsChange,
+  onItemsChangeWithHistory,
+  onSeek
+}: KeyframedParameterProps) => {
+  const localTime = currentTime - item.startTime;
+  const isInsideClip = localTime >= 0 && localTime <= item.duration;
+  const keyframes = item.keyframes?.[parameter.id] ?? [];
+  const value = getParameterValue(item, parameter.id, currentTime, getStaticValue(item, parameter));
+  const keyframeHere = findKeyframeAt(keyframes, localTime);
+  const previous = [...keyframes].reverse().find(keyframe => keyframe.time < localTime && keyframe !== keyframeHere);
+  const next = keyframes.find(keyframe => keyframe.time > localTime && keyframe !== keyframeHere);
+
+  const toggleKeyframe = () => {
+    if (keyframeHere) {
+      onItemsChangeWithHistory(removeKeyframe(items, item.id, parameter.id, keyframeHere.id), 'Remove keyframe');
+    } else {
+      onItemsChangeWithHistory(setKeyframe(items, item.id, parameter.id, localTime, value), 'Add keyframe');
+    }
+  };
+
+  const renderEasing = (keyframe: Keyframe) => {
+    const update = (patch: Partial<Keyframe>, label: string) => {
+      onItemsChangeWithHistory(updateKeyframe(items, item.id, parameter.id, keyframe.id, patch), label);
+    };
+    const bezier = keyframe.bezier ?? DEFAULT_BEZIER;
+
+    return (
+      <div className="space-y-1">
+        <Select
+          value={keyframe.easing}
+          onValueChange={(value) => update({ easing: value as Easing }, 'Change keyframe easing')}
+        >
+          <SelectTrigger className="h-7 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EASINGS.map(easing => (
+              <SelectItem key={easing.type} value={easing.type} className="text-xs">{easing.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {keyframe.easing === 'bezier' && (
+          <div className="grid grid-cols-4 gap-1">
+            {bezier.map((handle, index) => (
+              <Input
+                key={BEZIER_LABELS[index]}
+                type="number"
+                step={0.05}
+                min={index % 2 === 0 ? 0 : undefined}
+                max={index % 2 === 0 ? 1 : undefined}
+                className="h-6 px-1 text-[10px]"
+                title={BEZIER_LABELS[index]}
+                value={handle}
+                onChange={(e) => {
+                  const next = [...bezier] as BezierHandles;
+                  const value = Number(e.target.value) || 0;
+                  // Le ascisse della cubic-bezier devono restare tra 0 e 1
+                  next[index] = index % 2 === 0 ? Math.max(0, Math.min(1, value)) : value;
+                  update({ bezier: next }, 'Change keyframe curve');
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-1.5 py-2">
+      <div className="flex items-center gap-1">
+        <span className="flex-1 text-xs font-medium truncate">{parameter.name}</span>
+        <span className="text-xs font-mono text-muted-foreground">{formatValue(value, parameter)}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0"
+          disabled={!previous}
+          onClick={() => previous && onSeek(item.startTime + previous.time)}
+          title="Previous keyframe"
+        >
+          <ChevronLeft className="w-3 h-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0"
+          disabled={!isInsideClip}
+          onClick={toggleKeyframe}
+          title={keyframeHere ? 'Remove keyframe' : 'Add keyframe at playhead'}
+        >
+          <Diamond className={`w-3 h-3 ${keyframeHere ? 'fill-yellow-300 text-yellow-500' : keyframes.length > 0 ? 'text-yellow-500' : ''}`} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0"
+          disabled={!next}
+          onClick={() => next && onSeek(item.startTime + next.time)}
+          title="Next keyframe"
+        >
+          <ChevronRight className="w-3 h-3" />
+        </Button>
+      </div>
+      <Slider
+        value={[value]}
+        min={parameter.min}
+        max={parameter.max}
+        step={parameter.step}
+        disabled={!isInsideClip}
+        onValueChange={([newValue]) => onItemsChange(setParameterValue(items, item.id, parameter.id, currentTime, newValue))}
+        onValueCommit={([newValue]) => onItemsChangeWithHistory(
+          setParameterValue(items, item.id, parameter.id, currentTime, newValue),
+          `Change ${parameter.name.toLowerCase()}`
+        )}
+      />
+      {keyframeHere && keyframeHere !== keyframes[keyframes.length - 1] && renderEasing(keyframeHere)}
+    </div>
+  );
+};
@@ -0,0 +1,252 @@
+import { useState, useRef, useEffect, useCallback } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { AlertTriangle, Link2, FolderSearch, Check, X, Video, Music, Image as ImageIcon } from "lucide-react";
+import { MediaFile, TimelineItem } from "./VideoEditor";
+import { MediaReference, matchFilesToReferences } from "@/lib/project";
+import { getMediaTypeFromFile, probeFileDuration } from "@/lib/media";
+
+export interface MissingMediaEntry {
+  mediaFile: MediaFile;
+  reference: MediaReference;
+  reason: string;
+}
+
+interface MissingMediaDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: MissingMediaEntry[];
+  timelineItems: TimelineItem[];
+  onRelink: (files: Map<string, File>) => void;
+}
+
+const formatSize = (bytes?: number) => {
+  if (bytes === undefined) return null;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const MissingMediaDialog = ({
+  isOpen,
+  onClose,
+  entries,
+  timelineItems,
+  onRelink
+}: MissingMediaDialogProps) => {
+  // File scelti ma non ancora applicati: mediaId -> File
+  const [stagedFiles, setStagedFiles] = useState<Map<string, File>>(new Map());
+  const [isMatching, setIsMatching] = useState(false);
+  const [matchMessage, setMatchMessage] = useState<string | null>(null);
+  const autoMatchInputRef = useRef<HTMLInputElement>(null);
+  const singleInputRef = useRef<HTMLInputElement>(null);
+  const singleTargetRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setStagedFiles(new Map());
+      setMatchMessage(null);
+    }
+  }, [isOpen]);
+
+  const getUsageCount = (mediaId: string) => {
+    return timelineItems.filter(item => item.mediaFile.id === mediaId).length;
+  };
+
+  const getTypeIcon = (type: MediaFile['type']) => {
+    switch (type) {
+      case 'video':
+        return <Video className="w-4 h-4 text-video-track flex-shrink-0" />;
+      case 'audio':
+        return <Music className="w-4 h-4 text-audio-track flex-shrink-0" />;
+      default:
+        return <ImageIcon className="w-4 h-4 text-image-icon flex-shrink-0" />;
+    }
+  };
+
+  // Abbina automaticamente i file scelti per nome, durata e dimensione
+  const handleAutoMatch = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsMatching(true);
+    try {
+      const durations = new Map<File, number>();
+      for (const file of files) {
+        durations.set(file, await probeFileDuration(file));
+      }
+
+      const pending = entries.filter(entry => !stagedFiles.has(entry.mediaFile.id));
+      const matches = await matchFilesToReferences(pending.map(entry => entry.reference), files, durations);
+
+      setStagedFiles(prev => {
+        const next = new Map(prev);
+        matches.forEach((file, mediaId) => next.set(mediaId, file));
+        return next;
+      });
+      setMatchMessage(
+        matches.size > 0
+          ? `Matched ${matches.size} of ${pending.length} missing file${pending.length !== 1 ? 's' : ''}.`
+          : 'No matches found. Relink the remaining files manually.'
+      );
+    } finally {
+      setIsMatching(false);
+    }
+  }, [entries, stagedFiles]);
+
+  const handleSingleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const targetId = singleTargetRef.current;
+    e.target.value = '';
+    if (!file || !targetId) return;
+
+    const entry = entries.find(en => en.mediaFile.id === targetId);
+    if (entry && getMediaTypeFromFile(file) !== entry.mediaFile.type) {
+      setMatchMessage(`"${file.name}" is not a ${entry.mediaFile.type} file.`);
+      return;
+    }
+
+    setStagedFiles(prev => new Map(prev).set(targetId, file));
+  };
+
+  const handleChooseFile = (mediaId: string) => {
+    singleTargetRef.current = mediaId;
+    singleInputRef.current?.click();
+  };
+
+  const handleUnstage = (mediaId: string) => {
+    setStagedFiles(prev => {
+      const next = new Map(prev);
+      next.delete(mediaId);
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    if (stagedFiles.size === 0) return;
+    onRelink(stagedFiles);
+    setStagedFiles(new Map());
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+            Missing Media
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            {entries.length} media file{entries.length !== 1 ? 's' : ''} can't be loaded. Relink each one to continue editing and exporting.
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => autoMatchInputRef.current?.click()}
+            disabled={isMatching || entries.length === 0}
+            className="flex-shrink-0"
+          >
+            <FolderSearch className="w-4 h-4 mr-2" />
+            {isMatching ? 'Matching...' : 'Auto-match Files'}
+          </Button>
+        </div>
+
+        {matchMessage && (
+          <p className="text-xs text-muted-foreground">{matchMessage}</p>
+        )}
+
+        {/* Lista dei media mancanti */}
+        <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
+          {entries.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">All media is linked</p>
+          ) : (
+            entries.map(entry => {
+              const staged = stagedFiles.get(entry.mediaFile.id);
+              const usage = getUsageCount(entry.mediaFile.id);
+              const expectedSize = formatSize(entry.reference.size);
+
+              return (
+                <Card key={entry.mediaFile.id} className={`p-3 ${staged ? 'border-green-500/50' : ''}`}>
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center space-x-3 flex-1 min-w-0">
+                      {getTypeIcon(entry.mediaFile.type)}
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium truncate">{entry.mediaFile.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {entry.mediaFile.type !== 'image' && `${entry.mediaFile.duration.toFixed(1)}s · `}
+                          {expectedSize && `${expectedSize} · `}
+                          used by {usage} clip{usage !== 1 ? 's' : ''}
+                        </p>
+                        {staged ? (
+                          <p className="text-xs text-green-600 truncate flex items-center gap-1">
+                            <Check className="w-3 h-3" />
+                            {staged.name}
+                          </p>
+                        ) : (
+                          <p className="text-xs text-orange-500">{entry.reason}</p>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      {staged && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="w-8 h-8 p-0"
+                          onClick={() => handleUnstage(entry.mediaFile.id)}
+                          title="Clear selection"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button variant="secondary" size="sm" onClick={() => handleChooseFile(entry.mediaFile.id)}>
+                        <Link2 className="w-3 h-3 mr-1" />
+                        {staged ? 'Change' : 'Relink'}
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              );
+            })
+          )}
+        </div>
+
+        <input
+          ref={autoMatchInputRef}
+          type="file"
+          multiple
+          accept="video/*,audio/*,image/*"
+          onChange={handleAutoMatch}
+          className="hidden"
+        />
+        <input
+          ref={singleInputRef}
+          type="file"
+          accept="video/*,audio/*,image/*"
+          onChange={handleSingleFile}
+          className="hidden"
+        />
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={stagedFiles.size === 0}
+            className="bg-gradient-primary hover:opacity-90"
+          >
+            <Link2 className="w-4 h-4 mr-2" />
+            Relink {stagedFiles.size > 0 ? `${stagedFiles.size} File${stagedFiles.size !== 1 ? 's' : ''}` : 'Files'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
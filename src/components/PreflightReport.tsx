@@ -0,0 +1,62 @@
+import { Button } from "@/components/ui/button";
+import { AlertCircle, AlertTriangle, CheckCircle, Loader2 } from "lucide-react";
+import { PREFLIGHT_CHECK_LABELS, PreflightIssue } from "@/lib/export/preflight";
+
+interface PreflightReportProps {
+  issues: PreflightIssue[];
+  checking: boolean;
+  onRelinkMedia?: () => void;
+}
+
+export const PreflightReport = ({ issues, checking, onRelinkMedia }: PreflightReportProps) => {
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  const getSummary = () => {
+    if (issues.length === 0) return checking ? 'Checking media...' : 'No issues found';
+    const parts = [
+      errorCount > 0 && `${errorCount} error${errorCount !== 1 ? 's' : ''}`,
+      warningCount > 0 && `${warningCount} warning${warningCount !== 1 ? 's' : ''}`
+    ].filter(Boolean);
+    return parts.join(', ');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">Pre-flight Check</label>
+        <span className={`flex items-center gap-1 text-xs ${
+          errorCount > 0 ? 'text-red-500' : warningCount > 0 ? 'text-yellow-500' : 'text-muted-foreground'
+        }`}>
+          {checking && <Loader2 className="w-3 h-3 animate-spin" />}
+          {!checking && issues.length === 0 && <CheckCircle className="w-3 h-3 text-green-500" />}
+          {getSummary()}
+        </span>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="rounded-md border border-border max-h-40 overflow-y-auto divide-y divide-border">
+          {issues.map((issue, index) => (
+            <div key={`${issue.check}-${index}`} className="flex items-start gap-2 p-2 text-xs">
+              {issue.severity === 'error' ? (
+                <AlertCircle className="w-3.5 h-3.5 mt-0.5 text-red-500 flex-shrink-0" />
+              ) : (
+                <AlertTriangle className="w-3.5 h-3.5 mt-0.5 text-yellow-500 flex-shrink-0" />
+              )}
+              <div className="min-w-0">
+                <div className="font-medium">{PREFLIGHT_CHECK_LABELS[issue.check]}</div>
+                <div className="text-muted-foreground break-words">{issue.message}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {onRelinkMedia && issues.some(issue => issue.check === 'media') && (
+        <Button size="sm" variant="outline" className="h-7 text-xs" onClick={onRelinkMedia}>
+          Relink Missing Media
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { History, Trash2, RotateCcw, HardDrive } from "lucide-react";
+import { SessionSummary, StorageUsage } from "@/lib/sessionStore";
+
+interface RestoreSessionDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessions: SessionSummary[];
+  storageUsage: StorageUsage | null;
+  onRestore: (sessionId: string) => void;
+  onDiscard: (sessionId: string) => void;
+  onDiscardAll: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const formatSessionDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short'
+  });
+};
+
+export const RestoreSessionDialog = ({
+  isOpen,
+  onClose,
+  sessions,
+  storageUsage,
+  onRestore,
+  onDiscard,
+  onDiscardAll
+}: RestoreSessionDialogProps) => {
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Restore Previous Session
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          Autosaved work from a previous session was found. Restore it to continue where you left off.
+        </p>
+
+        {/* Sessions List */}
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {sessions.map((session, index) => (
+            <Card key={session.id} className="p-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">
+                    {formatSessionDate(session.updatedAt)}
+                    {index === 0 && (
+                      <span className="ml-2 text-[10px] text-primary bg-primary/10 px-1.5 py-0.5 rounded">
+                        LATEST
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {session.itemCount} timeline item{session.itemCount !== 1 ? 's' : ''}, {session.mediaCount} media file{session.mediaCount !== 1 ? 's' : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button size="sm" onClick={() => onRestore(session.id)}>
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Restore
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="w-8 h-8 p-0 text-destructive hover:text-destructive"
+                    onClick={() => onDiscard(session.id)}
+                    title="Delete this session"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+
+        {/* Storage Usage */}
+        {storageUsage && storageUsage.quota > 0 && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <HardDrive className="w-3 h-3" />
+            Browser storage: {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} used
+          </div>
+        )}
+
+        <div className="flex justify-between gap-2">
+          <Button variant="outline" size="sm" className="text-destructive hover:text-destructive" onClick={onDiscardAll}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete All Sessions
+          </Button>
+          <Button variant="outline" size="sm" onClick={onClose}>
+            Start New Project
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,58 @@
+import { useMemo } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { EditorSettings, RENDERER_OPTIONS } from "@/lib/settings";
+import type { RenderBackend } from "@/lib/render/pixels";
+import { isWebGL2Available } from "@/lib/render/webgl";
+
+interface SettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: EditorSettings;
+  onSettingsChange: (settings: EditorSettings) => void;
+}
+
+export const SettingsDialog = ({ isOpen, onClose, settings, onSettingsChange }: SettingsDialogProps) => {
+  // Il supporto WebGL2 non cambia durante la sessione: si verifica una volta all'apertura
+  const webgl2Available = useMemo(() => isOpen && isWebGL2Available(), [isOpen]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div>
+            <p className="text-sm font-medium">Renderer</p>
+            <p className="text-xs text-muted-foreground">
+              Used for color correction, LUTs and shader effects in the preview and in exports.
+            </p>
+          </div>
+
+          <RadioGroup
+            value={settings.renderer}
+            onValueChange={value => onSettingsChange({ ...settings, renderer: value as RenderBackend })}
+          >
+            {RENDERER_OPTIONS.map(option => {
+              const disabled = option.id === 'webgl2' && !webgl2Available;
+              return (
+                <div key={option.id} className="flex items-start gap-3 rounded-md border p-3">
+                  <RadioGroupItem value={option.id} id={`renderer-${option.id}`} disabled={disabled} className="mt-0.5" />
+                  <Label htmlFor={`renderer-${option.id}`} className={disabled ? 'opacity-50' : 'cursor-pointer'}>
+                    <span className="block text-sm font-medium">{option.name}</span>
+                    <span className="block text-xs font-normal text-muted-foreground">
+                      {disabled ? 'Not supported by this browser.' : option.description}
+                    </span>
+                  </Label>
+                </div>
+              );
+            })}
+          </RadioGroup>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
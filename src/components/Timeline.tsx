@@ -4,17 +4,28 @@ import { TimelineItem } from "./VideoEditor";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Button } from "@/components/ui/button";
 import { Copy, Scissors, Trash2, Plus, Minus, Clipboard } from "lucide-react";
+import * as timelineModel from "@/lib/timeline";
+import { InOutMarkers, SnapPoint } from "@/lib/timeline";
+import { findTransitionCuts, setItemTransition } from "@/lib/render/transitions";
+import { hasClipEffects } from "@/lib/render/effects";
+import { getEffectName } from "@/lib/effects";
+import { hasKeyframes, moveKeyframesAt, removeKeyframesAt } from "@/lib/keyframes";
+import { TimelineTransition } from "./TimelineTransition";
+import { TimelineKeyframes } from "./TimelineKeyframes";
 
 interface TimelineProps {
   items: TimelineItem[];
   currentTime: number;
   onTimeChange: (time: number) => void;
   onItemsChange: (items: TimelineItem[]) => void;
-  onItemsChangeWithHistory: (items: TimelineItem[]) => void;
+  onItemsChangeWithHistory: (items: TimelineItem[], label: string) => void;
   totalDuration: number;
   tracks: Track[];
-  onTracksChange: (tracks: Track[]) => void;
+  onTracksChange: (tracks: Track[], items: TimelineItem[], label: string) => void;
   onItemSelect?: (itemId: string | undefined) => void;
+  onSelectionChange?: (itemIds: string[]) => void;
+  markers: InOutMarkers;
+  onMarkersChange: (markers: InOutMarkers) => void;
 }
 
 export interface Track {
@@ -24,6 +35,11 @@ export interface Track {
   label: string;
 }
 
+// Nome dell'operazione mostrato nella history (es. "Move clip", "Move 3 items")
+const describeOperation = (verb: string, count: number) => {
+  return count === 1 ? `${verb} clip` : `${verb} ${count} items`;
+};
+
 // Throttle function per limitare la frequenza delle chiamate
 const throttle = (func: Function, limit: number) => {
   let inThrottle: boolean;
@@ -45,7 +61,10 @@ export const Timeline = ({
   totalDuration,
   tracks,
   onTracksChange,
-  onItemSelect
+  onItemSelect,
+  onSelectionChange,
+  markers,
+  onMarkersChange
 }: TimelineProps) => {
   const timelineHeaderContentRef = useRef<HTMLDivElement>(null);
   const timelineContentRef = useRef<HTMLDivElement>(null);
@@ -122,12 +141,91 @@ export const Timeline = ({
       } else if (e.key === 'Delete') {
         e.preventDefault();
         handleDeleteKeyboard();
+      } else if (!e.altKey && e.key.toLowerCase() === 'i') {
+        e.preventDefault();
+        onMarkersChange(timelineModel.setInPoint(markers, currentTime));
+      } else if (!e.altKey && e.key.toLowerCase() === 'o') {
+        e.preventDefault();
+        onMarkersChange(timelineModel.setOutPoint(markers, currentTime));
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedItems, items, currentTime]);
+  }, [selectedItems, items, currentTime, cutItems, copiedItems, copiedItem, tracks, markers, onMarkersChange]);
+
+  // Comunica la selezione multipla al parent (es. export dei clip selezionati)
+  useEffect(() => {
+    onSelectionChange?.(Array.from(selectedItems));
+  }, [selectedItems, onSelectionChange]);
+
+  // Trascina un marker di in/out lungo il righello
+  const handleMarkerMouseDown = (e: React.MouseEvent, marker: 'in' | 'out') => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const header = timelineHeaderContentRef.current;
+    if (!header) return;
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const rect = header.getBoundingClientRect();
+      const time = Math.max(0, Math.min((moveEvent.clientX - rect.left) / scale, totalDuration));
+      onMarkersChange(marker === 'in'
+        ? timelineModel.setInPoint(markers, time)
+        : timelineModel.setOutPoint(markers, time));
+    };
+
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  // Doppio click su un marker per rimuoverlo
+  const clearMarker = (e: React.MouseEvent, marker: 'in' | 'out') => {
+    e.stopPropagation();
+    onMarkersChange(marker === 'in' ? { ...markers, inPoint: null } : { ...markers, outPoint: null });
+  };
+
+  const renderInOutMarkers = () => {
+    const range = timelineModel.getMarkedRange(markers, totalDuration);
+
+    return (
+      <>
+        {range && (
+          <div
+            className="absolute top-0 h-full bg-blue-500/15 border-y border-blue-500/40 pointer-events-none"
+            style={{ left: `${range.start * scale}px`, width: `${(range.end - range.start) * scale}px` }}
+          />
+        )}
+        {([['in', markers.inPoint], ['out', markers.outPoint]] as const).map(([marker, time]) =>
+          time !== null && (
+            <div
+              key={marker}
+              className="absolute top-0 h-full z-20 cursor-ew-resize"
+              style={{ left: `${time * scale - 6}px`, width: '12px' }}
+              onMouseDown={(e) => handleMarkerMouseDown(e, marker)}
+              onClick={(e) => e.stopPropagation()}
+              onDoubleClick={(e) => clearMarker(e, marker)}
+              title={`${marker === 'in' ? 'In' : 'Out'} point ${formatTime(time)} (drag to move, double-click to clear)`}
+            >
+              <div className="absolute top-0 bottom-0 left-[5px] w-0.5 bg-blue-500" />
+              <div
+                className={`absolute top-0 text-[9px] font-bold text-white bg-blue-500 px-1 rounded-sm ${
+                  marker === 'in' ? 'left-[6px]' : 'right-[6px]'
+                }`}
+              >
+                {marker === 'in' ? 'IN' : 'OUT'}
+              </div>
+            </div>
+          )
+        )}
+      </>
+    );
+  };
 
   // Funzioni per le scorciatoie da tastiera
   const handleCopyKeyboard = () => {
@@ -155,61 +253,34 @@ export const Timeline = ({
       setCopiedItem(null);
       
       // Rimuovi gli elementi dalla timeline
-      const newItems = items.filter(item => !selectedItems.has(item.id));
-      onItemsChangeWithHistory(newItems);
+      const newItems = timelineModel.removeItems(items, selectedItems);
+      onItemsChangeWithHistory(newItems, describeOperation('Cut', itemsToCut.length));
       setSelectedItems(new Set());
     }
   };
 
   const handlePasteKeyboard = () => {
-    // Trova la traccia più appropriata in base al tipo di contenuto
-    const getTargetTrack = (mediaType: string) => {
-      if (mediaType === 'video' || mediaType === 'image' || mediaType === 'effect') {
-        return tracks.find(t => t.type === 'video')?.index || 0;
-      } else if (mediaType === 'audio') {
-        return tracks.find(t => t.type === 'audio')?.index || 1;
-      }
-      return 0;
-    };
+    // Ogni elemento va sulla prima traccia compatibile con il suo tipo
+    pasteClipboard();
+  };
+
+  // Incolla il contenuto degli appunti al tempo corrente
+  const pasteClipboard = (targetTrack?: number) => {
+    const clipboard = cutItems.length > 0 ? cutItems : copiedItems.length > 0 ? copiedItems : copiedItem ? [copiedItem] : [];
+    if (clipboard.length === 0) return;
+
+    const newItems = timelineModel.pasteItems(items, clipboard, { tracks, startTime: currentTime, targetTrack });
+    onItemsChangeWithHistory(newItems, describeOperation('Paste', clipboard.length));
 
     if (cutItems.length > 0) {
-      // Incolla elementi tagliati
-      const newItems = cutItems.map(cutItem => ({
-        ...cutItem,
-        id: `${cutItem.id}_paste_${Date.now()}_${Math.random()}`,
-        track: getTargetTrack(cutItem.mediaFile.type),
-        startTime: currentTime,
-        mediaStartOffset: cutItem.mediaStartOffset || 0
-      }));
-      onItemsChangeWithHistory([...items, ...newItems]);
       setCutItems([]);
-    } else if (copiedItems.length > 0) {
-      // Incolla elementi copiati
-      const newItems = copiedItems.map(copiedItem => ({
-        ...copiedItem,
-        id: `${copiedItem.id}_paste_${Date.now()}_${Math.random()}`,
-        track: getTargetTrack(copiedItem.mediaFile.type),
-        startTime: currentTime,
-        mediaStartOffset: copiedItem.mediaStartOffset || 0
-      }));
-      onItemsChangeWithHistory([...items, ...newItems]);
-    } else if (copiedItem) {
-      // Incolla elemento singolo copiato
-      const newItem = {
-        ...copiedItem,
-        id: `${copiedItem.id}_paste_${Date.now()}`,
-        track: getTargetTrack(copiedItem.mediaFile.type),
-        startTime: currentTime,
-        mediaStartOffset: copiedItem.mediaStartOffset || 0
-      };
-      onItemsChangeWithHistory([...items, newItem]);
     }
   };
 
   const handleDeleteKeyboard = () => {
     if (selectedItems.size > 0) {
-      const newItems = items.filter(item => !selectedItems.has(item.id));
-      onItemsChangeWithHistory(newItems);
+      const newItems = timelineModel.removeItems(items, selectedItems);
+      onItemsChangeWithHistory(newItems, describeOperation('Delete', items.length - newItems.length));
       setSelectedItems(new Set());
       // Deseleziona anche nell'editor principale
       if (onItemSelect) {
@@ -382,198 +453,36 @@ export const Timeline = ({
 
   // Calculate snap points for magnetic borders
   const calculateSnapPoints = useCallback((draggedItemId: string, targetTrack: number) => {
-    const snapPoints: { time: number; type: 'start' | 'end' | 'timeline-start' }[] = [];
-
-    // Always snap to timeline start
-    snapPoints.push({ time: 0, type: 'timeline-start' });
-
-    // Get all items in the same track except the dragged one
-    const otherItemsInTrack = items.filter(item =>
-      item.track === targetTrack && item.id !== draggedItemId
-    );
-
-    // Add start and end points of all other items
-    otherItemsInTrack.forEach(item => {
-      snapPoints.push({ time: item.startTime, type: 'start' });
-      snapPoints.push({ time: item.startTime + item.duration, type: 'end' });
-    });
-
-    return snapPoints.sort((a, b) => a.time - b.time);
+    return timelineModel.calculateSnapPoints(items, draggedItemId, targetTrack);
   }, [items]);
 
   // Find potential snap point (per il feedback visivo)
-  const findPotentialSnapPoint = useCallback((currentTime: number, duration: number, snapPoints: { time: number; type: 'start' | 'end' | 'timeline-start' }[]) => {
-    const snapThresholdTime = snapThreshold / scale;
-    
-    // Controlla snap per l'inizio dell'elemento
-    for (const snapPoint of snapPoints) {
-      if (Math.abs(currentTime - snapPoint.time) <= snapThresholdTime) {
-        return {
-          snapTime: snapPoint.time,
-          snapLine: snapPoint.time,
-          type: 'start'
-        };
-      }
-    }
-    
-    // Controlla snap per la fine dell'elemento
-    for (const snapPoint of snapPoints) {
-      if (Math.abs((currentTime + duration) - snapPoint.time) <= snapThresholdTime) {
-        return {
-          snapTime: snapPoint.time - duration,
-          snapLine: snapPoint.time,
-          type: 'end'
-        };
-      }
-    }
-    
-    return null;
+  const findPotentialSnapPoint = useCallback((currentTime: number, duration: number, snapPoints: SnapPoint[]) => {
+    return timelineModel.findPotentialSnapPoint(currentTime, duration, snapPoints, snapThreshold / scale);
   }, [scale, snapThreshold]);
 
   // Validate track compatibility con sistema dinamico - AGGIORNATO per supportare effetti
   const isValidTrack = useCallback((trackIndex: number, mediaType: string) => {
-    const track = tracks.find(t => t.index === trackIndex);
-    if (!track) return false;
-    
-    if (mediaType === 'video' || mediaType === 'image' || mediaType === 'effect') {
-      return track.type === 'video';
-    }
-    if (mediaType === 'audio') {
-      return track.type === 'audio';
-    }
-    return false;
+    return timelineModel.isValidTrack(tracks, trackIndex, mediaType as TimelineItem['mediaFile']['type']);
   }, [tracks]);
 
   // Aggiungi nuova traccia
   const addTrack = useCallback((type: 'video' | 'audio', afterIndex: number) => {
-    const newTracks = [...tracks];
-    
-    // Trova tutte le tracce dello stesso tipo
-    const sameTypeTracks = newTracks.filter(t => t.type === type);
-    const tracksOfOtherType = newTracks.filter(t => t.type !== type);
-    
-    // Calcola il nuovo indice (dove inserire fisicamente la traccia)
-    const insertIndex = afterIndex + 1;
-    
-    // Sposta tutti gli indici delle tracce successive
-    newTracks.forEach(track => {
-      if (track.index >= insertIndex) {
-        track.index += 1;
-      }
-    });
-    
-    // Aggiorna gli elementi nella timeline spostando le tracce successive
-    const updatedItems = items.map(item => {
-      if (item.track >= insertIndex) {
-        return { ...item, track: item.track + 1 };
-      }
-      return item;
-    });
-    
-    // Crea la nuova traccia
-    const newTrackId = `${type}-${Date.now()}`;
-    const newTrack: Track = {
-      id: newTrackId,
-      type,
-      index: insertIndex,
-      label: `${type === 'video' ? 'Video' : 'Audio'} ${sameTypeTracks.length + 1}`
-    };
-    
-    // Rinumera le etichette delle tracce dello stesso tipo
-    const updatedTracks = [...newTracks, newTrack]
-      .sort((a, b) => a.index - b.index)
-      .map(track => {
-        if (track.type === type) {
-          const sameTypeTracksOrdered = newTracks
-            .filter(t => t.type === type && t.index <= track.index)
-            .sort((a, b) => a.index - b.index);
-          
-          const trackNumber = sameTypeTracksOrdered.findIndex(t => t.index === track.index) + 1 + 
-            (track.index >= insertIndex ? 1 : 0);
-          
-          return {
-            ...track,
-            label: `${type === 'video' ? 'Video' : 'Audio'} ${trackNumber}`
-          };
-        }
-        return track;
-      });
-    
-    // Rinumera correttamente tutte le tracce dello stesso tipo
-    let videoCounter = 1;
-    let audioCounter = 1;
-    
-    const finalTracks = updatedTracks
-      .sort((a, b) => a.index - b.index)
-      .map(track => {
-        if (track.type === 'video') {
-          return { ...track, label: `Video ${videoCounter++}` };
-        } else {
-          return { ...track, label: `Audio ${audioCounter++}` };
-        }
-      });
-    
-    onTracksChange(finalTracks);
-    onItemsChangeWithHistory(updatedItems);
-  }, [tracks, items, onItemsChangeWithHistory, onTracksChange]);
+    const result = timelineModel.addTrack(tracks, items, type, afterIndex);
+    onTracksChange(result.tracks, result.items, `Add ${type} track`);
+  }, [tracks, items, onTracksChange]);
 
-  // Rimuovi traccia
+  // Rimuovi traccia (solo se vuota e non è l'ultima del suo tipo)
   const removeTrack = useCallback((trackToRemove: Track) => {
-    const sameTypeTracks = tracks.filter(t => t.type === trackToRemove.type);
-    
-    // Verifica che ci sia sempre almeno una traccia video e una audio
-    if (sameTypeTracks.length <= 1) {
-      return; // Non permettere la rimozione dell'ultima traccia del tipo
+    const result = timelineModel.removeTrack(tracks, items, trackToRemove.id);
+    if (result) {
+      onTracksChange(result.tracks, result.items, `Remove ${trackToRemove.label}`);
     }
-    
-    // Verifica che la traccia non abbia elementi
-    const hasItems = items.some(item => item.track === trackToRemove.index);
-    if (hasItems) {
-      return; // Non permettere la rimozione di tracce con elementi
-    }
-    
-    // Rimuovi la traccia
-    const newTracks = tracks.filter(t => t.id !== trackToRemove.id);
-    
-    // Aggiorna gli indici delle tracce successive
-    newTracks.forEach(track => {
-      if (track.index > trackToRemove.index) {
-        track.index -= 1;
-      }
-    });
-    
-    // Aggiorna gli elementi nella timeline spostando le tracce successive
-    const updatedItems = items.map(item => {
-      if (item.track > trackToRemove.index) {
-        return { ...item, track: item.track - 1 };
-      }
-      return item;
-    });
-    
-    // Rinumera correttamente tutte le tracce dello stesso tipo
-    let videoCounter = 1;
-    let audioCounter = 1;
-    
-    const finalTracks = newTracks
-      .sort((a, b) => a.index - b.index)
-      .map(track => {
-        if (track.type === 'video') {
-          return { ...track, label: `Video ${videoCounter++}` };
-        } else {
-          return { ...track, label: `Audio ${audioCounter++}` };
-        }
-      });
-    
-    onTracksChange(finalTracks);
-    onItemsChangeWithHistory(updatedItems);
-  }, [tracks, items, onItemsChangeWithHistory, onTracksChange]);
+  }, [tracks, items, onTracksChange]);
 
   // Verifica se una traccia può essere rimossa
   const canRemoveTrack = useCallback((track: Track) => {
-    const sameTypeTracks = tracks.filter(t => t.type === track.type);
-    const hasItems = items.some(item => item.track === track.index);
-    
-    return sameTypeTracks.length > 1 && !hasItems;
+    return timelineModel.canRemoveTrack(tracks, items, track);
   }, [tracks, items]);
 
   // Calcola gli elementi dentro il rettangolo di selezione
@@ -622,8 +531,8 @@ export const Timeline = ({
       setCopiedItem(null);
       
       // Rimuovi gli elementi dalla timeline
-      const newItems = items.filter(item => !selectedItems.has(item.id));
-      onItemsChangeWithHistory(newItems);
+      const newItems = timelineModel.removeItems(items, selectedItems);
+      onItemsChangeWithHistory(newItems, describeOperation('Cut', itemsToCut.length));
       setSelectedItems(new Set());
     } else if (item) {
       // Taglia singolo
@@ -632,67 +541,19 @@ export const Timeline = ({
       setCopiedItem(null);
       
       // Rimuovi l'elemento dalla timeline
-      onItemsChangeWithHistory(items.filter(i => i.id !== item.id));
+      onItemsChangeWithHistory(timelineModel.removeItems(items, [item.id]), describeOperation('Cut', 1));
     }
     setContextMenu(null);
   };
 
   const handlePaste = (track: number) => {
-    if (cutItems.length > 0) {
-      // Incolla elementi tagliati
-      const newItems = cutItems.map(cutItem => ({
-        ...cutItem,
-        id: `${cutItem.id}_paste_${Date.now()}_${Math.random()}`,
-        track: isValidTrack(track, cutItem.mediaFile.type) ? track : cutItem.track,
-        startTime: currentTime,
-        mediaStartOffset: cutItem.mediaStartOffset || 0
-      }));
-      onItemsChangeWithHistory([...items, ...newItems]);
-      setCutItems([]);
-    } else if (copiedItems.length > 0) {
-      // Incolla elementi copiati
-      const newItems = copiedItems.map(copiedItem => ({
-        ...copiedItem,
-        id: `${copiedItem.id}_paste_${Date.now()}_${Math.random()}`,
-        track: isValidTrack(track, copiedItem.mediaFile.type) ? track : copiedItem.track,
-        startTime: currentTime,
-        mediaStartOffset: copiedItem.mediaStartOffset || 0
-      }));
-      onItemsChangeWithHistory([...items, ...newItems]);
-    } else if (copiedItem) {
-      // Incolla elemento singolo copiato
-      const newItem = {
-        ...copiedItem,
-        id: `${copiedItem.id}_paste_${Date.now()}`,
-        track,
-        startTime: currentTime,
-        mediaStartOffset: copiedItem.mediaStartOffset || 0
-      };
-      onItemsChangeWithHistory([...items, newItem]);
-    }
+    pasteClipboard(track);
   };
 
   const handleSplit = (item: TimelineItem) => {
-    const splitTime = currentTime - item.startTime;
-    if (splitTime > 0 && splitTime < item.duration) {
-      const originalMediaOffset = item.mediaStartOffset || 0;
-
-      const firstPart = {
-        ...item,
-        duration: splitTime,
-        mediaStartOffset: originalMediaOffset
-      };
-
-      const secondPart = {
-        ...item,
-        id: `${item.id}_split_${Date.now()}`,
-        startTime: item.startTime + splitTime,
-        duration: item.duration - splitTime,
-        mediaStartOffset: originalMediaOffset + splitTime
-      };
-
-      const newItems = items.filter(i => i.id !== item.id);
-      onItemsChangeWithHistory([...newItems, firstPart, secondPart]);
+    const newItems = timelineModel.splitItemAt(items, item.id, currentTime);
+    if (newItems !== items) {
+      onItemsChangeWithHistory(newItems, describeOperation('Split', 1));
     }
     setContextMenu(null);
   };
@@ -700,12 +561,12 @@ export const Timeline = ({
   const handleDelete = (itemId?: string) => {
     if (selectedItems.size > 1) {
       // Eliminazione multipla
-      const newItems = items.filter(item => !selectedItems.has(item.id));
-      onItemsChangeWithHistory(newItems);
+      const newItems = timelineModel.removeItems(items, selectedItems);
+      onItemsChangeWithHistory(newItems, describeOperation('Delete', items.length - newItems.length));
       setSelectedItems(new Set());
     } else if (itemId) {
       // Eliminazione singola
-      onItemsChangeWithHistory(items.filter(item => item.id !== itemId));
+      onItemsChangeWithHistory(timelineModel.removeItems(items, [itemId]), describeOperation('Delete', 1));
     }
     setContextMenu(null);
     
@@ -889,70 +750,12 @@ export const Timeline = ({
         if (!item) return;
 
         const snapPoints = calculateSnapPoints(resizing.itemId, item.track);
-        const snapThresholdTime = snapThreshold / scale;
-
-        const updatedItems = items.map(i => {
-          if (i.id === resizing.itemId) {
-            if (resizing.edge === 'left') {
-              const maxStartTime = i.startTime + i.duration - 0.1;
-              let newStartTime = newTime;
-              let snapLineTime: number | undefined;
-
-              // Cerca snap per il resize left
-              for (const snapPoint of snapPoints) {
-                if (Math.abs(newTime - snapPoint.time) <= snapThresholdTime) {
-                  newStartTime = snapPoint.time;
-                  snapLineTime = snapPoint.time;
-                  break;
-                }
-              }
-
-              newStartTime = Math.max(0, Math.min(newStartTime, maxStartTime));
-              const durationChange = i.startTime - newStartTime;
+        const resized = timelineModel.resizeItem(item, resizing.edge, newTime, snapPoints, snapThreshold / scale);
 
-              // Aggiorna snap lines
-              if (snapLineTime !== undefined) {
-                setActiveSnapLines([snapLineTime]);
-              } else {
-                setActiveSnapLines([]);
-              }
-
-              return {
-                ...i,
-                startTime: newStartTime,
-                duration: i.duration + durationChange
-              };
-            } else {
-              const minEndTime = i.startTime + 0.1;
-              let newEndTime = newTime;
-              let snapLineTime: number | undefined;
-
-              // Cerca snap per il resize right
-              for (const snapPoint of snapPoints) {
-                if (Math.abs(newTime - snapPoint.time) <= snapThresholdTime) {
-                  newEndTime = snapPoint.time;
-                  snapLineTime = snapPoint.time;
-                  break;
-                }
-              }
-
-              newEndTime = Math.max(minEndTime, newEndTime);
+        // Aggiorna snap lines
+        setActiveSnapLines(resized.snapLine !== null ? [resized.snapLine] : []);
 
-              // Aggiorna snap lines
-              if (snapLineTime !== undefined) {
-                setActiveSnapLines([snapLineTime]);
-              } else {
-                setActiveSnapLines([]);
-              }
-
-              return {
-                ...i,
-                duration: newEndTime - i.startTime
-              };
-            }
-          }
-          return i;
-        });
+        const updatedItems = items.map(i => i.id === resizing.itemId ? resized.item : i);
         
         onItemsChange(updatedItems);
       } else if (isDragging && draggedItem && dragState) {
@@ -1108,9 +911,13 @@ export const Timeline = ({
             return item;
           });
 
-          // Salva nella history
-          onItemsChangeWithHistory(finalItems);
+          // Salva nella history: l'intero drag diventa un solo passo
+          onItemsChangeWithHistory(finalItems, describeOperation('Move', dragState.draggedItems.length));
         }
+      } else if (resizing) {
+        // Il resize aggiorna gli elementi live: al rilascio si registra un solo passo
+        const resizedItem = items.find(i => i.id === resizing.itemId);
+        onItemsChangeWithHistory(items, resizedItem?.mediaFile.type === 'effect' ? 'Change effect duration' : 'Trim clip');
       }
 
       // Reset di tutti gli stati
@@ -1238,6 +1045,29 @@ export const Timeline = ({
               ✂
             </div>
           )}
+          {/* Keyframe del clip */}
+          {hasKeyframes(item) && !isPartOfDrag && (
+            <TimelineKeyframes
+              item={item}
+              scale={scale}
+              onSeek={onTimeChange}
+              onMove={(fromTime, toTime, commit) => {
+                const moved = moveKeyframesAt(items, item.id, fromTime, toTime);
+                if (commit) onItemsChangeWithHistory(moved, 'Move keyframe');
+                else onItemsChange(moved);
+              }}
+              onRemove={(time) => onItemsChangeWithHistory(removeKeyframesAt(items, item.id, time), 'Remove keyframe')}
+            />
+          )}
+          {/* Effetti nello stack del clip: si spostano insieme al clip */}
+          {hasClipEffects(item) && (
+            <div
+              className="absolute bottom-0.5 left-1 px-1 rounded bg-red-600/90 text-[9px] leading-3 text-white"
+              title={item.effects!.map(effect => getEffectName(effect.type)).join(' → ')}
+            >
+              fx {item.effects!.length}
+            </div>
+          )}
           {/* Indicatore specifico per effetti */}
           {item.mediaFile.type === 'effect' && (
             <div className="absolute top-1 right-1 text-[10px] text-white/80">
@@ -1306,7 +1136,7 @@ export const Timeline = ({
         )}
         {/* Indicatori scorciatoie */}
         <div className="text-[9px] text-gray-500 mt-1 border-t border-gray-600 pt-1">
-          Ctrl+C/X/V | Canc
+          Ctrl+C/X/V | Canc | I/O
         </div>
       </div>
 
@@ -1332,6 +1162,9 @@ export const Timeline = ({
           >
             {generateTimeMarkers()}
 
+            {/* In/Out markers */}
+            {renderInOutMarkers()}
+
             {/* Playhead */}
             <div
               className="absolute top-0 bottom-0 bg-playhead z-30 pointer-events-none"
@@ -1437,6 +1270,18 @@ export const Timeline = ({
               trackItems.map(item => renderTimelineItem(item, tracks[trackIndex].index))
             )}
 
+            {/* Transizioni sui tagli tra clip adiacenti (nascoste durante il drag) */}
+            {!isDragging && findTransitionCuts(items).map(cut => (
+              <TimelineTransition
+                key={`${cut.outgoing.id}-${cut.incoming.id}`}
+                cut={cut}
+                scale={scale}
+                top={cut.incoming.track * 60 + 8}
+                onChange={(transition, label) => onItemsChangeWithHistory(setItemTransition(items, cut.incoming.id, transition), label)}
+                onPreview={(transition) => onItemsChange(setItemTransition(items, cut.incoming.id, transition))}
+              />
+            ))}
+
             {/* Grid Lines */}
             <div className="absolute inset-0 pointer-events-none">
               {Array.from({ length: Math.ceil(totalDuration / (scale > 80 ? 1 : scale > 40 ? 5 : 10)) }).map((_, i) => {
@@ -1455,6 +1300,19 @@ export const Timeline = ({
               })}
             </div>
 
+            {/* In/Out lines */}
+            {[markers.inPoint, markers.outPoint].filter(time => time !== null).map((time, index) => (
+              <div
+                key={`marker-${index}`}
+                className="absolute w-px border-l border-dashed border-blue-500/60 pointer-events-none z-10"
+                style={{
+                  left: `${time * scale}px`,
+                  top: '0px',
+                  height: `${timelineHeight}px`
+                }}
+              />
+            ))}
+
             {/* Snap Lines (barrette gialle) */}
             {activeSnapLines.map((snapTime, index) => (
               <div
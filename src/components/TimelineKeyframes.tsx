@@ -0,0 +1,64 @@
+import type { TimelineItem } from "./VideoEditor";
+import { getKeyframeTimes } from "@/lib/keyframes";
+
+interface TimelineKeyframesProps {
+  item: TimelineItem;
+  scale: number; // pixel per secondo
+  onSeek: (time: number) => void;
+  onMove: (fromTime: number, toTime: number, commit: boolean) => void; // commit = fine trascinamento, con history
+  onRemove: (time: number) => void;
+}
+
+// Soglia in pixel oltre la quale il click diventa un trascinamento
+const DRAG_THRESHOLD = 3;
+
+// Rombi sul bordo inferiore del clip, uno per ogni tempo con keyframe: click per spostare il cursore,
+// trascinamento per spostare tutti i keyframe di quel tempo, doppio click per rimuoverli
+export const TimelineKeyframes = ({ item, scale, onSeek, onMove, onRemove }: TimelineKeyframesProps) => {
+  const handleMouseDown = (e: React.MouseEvent, time: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const startX = e.clientX;
+    let current = time;
+    let dragging = false;
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      if (!dragging && Math.abs(moveEvent.clientX - startX) < DRAG_THRESHOLD) return;
+      dragging = true;
+      current = Math.max(0, Math.min(item.duration, time + (moveEvent.clientX - startX) / scale));
+      onMove(time, current, false);
+    };
+
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      if (!dragging) {
+        onSeek(item.startTime + time);
+      } else if (current !== time) {
+        onMove(time, current, true);
+      }
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  return (
+    <>
+      {getKeyframeTimes(item).map(time => (
+        <div
+          key={time}
+          className="absolute bottom-0 z-20 w-2.5 h-2.5 -ml-[5px] rotate-45 bg-yellow-300 border border-yellow-700 cursor-ew-resize hover:bg-white"
+          style={{ left: `${time * scale}px` }}
+          title={`Keyframe at ${(item.startTime + time).toFixed(2)}s (drag to move, double-click to remove)`}
+          onMouseDown={(e) => handleMouseDown(e, time)}
+          onDoubleClick={(e) => {
+            e.stopPropagation();
+            onRemove(time);
+          }}
+        />
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,154 @@
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  ClipTransition,
+  DEFAULT_TRANSITION_DURATION,
+  TRANSITIONS,
+  TransitionCut,
+  TransitionDefinition,
+  clampTransitionDuration,
+  getTransitionDefinition,
+  getTransitionWindow
+} from "@/lib/render/transitions";
+
+interface TimelineTransitionProps {
+  cut: TransitionCut;
+  scale: number; // pixel per secondo
+  top: number;
+  onChange: (transition: ClipTransition | null, label: string) => void; // Con history
+  onPreview: (transition: ClipTransition) => void; // Durante il trascinamento, senza history
+}
+
+const CATEGORIES: TransitionDefinition['category'][] = ['Dissolve', 'Wipe', 'Slide'];
+
+// Marker sul taglio tra due clip: aggiunge, cambia o rimuove la transizione e ne regola la durata trascinando i bordi
+export const TimelineTransition = ({ cut, scale, top, onChange, onPreview }: TimelineTransitionProps) => {
+  const transition = cut.incoming.transition;
+
+  const handleSelect = (definition: TransitionDefinition) => {
+    const duration = clampTransitionDuration(transition?.duration ?? DEFAULT_TRANSITION_DURATION, cut.outgoing, cut.incoming);
+    onChange({ type: definition.type, duration }, transition ? 'Change transition' : 'Add transition');
+  };
+
+  // La transizione è centrata sul taglio: allargare un bordo allarga anche l'altro
+  const handleResizeMouseDown = (e: React.MouseEvent, edge: 'left' | 'right') => {
+    if (!transition) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const startX = e.clientX;
+    const startDuration = clampTransitionDuration(transition.duration, cut.outgoing, cut.incoming);
+    let current = { ...transition, duration: startDuration };
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const delta = (moveEvent.clientX - startX) / scale;
+      const duration = startDuration + (edge === 'right' ? delta : -delta) * 2;
+      current = { ...transition, duration: clampTransitionDuration(duration, cut.outgoing, cut.incoming) };
+      onPreview(current);
+    };
+
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      if (current.duration !== transition.duration) {
+        onChange(current, 'Change transition duration');
+      }
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const menu = (
+    <DropdownMenuContent align="center" className="w-48">
+      {CATEGORIES.map((category, index) => (
+        <div key={category}>
+          {index > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuLabel className="text-xs text-muted-foreground">{category}</DropdownMenuLabel>
+          {TRANSITIONS.filter(definition => definition.category === category).map(definition => (
+            <DropdownMenuItem
+              key={definition.type}
+              className="text-xs"
+              onSelect={() => handleSelect(definition)}
+            >
+              {definition.name}
+              {transition?.type === definition.type && <span className="ml-auto text-muted-foreground">✓</span>}
+            </DropdownMenuItem>
+          ))}
+        </div>
+      ))}
+      {transition && (
+        <>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="text-xs text-destructive focus:text-destructive"
+            onSelect={() => onChange(null, 'Remove transition')}
+          >
+            <Trash2 className="w-3 h-3 mr-2" />
+            Remove transition
+          </DropdownMenuItem>
+        </>
+      )}
+    </DropdownMenuContent>
+  );
+
+  if (!transition) {
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className="absolute z-20 w-4 h-4 -ml-2 rounded-full bg-background/80 border border-white/40 text-white flex items-center justify-center opacity-40 hover:opacity-100"
+            style={{ left: `${cut.time * scale}px`, top: `${top + 16}px` }}
+            onMouseDown={(e) => e.stopPropagation()}
+            title="Add transition"
+          >
+            <Plus className="w-3 h-3" />
+          </button>
+        </DropdownMenuTrigger>
+        {menu}
+      </DropdownMenu>
+    );
+  }
+
+  const span = getTransitionWindow(cut, transition);
+
+  return (
+    <div
+      className="absolute z-20 h-6 flex rounded bg-white/25 border border-white/60 backdrop-blur-sm text-white"
+      style={{
+        left: `${span.start * scale}px`,
+        width: `${Math.max(12, (span.end - span.start) * scale)}px`,
+        top: `${top + 12}px`
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div
+        className="w-1.5 h-full flex-shrink-0 cursor-ew-resize hover:bg-white/50 rounded-l"
+        onMouseDown={(e) => handleResizeMouseDown(e, 'left')}
+      />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className="flex-1 min-w-0 px-1 text-[10px] font-medium truncate text-center"
+            title={`${getTransitionDefinition(transition.type).name} (${(span.end - span.start).toFixed(1)}s)`}
+          >
+            {getTransitionDefinition(transition.type).name}
+          </button>
+        </DropdownMenuTrigger>
+        {menu}
+      </DropdownMenu>
+      <div
+        className="w-1.5 h-full flex-shrink-0 cursor-ew-resize hover:bg-white/50 rounded-r"
+        onMouseDown={(e) => handleResizeMouseDown(e, 'right')}
+      />
+    </div>
+  );
+};
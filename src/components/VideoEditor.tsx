@@ -1,13 +1,79 @@
-import { useState, useMemo, useEffect, useCallback, useRef } from "react";
+import { useState, useMemo, useEffect, useLayoutEffect, useCallback, useRef } from "react";
 import { FilesBrowser } from "./FilesBrowser";
 import { CompositeVideoPlayer } from "./CompositeVideoPlayer";
 import { Timeline, Track } from "./Timeline";
 import { ExportDialog } from "./ExportDialog";
 import { EffectsDialog } from "./EffectsDialog";
 import { AudioMixerDialog } from "./AudioMixerDialog";
+import { RestoreSessionDialog } from "./RestoreSessionDialog";
+import { MissingMediaDialog, MissingMediaEntry } from "./MissingMediaDialog";
+import { ExportJobsPanel } from "./ExportJobsPanel";
+import { ClipInspector } from "./ClipInspector";
+import { EffectInspector } from "./EffectInspector";
+import { ColorPanel } from "./ColorPanel";
+import { SettingsDialog } from "./SettingsDialog";
 import { Button } from "@/components/ui/button";
-import { Download } from "lucide-react";
+import { Download, FolderOpen, Save, AlertTriangle, Settings } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAutosave } from "@/hooks/use-autosave";
+import { useExportQueue } from "@/hooks/use-export-queue";
+import { createExportTask } from "@/lib/export/tasks";
+import { isJobFinished } from "@/lib/export/queue";
+import {
+  AspectRatio,
+  ExportFPS,
+  MediaReference,
+  PROJECT_FILE_EXTENSION,
+  ProjectState,
+  describeMediaFile,
+  deserializeProject,
+  downloadProjectFile,
+  migrateProject,
+  parseProjectFile,
+  relinkMediaFiles,
+  replaceMediaInItems,
+  serializeProject
+} from "@/lib/project";
+import {
+  SessionSummary,
+  StorageUsage,
+  deleteAllSessions,
+  deleteSession,
+  getStorageUsage,
+  isSessionStoreAvailable,
+  listSessions,
+  loadSession,
+  purgeSessions,
+  requestPersistentStorage
+} from "@/lib/sessionStore";
+import { probeMediaUrl } from "@/lib/media";
+import type { ClipTransition } from "@/lib/render/transitions";
+import { ClipEffect, addClipEffect, createClipEffect, isLutUsed } from "@/lib/render/effects";
+import { formatEffectParams, getEffectDefinition, getMissingParameter, resolveEffectParams } from "@/lib/effects";
+import type { KeyframeTracks } from "@/lib/keyframes";
+import type { EffectParams } from "@/lib/effects";
+import type { ClipTransform } from "@/lib/render/transform";
+import type { BlendMode } from "@/lib/render/blending";
+import type { ColorCorrection } from "@/lib/render/color";
+import { LutAsset, setLutLibrary } from "@/lib/render/lut";
+import { setRenderBackend } from "@/lib/render/pixels";
+import { EditorSettings, loadEditorSettings, saveEditorSettings } from "@/lib/settings";
+import { EMPTY_MARKERS, InOutMarkers } from "@/lib/timeline";
+import {
+  DocumentPatch,
+  EditorDocument,
+  EditorHistory,
+  RecordOptions,
+  applyPatch,
+  canRedo,
+  canUndo,
+  createHistory,
+  deserializeHistory,
+  getHistoryItems,
+  jumpToStep,
+  mapHistoryItems,
+  recordChange
+} from "@/lib/history";
 
 export interface MediaFile {
   id: string;
@@ -17,7 +83,7 @@ export interface MediaFile {
   duration: number;
   file?: File; // Opzionale per gli effetti
   effectType?: string; // Per identificare il tipo di effetto
-  effectIntensity?: number; // Intensità dell'effetto (0-100) per zoom, ecc.
+  effectIntensity?: number; // Intensità dei progetti precedenti ai parametri (vedi TimelineItem.effectParams)
 }
 
 export interface TimelineItem {
@@ -27,37 +93,77 @@ export interface TimelineItem {
   duration: number;
   track: number; // 0, 1, or 2
   mediaStartOffset?: number; // Offset in seconds from start of original media file
+  transition?: ClipTransition; // Transizione dal clip adiacente precedente sulla stessa traccia
+  effects?: ClipEffect[]; // Stack di effetti del solo clip, in ordine di applicazione
+  keyframes?: KeyframeTracks; // Parametri animati del clip (opacità, scala, volume, intensità effetti...)
+  transform?: ClipTransform; // Posizione, scala, ritaglio e adattamento nel fotogramma (assente = impaginazione predefinita)
+  opacity?: number; // Opacità statica in percentuale (assente = 100), sostituita dai keyframe se animata
+  blendMode?: BlendMode; // Fusione con le tracce sottostanti (assente = normale)
+  colorCorrection?: ColorCorrection; // Assente = colori originali
+  effectParams?: EffectParams; // Solo per gli elementi 'effect': parametri dello schema del plugin
 }
 
-interface HistoryState {
-  timelineItems: TimelineItem[];
-  currentTime: number;
-}
+const DEFAULT_TRACKS: Track[] = [
+  { id: 'video-0', type: 'video', index: 0, label: 'Video 1' },
+  { id: 'audio-0', type: 'audio', index: 1, label: 'Audio 1' },
+  { id: 'audio-1', type: 'audio', index: 2, label: 'Audio 2' }
+];
 
 export const VideoEditor = () => {
   const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
+  const [luts, setLuts] = useState<LutAsset[]>([]);
   const [timelineItems, setTimelineItems] = useState<TimelineItem[]>([]);
   const [currentTime, setCurrentTime] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [history, setHistory] = useState<HistoryState[]>([{ timelineItems: [], currentTime: 0 }]);
-  const [historyIndex, setHistoryIndex] = useState(0);
-  const [aspectRatio, setAspectRatio] = useState<'16:9' | '4:3' | '9:16'>('16:9');
-  const [exportFPS, setExportFPS] = useState<24 | 30 | 60>(30); // Nuovo state per FPS
+  const [history, setHistory] = useState<EditorHistory>(createHistory);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
+  const [exportFPS, setExportFPS] = useState<ExportFPS>(30); // Nuovo state per FPS
   const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
   const [isEffectsDialogOpen, setIsEffectsDialogOpen] = useState(false);
   const [isAudioMixerOpen, setIsAudioMixerOpen] = useState(false);
+  const [isColorPanelOpen, setIsColorPanelOpen] = useState(false);
+  const [colorCompare, setColorCompare] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [editorSettings, setEditorSettings] = useState<EditorSettings>(loadEditorSettings);
   const [selectedTimelineItemId, setSelectedTimelineItemId] = useState<string | undefined>();
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+  const [markers, setMarkers] = useState<InOutMarkers>(EMPTY_MARKERS);
   const [trackVolumes, setTrackVolumes] = useState<Map<string, number>>(new Map());
   
+  // Media del progetto aperto che non sono ancora stati ricollegati a un File
+  const [unresolvedMedia, setUnresolvedMedia] = useState<MediaReference[]>([]);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  // Media la cui sorgente non si carica (mediaId -> motivo)
+  const [failedMedia, setFailedMedia] = useState<Map<string, string>>(new Map());
+  const [isMissingMediaOpen, setIsMissingMediaOpen] = useState(false);
+  const probedUrlsRef = useRef<Set<string>>(new Set());
+
+  // Autosave: ogni tab ha la propria sessione, il ripristino riprende quella scelta
+  const [sessionId, setSessionId] = useState(() => `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`);
+  const [sessionCheckDone, setSessionCheckDone] = useState(false);
+  const [recoverableSessions, setRecoverableSessions] = useState<SessionSummary[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [isRestoreDialogOpen, setIsRestoreDialogOpen] = useState(false);
+
   // Throttling per aggiornamenti volume
   const volumeUpdateTimeoutRef = useRef<Map<string, number>>(new Map());
 
   // Gestione tracce dinamiche
-  const [tracks, setTracks] = useState<Track[]>([
-    { id: 'video-0', type: 'video', index: 0, label: 'Video 1' },
-    { id: 'audio-0', type: 'audio', index: 1, label: 'Audio 1' },
-    { id: 'audio-1', type: 'audio', index: 2, label: 'Audio 2' }
-  ]);
+  const [tracks, setTracks] = useState<Track[]>(DEFAULT_TRACKS);
+
+  // Ultimo stato confermato nella history: le modifiche live (drag, resize) non lo aggiornano,
+  // così al rilascio l'intera operazione diventa un solo passo
+  const committedRef = useRef<EditorDocument>({
+    timelineItems: [],
+    tracks: DEFAULT_TRACKS,
+    trackVolumes: new Map(),
+    aspectRatio: '16:9',
+    exportFPS: 30
+  });
+
+  // Elementi modificati live (drag o slider in corso) non ancora confermati nella history
+  const liveItemsRef = useRef<TimelineItem[] | null>(null);
 
   // Cleanup per i timeout dei volumi
   useEffect(() => {
@@ -71,6 +177,49 @@ export const VideoEditor = () => {
 
   const { toast } = useToast();
 
+  // All'avvio cerca sessioni precedenti da ripristinare (dopo un crash o una chiusura)
+  useEffect(() => {
+    if (!isSessionStoreAvailable()) {
+      setSessionCheckDone(true);
+      return;
+    }
+
+    const checkSessions = async () => {
+      try {
+        await purgeSessions();
+        const sessions = (await listSessions()).filter(session => session.itemCount > 0 || session.mediaCount > 0);
+        setRecoverableSessions(sessions);
+        setStorageUsage(await getStorageUsage());
+        if (sessions.length > 0) {
+          setIsRestoreDialogOpen(true);
+        } else {
+          setSessionCheckDone(true);
+        }
+      } catch (error) {
+        console.warn('Failed to check autosaved sessions:', error);
+        setSessionCheckDone(true);
+      }
+    };
+
+    requestPersistentStorage();
+    checkSessions();
+  }, []);
+
+  const { status: autosaveStatus, lastSavedAt } = useAutosave({
+    sessionId,
+    enabled: sessionCheckDone,
+    state: { mediaFiles, timelineItems, tracks, trackVolumes, aspectRatio, exportFPS, markers, luts },
+    history,
+    currentTime,
+    onStorageFull: (message) => {
+      toast({
+        title: "Autosave Storage Full",
+        description: message,
+        variant: "destructive",
+      });
+    }
+  });
+
   // Keyboard shortcuts for undo/redo
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -87,7 +236,49 @@ export const VideoEditor = () => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [historyIndex, history]);
+  }, [history]);
+
+  const handleMediaError = useCallback((mediaId: string, reason = 'Failed to load') => {
+    setFailedMedia(prev => {
+      if (prev.get(mediaId) === reason) return prev;
+      return new Map(prev).set(mediaId, reason);
+    });
+  }, []);
+
+  const exportQueue = useExportQueue({
+    onMediaLoadError: handleMediaError,
+    onJobFinished: job => {
+      if (job.status === 'completed') {
+        toast({ title: "Export complete", description: job.fileName });
+      } else {
+        toast({ title: "Export failed", description: job.error, variant: "destructive" });
+      }
+    }
+  });
+
+  // Verifica in background che ogni sorgente sia ancora caricabile
+  useEffect(() => {
+    mediaFiles.forEach(mediaFile => {
+      if (mediaFile.type === 'effect' || !mediaFile.url || probedUrlsRef.current.has(mediaFile.url)) return;
+      probedUrlsRef.current.add(mediaFile.url);
+
+      probeMediaUrl(mediaFile.url, mediaFile.type).then(result => {
+        if (!result.ok) {
+          handleMediaError(mediaFile.id, result.error);
+        }
+      });
+    });
+  }, [mediaFiles, handleMediaError]);
+
+  const missingMediaEntries = useMemo<MissingMediaEntry[]>(() => {
+    return mediaFiles
+      .filter(mediaFile => mediaFile.type !== 'effect' && (!mediaFile.url || failedMedia.has(mediaFile.id)))
+      .map(mediaFile => ({
+        mediaFile,
+        reference: unresolvedMedia.find(reference => reference.id === mediaFile.id) ?? describeMediaFile(mediaFile),
+        reason: mediaFile.url ? failedMedia.get(mediaFile.id) ?? 'Failed to load' : 'Not linked to a file'
+      }));
+  }, [mediaFiles, failedMedia, unresolvedMedia]);
 
   // Calcola dinamicamente la durata totale basata sugli elementi nella timeline
   const totalDuration = useMemo(() => {
@@ -105,70 +296,115 @@ export const VideoEditor = () => {
     return Math.ceil(maxEndTime + buffer);
   }, [timelineItems]);
 
+  // Il renderer legge le LUT dalla libreria: va aggiornata prima che preview ed export disegnino
+  useLayoutEffect(() => {
+    setLutLibrary(luts);
+  }, [luts]);
+
+  // Come la libreria LUT: il backend scelto vale per preview ed export
+  useLayoutEffect(() => {
+    setRenderBackend(editorSettings.renderer);
+  }, [editorSettings.renderer]);
+
+  const handleSettingsChange = (settings: EditorSettings) => {
+    setEditorSettings(settings);
+    saveEditorSettings(settings);
+  };
+
+  const handleLutsAdded = (assets: LutAsset[]) => {
+    setLuts(prev => [...prev, ...assets]);
+    toast({
+      title: "LUTs Imported",
+      description: `${assets.length} LUT${assets.length !== 1 ? 's' : ''} added to the library.`,
+    });
+  };
+
+  // Le LUT non fanno parte della history: una LUT usata da un passo di undo/redo o da un export
+  // in coda tornerebbe a essere referenziata dopo la rimozione
+  const handleRemoveLut = (lutId: string) => {
+    const timelines = [timelineItems, committedRef.current.timelineItems, getHistoryItems(history)];
+    if (timelines.some(items => isLutUsed(items, lutId))) {
+      toast({
+        title: "LUT In Use",
+        description: "Remove the LUT effect from every clip before deleting it from the library. Clips in the undo history count too.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (exportQueue.jobs.some(job => !isJobFinished(job))) {
+      toast({
+        title: "Export In Progress",
+        description: "Wait for the queued exports to finish before deleting LUTs.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setLuts(prev => prev.filter(lut => lut.id !== lutId));
+  };
+
   const handleFilesAdded = (files: MediaFile[]) => {
     setMediaFiles(prev => [...prev, ...files]);
   };
 
-  // Save state to history
-  const saveToHistory = (newTimelineItems: TimelineItem[], newCurrentTime: number = currentTime) => {
-    const newState: HistoryState = {
-      timelineItems: newTimelineItems,
-      currentTime: newCurrentTime
-    };
-
-    // Remove any future history if we're not at the end
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newState);
+  const applyDocument = useCallback((document: EditorDocument) => {
+    setTimelineItems(document.timelineItems);
+    setTracks(document.tracks);
+    setTrackVolumes(document.trackVolumes);
+    setAspectRatio(document.aspectRatio);
+    setExportFPS(document.exportFPS);
+  }, []);
 
-    // Limit history to 50 steps
-    if (newHistory.length > 50) {
-      newHistory.shift();
-    } else {
-      setHistoryIndex(prev => prev + 1);
-    }
+  // Applica una modifica al documento e la registra come operazione con nome
+  const commitChange = useCallback((label: string, changes: DocumentPatch, options?: RecordOptions) => {
+    const before = committedRef.current;
+    const after = applyPatch(before, changes);
+    committedRef.current = after;
+    // Se l'operazione non tocca la timeline, la modifica live in corso resta visibile: la registrerà il suo rilascio
+    if (changes.timelineItems) liveItemsRef.current = null;
+    applyDocument(liveItemsRef.current ? { ...after, timelineItems: liveItemsRef.current } : after);
+    setHistory(prev => recordChange(prev, label, before, after, options));
+  }, [applyDocument]);
 
-    setHistory(newHistory);
+  // Porta l'editor a un passo qualsiasi della history (0 = stato iniziale)
+  const handleJumpToHistory = (targetIndex: number) => {
+    const result = jumpToStep(history, committedRef.current, targetIndex);
+    committedRef.current = result.document;
+    liveItemsRef.current = null;
+    applyDocument(result.document);
+    setHistory(result.history);
   };
 
   // Undo function
   const handleUndo = () => {
-    if (historyIndex > 0) {
-      const newIndex = historyIndex - 1;
-      const previousState = history[newIndex];
-      setTimelineItems(previousState.timelineItems);
-      setCurrentTime(previousState.currentTime);
-      setHistoryIndex(newIndex);
+    if (canUndo(history)) {
+      handleJumpToHistory(history.index - 1);
     }
   };
 
   // Redo function
   const handleRedo = () => {
-    if (historyIndex < history.length - 1) {
-      const newIndex = historyIndex + 1;
-      const nextState = history[newIndex];
-      setTimelineItems(nextState.timelineItems);
-      setCurrentTime(nextState.currentTime);
-      setHistoryIndex(newIndex);
+    if (canRedo(history)) {
+      handleJumpToHistory(history.index + 1);
     }
   };
 
   const handleItemAddedToTimeline = (item: TimelineItem) => {
-    const newItems = [...timelineItems, item];
-    setTimelineItems(newItems);
-    saveToHistory(newItems);
+    commitChange(`Add ${item.mediaFile.name}`, {
+      timelineItems: [...committedRef.current.timelineItems, item]
+    });
   };
 
   const handleTimelineItemsChange = (items: TimelineItem[]) => {
+    liveItemsRef.current = items;
     setTimelineItems(items);
   };
 
-  const handleTimelineItemsChangeWithHistory = (items: TimelineItem[]) => {
-    setTimelineItems(items);
-    saveToHistory(items);
+  const handleTimelineItemsChangeWithHistory = (items: TimelineItem[], label: string) => {
+    commitChange(label, { timelineItems: items });
   };
 
-  const handleTracksChange = (newTracks: Track[]) => {
-    setTracks(newTracks);
+  const handleTracksChange = (newTracks: Track[], items: TimelineItem[], label: string) => {
+    commitChange(label, { tracks: newTracks, timelineItems: items });
   };
 
   const handleExport = () => {
@@ -184,21 +420,216 @@ export const VideoEditor = () => {
     setIsExportDialogOpen(true);
   };
 
+  // Sostituisce l'intero stato dell'editor (apertura progetto o ripristino sessione)
+  const applyProjectState = (
+    state: ProjectState,
+    missing: MediaReference[],
+    restored?: { history: EditorHistory; currentTime: number }
+  ) => {
+    const projectDocument: EditorDocument = {
+      timelineItems: state.timelineItems,
+      tracks: state.tracks,
+      trackVolumes: state.trackVolumes,
+      aspectRatio: state.aspectRatio,
+      exportFPS: state.exportFPS
+    };
+
+    setIsPlaying(false);
+    setMediaFiles(state.mediaFiles);
+    setLuts(state.luts);
+    committedRef.current = projectDocument;
+    liveItemsRef.current = null;
+    applyDocument(projectDocument);
+    setSelectedTimelineItemId(undefined);
+    setMarkers(state.markers);
+    setUnresolvedMedia(missing);
+    setFailedMedia(new Map());
+    if (missing.length > 0) {
+      setIsMissingMediaOpen(true);
+    }
+
+    setHistory(restored?.history ?? createHistory());
+    setCurrentTime(restored?.currentTime ?? 0);
+  };
+
+  const handleRestoreSession = async (restoreId: string) => {
+    try {
+      const loaded = await loadSession(restoreId);
+      if (!loaded) throw new Error('Session not found');
+
+      const { session, files } = loaded;
+      // Le sessioni salvate da versioni precedenti passano dalle stesse migrazioni dei file di progetto
+      const { state, unresolvedMedia: missing } = deserializeProject(migrateProject(session.project), files);
+      applyProjectState(state, missing, {
+        history: deserializeHistory(session.history, state.mediaFiles),
+        currentTime: session.currentTime
+      });
+
+      // Continua l'autosave sulla sessione ripristinata
+      setSessionId(restoreId);
+      setIsRestoreDialogOpen(false);
+      setSessionCheckDone(true);
+
+      toast({
+        title: "Session Restored",
+        description: missing.length > 0
+          ? `${missing.length} media file${missing.length !== 1 ? 's were' : ' was'} not stored and need${missing.length !== 1 ? '' : 's'} to be relinked.`
+          : `${state.timelineItems.length} timeline items restored.`,
+      });
+    } catch (error) {
+      console.error('Failed to restore session:', error);
+      toast({
+        title: "Restore Failed",
+        description: error instanceof Error ? error.message : "The session could not be restored.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDiscardSession = async (discardId: string) => {
+    try {
+      await deleteSession(discardId);
+      const remaining = recoverableSessions.filter(session => session.id !== discardId);
+      setRecoverableSessions(remaining);
+      setStorageUsage(await getStorageUsage());
+      if (remaining.length === 0) {
+        setIsRestoreDialogOpen(false);
+        setSessionCheckDone(true);
+      }
+    } catch (error) {
+      console.error('Failed to discard session:', error);
+      toast({
+        title: "Discard Failed",
+        description: error instanceof Error ? error.message : "The session could not be deleted.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDiscardAllSessions = async () => {
+    try {
+      await deleteAllSessions(sessionId);
+      setRecoverableSessions([]);
+      setIsRestoreDialogOpen(false);
+      setSessionCheckDone(true);
+      toast({
+        title: "Sessions Deleted",
+        description: "All autosaved sessions have been removed from this browser.",
+      });
+    } catch (error) {
+      console.error('Failed to discard sessions:', error);
+      toast({
+        title: "Discard Failed",
+        description: error instanceof Error ? error.message : "The autosaved sessions could not be deleted.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Salva il progetto corrente come file JSON versionato
+  const handleSaveProject = async () => {
+    try {
+      const project = await serializeProject({
+        mediaFiles,
+        timelineItems,
+        tracks,
+        trackVolumes,
+        aspectRatio,
+        exportFPS,
+        markers,
+        luts
+      });
+      downloadProjectFile(project);
+      toast({
+        title: "Project Saved",
+        description: `${project.media.length} media references and ${project.timelineItems.length} timeline items saved.`,
+      });
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "The project could not be saved.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleOpenProjectFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const project = await parseProjectFile(file);
+      const { state, unresolvedMedia: missing } = deserializeProject(project);
+      applyProjectState(state, missing);
+
+      toast({
+        title: "Project Opened",
+        description: missing.length > 0
+          ? `${missing.length} media file${missing.length !== 1 ? 's need' : ' needs'} to be relinked.`
+          : `${state.timelineItems.length} timeline items loaded.`,
+      });
+    } catch (error) {
+      console.error('Failed to open project:', error);
+      toast({
+        title: "Open Failed",
+        description: error instanceof Error ? error.message : "The project could not be opened.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Ricollega i media mancanti e aggiorna tutti gli elementi della timeline (anche nella history)
+  const handleRelinkMedia = (files: Map<string, File>) => {
+    const relinked = relinkMediaFiles(mediaFiles, committedRef.current.timelineItems, files);
+    committedRef.current = { ...committedRef.current, timelineItems: relinked.timelineItems };
+    liveItemsRef.current = null;
+    setMediaFiles(relinked.mediaFiles);
+    setTimelineItems(relinked.timelineItems);
+    setHistory(prev => mapHistoryItems(prev, items => replaceMediaInItems(items, relinked.relinked)));
+
+    setFailedMedia(prev => {
+      const next = new Map(prev);
+      files.forEach((_, mediaId) => next.delete(mediaId));
+      return next;
+    });
+    setUnresolvedMedia(prev => prev.filter(reference => !files.has(reference.id)));
+
+    const stillMissing = missingMediaEntries.filter(entry => !files.has(entry.mediaFile.id)).length;
+    if (stillMissing === 0) {
+      setIsMissingMediaOpen(false);
+    }
+
+    toast({
+      title: "Media Relinked",
+      description: stillMissing > 0
+        ? `${files.size} relinked, ${stillMissing} still missing.`
+        : `All ${files.size} media file${files.size !== 1 ? 's' : ''} relinked.`,
+    });
+  };
+
   const handleOpenEffects = () => {
     setIsEffectsDialogOpen(true);
   };
 
+  const handleToggleColors = () => {
+    setIsColorPanelOpen(open => !open);
+    setColorCompare(false);
+  };
+
   const handleOpenAudioMixer = () => {
     setIsAudioMixerOpen(true);
   };
 
   const handleVolumeChange = useCallback((itemId: string, volume: number) => {
-    // Aggiorna immediatamente lo stato per feedback UI immediato
-    setTrackVolumes(prev => {
-      const newMap = new Map(prev);
-      newMap.set(itemId, volume);
-      return newMap;
-    });
+    // Aggiorna immediatamente lo stato; i movimenti consecutivi dello slider diventano un solo passo
+    const item = committedRef.current.timelineItems.find(i => i.id === itemId);
+    commitChange(
+      `Volume ${item ? item.mediaFile.name : 'clip'}: ${volume}%`,
+      { trackVolumes: new Map(committedRef.current.trackVolumes).set(itemId, volume) },
+      { coalesceKey: `volume:${itemId}` }
+    );
 
     // Throttling per evitare troppi aggiornamenti rapidamente
     const timeoutMap = volumeUpdateTimeoutRef.current;
@@ -212,14 +643,66 @@ export const VideoEditor = () => {
     }, 50); // 50ms di throttling
 
     timeoutMap.set(itemId, timeoutId);
-  }, []);
+  }, [commitChange]);
 
   const handleResetVolumes = () => {
-    setTrackVolumes(new Map());
+    commitChange('Reset volumes', { trackVolumes: new Map() });
   };
 
-  // AGGIORNATO: Funzione per applicare effetti con durate dinamiche e intensità (incluso Blur)
-  const handleApplyEffect = (effectId: string, itemId?: string, intensity?: number) => {
+  const handleAspectRatioChange = (ratio: AspectRatio) => {
+    commitChange(`Aspect ratio ${ratio}`, { aspectRatio: ratio });
+  };
+
+  const handleExportFPSChange = (fps: ExportFPS) => {
+    commitChange(`Frame rate ${fps} fps`, { exportFPS: fps });
+  };
+
+  // Applica un effetto del registro con i parametri scelti nel dialog
+  const handleApplyEffect = (effectId: string, itemId: string | undefined, params: EffectParams) => {
+    const definition = getEffectDefinition(effectId);
+    if (!definition) return;
+    const effectName = definition.name;
+
+    // Con un video o un'immagine selezionati l'effetto entra nello stack del clip e si muove con lui
+    const targetClip = itemId && committedRef.current.timelineItems.find(item => item.id === itemId);
+    const isClipTarget = !!targetClip && (targetClip.mediaFile.type === 'video' || targetClip.mediaFile.type === 'image');
+
+    // Gli effetti per pixel si elaborano per clip: senza un clip selezionato non c'è dove applicarli
+    if (definition.clipOnly && !isClipTarget) {
+      toast({
+        title: "Select a Clip",
+        description: `Select a video or image clip on the timeline to apply ${effectName}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const missingParameter = getMissingParameter(definition);
+    if (missingParameter) {
+      toast({
+        title: `Select a ${missingParameter.name}`,
+        description: missingParameter.emptyMessage ?? `Choose a ${missingParameter.name} before applying ${effectName}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (isClipTarget) {
+      commitChange(`Add ${effectName} to clip`, {
+        timelineItems: addClipEffect(
+          committedRef.current.timelineItems,
+          targetClip.id,
+          createClipEffect(definition, params, targetClip.duration)
+        )
+      });
+      toast({
+        title: "Effect Applied",
+        description: `${effectName} has been added to ${targetClip.mediaFile.name}.`,
+      });
+      setIsEffectsDialogOpen(false);
+      return;
+    }
+
     // Trova la prima track video disponibile
     const firstVideoTrack = tracks.find(track => track.type === 'video');
     if (!firstVideoTrack) {
@@ -231,22 +714,8 @@ export const VideoEditor = () => {
       return;
     }
 
-    // AGGIORNATO: Definisci le durate predefinite per ogni effetto (incluso blur)
-    const effectDurations: { [key: string]: number } = {
-      'fade-in': 2,
-      'fade-out': 2,
-      'black-white': 3,
-      'zoom-in': 3,
-      'zoom-out': 3,
-      'blur': 3 // Nuovo effetto blur
-    };
-
-    // Crea un nuovo MediaFile per l'effetto
-    const effectName = effectId.split('-').map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join(' ');
-
-    const effectDuration = effectDurations[effectId] || 2;
+    const effectDuration = definition.defaultDuration;
+    const effectParams = resolveEffectParams(definition, params);
 
     const effectMediaFile: MediaFile = {
       id: `effect-${effectId}-${Date.now()}`,
@@ -254,8 +723,7 @@ export const VideoEditor = () => {
       type: 'effect',
       url: '', // Gli effetti non hanno URL
       duration: effectDuration,
-      effectType: effectId,
-      effectIntensity: intensity
+      effectType: effectId
     };
 
     // Aggiungi l'effetto anche alla lista dei media files per coerenza
@@ -279,25 +747,32 @@ export const VideoEditor = () => {
       startTime: targetStartTime,
       duration: effectDuration,
       track: firstVideoTrack.index,
-      mediaStartOffset: 0
+      mediaStartOffset: 0,
+      effectParams
     };
 
     // Aggiungi l'effetto alla timeline
-    const newItems = [...timelineItems, newEffectItem];
-    setTimelineItems(newItems);
-    saveToHistory(newItems);
+    commitChange(`Add ${effectName} effect`, {
+      timelineItems: [...committedRef.current.timelineItems, newEffectItem]
+    });
 
-    // Messaggio con intensità per effetti personalizzabili
-    const intensityText = intensity !== undefined ? ` (${intensity}% intensity)` : '';
+    // Messaggio con i parametri per gli effetti personalizzabili
+    const paramsText = formatEffectParams(definition, effectParams);
     toast({
       title: "Effect Applied",
-      description: `${effectName}${intensityText} has been added to the timeline at ${targetStartTime.toFixed(1)}s.`,
+      description: `${effectName}${paramsText ? ` (${paramsText})` : ''} has been added to the timeline at ${targetStartTime.toFixed(1)}s.`,
     });
 
     // Chiudi il dialog degli effetti
     setIsEffectsDialogOpen(false);
   };
 
+  const selectedEffectItem = timelineItems.find(item => item.id === selectedTimelineItemId && item.mediaFile.type === 'effect');
+  const inspectedItem = timelineItems.find(item => item.id === selectedTimelineItemId && item.mediaFile.type !== 'effect');
+  const selectedVisualItem = inspectedItem && (inspectedItem.mediaFile.type === 'video' || inspectedItem.mediaFile.type === 'image')
+    ? inspectedItem
+    : undefined;
+
   return (
     <div className="h-screen flex flex-col bg-background">
       {/* Main Content Area */}
@@ -307,15 +782,21 @@ export const VideoEditor = () => {
           <FilesBrowser
             files={mediaFiles}
             onFilesAdded={handleFilesAdded}
+            luts={luts}
+            onLutsAdded={handleLutsAdded}
+            onRemoveLut={handleRemoveLut}
+            onApplyLut={(lutId) => handleApplyEffect('lut', selectedTimelineItemId, { lutId })}
+            canApplyLut={!!selectedVisualItem}
             onItemAddedToTimeline={handleItemAddedToTimeline}
             timelineItems={timelineItems}
             tracks={tracks}
             onUndo={handleUndo}
             onRedo={handleRedo}
-            canUndo={historyIndex > 0}
-            canRedo={historyIndex < history.length - 1}
-            historyIndex={historyIndex}
-            historyLength={history.length}
+            canUndo={canUndo(history)}
+            canRedo={canRedo(history)}
+            historyEntries={history.entries}
+            historyIndex={history.index}
+            onJumpToHistory={handleJumpToHistory}
           />
         </div>
 
@@ -324,12 +805,65 @@ export const VideoEditor = () => {
           {/* Video Player - AREA PRINCIPALE CON DIMENSIONI FISSE */}
           <div className="relative bg-card border-b border-border" style={{ height: 'calc(100vh - 384px)' }}>
             <div className="absolute top-4 right-4 z-10 flex items-center gap-3">
+              {/* Project Buttons */}
+              <div className="flex items-center gap-1 bg-background/80 backdrop-blur-sm border border-border rounded-lg p-1">
+                <Button
+                  onClick={() => projectInputRef.current?.click()}
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-2 text-xs font-medium"
+                  title="Open project"
+                >
+                  <FolderOpen className="w-4 h-4 mr-1" />
+                  Open
+                </Button>
+                <Button
+                  onClick={handleSaveProject}
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-2 text-xs font-medium"
+                  title="Save project"
+                >
+                  <Save className="w-4 h-4 mr-1" />
+                  Save
+                </Button>
+                <Button
+                  onClick={() => setIsSettingsOpen(true)}
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-2 text-xs font-medium"
+                  title="Editor settings"
+                >
+                  <Settings className="w-4 h-4 mr-1" />
+                  Settings
+                </Button>
+                {missingMediaEntries.length > 0 && (
+                  <Button
+                    onClick={() => setIsMissingMediaOpen(true)}
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2 text-xs font-medium text-orange-500"
+                    title="Some media files can't be loaded"
+                  >
+                    <AlertTriangle className="w-4 h-4 mr-1" />
+                    Missing Media ({missingMediaEntries.length})
+                  </Button>
+                )}
+                <input
+                  ref={projectInputRef}
+                  type="file"
+                  accept={`${PROJECT_FILE_EXTENSION},application/json`}
+                  onChange={handleOpenProjectFile}
+                  className="hidden"
+                />
+              </div>
+
               {/* Aspect Ratio Buttons */}
               <div className="flex items-center gap-1 bg-background/80 backdrop-blur-sm border border-border rounded-lg p-1">
                 {(['16:9', '4:3', '9:16'] as const).map((ratio) => (
                   <Button
                     key={ratio}
-                    onClick={() => setAspectRatio(ratio)}
+                    onClick={() => handleAspectRatioChange(ratio)}
                     variant={aspectRatio === ratio ? "default" : "ghost"}
                     size="sm"
                     className="h-8 px-2 text-xs font-medium"
@@ -345,7 +879,7 @@ export const VideoEditor = () => {
                 {([24, 30, 60] as const).map((fps) => (
                   <Button
                     key={fps}
-                    onClick={() => setExportFPS(fps)}
+                    onClick={() => handleExportFPSChange(fps)}
                     variant={exportFPS === fps ? "default" : "ghost"}
                     size="sm"
                     className="h-8 px-2 text-xs font-medium"
@@ -355,6 +889,15 @@ export const VideoEditor = () => {
                 ))}
               </div>
 
+              <ExportJobsPanel
+                jobs={exportQueue.jobs}
+                onCancel={exportQueue.cancel}
+                onRemove={exportQueue.remove}
+                onDownload={exportQueue.download}
+                onClearFinished={exportQueue.clearFinished}
+                onRelinkMedia={() => setIsMissingMediaOpen(true)}
+              />
+
               <Button
                 onClick={handleExport}
                 className="bg-gradient-primary hover:opacity-90 shadow-elegant"
@@ -374,20 +917,78 @@ export const VideoEditor = () => {
                 onPlayStateChange={setIsPlaying}
                 aspectRatio={aspectRatio}
                 trackVolumes={trackVolumes}
+                onMediaError={handleMediaError}
+                selectedItemId={selectedTimelineItemId}
+                onItemsChange={handleTimelineItemsChange}
+                onItemsChangeWithHistory={handleTimelineItemsChangeWithHistory}
+                colorCompare={isColorPanelOpen && colorCompare}
+                renderBackend={editorSettings.renderer}
               />
             </div>
           </div>
 
           {/* Area inferiore - Controlli aggiuntivi RIDOTTI */}
-          <div className="h-16 bg-muted/10 flex items-center justify-center px-6 border-b border-border">
+          <div className="relative h-16 bg-muted/10 flex items-center justify-center px-6 border-b border-border">
             <div className="flex items-center space-x-3">
               <span className="text-sm font-medium text-muted-foreground">Quick Tools:</span>
               <Button variant="outline" size="sm" onClick={handleOpenEffects}>Effects</Button>
-              <Button variant="outline" size="sm">Colors</Button>
+              <Button variant={isColorPanelOpen ? "default" : "outline"} size="sm" onClick={handleToggleColors}>Colors</Button>
               <Button variant="outline" size="sm" onClick={handleOpenAudioMixer}>Audio Mixer</Button>
             </div>
+
+            {/* Indicatore autosave */}
+            <span
+              className={`absolute right-6 text-xs ${autosaveStatus === 'error' ? 'text-red-500' : 'text-muted-foreground/70'}`}
+            >
+              {autosaveStatus === 'saving' && 'Autosaving...'}
+              {autosaveStatus === 'saved' && lastSavedAt && `Autosaved ${new Date(lastSavedAt).toLocaleTimeString()}`}
+              {autosaveStatus === 'error' && 'Autosave failed'}
+            </span>
           </div>
         </div>
+
+        {/* Correzione colore, al posto dell'inspector finché è aperta */}
+        {isColorPanelOpen && (
+          <div className="w-72 border-l border-border bg-card">
+            <ColorPanel
+              item={selectedVisualItem}
+              items={timelineItems}
+              onItemsChange={handleTimelineItemsChange}
+              onItemsChangeWithHistory={handleTimelineItemsChangeWithHistory}
+              compare={colorCompare}
+              onCompareChange={setColorCompare}
+              onClose={handleToggleColors}
+            />
+          </div>
+        )}
+
+        {/* Inspector del clip selezionato */}
+        {!isColorPanelOpen && inspectedItem && (
+          <div className="w-72 border-l border-border bg-card">
+            <ClipInspector
+              item={inspectedItem}
+              items={timelineItems}
+              currentTime={currentTime}
+              onItemsChange={handleTimelineItemsChange}
+              onItemsChangeWithHistory={handleTimelineItemsChangeWithHistory}
+              onSeek={setCurrentTime}
+            />
+          </div>
+        )}
+
+        {/* Parametri dell'effetto selezionato sulla timeline */}
+        {!isColorPanelOpen && selectedEffectItem && (
+          <div className="w-72 border-l border-border bg-card">
+            <EffectInspector
+              item={selectedEffectItem}
+              items={timelineItems}
+              currentTime={currentTime}
+              onItemsChange={handleTimelineItemsChange}
+              onItemsChangeWithHistory={handleTimelineItemsChangeWithHistory}
+              onSeek={setCurrentTime}
+            />
+          </div>
+        )}
       </div>
 
       {/* Bottom Panel - Timeline */}
@@ -402,6 +1003,9 @@ export const VideoEditor = () => {
           tracks={tracks}
           onTracksChange={handleTracksChange}
           onItemSelect={setSelectedTimelineItemId}
+          onSelectionChange={setSelectedItemIds}
+          markers={markers}
+          onMarkersChange={setMarkers}
         />
       </div>
 
@@ -410,10 +1014,17 @@ export const VideoEditor = () => {
         isOpen={isExportDialogOpen}
         onClose={() => setIsExportDialogOpen(false)}
         timelineItems={timelineItems}
-        totalDuration={totalDuration}
         aspectRatio={aspectRatio}
         selectedFPS={exportFPS}
         trackVolumes={trackVolumes}
+        markers={markers}
+        selectedItemIds={selectedItemIds}
+        onQueueExport={request => exportQueue.enqueue(createExportTask(request))}
+        onMediaLoadError={handleMediaError}
+        onRelinkMedia={() => {
+          setIsExportDialogOpen(false);
+          setIsMissingMediaOpen(true);
+        }}
       />
 
       {/* Effects Dialog */}
@@ -423,6 +1034,38 @@ export const VideoEditor = () => {
         timelineItems={timelineItems}
         selectedItemId={selectedTimelineItemId}
         onApplyEffect={handleApplyEffect}
+        onTimelineItemsChange={handleTimelineItemsChangeWithHistory}
+      />
+
+      {/* Settings Dialog */}
+      <SettingsDialog
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        settings={editorSettings}
+        onSettingsChange={handleSettingsChange}
+      />
+
+      {/* Missing Media Dialog */}
+      <MissingMediaDialog
+        isOpen={isMissingMediaOpen}
+        onClose={() => setIsMissingMediaOpen(false)}
+        entries={missingMediaEntries}
+        timelineItems={timelineItems}
+        onRelink={handleRelinkMedia}
+      />
+
+      {/* Restore Session Dialog */}
+      <RestoreSessionDialog
+        isOpen={isRestoreDialogOpen}
+        onClose={() => {
+          setIsRestoreDialogOpen(false);
+          setSessionCheckDone(true);
+        }}
+        sessions={recoverableSessions}
+        storageUsage={storageUsage}
+        onRestore={handleRestoreSession}
+        onDiscard={handleDiscardSession}
+        onDiscardAll={handleDiscardAllSessions}
       />
 
       {/* Audio Mixer Dialog */}
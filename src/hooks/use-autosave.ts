@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from "react";
+import { ProjectState, collectProjectMedia, serializeProject } from "@/lib/project";
+import { EditorHistory, serializeHistory } from "@/lib/history";
+import {
+  isQuotaExceededError,
+  isSessionStoreAvailable,
+  listSessionMediaIds,
+  pruneSessionMedia,
+  purgeSessions,
+  saveSession,
+  saveSessionMedia
+} from "@/lib/sessionStore";
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+interface UseAutosaveOptions {
+  sessionId: string;
+  enabled: boolean;
+  state: ProjectState;
+  history: EditorHistory;
+  currentTime: number;
+  onStorageFull?: (message: string) => void;
+}
+
+// Salva in background lo stato completo dell'editor e i blob dei media importati in IndexedDB
+export function useAutosave({
+  sessionId,
+  enabled,
+  state,
+  history,
+  currentTime,
+  onStorageFull
+}: UseAutosaveOptions) {
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+
+  const createdAtRef = useRef<number>(Date.now());
+  const savedMediaRef = useRef<{ sessionId: string; ids: Set<string> } | null>(null);
+  const mediaDisabledRef = useRef(false);
+  const onStorageFullRef = useRef(onStorageFull);
+  onStorageFullRef.current = onStorageFull;
+
+  // currentTime cambia continuamente durante la riproduzione: lo leggiamo da un ref
+  const currentTimeRef = useRef(currentTime);
+  currentTimeRef.current = currentTime;
+
+  const { mediaFiles, timelineItems, tracks, trackVolumes, aspectRatio, exportFPS, markers, luts } = state;
+
+  useEffect(() => {
+    if (!enabled || !isSessionStoreAvailable()) return;
+    if (mediaFiles.length === 0 && timelineItems.length === 0) return;
+
+    let cancelled = false;
+
+    const timeoutId = setTimeout(async () => {
+      setStatus('saving');
+
+      try {
+        const project = await serializeProject({
+          mediaFiles,
+          timelineItems,
+          tracks,
+          trackVolumes,
+          aspectRatio,
+          exportFPS,
+          markers,
+          luts
+        });
+        if (cancelled) return;
+
+        await saveSession({
+          id: sessionId,
+          createdAt: createdAtRef.current,
+          updatedAt: Date.now(),
+          project,
+          history: serializeHistory(history),
+          currentTime: currentTimeRef.current
+        });
+
+        if (!mediaDisabledRef.current) {
+          await saveMediaBlobs();
+        }
+
+        if (!cancelled) {
+          setStatus('saved');
+          setLastSavedAt(Date.now());
+        }
+      } catch (error) {
+        console.error('Autosave failed:', error);
+        if (cancelled) return;
+        setStatus('error');
+        if (isQuotaExceededError(error)) {
+          onStorageFullRef.current?.('Browser storage is full. Autosave is paused until space is freed.');
+        }
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    // Salva solo i blob non ancora presenti per questa sessione, compresi i media rimasti solo sulla timeline
+    const saveMediaBlobs = async () => {
+      const projectMedia = collectProjectMedia(mediaFiles, timelineItems);
+      if (savedMediaRef.current?.sessionId !== sessionId) {
+        const existing = await listSessionMediaIds(sessionId);
+        savedMediaRef.current = { sessionId, ids: new Set(existing) };
+      }
+      const saved = savedMediaRef.current.ids;
+
+      for (const mediaFile of projectMedia) {
+        if (cancelled || !mediaFile.file || saved.has(mediaFile.id)) continue;
+
+        try {
+          await saveSessionMedia(sessionId, mediaFile.id, mediaFile.file);
+        } catch (error) {
+          if (!isQuotaExceededError(error)) throw error;
+
+          // Spazio esaurito: libera le sessioni vecchie e riprova una volta
+          await purgeSessions({ keep: 0, excludeId: sessionId });
+          try {
+            await saveSessionMedia(sessionId, mediaFile.id, mediaFile.file);
+          } catch (retryError) {
+            if (!isQuotaExceededError(retryError)) throw retryError;
+            mediaDisabledRef.current = true;
+            onStorageFullRef.current?.(
+              'Not enough browser storage for imported media. Edits are still autosaved, but media files will need to be relinked after a crash.'
+            );
+            return;
+          }
+        }
+        saved.add(mediaFile.id);
+      }
+
+      const currentIds = new Set(projectMedia.map(file => file.id));
+      if (Array.from(saved).some(id => !currentIds.has(id))) {
+        await pruneSessionMedia(sessionId, currentIds);
+        savedMediaRef.current = {
+          sessionId,
+          ids: new Set(Array.from(saved).filter(id => currentIds.has(id)))
+        };
+      }
+    };
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [enabled, sessionId, mediaFiles, timelineItems, tracks, trackVolumes, aspectRatio, exportFPS, markers, luts, history]);
+
+  return { status, lastSavedAt };
+}
@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  ExportJob,
+  ExportJobUpdate,
+  ExportTask,
+  applyJobUpdate,
+  createExportJob,
+  getNextQueuedJob,
+  isJobActive,
+  releaseOldExports
+} from "@/lib/export/queue";
+import { getFailedMediaNames } from "@/lib/export/mediaLoader";
+import { downloadBlob } from "@/lib/export/download";
+
+interface UseExportQueueOptions {
+  onMediaLoadError?: (mediaFileId: string, reason: string) => void;
+  onJobFinished?: (job: ExportJob) => void;
+}
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Esegue gli export accodati uno alla volta, senza bloccare l'editor
+export function useExportQueue({ onMediaLoadError, onJobFinished }: UseExportQueueOptions = {}) {
+  const [jobs, setJobs] = useState<ExportJob[]>([]);
+
+  const tasksRef = useRef(new Map<string, ExportTask>());
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const runningRef = useRef(false);
+
+  // Callback letti da ref: un job lungo non deve dipendere dal render in cui è partito
+  const callbacksRef = useRef({ onMediaLoadError, onJobFinished });
+  callbacksRef.current = { onMediaLoadError, onJobFinished };
+
+  const updateJob = useCallback((id: string, update: ExportJobUpdate | ((job: ExportJob) => ExportJob)) => {
+    setJobs(prev => prev.map(job => {
+      if (job.id !== id) return job;
+      return typeof update === 'function' ? update(job) : applyJobUpdate(job, update);
+    }));
+  }, []);
+
+  const runJob = useCallback(async (job: ExportJob) => {
+    const task = tasksRef.current.get(job.id);
+    if (!task) return;
+
+    runningRef.current = true;
+    const controller = new AbortController();
+    controllersRef.current.set(job.id, controller);
+    updateJob(job.id, { status: 'loading' });
+
+    let finished: (current: ExportJob) => ExportJob;
+    try {
+      const blob = await task.run({
+        signal: controller.signal,
+        report: update => {
+          if (!controller.signal.aborted) updateJob(job.id, update);
+        },
+        reportMediaFailures: failures => {
+          failures.forEach(failure => callbacksRef.current.onMediaLoadError?.(failure.item.mediaFile.id, failure.reason));
+          updateJob(job.id, current => ({ ...current, failedMediaNames: getFailedMediaNames(failures) }));
+        }
+      });
+      if (controller.signal.aborted) throw new DOMException('Export cancelled', 'AbortError');
+
+      downloadBlob(blob, job.fileName);
+      finished = current => ({ ...applyJobUpdate(current, { status: 'completed', progress: 100 }), blob });
+    } catch (error) {
+      if (isAbortError(error) || controller.signal.aborted) {
+        finished = current => applyJobUpdate(current, { status: 'cancelled' });
+      } else {
+        console.error('Export failed:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        finished = current => ({ ...applyJobUpdate(current, { status: 'failed' }), error: message });
+      }
+    }
+
+    tasksRef.current.delete(job.id);
+    controllersRef.current.delete(job.id);
+    runningRef.current = false;
+
+    // Il file appena finito può far uscire dalla memoria quelli degli export precedenti
+    setJobs(prev => releaseOldExports(prev.map(current => (current.id === job.id ? finished(current) : current))));
+  }, [updateJob]);
+
+  // Parte il prossimo job appena la coda è libera
+  useEffect(() => {
+    if (runningRef.current) return;
+    const next = getNextQueuedJob(jobs);
+    if (next) runJob(next);
+  }, [jobs, runJob]);
+
+  // Notifica una sola volta i job completati o falliti
+  const notifiedRef = useRef(new Set<string>());
+  useEffect(() => {
+    jobs.forEach(job => {
+      if ((job.status !== 'completed' && job.status !== 'failed') || notifiedRef.current.has(job.id)) return;
+      notifiedRef.current.add(job.id);
+      callbacksRef.current.onJobFinished?.(job);
+    });
+  }, [jobs]);
+
+  // Chiudendo l'editor si interrompono gli export in corso
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach(controller => controller.abort());
+    };
+  }, []);
+
+  const enqueue = useCallback((task: ExportTask) => {
+    const job = createExportJob(task);
+    tasksRef.current.set(job.id, task);
+    setJobs(prev => [...prev, job]);
+    return job;
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllersRef.current.get(id);
+    if (controller) {
+      controller.abort();
+      return;
+    }
+    // Job non ancora partito: basta toglierlo dalla coda
+    tasksRef.current.delete(id);
+    setJobs(prev => prev.map(job => (job.id === id && job.status === 'queued' ? { ...job, status: 'cancelled' } : job)));
+  }, []);
+
+  // Rimuovere un job libera anche il file tenuto in memoria; quelli in corso vanno prima annullati
+  const remove = useCallback((id: string) => {
+    tasksRef.current.delete(id);
+    setJobs(prev => prev.filter(job => job.id !== id || isJobActive(job)));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setJobs(prev => prev.filter(job => job.status === 'queued' || isJobActive(job)));
+  }, []);
+
+  const download = useCallback((id: string) => {
+    const job = jobs.find(current => current.id === id);
+    if (job?.blob) downloadBlob(job.blob, job.fileName);
+  }, [jobs]);
+
+  return { jobs, enqueue, cancel, remove, clearFinished, download };
+}
@@ -0,0 +1,16 @@
+import { Filter } from "lucide-react";
+import { defineEffect } from "./registry";
+
+export const blackWhite = defineEffect({
+  id: 'black-white',
+  name: 'Black & White',
+  description: 'Convert colors to grayscale for artistic effect',
+  previewHint: 'Removes all color information, creating a classic black and white look',
+  icon: Filter,
+  category: 'visual',
+  defaultDuration: 3,
+  parameters: [],
+  summarize: () => 'color → grayscale',
+  indicatorColor: 'rgba(128, 128, 128, 0.9)',
+  render: () => ({ grayscale: true })
+});
@@ -0,0 +1,49 @@
+import { Circle } from "lucide-react";
+import { getDirectionalBlurStep } from "@/lib/render/shaders";
+import { defineEffect } from "./registry";
+
+// Blur massimo in pixel (100% di intensità)
+export const MAX_BLUR_RADIUS = 10;
+
+// Il blur direzionale media i pixel lungo una linea: a parità di raggio serve più estensione
+// della gaussiana (il cui raggio è la deviazione standard) per un risultato simile
+const DIRECTIONAL_REACH = 2;
+
+const DIRECTIONS: Record<string, [number, number]> = {
+  horizontal: [1, 0],
+  vertical: [0, 1]
+};
+
+// Costante per tutta la durata: 0% = 0px, 100% = 10px
+export const blur = defineEffect({
+  id: 'blur',
+  name: 'Blur',
+  description: 'Apply customizable blur effect to content',
+  previewHint: 'Creates a soft, unfocused look with adjustable intensity',
+  icon: Circle,
+  category: 'visual',
+  defaultDuration: 3,
+  parameters: [
+    { id: 'intensity', name: 'Radius', type: 'number', min: 0, max: 100, step: 1, defaultValue: 50, unit: '%' },
+    {
+      id: 'type',
+      name: 'Type',
+      type: 'enum',
+      options: [
+        { value: 'gaussian', label: 'Gaussian' },
+        { value: 'horizontal', label: 'Horizontal' },
+        { value: 'vertical', label: 'Vertical' }
+      ],
+      defaultValue: 'gaussian'
+    }
+  ],
+  summarize: ({ intensity }) => `blur: ${intensity}% (${(intensity / 100) * MAX_BLUR_RADIUS}px)`,
+  indicatorColor: 'rgba(128, 0, 128, 0.9)',
+  formatIndicator: effects => (effects.blurRadius > 0 ? `${effects.blurRadius.toFixed(1)}px` : 'directional'),
+  render: ({ intensity, type }) => {
+    const radius = (intensity / 100) * MAX_BLUR_RADIUS;
+    const direction = DIRECTIONS[type];
+    if (!direction) return { blurRadius: radius };
+    return radius > 0 ? { pixelStep: getDirectionalBlurStep(radius * DIRECTIONAL_REACH, direction) } : {};
+  }
+});
@@ -0,0 +1,21 @@
+import { Blend } from "lucide-react";
+import { getChromaticAberrationStep } from "@/lib/render/shaders";
+import { defineEffect } from "./registry";
+
+export const chromaticAberration = defineEffect({
+  id: 'chromatic-aberration',
+  name: 'Chromatic Aberration',
+  description: 'Split the red and blue channels towards the edges',
+  previewHint: 'Lens fringing that grows away from the center',
+  icon: Blend,
+  category: 'visual',
+  defaultDuration: 0,
+  clipOnly: true,
+  parameters: [
+    { id: 'intensity', name: 'Shift', type: 'number', min: 0, max: 100, step: 1, defaultValue: 30, unit: '%' }
+  ],
+  render: ({ intensity }) => {
+    const amount = Math.min(1, intensity / 100);
+    return amount > 0 ? { pixelStep: getChromaticAberrationStep(amount) } : {};
+  }
+});
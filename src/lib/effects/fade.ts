@@ -0,0 +1,36 @@
+import { EASINGS, getEasedProgress } from "@/lib/keyframes";
+import { defineParameters } from "./registry";
+import type { EffectOutput, ParamsOf } from "./types";
+
+// Parametri e resa comuni a Fade In e Fade Out: curva dell'avanzamento e fade verso la trasparenza
+// (si vedono le tracce sotto o lo sfondo) oppure verso un colore pieno
+
+const FADE_CURVES = EASINGS.filter(easing => easing.type !== 'bezier' && easing.type !== 'hold');
+
+// targetName: 'From' per il fade in, 'To' per il fade out
+export const getFadeParameters = (targetName: string) => defineParameters([
+  {
+    id: 'curve',
+    name: 'Curve',
+    type: 'enum',
+    options: FADE_CURVES.map(easing => ({ value: easing.type, label: easing.name })),
+    defaultValue: 'linear'
+  },
+  {
+    id: 'target',
+    name: `Fade ${targetName}`,
+    type: 'enum',
+    options: [{ value: 'transparent', label: 'Transparent' }, { value: 'color', label: 'Color' }],
+    defaultValue: 'transparent'
+  },
+  { id: 'color', name: 'Color', type: 'color', defaultValue: '#000000' }
+]);
+
+type FadeParams = ParamsOf<ReturnType<typeof getFadeParameters>>;
+
+// La curva vale sull'avanzamento del fade: 'ease-in' parte piano sia entrando che uscendo
+export const renderFade = ({ curve, target, color }: FadeParams, progress: number, edge: 'in' | 'out'): EffectOutput => {
+  const eased = getEasedProgress(curve, progress);
+  const visibility = edge === 'in' ? eased : 1 - eased;
+  return target === 'color' ? { colorFade: { color, amount: 1 - visibility } } : { alpha: visibility };
+};
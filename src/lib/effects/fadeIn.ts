@@ -0,0 +1,17 @@
+import { TrendingUp } from "lucide-react";
+import { getFadeParameters, renderFade } from "./fade";
+import { defineEffect } from "./registry";
+
+export const fadeIn = defineEffect({
+  id: 'fade-in',
+  name: 'Fade In',
+  description: 'Gradually increase opacity from 0 to 100%',
+  previewHint: 'Creates a smooth transition from transparent to opaque',
+  icon: TrendingUp,
+  category: 'transition',
+  defaultDuration: 2,
+  edge: 'in',
+  parameters: getFadeParameters('From'),
+  summarize: ({ target, color }) => (target === 'color' ? `${color} → picture` : 'opacity: 0 → 100%'),
+  render: (params, { progress }) => renderFade(params, progress, 'in')
+});
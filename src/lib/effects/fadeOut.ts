@@ -0,0 +1,17 @@
+import { TrendingDown } from "lucide-react";
+import { getFadeParameters, renderFade } from "./fade";
+import { defineEffect } from "./registry";
+
+export const fadeOut = defineEffect({
+  id: 'fade-out',
+  name: 'Fade Out',
+  description: 'Gradually decrease opacity from 100% to 0',
+  previewHint: 'Creates a smooth transition from opaque to transparent',
+  icon: TrendingDown,
+  category: 'transition',
+  defaultDuration: 2,
+  edge: 'out',
+  parameters: getFadeParameters('To'),
+  summarize: ({ target, color }) => (target === 'color' ? `picture → ${color}` : 'opacity: 100% → 0'),
+  render: (params, { progress }) => renderFade(params, progress, 'out')
+});
@@ -0,0 +1,35 @@
+import { blackWhite } from "./blackWhite";
+import { blur } from "./blur";
+import { chromaticAberration } from "./chromaticAberration";
+import { fadeIn } from "./fadeIn";
+import { fadeOut } from "./fadeOut";
+import { lut } from "./lut";
+import { pixelate } from "./pixelate";
+import { registerEffect } from "./registry";
+import { sepia } from "./sepia";
+import { sharpen } from "./sharpen";
+import { vignette } from "./vignette";
+import { zoomIn } from "./zoomIn";
+import { zoomOut } from "./zoomOut";
+
+// Effetti inclusi nell'editor, nell'ordine in cui compaiono nel dialog.
+// Per aggiungere un effetto basta un modulo con la sua EffectDefinition e una voce qui
+const BUILT_IN_EFFECTS = [
+  fadeIn,
+  fadeOut,
+  blackWhite,
+  zoomIn,
+  zoomOut,
+  blur,
+  lut,
+  vignette,
+  sharpen,
+  chromaticAberration,
+  pixelate,
+  sepia
+];
+
+BUILT_IN_EFFECTS.forEach(registerEffect);
+
+export * from "./registry";
+export type * from "./types";
@@ -0,0 +1,35 @@
+import { Palette } from "lucide-react";
+import { getLut, getLutAssets } from "@/lib/render/lut";
+import { getLutStep } from "@/lib/render/shaders";
+import { defineEffect } from "./registry";
+
+// Le opzioni vengono dalla libreria LUT del progetto
+export const lut = defineEffect({
+  id: 'lut',
+  name: 'Apply LUT',
+  description: 'Apply a .cube look from the project LUT library',
+  previewHint: 'Maps every color through the LUT, mixed with the original by the intensity',
+  icon: Palette,
+  category: 'visual',
+  defaultDuration: 0,
+  clipOnly: true,
+  parameters: [
+    {
+      id: 'lutId',
+      name: 'LUT',
+      type: 'enum',
+      options: () => getLutAssets().map(asset => ({ value: asset.id, label: asset.name })),
+      emptyMessage: 'Import a .cube file in Project Files first.'
+    },
+    { id: 'intensity', name: 'Mix', type: 'number', min: 0, max: 100, step: 1, defaultValue: 100, unit: '%' }
+  ],
+  summarize: () => {
+    const count = getLutAssets().length;
+    return `${count} LUT${count !== 1 ? 's' : ''} in library`;
+  },
+  render: ({ lutId, intensity }) => {
+    const table = getLut(lutId);
+    const amount = Math.min(1, intensity / 100);
+    return table && amount > 0 ? { pixelStep: getLutStep(table, amount) } : {};
+  }
+});
@@ -0,0 +1,21 @@
+import { Grid3x3 } from "lucide-react";
+import { getPixelateStep } from "@/lib/render/shaders";
+import { defineEffect } from "./registry";
+
+export const pixelate = defineEffect({
+  id: 'pixelate',
+  name: 'Pixelate',
+  description: 'Render the clip as large square blocks',
+  previewHint: 'Block size grows with the intensity',
+  icon: Grid3x3,
+  category: 'visual',
+  defaultDuration: 0,
+  clipOnly: true,
+  parameters: [
+    { id: 'intensity', name: 'Block Size', type: 'number', min: 0, max: 100, step: 1, defaultValue: 30, unit: '%' }
+  ],
+  render: ({ intensity }) => {
+    const amount = Math.min(1, intensity / 100);
+    return amount > 0 ? { pixelStep: getPixelateStep(amount) } : {};
+  }
+});
@@ -0,0 +1,98 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { Sparkles } from "lucide-react";
+import { createClipEffect } from "@/lib/render/effects";
+import {
+  defineEffect,
+  formatEffectParams,
+  getDefaultEffectParams,
+  getEffectDefinition,
+  getMissingParameter,
+  registerEffect,
+  resolveEffectParams
+} from ".";
+import type { EffectDefinition } from ".";
+
+const testEffect: EffectDefinition = {
+  id: 'test-effect',
+  name: 'Test Effect',
+  description: 'Only used by the tests',
+  previewHint: '',
+  icon: Sparkles,
+  category: 'visual',
+  defaultDuration: 2,
+  parameters: [
+    { id: 'intensity', name: 'Amount', type: 'number', min: 0, max: 100, step: 1, defaultValue: 40, unit: '%' },
+    { id: 'tint', name: 'Tint', type: 'color', defaultValue: '#ff0000' },
+    {
+      id: 'shape',
+      name: 'Shape',
+      type: 'enum',
+      options: [{ value: 'circle', label: 'Circle' }, { value: 'square', label: 'Square' }],
+      defaultValue: 'square'
+    },
+    { id: 'invert', name: 'Invert', type: 'bool', defaultValue: false }
+  ],
+  render: () => ({})
+};
+
+registerEffect(testEffect);
+
+describe('effect registry', () => {
+  it('registers the built-in effects and new plugins by id', () => {
+    expect(getEffectDefinition('vignette')?.clipOnly).toBe(true);
+    expect(getEffectDefinition('test-effect')).toBe(testEffect);
+    expect(getEffectDefinition('missing')).toBeNull();
+  });
+
+  it('resolves parameters against the schema', () => {
+    expect(getDefaultEffectParams(testEffect)).toEqual({ intensity: 40, tint: '#ff0000', shape: 'square', invert: false });
+    expect(resolveEffectParams(testEffect, { intensity: 250, tint: 'red', shape: 'triangle', invert: true })).toEqual({
+      intensity: 100,
+      tint: '#ff0000',
+      shape: 'square',
+      invert: true
+    });
+    expect(formatEffectParams(testEffect, getDefaultEffectParams(testEffect))).toBe('40% · #ff0000 · Square');
+  });
+
+  it('types the plugin parameters from the schema', () => {
+    const shaped = defineEffect({
+      id: 'shaped',
+      name: 'Shaped',
+      description: 'Only used by the tests',
+      previewHint: '',
+      icon: Sparkles,
+      category: 'visual',
+      defaultDuration: 2,
+      parameters: [
+        { id: 'intensity', name: 'Amount', type: 'number', min: 0, max: 100, step: 1, defaultValue: 40 },
+        { id: 'shape', name: 'Shape', type: 'enum', options: [{ value: 'circle', label: 'Circle' }, { value: 'square', label: 'Square' }] },
+        { id: 'invert', name: 'Invert', type: 'bool', defaultValue: false }
+      ],
+      render: ({ intensity, shape, invert }) => {
+        expectTypeOf(intensity).toEqualTypeOf<number>();
+        expectTypeOf(shape).toEqualTypeOf<'circle' | 'square'>();
+        expectTypeOf(invert).toEqualTypeOf<boolean>();
+        return { alpha: invert ? 1 - intensity / 100 : intensity / 100 };
+      }
+    });
+
+    expect(shaped.render({ intensity: 25, shape: 'circle', invert: true }, { scope: 'clip', progress: 1 })).toEqual({ alpha: 0.75 });
+  });
+
+  it('blocks effects whose choices are empty', () => {
+    expect(getMissingParameter(testEffect)).toBeNull();
+    // Nessuna LUT nella libreria
+    expect(getMissingParameter(getEffectDefinition('lut')!)?.id).toBe('lutId');
+  });
+
+  it('stores the intensity in its own field and the rest in params', () => {
+    const effect = createClipEffect(testEffect, { intensity: 70, shape: 'circle' }, 10);
+
+    expect(effect.type).toBe('test-effect');
+    expect(effect.intensity).toBe(70);
+    expect(effect.duration).toBeUndefined();
+    expect(effect.params).toEqual({ tint: '#ff0000', shape: 'circle', invert: false });
+    expect(createClipEffect(getEffectDefinition('fade-in')!, {}, 1).duration).toBe(1);
+  });
+});
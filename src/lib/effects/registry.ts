@@ -0,0 +1,92 @@
+import type { EffectDefinition, EffectParameter, EffectParams, EffectParamValue, EnumParameter } from "./types";
+
+// Registro degli effetti disponibili, per id (lo stesso salvato in ClipEffect.type e MediaFile.effectType)
+
+// Parametro animabile a keyframe, con un campo proprio negli effetti salvati
+export const INTENSITY_PARAMETER = 'intensity';
+
+const definitions = new Map<string, EffectDefinition>();
+
+// Schema dei parametri con gli id e le opzioni come letterali, da cui ParamsOf ricava i tipi dei valori
+export const defineParameters = <const P extends readonly EffectParameter[]>(parameters: P) => parameters;
+
+// Definizione di un plugin: render e summarize ricevono i parametri tipizzati dallo schema
+export const defineEffect = <const P extends readonly EffectParameter[]>(definition: EffectDefinition<P>) => definition;
+
+// Un id già registrato viene sostituito: vale anche quando i moduli si ricaricano a caldo
+export const registerEffect = (definition: EffectDefinition) => {
+  definitions.set(definition.id, definition);
+};
+
+export const getEffectDefinition = (effectType: string | undefined) => definitions.get(effectType ?? '') ?? null;
+
+export const getEffectDefinitions = () => Array.from(definitions.values());
+
+export const getEffectName = (effectType: string) => getEffectDefinition(effectType)?.name ?? effectType;
+
+export const getEnumOptions = (parameter: EnumParameter) => {
+  return typeof parameter.options === 'function' ? parameter.options() : parameter.options;
+};
+
+export const getIntensityParameter = (definition: EffectDefinition | null) => {
+  const parameter = definition?.parameters.find(p => p.id === INTENSITY_PARAMETER);
+  return parameter?.type === 'number' ? parameter : null;
+};
+
+const getDefaultValue = (parameter: EffectParameter): EffectParamValue => {
+  if (parameter.type !== 'enum') return parameter.defaultValue;
+  const options = getEnumOptions(parameter);
+  return options.find(option => option.value === parameter.defaultValue)?.value ?? options[0]?.value ?? '';
+};
+
+// Valore valido per lo schema: fuori intervallo si limita, se il tipo non torna vale il default
+const resolveValue = (parameter: EffectParameter, value: EffectParamValue | undefined): EffectParamValue => {
+  switch (parameter.type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+        ? Math.max(parameter.min, Math.min(parameter.max, value))
+        : parameter.defaultValue;
+    case 'color':
+      return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value : parameter.defaultValue;
+    case 'enum':
+      return getEnumOptions(parameter).some(option => option.value === value) ? value as string : getDefaultValue(parameter);
+    case 'bool':
+      return typeof value === 'boolean' ? value : parameter.defaultValue;
+  }
+};
+
+export const getDefaultEffectParams = (definition: EffectDefinition): EffectParams => {
+  return Object.fromEntries(definition.parameters.map(parameter => [parameter.id, getDefaultValue(parameter)]));
+};
+
+export const resolveEffectParams = (definition: EffectDefinition, values: Partial<EffectParams>): EffectParams => {
+  return Object.fromEntries(definition.parameters.map(parameter => [parameter.id, resolveValue(parameter, values[parameter.id])]));
+};
+
+// Primo parametro a scelta senza opzioni (es. nessuna LUT importata): l'effetto non si può applicare
+export const getMissingParameter = (definition: EffectDefinition) => {
+  return definition.parameters.find(
+    (parameter): parameter is EnumParameter => parameter.type === 'enum' && getEnumOptions(parameter).length === 0
+  ) ?? null;
+};
+
+const formatValue = (parameter: EffectParameter, value: EffectParamValue) => {
+  switch (parameter.type) {
+    case 'number':
+      return `${value}${parameter.unit ?? ''}`;
+    case 'enum':
+      return getEnumOptions(parameter).find(option => option.value === value)?.label ?? 'missing';
+    case 'bool':
+      return value ? parameter.name : '';
+    default:
+      return String(value);
+  }
+};
+
+// Valori dei parametri in breve, per lo stack degli effetti
+export const formatEffectParams = (definition: EffectDefinition, params: EffectParams) => {
+  return definition.parameters
+    .map(parameter => formatValue(parameter, params[parameter.id]))
+    .filter(Boolean)
+    .join(' · ');
+};
@@ -0,0 +1,28 @@
+import { Coffee } from "lucide-react";
+import { ColorMatrix, getColorMatrixStep } from "@/lib/render/shaders";
+import { defineEffect } from "./registry";
+
+export const SEPIA_MATRIX: ColorMatrix = [
+  0.393, 0.769, 0.189, 0, 0,
+  0.349, 0.686, 0.168, 0, 0,
+  0.272, 0.534, 0.131, 0, 0,
+  0, 0, 0, 1, 0
+];
+
+export const sepia = defineEffect({
+  id: 'sepia',
+  name: 'Sepia',
+  description: 'Warm vintage toning through a color matrix',
+  previewHint: 'Mixed with the original colors by the intensity',
+  icon: Coffee,
+  category: 'visual',
+  defaultDuration: 0,
+  clipOnly: true,
+  parameters: [
+    { id: 'intensity', name: 'Mix', type: 'number', min: 0, max: 100, step: 1, defaultValue: 100, unit: '%' }
+  ],
+  render: ({ intensity }) => {
+    const amount = Math.min(1, intensity / 100);
+    return amount > 0 ? { pixelStep: getColorMatrixStep(SEPIA_MATRIX, amount) } : {};
+  }
+});
@@ -0,0 +1,21 @@
+import { Focus } from "lucide-react";
+import { getSharpenStep } from "@/lib/render/shaders";
+import { defineEffect } from "./registry";
+
+export const sharpen = defineEffect({
+  id: 'sharpen',
+  name: 'Sharpen',
+  description: 'Enhance edges and fine detail',
+  previewHint: 'Crisper edges; high values bring out noise',
+  icon: Focus,
+  category: 'visual',
+  defaultDuration: 0,
+  clipOnly: true,
+  parameters: [
+    { id: 'intensity', name: 'Amount', type: 'number', min: 0, max: 100, step: 1, defaultValue: 40, unit: '%' }
+  ],
+  render: ({ intensity }) => {
+    const amount = Math.min(1, intensity / 100);
+    return amount > 0 ? { pixelStep: getSharpenStep(amount) } : {};
+  }
+});
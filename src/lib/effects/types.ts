@@ -0,0 +1,111 @@
+import type { LucideIcon } from "lucide-react";
+import type { FrameEffects } from "@/lib/render/effects";
+import type { PixelStep } from "@/lib/render/pixels";
+
+// API dei plugin di effetto: ogni effetto è un modulo che esporta una EffectDefinition (creata con defineEffect).
+// Lo schema dei parametri genera i controlli dell'interfaccia; render descrive cosa fa l'effetto al fotogramma
+
+export type EffectCategory = 'transition' | 'visual' | 'audio';
+
+export interface EffectOption {
+  value: string;
+  label: string;
+}
+
+interface BaseParameter {
+  id: string;
+  name: string;
+}
+
+export interface NumberParameter extends BaseParameter {
+  type: 'number';
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+  unit?: string;
+}
+
+export interface ColorParameter extends BaseParameter {
+  type: 'color';
+  defaultValue: string; // #rrggbb
+}
+
+export interface EnumParameter extends BaseParameter {
+  type: 'enum';
+  options: readonly EffectOption[] | (() => EffectOption[]); // Funzione per le opzioni che dipendono dal progetto (es. LUT)
+  defaultValue?: string; // Assente = prima opzione
+  emptyMessage?: string; // Mostrato quando non ci sono opzioni: l'effetto non si può applicare
+}
+
+export interface BoolParameter extends BaseParameter {
+  type: 'bool';
+  defaultValue: boolean;
+}
+
+export type EffectParameter = NumberParameter | ColorParameter | EnumParameter | BoolParameter;
+
+export type EffectParamValue = number | string | boolean;
+
+export type EffectParams = Record<string, EffectParamValue>;
+
+// Valore di un parametro secondo il suo tipo: le scelte con opzioni fisse restano tra quelle opzioni
+export type ParamValueOf<T extends EffectParameter> =
+  T extends NumberParameter ? number
+    : T extends BoolParameter ? boolean
+      : T extends { options: readonly { value: infer V }[] } ? V
+        : string;
+
+// Parametri ricavati dallo schema di un effetto (es. { intensity: number; type: 'gaussian' | ... })
+export type ParamsOf<P extends readonly EffectParameter[]> = { [K in P[number] as K['id']]: ParamValueOf<K> };
+
+export interface EffectContext {
+  scope: 'timeline' | 'clip';
+  // Avanzamento 0-1: sull'elemento della timeline, sul clip o, per i fade di clip, sulla durata del fade.
+  // Con l'intensità animata a keyframe vale 1: l'animazione la danno i keyframe
+  progress: number;
+}
+
+// Punto in frazione del fotogramma (effetti della timeline) o del rettangolo del clip (0-1)
+export interface EffectPoint {
+  x: number;
+  y: number;
+}
+
+// Colore steso sopra l'immagine, dosato da amount (0-1)
+export interface ColorFade {
+  color: string;
+  amount: number;
+}
+
+// Contributo di un effetto al fotogramma. I contributi di più effetti si combinano:
+// alpha e zoom si moltiplicano, per il blur e il colore vince il più forte, il centro dello zoom è
+// quello dell'ultimo effetto che lo indica, i passaggi per pixel seguono l'ordine dello stack
+export interface EffectOutput {
+  alpha?: number;
+  zoomScale?: number;
+  zoomCenter?: EffectPoint;
+  grayscale?: boolean;
+  blurRadius?: number; // Pixel alla larghezza di riferimento del compositor
+  colorFade?: ColorFade;
+  pixelStep?: PixelStep; // Sulla timeline si applica al fotogramma finito
+}
+
+// P è lo schema dei parametri: render e summarize ricevono i valori già tipizzati (vedi defineEffect).
+// Sono metodi perché una definizione con lo schema tipizzato resti assegnabile a EffectDefinition
+export interface EffectDefinition<P extends readonly EffectParameter[] = readonly EffectParameter[]> {
+  id: string;
+  name: string;
+  description: string;
+  previewHint: string;
+  icon: LucideIcon;
+  category: EffectCategory;
+  defaultDuration: number; // Secondi sulla timeline; per i fade di clip è la durata del fade
+  clipOnly?: boolean; // Solo nello stack di un clip, per tutta la sua durata
+  edge?: 'in' | 'out'; // Legato all'inizio o alla fine del clip: dividendo il clip resta su quella parte
+  parameters: P;
+  summarize?(params: ParamsOf<P>): string; // Anteprima testuale nella scheda dell'effetto
+  indicatorColor?: string; // Etichetta dell'effetto attivo nella preview
+  formatIndicator?: (effects: FrameEffects) => string; // Dettaglio dell'etichetta (predefinito: avanzamento)
+  render(params: ParamsOf<P>, context: EffectContext): EffectOutput;
+}
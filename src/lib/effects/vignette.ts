@@ -0,0 +1,21 @@
+import { Aperture } from "lucide-react";
+import { getVignetteStep } from "@/lib/render/shaders";
+import { defineEffect } from "./registry";
+
+export const vignette = defineEffect({
+  id: 'vignette',
+  name: 'Vignette',
+  description: 'Darken the edges of the clip towards the corners',
+  previewHint: 'Draws the eye to the center of the frame',
+  icon: Aperture,
+  category: 'visual',
+  defaultDuration: 0,
+  clipOnly: true,
+  parameters: [
+    { id: 'intensity', name: 'Strength', type: 'number', min: 0, max: 100, step: 1, defaultValue: 60, unit: '%' }
+  ],
+  render: ({ intensity }) => {
+    const amount = Math.min(1, intensity / 100);
+    return amount > 0 ? { pixelStep: getVignetteStep(amount) } : {};
+  }
+});
@@ -0,0 +1,13 @@
+import { defineParameters } from "./registry";
+import type { EffectPoint, ParamsOf } from "./types";
+
+// Punto verso cui zoomano Zoom In e Zoom Out, in percentuale del fotogramma (o del clip)
+export const ZOOM_CENTER_PARAMETERS = defineParameters([
+  { id: 'centerX', name: 'Center X', type: 'number', min: 0, max: 100, step: 1, defaultValue: 50, unit: '%' },
+  { id: 'centerY', name: 'Center Y', type: 'number', min: 0, max: 100, step: 1, defaultValue: 50, unit: '%' }
+]);
+
+export const getZoomCenter = ({ centerX, centerY }: ParamsOf<typeof ZOOM_CENTER_PARAMETERS>): EffectPoint => ({
+  x: centerX / 100,
+  y: centerY / 100
+});
@@ -0,0 +1,26 @@
+import { ZoomIn } from "lucide-react";
+import { ZOOM_CENTER_PARAMETERS, getZoomCenter } from "./zoom";
+import { defineEffect } from "./registry";
+
+// Da 1.0x fino a 3.0x al 100% di intensità
+export const zoomIn = defineEffect({
+  id: 'zoom-in',
+  name: 'Zoom In',
+  description: 'Gradually zoom into the content with customizable intensity',
+  previewHint: 'Progressively magnifies the content over time',
+  icon: ZoomIn,
+  category: 'visual',
+  defaultDuration: 3,
+  parameters: [
+    { id: 'intensity', name: 'Zoom Level', type: 'number', min: 0, max: 100, step: 1, defaultValue: 50, unit: '%' },
+    ...ZOOM_CENTER_PARAMETERS
+  ],
+  summarize: ({ intensity }) => `zoom: 100% → ${100 + intensity}%`,
+  indicatorColor: 'rgba(0, 123, 255, 0.9)',
+  formatIndicator: effects => `${effects.zoomScale.toFixed(2)}x`,
+  render: (params, { progress }) => {
+    const { intensity } = params;
+    const maxZoomFactor = 1 + (intensity / 100) * 2;
+    return { zoomScale: 1 + progress * (maxZoomFactor - 1), zoomCenter: getZoomCenter(params) };
+  }
+});
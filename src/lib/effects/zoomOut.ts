@@ -0,0 +1,26 @@
+import { ZoomOut } from "lucide-react";
+import { ZOOM_CENTER_PARAMETERS, getZoomCenter } from "./zoom";
+import { defineEffect } from "./registry";
+
+// Da 1.0x fino a 0.2x al 100% di intensità
+export const zoomOut = defineEffect({
+  id: 'zoom-out',
+  name: 'Zoom Out',
+  description: 'Gradually zoom out from normal size with customizable intensity',
+  previewHint: 'Progressively shrinks the content over time',
+  icon: ZoomOut,
+  category: 'visual',
+  defaultDuration: 3,
+  parameters: [
+    { id: 'intensity', name: 'Zoom Level', type: 'number', min: 0, max: 100, step: 1, defaultValue: 50, unit: '%' },
+    ...ZOOM_CENTER_PARAMETERS
+  ],
+  summarize: ({ intensity }) => `zoom: 100% → ${100 - intensity}%`,
+  indicatorColor: 'rgba(0, 123, 255, 0.9)',
+  formatIndicator: effects => `${effects.zoomScale.toFixed(2)}x`,
+  render: (params, { progress }) => {
+    const { intensity } = params;
+    const minZoomFactor = 1 - (intensity / 100) * 0.8;
+    return { zoomScale: 1 - progress * (1 - minZoomFactor), zoomCenter: getZoomCenter(params) };
+  }
+});
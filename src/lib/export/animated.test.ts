@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_ANIMATED_SETTINGS,
+  estimateAnimatedSizeMB,
+  getAnimatedFrameTimes,
+  getDecimationStep,
+  getEffectiveFrameRate
+} from "./animated";
+import { createAnimatedWebpMuxer, extractWebpFrameData } from "./animatedWebp";
+
+// WebP statico minimo: RIFF + un chunk VP8L fittizio
+const createStaticWebp = (payload: number[]) => {
+  const bytes = new Uint8Array(20 + payload.length + (payload.length % 2));
+  const view = new DataView(bytes.buffer);
+  bytes.set([...'RIFF'].map(c => c.charCodeAt(0)), 0);
+  view.setUint32(4, bytes.length - 8, true);
+  bytes.set([...'WEBP'].map(c => c.charCodeAt(0)), 8);
+  bytes.set([...'VP8L'].map(c => c.charCodeAt(0)), 12);
+  view.setUint32(16, payload.length, true);
+  bytes.set(payload, 20);
+  return bytes;
+};
+
+describe("frame rate decimation", () => {
+  it("keeps one timeline frame every N", () => {
+    expect(getDecimationStep(30, 10)).toBe(3);
+    expect(getDecimationStep(24, 12)).toBe(2);
+    expect(getEffectiveFrameRate(30, 12)).toBe(10);
+  });
+
+  it("never exceeds the timeline frame rate", () => {
+    expect(getDecimationStep(24, 25)).toBe(1);
+  });
+
+  it("samples the range at the decimated rate", () => {
+    const times = getAnimatedFrameTimes({ start: 1, end: 2 }, 30, 10);
+    expect(times).toHaveLength(10);
+    expect(times[0]).toBe(1);
+    expect(times[1]).toBeCloseTo(1.1);
+  });
+});
+
+describe("estimateAnimatedSizeMB", () => {
+  it("grows with frame count and shrinks with fewer colors", () => {
+    const size = { width: 480, height: 270 };
+    const full = estimateAnimatedSizeMB(DEFAULT_ANIMATED_SETTINGS, size, 24);
+    expect(estimateAnimatedSizeMB(DEFAULT_ANIMATED_SETTINGS, size, 48)).toBeCloseTo(full * 2);
+    expect(estimateAnimatedSizeMB({ ...DEFAULT_ANIMATED_SETTINGS, colors: 16 }, size, 24)).toBeLessThan(full);
+  });
+});
+
+describe("animated WebP muxer", () => {
+  it("extracts the image chunk from a static WebP", () => {
+    const { chunks, hasAlpha } = extractWebpFrameData(createStaticWebp([1, 2, 3]));
+    expect(String.fromCharCode(...chunks.subarray(0, 4))).toBe('VP8L');
+    expect(chunks.length).toBe(12); // Header + payload allineato
+    expect(hasAlpha).toBe(false);
+  });
+
+  it("rejects data that is not WebP", () => {
+    expect(() => extractWebpFrameData(new Uint8Array(16))).toThrow();
+  });
+
+  it("writes VP8X, ANIM and one ANMF per frame", async () => {
+    const muxer = createAnimatedWebpMuxer({ width: 320, height: 180 });
+    muxer.addFrame(createStaticWebp([1, 2, 3, 4]), 100 / 3);
+    muxer.addFrame(createStaticWebp([5, 6, 7, 8]), 100 / 3);
+
+    const blob = muxer.finish();
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const text = String.fromCharCode(...bytes);
+    expect(bytes.length).toBe(muxer.byteLength);
+    expect(new DataView(bytes.buffer).getUint32(4, true)).toBe(bytes.length - 8);
+    expect(text.indexOf('VP8X')).toBe(12);
+    expect(text).toContain('ANIM');
+    expect(text.split('ANMF')).toHaveLength(3);
+
+    // Durate arrotondate sul totale: 33 + 34 ms
+    const firstFrame = text.indexOf('ANMF') + 8;
+    const duration = (offset: number) => bytes[offset + 12] | (bytes[offset + 13] << 8);
+    expect(duration(firstFrame)).toBe(33);
+    expect(duration(text.lastIndexOf('ANMF') + 8)).toBe(34);
+  });
+});
@@ -0,0 +1,152 @@
+import type { TimelineItem } from "@/components/VideoEditor";
+import type { AspectRatio } from "@/lib/project";
+import type { TimeRange } from "@/lib/timeline";
+import { FrameSize, getFrameSize } from "@/lib/render/compositor";
+import { DitherMode, createGifEncoder } from "./gif";
+import { createAnimatedWebpMuxer } from "./animatedWebp";
+import { ExportMedia, drawFrameAt, throwIfAborted } from "./offlineExport";
+import { canvasToBlob, getSequenceFrameTimes } from "./stills";
+
+// Export di loop brevi in GIF o WebP animato, con lo stesso render della timeline dell'export video
+
+export type AnimatedFormatId = 'gif' | 'webp';
+
+export interface AnimatedFormat {
+  id: AnimatedFormatId;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const ANIMATED_FORMATS: Record<AnimatedFormatId, AnimatedFormat> = {
+  'gif': { id: 'gif', label: 'GIF', description: 'Plays everywhere', extension: 'gif', mimeType: 'image/gif' },
+  'webp': { id: 'webp', label: 'WebP', description: 'Smaller, full color', extension: 'webp', mimeType: 'image/webp' }
+};
+
+export interface AnimatedSettings {
+  formatId: AnimatedFormatId;
+  size: number; // Lato lungo in pixel
+  fps: number; // Frame rate desiderato, ottenuto scartando fotogrammi della timeline
+  colors: number; // Solo GIF
+  dither: DitherMode; // Solo GIF
+  quality: number; // Solo WebP, 0-1
+  maxSizeMB: number;
+}
+
+export const ANIMATED_SIZES = [320, 480, 640, 800, 1080];
+export const ANIMATED_FRAME_RATES = [5, 10, 12, 15, 20, 25];
+export const GIF_PALETTE_SIZES = [256, 128, 64, 32, 16];
+
+export const DEFAULT_ANIMATED_SETTINGS: AnimatedSettings = {
+  formatId: 'gif',
+  size: 480,
+  fps: 12,
+  colors: 256,
+  dither: 'floyd-steinberg',
+  quality: 0.8,
+  maxSizeMB: 15
+};
+
+// Byte per pixel per fotogramma, stimati su contenuti video tipici
+const GIF_BYTES_PER_PIXEL = 0.5;
+const WEBP_BYTES_PER_PIXEL = 0.15;
+
+export const getAnimatedFrameSize = (settings: AnimatedSettings, aspectRatio: AspectRatio): FrameSize => {
+  return getFrameSize(aspectRatio, settings.size);
+};
+
+// Un fotogramma ogni N della timeline: i tempi coincidono con quelli dell'export video
+// e il frame rate risultante non supera mai quello richiesto
+export const getDecimationStep = (timelineFps: number, targetFps: number) => {
+  return Math.max(1, Math.ceil(timelineFps / Math.max(1, targetFps)));
+};
+
+export const getEffectiveFrameRate = (timelineFps: number, targetFps: number) => {
+  return timelineFps / getDecimationStep(timelineFps, targetFps);
+};
+
+export const getAnimatedFrameTimes = (range: TimeRange, timelineFps: number, targetFps: number) => {
+  return getSequenceFrameTimes(range, timelineFps, getDecimationStep(timelineFps, targetFps));
+};
+
+export const estimateAnimatedSizeMB = (settings: AnimatedSettings, frameSize: FrameSize, frameCount: number) => {
+  const bytesPerPixel = settings.formatId === 'gif'
+    ? GIF_BYTES_PER_PIXEL * (Math.log2(settings.colors) / 8)
+    : WEBP_BYTES_PER_PIXEL * (0.5 + settings.quality);
+  return (frameSize.width * frameSize.height * frameCount * bytesPerPixel) / 1000 / 1000;
+};
+
+export const getSizeLimitMessage = (format: AnimatedFormat, maxSizeMB: number) => {
+  return `The ${format.label} would exceed the ${maxSizeMB} MB limit. Lower the size, frame rate or duration.`;
+};
+
+export interface AnimatedExportOptions {
+  canvas: HTMLCanvasElement;
+  items: TimelineItem[];
+  media: ExportMedia;
+  range: TimeRange;
+  timelineFps: number;
+  settings: AnimatedSettings;
+  signal?: AbortSignal;
+  onProgress?: (progress: { framesRendered: number; framesTotal: number }) => void;
+  onEncoding?: () => void;
+}
+
+export const exportAnimated = async ({
+  canvas,
+  items,
+  media,
+  range,
+  timelineFps,
+  settings,
+  signal,
+  onProgress,
+  onEncoding
+}: AnimatedExportOptions): Promise<Blob> => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+
+  const format = ANIMATED_FORMATS[settings.formatId];
+  const { width, height } = canvas;
+  const times = getAnimatedFrameTimes(range, timelineFps, settings.fps);
+  const frameDurationMs = 1000 / getEffectiveFrameRate(timelineFps, settings.fps);
+  const maxBytes = settings.maxSizeMB * 1000 * 1000;
+
+  const gif = settings.formatId === 'gif' ? createGifEncoder({ width, height }) : null;
+  const webp = gif ? null : createAnimatedWebpMuxer({ width, height });
+  const encoder = gif ?? webp;
+
+  for (let index = 0; index < times.length; index++) {
+    throwIfAborted(signal);
+
+    await drawFrameAt(ctx, items, media, times[index]);
+
+    if (gif) {
+      const { data } = ctx.getImageData(0, 0, width, height);
+      gif.addFrame(data, {
+        durationMs: frameDurationMs,
+        colors: settings.colors,
+        dither: settings.dither
+      });
+    } else {
+      const blob = await canvasToBlob(canvas, format, settings.quality);
+      if (blob.type !== format.mimeType) {
+        throw new Error('WebP encoding is not supported by this browser');
+      }
+      webp.addFrame(new Uint8Array(await blob.arrayBuffer()), frameDurationMs);
+    }
+
+    // Limite di dimensione: meglio fermarsi subito che generare un file inutilizzabile
+    if (encoder.byteLength > maxBytes) {
+      throw new Error(getSizeLimitMessage(format, settings.maxSizeMB));
+    }
+
+    onProgress?.({ framesRendered: index + 1, framesTotal: times.length });
+  }
+
+  throwIfAborted(signal);
+  onEncoding?.();
+
+  return encoder.finish();
+};
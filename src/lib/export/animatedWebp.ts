@@ -0,0 +1,143 @@
+// Muxer WebP animato: i fotogrammi codificati dal browser (canvas.toBlob) vengono impacchettati in chunk ANMF
+
+// Chunk di un WebP statico che contengono l'immagine vera e propria
+const IMAGE_CHUNKS = ['ALPH', 'VP8 ', 'VP8L'];
+
+const VP8X_ANIMATION_FLAG = 0x02;
+const VP8X_ALPHA_FLAG = 0x10;
+const ANMF_NO_BLEND_FLAG = 0x02;
+
+// Durata, dimensioni e offset degli ANMF sono interi a 24 bit
+const MAX_UINT24 = 0xffffff;
+
+const readFourCC = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const readUint32 = (bytes: Uint8Array, offset: number) => {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+};
+
+const writeUint24 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = value & 0xff;
+  target[offset + 1] = (value >> 8) & 0xff;
+  target[offset + 2] = (value >> 16) & 0xff;
+};
+
+// Chunk RIFF: FourCC, dimensione little endian e payload allineato a 2 byte
+const createChunk = (fourCC: string, payload: Uint8Array) => {
+  const chunk = new Uint8Array(8 + payload.length + (payload.length % 2));
+  for (let i = 0; i < 4; i++) chunk[i] = fourCC.charCodeAt(i);
+  new DataView(chunk.buffer).setUint32(4, payload.length, true);
+  chunk.set(payload, 8);
+  return chunk;
+};
+
+export interface WebpFrameData {
+  chunks: Uint8Array; // ALPH/VP8/VP8L già completi di header
+  hasAlpha: boolean;
+}
+
+// Estrae i chunk dell'immagine da un WebP statico, semplice o esteso (VP8X)
+export const extractWebpFrameData = (bytes: Uint8Array): WebpFrameData => {
+  if (bytes.length < 12 || readFourCC(bytes, 0) !== 'RIFF' || readFourCC(bytes, 8) !== 'WEBP') {
+    throw new Error('Invalid WebP frame');
+  }
+
+  const parts: Uint8Array[] = [];
+  let hasAlpha = false;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const fourCC = readFourCC(bytes, offset);
+    const size = readUint32(bytes, offset + 4);
+    const end = Math.min(bytes.length, offset + 8 + size + (size % 2));
+
+    if (IMAGE_CHUNKS.includes(fourCC)) {
+      parts.push(bytes.subarray(offset, end));
+      if (fourCC === 'ALPH') hasAlpha = true;
+    }
+    offset = end;
+  }
+
+  if (parts.length === 0) throw new Error('WebP frame contains no image data');
+
+  const chunks = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    chunks.set(part, position);
+    position += part.length;
+  }
+  return { chunks, hasAlpha };
+};
+
+// Il browser sa codificare WebP? Safari ad esempio ripiega silenziosamente su PNG
+export const isWebpEncodingSupported = () => {
+  if (typeof document === 'undefined') return false;
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  return canvas.toDataURL('image/webp').startsWith('data:image/webp');
+};
+
+export interface AnimatedWebpOptions {
+  width: number;
+  height: number;
+  loop?: number; // 0 = ripetizione infinita
+}
+
+export const createAnimatedWebpMuxer = ({ width, height, loop = 0 }: AnimatedWebpOptions) => {
+  const frames: Uint8Array[] = [];
+  let framesLength = 0;
+  let hasAlpha = false;
+
+  // Durate in millisecondi arrotondate sul totale per non accumulare deriva
+  let elapsedMs = 0;
+  let roundedElapsedMs = 0;
+
+  const addFrame = (webp: Uint8Array, durationMs: number) => {
+    const frame = extractWebpFrameData(webp);
+    hasAlpha = hasAlpha || frame.hasAlpha;
+
+    elapsedMs += durationMs;
+    const duration = Math.min(MAX_UINT24, Math.round(elapsedMs) - roundedElapsedMs);
+    roundedElapsedMs += duration;
+
+    // Intestazione ANMF: offset (0, 0), dimensioni, durata e sostituzione completa del fotogramma precedente
+    const payload = new Uint8Array(16 + frame.chunks.length);
+    writeUint24(payload, 6, width - 1);
+    writeUint24(payload, 9, height - 1);
+    writeUint24(payload, 12, duration);
+    payload[15] = ANMF_NO_BLEND_FLAG;
+    payload.set(frame.chunks, 16);
+
+    const chunk = createChunk('ANMF', payload);
+    frames.push(chunk);
+    framesLength += chunk.length;
+  };
+
+  const finish = () => {
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = VP8X_ANIMATION_FLAG | (hasAlpha ? VP8X_ALPHA_FLAG : 0);
+    writeUint24(vp8x, 4, width - 1);
+    writeUint24(vp8x, 7, height - 1);
+
+    // Sfondo nero opaco (BGRA) e numero di ripetizioni
+    const anim = new Uint8Array([0, 0, 0, 0xff, loop & 0xff, (loop >> 8) & 0xff]);
+
+    const header = new Uint8Array(12);
+    const body = [createChunk('VP8X', vp8x), createChunk('ANIM', anim)];
+    const riffSize = 4 + body.reduce((total, chunk) => total + chunk.length, 0) + framesLength;
+    for (let i = 0; i < 4; i++) header[i] = 'RIFF'.charCodeAt(i);
+    new DataView(header.buffer).setUint32(4, riffSize, true);
+    for (let i = 0; i < 4; i++) header[8 + i] = 'WEBP'.charCodeAt(i);
+
+    return new Blob([header, ...body, ...frames], { type: 'image/webp' });
+  };
+
+  return {
+    addFrame,
+    get byteLength() {
+      return 12 + 18 + 14 + framesLength; // RIFF + VP8X + ANIM + fotogrammi
+    },
+    finish
+  };
+};
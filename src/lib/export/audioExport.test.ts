@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { encodeWav } from "./audioExport";
+
+describe('WAV encoding', () => {
+  it('writes a PCM header and interleaves the channels', () => {
+    const left = new Float32Array([0, 1, -1]);
+    const right = new Float32Array([0.5, -0.5, 2]);
+    const view = new DataView(encodeWav([left, right], 48000));
+    const text = (offset: number) => String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+
+    expect(text(0)).toBe('RIFF');
+    expect(text(8)).toBe('WAVE');
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(48000);
+    expect(view.getUint32(40, true)).toBe(3 * 2 * 2);
+    expect(view.byteLength).toBe(44 + 12);
+
+    const samples = Array.from({ length: 6 }, (_, i) => view.getInt16(44 + i * 2, true));
+    expect(samples).toEqual([0, 16383, 32767, -16384, -32768, 32767]);
+  });
+});
@@ -0,0 +1,155 @@
+import { ArrayBufferTarget, Muxer } from "webm-muxer";
+import type { TimelineItem } from "@/components/VideoEditor";
+import type { TimeRange } from "@/lib/timeline";
+import { EXPORT_CHANNELS, EXPORT_SAMPLE_RATE, renderAudioMix } from "./audioMix";
+import { createAudioFeeder, throwIfAborted, waitForQueue } from "./offlineExport";
+
+// Export del solo audio: il mix della timeline salvato in WAV (PCM) oppure Opus
+
+export type AudioFormatId = 'wav' | 'opus';
+
+export interface AudioFormat {
+  id: AudioFormatId;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const AUDIO_FORMATS: Record<AudioFormatId, AudioFormat> = {
+  'wav': { id: 'wav', label: 'WAV', description: 'PCM 16-bit, lossless', extension: 'wav', mimeType: 'audio/wav' },
+  'opus': { id: 'opus', label: 'Opus', description: 'Compressed (WebM)', extension: 'webm', mimeType: 'audio/webm' }
+};
+
+export interface AudioExportOptions {
+  items: TimelineItem[];
+  trackVolumes: Map<string, number>;
+  range: TimeRange;
+  format: AudioFormat;
+  bitrate: number; // Solo per Opus
+  signal?: AbortSignal;
+  onEncoding?: () => void;
+}
+
+// Il WAV non richiede encoder: è sempre disponibile
+export const isAudioFormatSupported = async (format: AudioFormat, bitrate: number) => {
+  if (format.id === 'wav') return true;
+  if (typeof AudioEncoder === 'undefined' || typeof AudioData === 'undefined') return false;
+
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({
+      codec: 'opus',
+      sampleRate: EXPORT_SAMPLE_RATE,
+      numberOfChannels: EXPORT_CHANNELS,
+      bitrate
+    });
+    return !!supported;
+  } catch {
+    return false;
+  }
+};
+
+// RIFF/WAVE PCM a 16 bit con i canali interlacciati
+export const encodeWav = (channels: Float32Array[], sampleRate: number): ArrayBuffer => {
+  const numberOfChannels = channels.length;
+  const length = channels[0]?.length ?? 0;
+  const bytesPerSample = 2;
+  const dataSize = length * numberOfChannels * bytesPerSample;
+
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // Dimensione del chunk fmt
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numberOfChannels * bytesPerSample, true);
+  view.setUint16(32, numberOfChannels * bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const sample = Math.max(-1, Math.min(1, channels[channel][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+};
+
+// Si codifica un secondo alla volta, aspettando l'encoder come per il video: così l'annullamento
+// interviene subito e la coda dell'encoder non tiene in memoria l'intero mix
+const encodeOpus = async (buffer: AudioBuffer, bitrate: number, signal?: AbortSignal): Promise<ArrayBuffer> => {
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    audio: { codec: 'A_OPUS', numberOfChannels: EXPORT_CHANNELS, sampleRate: EXPORT_SAMPLE_RATE }
+  });
+
+  let encoderError: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: (error) => {
+      encoderError = encoderError ?? new Error(`Encoder error: ${error.message}`);
+    }
+  });
+
+  try {
+    encoder.configure({ codec: 'opus', sampleRate: EXPORT_SAMPLE_RATE, numberOfChannels: EXPORT_CHANNELS, bitrate });
+    const feedAudio = createAudioFeeder(encoder, buffer);
+    for (let position = 0; position < buffer.length; position += buffer.sampleRate) {
+      throwIfAborted(signal);
+      if (encoderError) throw encoderError;
+
+      feedAudio(position + buffer.sampleRate);
+      await waitForQueue(encoder);
+    }
+    throwIfAborted(signal);
+    await encoder.flush();
+    if (encoderError) throw encoderError;
+
+    muxer.finalize();
+    return muxer.target.buffer;
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+};
+
+export const exportTimelineAudio = async ({
+  items,
+  trackVolumes,
+  range,
+  format,
+  bitrate,
+  signal,
+  onEncoding
+}: AudioExportOptions): Promise<Blob> => {
+  const mix = await renderAudioMix({
+    items,
+    trackVolumes,
+    startTime: range.start,
+    duration: range.end - range.start,
+    signal
+  });
+  throwIfAborted(signal);
+  if (!mix) throw new Error('There is no audio to export in the selected range');
+
+  onEncoding?.();
+
+  if (format.id === 'wav') {
+    const channels = Array.from({ length: mix.numberOfChannels }, (_, channel) => mix.getChannelData(channel));
+    return new Blob([encodeWav(channels, mix.sampleRate)], { type: format.mimeType });
+  }
+
+  return new Blob([await encodeOpus(mix, bitrate, signal)], { type: format.mimeType });
+};
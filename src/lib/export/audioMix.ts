@@ -0,0 +1,146 @@
+import type { TimelineItem } from "@/components/VideoEditor";
+import { calculateActiveEffects, calculateGlobalAlpha } from "@/lib/render/effects";
+import { getClipParameterValue, hasKeyframes } from "@/lib/keyframes";
+
+// Mixaggio offline dell'audio della timeline: stessi volumi e fade della preview
+
+export const EXPORT_SAMPLE_RATE = 48000;
+export const EXPORT_CHANNELS = 2;
+
+// Campioni al secondo della curva dei fade applicata al master
+export const FADE_CURVE_RESOLUTION = 100;
+
+export interface AudioMixOptions {
+  items: TimelineItem[];
+  trackVolumes: Map<string, number>;
+  startTime?: number; // Inizio dell'intervallo esportato sulla timeline
+  duration: number;
+  sampleRate?: number;
+  signal?: AbortSignal;
+}
+
+export const getAudibleItems = (items: TimelineItem[]) => {
+  return items.filter(item =>
+    (item.mediaFile.type === 'audio' || item.mediaFile.type === 'video') &&
+    item.duration > 0
+  );
+};
+
+// Guadagno massimo di un elemento, volume del mixer e volume a keyframe compresi (200%, come il mixer).
+// La preview lo suona con un GainNode per elemento (vedi previewAudio), quindi preview ed export coincidono
+export const MAX_ITEM_GAIN = 2;
+
+const clampGain = (gain: number) => Math.max(0, Math.min(MAX_ITEM_GAIN, gain));
+
+// Solo il volume del mixer
+export const getItemGain = (item: TimelineItem, trackVolumes: Map<string, number>) => {
+  return clampGain((trackVolumes.get(item.id) ?? 100) / 100);
+};
+
+// Guadagno al tempo indicato: mixer per volume a keyframe, fino a MAX_ITEM_GAIN (il keyframe oltre il 100%
+// amplifica davvero). Lo usano preview, export offline ed export in tempo reale
+export const getItemGainAt = (item: TimelineItem, trackVolumes: Map<string, number>, time: number) => {
+  return clampGain(((trackVolumes.get(item.id) ?? 100) / 100) * (getClipParameterValue(item, 'volume', time) / 100));
+};
+
+// Alfa globale campionata nel tempo, da usare come automazione del guadagno master
+export const buildFadeCurve = (items: TimelineItem[], startTime: number, duration: number, resolution = FADE_CURVE_RESOLUTION) => {
+  const length = Math.max(2, Math.ceil(duration * resolution) + 1);
+  const curve = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    curve[i] = calculateGlobalAlpha(calculateActiveEffects(items, startTime + i / resolution));
+  }
+  return curve;
+};
+
+// Guadagno di un elemento con il volume animato a keyframe, campionato sull'intervallo in cui suona
+export const buildVolumeCurve = (
+  item: TimelineItem,
+  trackVolumes: Map<string, number>,
+  startTime: number,
+  duration: number,
+  resolution = FADE_CURVE_RESOLUTION
+) => {
+  const length = Math.max(2, Math.ceil(duration * resolution) + 1);
+  const curve = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    curve[i] = getItemGainAt(item, trackVolumes, startTime + (i / (length - 1)) * duration);
+  }
+  return curve;
+};
+
+const decodeSource = async (context: BaseAudioContext, item: TimelineItem) => {
+  const data = item.mediaFile.file
+    ? await item.mediaFile.file.arrayBuffer()
+    : await (await fetch(item.mediaFile.url)).arrayBuffer();
+  return context.decodeAudioData(data);
+};
+
+// Restituisce null se nessun elemento produce audio
+export const renderAudioMix = async ({
+  items,
+  trackVolumes,
+  startTime = 0,
+  duration,
+  sampleRate = EXPORT_SAMPLE_RATE,
+  signal
+}: AudioMixOptions): Promise<AudioBuffer | null> => {
+  const endTime = startTime + duration;
+  const audibleItems = getAudibleItems(items).filter(item =>
+    getItemGain(item, trackVolumes) > 0 &&
+    item.startTime < endTime &&
+    item.startTime + item.duration > startTime
+  );
+  if (audibleItems.length === 0 || duration <= 0) return null;
+
+  const context = new OfflineAudioContext(EXPORT_CHANNELS, Math.ceil(duration * sampleRate), sampleRate);
+
+  const master = context.createGain();
+  master.gain.setValueCurveAtTime(buildFadeCurve(items, startTime, duration), 0, duration);
+  master.connect(context.destination);
+
+  // Più elementi possono condividere lo stesso file: lo decodifichiamo una volta sola
+  const decoded = new Map<string, Promise<AudioBuffer | null>>();
+  let scheduled = 0;
+
+  for (const item of audibleItems) {
+    if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+
+    if (!decoded.has(item.mediaFile.id)) {
+      decoded.set(item.mediaFile.id, decodeSource(context, item).catch(error => {
+        // Video senza traccia audio o formato non decodificabile
+        console.warn(`No decodable audio in ${item.mediaFile.name}:`, error);
+        return null;
+      }));
+    }
+
+    const buffer = await decoded.get(item.mediaFile.id);
+    if (!buffer) continue;
+
+    // Gli elementi iniziati prima dell'intervallo partono da metà
+    const skipped = Math.max(0, startTime - item.startTime);
+    const offset = (item.mediaStartOffset || 0) + skipped;
+    const playable = Math.min(item.duration - skipped, buffer.duration - offset);
+    if (playable <= 0) continue;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+
+    // Mixer e volume a keyframe in un solo guadagno, con lo stesso limite della preview
+    const when = Math.max(0, item.startTime - startTime);
+    const gain = context.createGain();
+    if (hasKeyframes(item, 'volume')) {
+      gain.gain.setValueCurveAtTime(buildVolumeCurve(item, trackVolumes, item.startTime + skipped, playable), when, playable);
+    } else {
+      gain.gain.value = getItemGainAt(item, trackVolumes, item.startTime);
+    }
+
+    source.connect(gain);
+    gain.connect(master);
+    source.start(when, offset, playable);
+    scheduled++;
+  }
+
+  if (scheduled === 0) return null;
+  return context.startRendering();
+};
@@ -0,0 +1,14 @@
+// Avvia il download di un file generato nel browser
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Il browser ha già preso in carico il download: l'URL può essere liberato
+  setTimeout(() => URL.revokeObjectURL(url), 2000);
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { EXPORT_FORMATS, getAudioEncoderConfig, getExportFileName, getVideoEncoderConfig, isFormatSupported } from "./formats";
+
+const settings = { width: 1920, height: 1080, fps: 30, videoBitrate: 10000000, audioBitrate: 192000 };
+
+describe('export formats', () => {
+  it('configures H.264 with an MP4-friendly bitstream and AAC audio', () => {
+    const format = EXPORT_FORMATS['mp4-h264'];
+
+    expect(getVideoEncoderConfig(format, settings)).toMatchObject({ codec: format.videoCodec, width: 1920, height: 1080, avc: { format: 'avc' } });
+    expect(getAudioEncoderConfig(format, settings)).toMatchObject({ codec: 'mp4a.40.2', sampleRate: 48000, numberOfChannels: 2, bitrate: 192000 });
+  });
+
+  it('leaves the VP9 config without H.264 options', () => {
+    expect(getVideoEncoderConfig(EXPORT_FORMATS['webm-vp9'], settings)).not.toHaveProperty('avc');
+  });
+
+  it('names the download after the output kind and container', () => {
+    expect(getExportFileName('video-export', EXPORT_FORMATS['mp4-h264'].extension, '16:9', '1920x1080'))
+      .toMatch(/^video-export-16:9-1920x1080-\d+\.mp4$/);
+    expect(getExportFileName('audio-export', 'wav')).toMatch(/^audio-export-\d+\.wav$/);
+  });
+
+  it('accepts a format when either engine can encode it', () => {
+    expect(isFormatSupported(undefined)).toBe(false);
+    expect(isFormatSupported({ offline: false, realtime: false })).toBe(false);
+    expect(isFormatSupported({ offline: false, realtime: true })).toBe(true);
+  });
+});
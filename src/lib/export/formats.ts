@@ -0,0 +1,148 @@
+import { ArrayBufferTarget as Mp4Target, Muxer as Mp4Muxer } from "mp4-muxer";
+import { ArrayBufferTarget as WebmTarget, Muxer as WebmMuxer } from "webm-muxer";
+import { EXPORT_CHANNELS, EXPORT_SAMPLE_RATE } from "./audioMix";
+
+// Contenitori e codec disponibili per l'export video
+
+export type ExportFormatId = 'mp4-h264' | 'webm-vp9';
+
+export interface ExportFormat {
+  id: ExportFormatId;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+  videoCodec: string; // Stringa codec WebCodecs
+  audioCodec: string;
+  recorderMimeType: string; // Per il fallback con MediaRecorder
+}
+
+export const EXPORT_FORMATS: Record<ExportFormatId, ExportFormat> = {
+  'mp4-h264': {
+    id: 'mp4-h264',
+    label: 'MP4',
+    description: 'H.264 / AAC',
+    extension: 'mp4',
+    mimeType: 'video/mp4',
+    videoCodec: 'avc1.640033', // High profile, level 5.1: fino al 4K
+    audioCodec: 'mp4a.40.2', // AAC-LC
+    recorderMimeType: 'video/mp4;codecs=avc1,mp4a.40.2'
+  },
+  'webm-vp9': {
+    id: 'webm-vp9',
+    label: 'WebM',
+    description: 'VP9 / Opus',
+    extension: 'webm',
+    mimeType: 'video/webm',
+    videoCodec: 'vp09.00.10.08',
+    audioCodec: 'opus',
+    recorderMimeType: 'video/webm;codecs=vp9,opus'
+  }
+};
+
+export const DEFAULT_EXPORT_FORMAT: ExportFormatId = 'mp4-h264';
+
+export interface EncodingSettings {
+  width: number;
+  height: number;
+  fps: number;
+  videoBitrate: number;
+  audioBitrate: number;
+}
+
+export interface FormatSupport {
+  offline: boolean; // WebCodecs
+  realtime: boolean; // MediaRecorder
+}
+
+export const getVideoEncoderConfig = (format: ExportFormat, settings: EncodingSettings): VideoEncoderConfig => ({
+  codec: format.videoCodec,
+  width: settings.width,
+  height: settings.height,
+  bitrate: settings.videoBitrate,
+  framerate: settings.fps,
+  // Con 'avc' i parametri del decoder finiscono nell'header MP4 invece che in ogni keyframe
+  ...(format.id === 'mp4-h264' ? { avc: { format: 'avc' as const } } : {})
+});
+
+export const getAudioEncoderConfig = (format: ExportFormat, settings: EncodingSettings): AudioEncoderConfig => ({
+  codec: format.audioCodec,
+  sampleRate: EXPORT_SAMPLE_RATE,
+  numberOfChannels: EXPORT_CHANNELS,
+  bitrate: settings.audioBitrate
+});
+
+export const isWebCodecsAvailable = () => {
+  return typeof VideoEncoder !== 'undefined' &&
+    typeof AudioEncoder !== 'undefined' &&
+    typeof VideoFrame !== 'undefined' &&
+    typeof AudioData !== 'undefined';
+};
+
+// Controllo preventivo: il browser sa codificare questo formato con queste impostazioni?
+export const checkFormatSupport = async (format: ExportFormat, settings: EncodingSettings): Promise<FormatSupport> => {
+  const realtime = typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(format.recorderMimeType);
+
+  if (!isWebCodecsAvailable()) {
+    return { offline: false, realtime };
+  }
+
+  try {
+    const [video, audio] = await Promise.all([
+      VideoEncoder.isConfigSupported(getVideoEncoderConfig(format, settings)),
+      AudioEncoder.isConfigSupported(getAudioEncoderConfig(format, settings))
+    ]);
+    return { offline: !!video.supported && !!audio.supported, realtime };
+  } catch {
+    return { offline: false, realtime };
+  }
+};
+
+export const isFormatSupported = (support: FormatSupport | undefined) => !!support && (support.offline || support.realtime);
+
+export const getExportFileName = (prefix: string, extension: string, ...parts: string[]) => {
+  return `${[prefix, ...parts, Date.now()].join('-')}.${extension}`;
+};
+
+// Interfaccia comune ai muxer MP4 e WebM
+export interface ExportMuxer {
+  addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void;
+  finalize: () => Blob;
+}
+
+export const createMuxer = (format: ExportFormat, settings: EncodingSettings, hasAudio: boolean): ExportMuxer => {
+  const { width, height, fps } = settings;
+
+  if (format.id === 'mp4-h264') {
+    const muxer = new Mp4Muxer({
+      target: new Mp4Target(),
+      video: { codec: 'avc', width, height, frameRate: fps },
+      audio: hasAudio ? { codec: 'aac', numberOfChannels: EXPORT_CHANNELS, sampleRate: EXPORT_SAMPLE_RATE } : undefined,
+      // moov in testa: i player e le piattaforme social possono iniziare la riproduzione subito
+      fastStart: 'in-memory'
+    });
+    return {
+      addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => {
+        muxer.finalize();
+        return new Blob([muxer.target.buffer], { type: format.mimeType });
+      }
+    };
+  }
+
+  const muxer = new WebmMuxer({
+    target: new WebmTarget(),
+    video: { codec: 'V_VP9', width, height, frameRate: fps },
+    audio: hasAudio ? { codec: 'A_OPUS', numberOfChannels: EXPORT_CHANNELS, sampleRate: EXPORT_SAMPLE_RATE } : undefined
+  });
+  return {
+    addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    finalize: () => {
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: format.mimeType });
+    }
+  };
+};
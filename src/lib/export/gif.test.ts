@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { applyPalette, createByteWriter, createGifEncoder, encodeLzw, getMinCodeSize, quantize } from "./gif";
+
+// Decoder LZW di riferimento per verificare l'encoder
+const decodeLzw = (bytes: Uint8Array) => {
+  const minCodeSize = bytes[0];
+  const data: number[] = [];
+  let offset = 1;
+  while (bytes[offset] !== 0) {
+    const length = bytes[offset];
+    data.push(...bytes.subarray(offset + 1, offset + 1 + length));
+    offset += length + 1;
+  }
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let table: number[][] = [];
+  const reset = () => {
+    table = Array.from({ length: clearCode }, (_, index) => [index]);
+    table.push([], []);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+
+  const output: number[] = [];
+  let previous: number[] | null = null;
+  let bitPosition = 0;
+  while (bitPosition + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let bit = 0; bit < codeSize; bit++, bitPosition++) {
+      code |= ((data[bitPosition >> 3] >> (bitPosition & 7)) & 1) << bit;
+    }
+    if (code === clearCode) {
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === endCode) break;
+
+    const entry = code < table.length ? table[code] : [...previous!, previous![0]];
+    output.push(...entry);
+    if (previous) table.push([...previous, entry[0]]);
+    if (table.length === (1 << codeSize) && codeSize < 12) codeSize++;
+    previous = entry;
+  }
+  return output;
+};
+
+const solidFrame = (pixels: number, rgb: [number, number, number]) => {
+  const rgba = new Uint8ClampedArray(pixels * 4);
+  for (let i = 0; i < pixels; i++) rgba.set([...rgb, 255], i * 4);
+  return rgba;
+};
+
+describe("quantize", () => {
+  it("keeps the palette within the requested size", () => {
+    const rgba = new Uint8ClampedArray(64 * 64 * 4);
+    for (let i = 0; i < 64 * 64; i++) rgba.set([(i * 7) % 256, (i * 13) % 256, (i * 29) % 256, 255], i * 4);
+    expect(quantize(rgba, 16).length).toBe(16 * 3);
+  });
+
+  it("reproduces a flat color closely", () => {
+    const palette = quantize(solidFrame(100, [200, 40, 90]), 256);
+    expect(palette.length).toBe(3);
+    expect(Math.abs(palette[0] - 200)).toBeLessThanOrEqual(4);
+    expect(Math.abs(palette[1] - 40)).toBeLessThanOrEqual(4);
+    expect(Math.abs(palette[2] - 90)).toBeLessThanOrEqual(4);
+  });
+});
+
+describe("applyPalette", () => {
+  const palette = new Uint8Array([0, 0, 0, 255, 255, 255]);
+
+  it("maps to the nearest color without dithering", () => {
+    const indices = applyPalette(solidFrame(4, [220, 220, 220]), 2, 2, palette, 'none');
+    expect(Array.from(indices)).toEqual([1, 1, 1, 1]);
+  });
+
+  it("mixes colors for mid tones with error diffusion", () => {
+    const indices = applyPalette(solidFrame(64, [128, 128, 128]), 8, 8, palette, 'floyd-steinberg');
+    const white = indices.reduce((total, index) => total + index, 0);
+    expect(white).toBeGreaterThan(16);
+    expect(white).toBeLessThan(48);
+  });
+});
+
+describe("encodeLzw", () => {
+  it("round-trips through a reference decoder", () => {
+    const indices = new Uint8Array(10000);
+    for (let i = 0; i < indices.length; i++) indices[i] = (i * i + (i >> 5)) % 13;
+
+    const writer = createByteWriter();
+    encodeLzw(indices, getMinCodeSize(16), writer);
+    expect(decodeLzw(writer.getBytes())).toEqual(Array.from(indices));
+  });
+
+  it("uses at least two bits per code", () => {
+    expect(getMinCodeSize(2)).toBe(2);
+    expect(getMinCodeSize(5)).toBe(3);
+    expect(getMinCodeSize(256)).toBe(8);
+  });
+});
+
+describe("createGifEncoder", () => {
+  it("writes a looping GIF89a with one image per frame", async () => {
+    const encoder = createGifEncoder({ width: 2, height: 2 });
+    encoder.addFrame(solidFrame(4, [255, 0, 0]), { durationMs: 100, colors: 256, dither: 'none' });
+    encoder.addFrame(solidFrame(4, [0, 0, 255]), { durationMs: 100, colors: 256, dither: 'none' });
+
+    const bytes = new Uint8Array(await encoder.finish().arrayBuffer());
+    const text = String.fromCharCode(...bytes);
+    expect(text.startsWith('GIF89a')).toBe(true);
+    expect(text).toContain('NETSCAPE2.0');
+    expect(bytes[bytes.length - 1]).toBe(0x3b);
+    expect(bytes.filter(byte => byte === 0x2c).length).toBeGreaterThanOrEqual(2);
+  });
+});
@@ -0,0 +1,408 @@
+// Encoder GIF89a animato: quantizzazione median cut, dithering e compressione LZW
+
+export type DitherMode = 'none' | 'ordered' | 'floyd-steinberg';
+
+export const DITHER_LABELS: Record<DitherMode, string> = {
+  'none': 'None',
+  'ordered': 'Ordered',
+  'floyd-steinberg': 'Floyd–Steinberg'
+};
+
+export const MAX_PALETTE_SIZE = 256;
+
+// L'istogramma lavora a 5 bit per canale: 32768 colori distinti bastano per la median cut
+const HISTOGRAM_BITS = 5;
+const HISTOGRAM_SHIFT = 8 - HISTOGRAM_BITS;
+const HISTOGRAM_SIZE = 1 << (HISTOGRAM_BITS * 3);
+const CHANNEL_SHIFTS = [HISTOGRAM_BITS * 2, HISTOGRAM_BITS, 0]; // r, g, b
+const CHANNEL_MASK = (1 << HISTOGRAM_BITS) - 1;
+
+const MAX_LZW_CODES = 4096;
+const MAX_SUB_BLOCK = 255;
+
+// Matrice di Bayer 4×4 normalizzata tra -0.5 e 0.5
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map(value => (value + 0.5) / 16 - 0.5);
+const ORDERED_DITHER_SPREAD = 32;
+
+const colorKey = (r: number, g: number, b: number) => {
+  return ((r >> HISTOGRAM_SHIFT) << CHANNEL_SHIFTS[0]) | ((g >> HISTOGRAM_SHIFT) << CHANNEL_SHIFTS[1]) | (b >> HISTOGRAM_SHIFT);
+};
+
+const keyChannel = (key: number, channel: number) => (key >> CHANNEL_SHIFTS[channel]) & CHANNEL_MASK;
+
+interface ColorBox {
+  keys: number[];
+  population: number;
+  channel: number; // Canale con l'estensione maggiore
+  range: number;
+}
+
+const createBox = (keys: number[], histogram: Uint32Array): ColorBox => {
+  const min = [CHANNEL_MASK, CHANNEL_MASK, CHANNEL_MASK];
+  const max = [0, 0, 0];
+  let population = 0;
+  for (const key of keys) {
+    population += histogram[key];
+    for (let channel = 0; channel < 3; channel++) {
+      const value = keyChannel(key, channel);
+      if (value < min[channel]) min[channel] = value;
+      if (value > max[channel]) max[channel] = value;
+    }
+  }
+  const ranges = max.map((value, channel) => value - min[channel]);
+  const channel = ranges.indexOf(Math.max(...ranges));
+  return { keys, population, channel, range: ranges[channel] };
+};
+
+// Divide il box sulla mediana pesata del canale più esteso
+const splitBox = (box: ColorBox, histogram: Uint32Array): [ColorBox, ColorBox] => {
+  const sorted = [...box.keys].sort((a, b) => keyChannel(a, box.channel) - keyChannel(b, box.channel));
+  const half = box.population / 2;
+
+  let accumulated = 0;
+  let index = 0;
+  for (; index < sorted.length - 2; index++) {
+    accumulated += histogram[sorted[index]];
+    if (accumulated >= half) break;
+  }
+  return [createBox(sorted.slice(0, index + 1), histogram), createBox(sorted.slice(index + 1), histogram)];
+};
+
+const getBoxColor = (box: ColorBox, histogram: Uint32Array) => {
+  const sums = [0, 0, 0];
+  let total = 0;
+  for (const key of box.keys) {
+    const count = histogram[key];
+    total += count;
+    for (let channel = 0; channel < 3; channel++) {
+      // Centro dell'intervallo rappresentato dal bin
+      sums[channel] += ((keyChannel(key, channel) << HISTOGRAM_SHIFT) + (1 << (HISTOGRAM_SHIFT - 1))) * count;
+    }
+  }
+  return sums.map(sum => Math.round(sum / Math.max(1, total)));
+};
+
+// Palette RGB (terne consecutive) con al massimo maxColors colori
+export const quantize = (rgba: Uint8ClampedArray, maxColors: number): Uint8Array => {
+  const histogram = new Uint32Array(HISTOGRAM_SIZE);
+  for (let i = 0; i < rgba.length; i += 4) {
+    histogram[colorKey(rgba[i], rgba[i + 1], rgba[i + 2])]++;
+  }
+
+  const used: number[] = [];
+  for (let key = 0; key < HISTOGRAM_SIZE; key++) {
+    if (histogram[key] > 0) used.push(key);
+  }
+
+  const limit = Math.max(2, Math.min(MAX_PALETTE_SIZE, Math.floor(maxColors)));
+  const boxes = [createBox(used.length > 0 ? used : [0], histogram)];
+
+  while (boxes.length < limit) {
+    // Si divide il box più "pesante": popolazione per estensione del canale più largo
+    let bestIndex = -1;
+    let bestScore = 0;
+    boxes.forEach((box, index) => {
+      const score = box.keys.length > 1 ? box.range * box.population : 0;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex === -1) break;
+
+    boxes.splice(bestIndex, 1, ...splitBox(boxes[bestIndex], histogram));
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, index) => palette.set(getBoxColor(box, histogram), index * 3));
+  return palette;
+};
+
+// Colore più vicino della palette, con cache sui colori a 5 bit già incontrati
+const createNearestColorLookup = (palette: Uint8Array) => {
+  const cache = new Int16Array(HISTOGRAM_SIZE).fill(-1);
+  const colors = palette.length / 3;
+
+  return (r: number, g: number, b: number) => {
+    const key = colorKey(r, g, b);
+    const cached = cache[key];
+    if (cached !== -1) return cached;
+
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let index = 0; index < colors; index++) {
+      const dr = palette[index * 3] - r;
+      const dg = palette[index * 3 + 1] - g;
+      const db = palette[index * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = index;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+};
+
+const clampByte = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : Math.round(value));
+
+// Converte i pixel RGBA in indici della palette
+export const applyPalette = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: Uint8Array,
+  dither: DitherMode
+): Uint8Array => {
+  const lookup = createNearestColorLookup(palette);
+  const indices = new Uint8Array(width * height);
+
+  if (dither === 'none') {
+    for (let pixel = 0; pixel < indices.length; pixel++) {
+      indices[pixel] = lookup(rgba[pixel * 4], rgba[pixel * 4 + 1], rgba[pixel * 4 + 2]);
+    }
+    return indices;
+  }
+
+  if (dither === 'ordered') {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const pixel = y * width + x;
+        const bias = BAYER_4X4[(y & 3) * 4 + (x & 3)] * ORDERED_DITHER_SPREAD;
+        indices[pixel] = lookup(
+          clampByte(rgba[pixel * 4] + bias),
+          clampByte(rgba[pixel * 4 + 1] + bias),
+          clampByte(rgba[pixel * 4 + 2] + bias)
+        );
+      }
+    }
+    return indices;
+  }
+
+  // Floyd–Steinberg: l'errore si propaga a destra e sulla riga successiva
+  const values = new Float32Array(width * height * 3);
+  for (let pixel = 0; pixel < indices.length; pixel++) {
+    values[pixel * 3] = rgba[pixel * 4];
+    values[pixel * 3 + 1] = rgba[pixel * 4 + 1];
+    values[pixel * 3 + 2] = rgba[pixel * 4 + 2];
+  }
+
+  const diffuse = (x: number, y: number, errorR: number, errorG: number, errorB: number, weight: number) => {
+    if (x < 0 || x >= width || y >= height) return;
+    const offset = (y * width + x) * 3;
+    values[offset] += errorR * weight;
+    values[offset + 1] += errorG * weight;
+    values[offset + 2] += errorB * weight;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const r = clampByte(values[pixel * 3]);
+      const g = clampByte(values[pixel * 3 + 1]);
+      const b = clampByte(values[pixel * 3 + 2]);
+      const index = lookup(r, g, b);
+      indices[pixel] = index;
+
+      const errorR = r - palette[index * 3];
+      const errorG = g - palette[index * 3 + 1];
+      const errorB = b - palette[index * 3 + 2];
+      diffuse(x + 1, y, errorR, errorG, errorB, 7 / 16);
+      diffuse(x - 1, y + 1, errorR, errorG, errorB, 3 / 16);
+      diffuse(x, y + 1, errorR, errorG, errorB, 5 / 16);
+      diffuse(x + 1, y + 1, errorR, errorG, errorB, 1 / 16);
+    }
+  }
+  return indices;
+};
+
+// Buffer di byte che cresce secondo necessità
+export const createByteWriter = () => {
+  let buffer = new Uint8Array(1 << 16);
+  let length = 0;
+
+  const ensure = (extra: number) => {
+    if (length + extra <= buffer.length) return;
+    let size = buffer.length * 2;
+    while (size < length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(buffer.subarray(0, length));
+    buffer = grown;
+  };
+
+  return {
+    writeByte: (value: number) => {
+      ensure(1);
+      buffer[length++] = value & 0xff;
+    },
+    writeBytes: (bytes: ArrayLike<number>) => {
+      ensure(bytes.length);
+      buffer.set(bytes, length);
+      length += bytes.length;
+    },
+    writeUint16: (value: number) => {
+      ensure(2);
+      buffer[length++] = value & 0xff;
+      buffer[length++] = (value >> 8) & 0xff;
+    },
+    writeString: (text: string) => {
+      ensure(text.length);
+      for (let i = 0; i < text.length; i++) buffer[length++] = text.charCodeAt(i);
+    },
+    get length() {
+      return length;
+    },
+    getBytes: () => buffer.slice(0, length)
+  };
+};
+
+export type ByteWriter = ReturnType<typeof createByteWriter>;
+
+// Dimensione minima dei codici LZW per una palette di paletteSize colori
+export const getMinCodeSize = (paletteSize: number) => {
+  let bits = 2;
+  while ((1 << bits) < paletteSize) bits++;
+  return bits;
+};
+
+// Compressione LZW a lunghezza variabile, scritta in sotto-blocchi da 255 byte
+export const encodeLzw = (indices: Uint8Array, minCodeSize: number, writer: ByteWriter) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    if (block.length === 0) return;
+    writer.writeByte(block.length);
+    writer.writeBytes(block);
+    block.length = 0;
+  };
+
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      bits >>= 8;
+      bitCount -= 8;
+      if (block.length === MAX_SUB_BLOCK) flushBlock();
+    }
+  };
+
+  writer.writeByte(minCodeSize);
+  emit(clearCode);
+
+  if (indices.length > 0) {
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const index = indices[i];
+      const key = (prefix << 8) | index;
+      const code = table.get(key);
+      if (code !== undefined) {
+        prefix = code;
+        continue;
+      }
+
+      emit(prefix);
+      if (nextCode === MAX_LZW_CODES) {
+        // Tabella piena: si ricomincia con un clear code
+        emit(clearCode);
+        table = new Map();
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+      } else {
+        if (nextCode >= (1 << codeSize)) codeSize++;
+        table.set(key, nextCode++);
+      }
+      prefix = index;
+    }
+    emit(prefix);
+  }
+
+  emit(endCode);
+  if (bitCount > 0) {
+    block.push(bits & 0xff);
+    if (block.length === MAX_SUB_BLOCK) flushBlock();
+  }
+  flushBlock();
+  writer.writeByte(0); // Fine dei dati dell'immagine
+};
+
+export interface GifEncoderOptions {
+  width: number;
+  height: number;
+  loop?: number; // 0 = ripetizione infinita
+}
+
+export interface GifFrameOptions {
+  durationMs: number;
+  colors: number;
+  dither: DitherMode;
+}
+
+export const createGifEncoder = ({ width, height, loop = 0 }: GifEncoderOptions) => {
+  const writer = createByteWriter();
+
+  // Durate in centesimi arrotondate sul totale, così la lunghezza della GIF non deriva
+  let elapsedMs = 0;
+
+  writer.writeString('GIF89a');
+  writer.writeUint16(width);
+  writer.writeUint16(height);
+  writer.writeBytes([0x00, 0x00, 0x00]); // Nessuna palette globale, sfondo e aspect ratio di default
+
+  // Estensione NETSCAPE2.0 per il loop
+  writer.writeBytes([0x21, 0xff, 0x0b]);
+  writer.writeString('NETSCAPE2.0');
+  writer.writeBytes([0x03, 0x01]);
+  writer.writeUint16(loop);
+  writer.writeByte(0);
+
+  const addFrame = (rgba: Uint8ClampedArray, { durationMs, colors, dither }: GifFrameOptions) => {
+    const palette = quantize(rgba, colors);
+    const indices = applyPalette(rgba, width, height, palette, dither);
+
+    const delay = Math.round((elapsedMs + durationMs) / 10) - Math.round(elapsedMs / 10);
+    elapsedMs += durationMs;
+
+    // Graphic Control Extension: durata, nessuna trasparenza, il fotogramma resta sotto il successivo
+    writer.writeBytes([0x21, 0xf9, 0x04, 0x04]);
+    writer.writeUint16(delay);
+    writer.writeBytes([0x00, 0x00]);
+
+    // Image Descriptor con palette locale
+    const minCodeSize = getMinCodeSize(palette.length / 3);
+    writer.writeByte(0x2c);
+    writer.writeUint16(0);
+    writer.writeUint16(0);
+    writer.writeUint16(width);
+    writer.writeUint16(height);
+    writer.writeByte(0x80 | (minCodeSize - 1));
+
+    // La palette locale deve avere 2^n colori
+    const table = new Uint8Array(3 * (1 << minCodeSize));
+    table.set(palette);
+    writer.writeBytes(table);
+
+    encodeLzw(indices, minCodeSize, writer);
+  };
+
+  return {
+    addFrame,
+    get byteLength() {
+      return writer.length;
+    },
+    finish: () => {
+      writer.writeByte(0x3b); // Trailer
+      return new Blob([writer.getBytes()], { type: 'image/gif' });
+    }
+  };
+};
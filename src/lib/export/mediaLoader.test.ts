@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import type { MediaFile, TimelineItem } from '@/components/VideoEditor';
+import { getExportMediaItems } from './mediaLoader';
+
+const createItem = (id: string, type: MediaFile['type'], startTime: number, duration: number, track = 0): TimelineItem => ({
+  id,
+  mediaFile: { id: `media-${id}`, name: `${id}.file`, type, url: `blob:${id}`, duration },
+  startTime,
+  duration,
+  track
+});
+
+const getIds = (items: TimelineItem[]) => items.map(item => item.id);
+
+describe('getExportMediaItems', () => {
+  it('keeps only the media inside the range', () => {
+    const items = [
+      createItem('a', 'video', 0, 4),
+      createItem('b', 'video', 4, 4),
+      createItem('music', 'audio', 6, 4, 1),
+      createItem('zoom', 'effect', 0, 8, 2)
+    ];
+
+    expect(getIds(getExportMediaItems(items, { start: 0, end: 4 }))).toEqual(['a']);
+    expect(getIds(getExportMediaItems(items, { start: 5, end: 7 }))).toEqual(['b', 'music']);
+  });
+
+  it('loads the neighbouring clip of a transition on the edge of the range', () => {
+    const incoming = { ...createItem('b', 'video', 4, 4), transition: { type: 'cross-dissolve' as const, duration: 1 } };
+    const items = [createItem('a', 'video', 0, 4), incoming, createItem('c', 'image', 8, 4)];
+
+    // Il taglio a 4s è il bordo: la dissolvenza da 3.5s a 4.5s mostra entrambi i clip
+    expect(getIds(getExportMediaItems(items, { start: 4, end: 8 }))).toEqual(['a', 'b']);
+    expect(getIds(getExportMediaItems(items, { start: 0, end: 4 }))).toEqual(['a', 'b']);
+    // Il taglio a 8s non ha transizione
+    expect(getIds(getExportMediaItems(items, { start: 8, end: 12 }))).toEqual(['c']);
+  });
+});
@@ -0,0 +1,152 @@
+import type { TimelineItem } from "@/components/VideoEditor";
+import type { TimeRange } from "@/lib/timeline";
+import { getTransitions } from "@/lib/render/transitions";
+import type { ExportMedia } from "./offlineExport";
+
+// Elementi media dedicati a un export: ogni job ha i suoi, indipendenti dalla preview
+
+export interface ExportMediaCache extends ExportMedia {
+  audios: Map<string, HTMLAudioElement>;
+}
+
+export interface MediaLoadFailure {
+  item: TimelineItem;
+  reason: string;
+}
+
+export interface LoadExportMediaOptions {
+  items: TimelineItem[];
+  range: TimeRange;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+const VIDEO_LOAD_TIMEOUT_MS = 10000;
+const AUDIO_LOAD_TIMEOUT_MS = 8000;
+const IMAGE_LOAD_TIMEOUT_MS = 5000;
+
+export const createExportMediaCache = (): ExportMediaCache => ({
+  videos: new Map(),
+  audios: new Map(),
+  images: new Map()
+});
+
+// Solo i media che compaiono nell'intervallo esportato. Una transizione a cavallo del bordo
+// mostra anche il clip oltre il taglio, che va caricato pur essendo fuori dall'intervallo
+export const getExportMediaItems = (items: TimelineItem[], range: TimeRange) => {
+  const overlapsRange = (start: number, end: number) => start < range.end && end > range.start;
+  const transitionItemIds = new Set(getTransitions(items)
+    .filter(active => overlapsRange(active.window.start, active.window.end))
+    .flatMap(active => [active.outgoing.id, active.incoming.id]));
+
+  return items.filter(item =>
+    item.mediaFile.type !== 'effect' &&
+    (overlapsRange(item.startTime, item.startTime + item.duration) || transitionItemIds.has(item.id))
+  );
+};
+
+const loadMediaElement = <T extends HTMLMediaElement>(element: T, name: string, kind: string, timeoutMs: number) => {
+  return new Promise<T>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timeout);
+      element.removeEventListener('loadeddata', handleLoad);
+      element.removeEventListener('error', handleError);
+    };
+    const handleLoad = () => {
+      cleanup();
+      resolve(element);
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error(`Failed to load ${kind}: ${name}`));
+    };
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error(`${kind === 'video' ? 'Video' : 'Audio'} load timeout: ${name}`));
+    }, timeoutMs);
+
+    element.addEventListener('loadeddata', handleLoad);
+    element.addEventListener('error', handleError);
+  });
+};
+
+const loadImage = (url: string, name: string) => {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+
+    const timeout = setTimeout(() => {
+      reject(new Error(`Image load timeout: ${name}`));
+    }, IMAGE_LOAD_TIMEOUT_MS);
+
+    img.onload = () => {
+      clearTimeout(timeout);
+      resolve(img);
+    };
+    img.onerror = () => {
+      clearTimeout(timeout);
+      reject(new Error(`Failed to load image: ${name}`));
+    };
+    img.src = url;
+  });
+};
+
+// Carica in parallelo i media dell'intervallo; gli errori vengono raccolti invece di interrompere il caricamento
+export const loadExportMedia = async ({ items, range, onProgress }: LoadExportMediaOptions) => {
+  const media = createExportMediaCache();
+  const failures: MediaLoadFailure[] = [];
+  const mediaItems = getExportMediaItems(items, range);
+  let loaded = 0;
+
+  await Promise.all(mediaItems.map(async item => {
+    const { name, url } = item.mediaFile;
+
+    try {
+      if (item.mediaFile.type === 'video') {
+        const video = document.createElement('video');
+        video.src = url;
+        video.crossOrigin = 'anonymous';
+        video.preload = 'auto';
+        video.playsInline = true;
+        // Volume lasciato a 1: mixer e keyframe li applica il GainNode dell'export in tempo reale
+        await loadMediaElement(video, name, 'video', VIDEO_LOAD_TIMEOUT_MS);
+        media.videos.set(item.id, video);
+      }
+
+      if (item.mediaFile.type === 'audio') {
+        const audio = document.createElement('audio');
+        audio.src = url;
+        audio.crossOrigin = 'anonymous';
+        audio.preload = 'auto';
+        await loadMediaElement(audio, name, 'audio', AUDIO_LOAD_TIMEOUT_MS);
+        media.audios.set(item.id, audio);
+      }
+
+      if (item.mediaFile.type === 'image') {
+        media.images.set(item.id, await loadImage(url, name));
+      }
+    } catch (error) {
+      console.warn(`Failed to load media ${item.id}:`, error);
+      failures.push({ item, reason: error instanceof Error ? error.message : 'Failed to load' });
+    }
+
+    onProgress?.(++loaded, mediaItems.length);
+  }));
+
+  return { media, failures };
+};
+
+export const getFailedMediaNames = (failures: MediaLoadFailure[]) => {
+  return Array.from(new Set(failures.map(failure => failure.item.mediaFile.name)));
+};
+
+// Ferma e scarica gli elementi: i decoder video restano occupati finché hanno una sorgente
+export const releaseExportMedia = (media: ExportMediaCache) => {
+  [...media.videos.values(), ...media.audios.values()].forEach(element => {
+    element.pause();
+    element.removeAttribute('src');
+    element.load();
+  });
+  media.videos.clear();
+  media.audios.clear();
+  media.images.clear();
+};
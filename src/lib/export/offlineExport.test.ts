@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import type { TimelineItem } from "@/components/VideoEditor";
+import { getFrameDuration, getFrameTimestamp, getTotalFrames, isKeyFrame } from "./offlineExport";
+import { MAX_ITEM_GAIN, buildFadeCurve, buildVolumeCurve, getAudibleItems, getItemGain, getItemGainAt } from "./audioMix";
+
+const item = (type: TimelineItem['mediaFile']['type'], overrides: Partial<TimelineItem> = {}, effectType?: string): TimelineItem => ({
+  id: `${type}-${effectType ?? 'item'}`,
+  mediaFile: { id: `${type}-media`, name: type, type, url: 'blob:test', duration: 10, effectType },
+  startTime: 0,
+  duration: 10,
+  track: 0,
+  ...overrides
+});
+
+describe('offline export timing', () => {
+  it('derives exact microsecond timestamps from the frame index', () => {
+    expect(getFrameTimestamp(0, 30)).toBe(0);
+    expect(getFrameTimestamp(1, 30)).toBe(33333);
+    expect(getFrameTimestamp(30, 30)).toBe(1000000);
+    expect(getFrameTimestamp(3000, 24)).toBe(125000000);
+  });
+
+  it('keeps frame durations contiguous without drift', () => {
+    const total = Array.from({ length: 60 }, (_, i) => getFrameDuration(i, 60)).reduce((sum, d) => sum + d, 0);
+    expect(total).toBe(1000000);
+  });
+
+  it('covers the whole duration and places keyframes every two seconds', () => {
+    expect(getTotalFrames(10.01, 30)).toBe(301);
+    expect(isKeyFrame(0, 30)).toBe(true);
+    expect(isKeyFrame(59, 30)).toBe(false);
+    expect(isKeyFrame(60, 30)).toBe(true);
+  });
+});
+
+describe('audio mix', () => {
+  it('mixes only audio and video items using their track volume, boost included', () => {
+    const items = [item('video'), item('audio'), item('image'), item('effect', {}, 'fade-in')];
+    const volumes = new Map([['audio-item', 40], ['video-item', 250]]);
+
+    expect(getAudibleItems(items).map(i => i.id)).toEqual(['video-item', 'audio-item']);
+    expect(getItemGain(items[1], volumes)).toBeCloseTo(0.4);
+    expect(getItemGain(items[0], volumes)).toBe(MAX_ITEM_GAIN);
+    expect(getItemGain(items[2], volumes)).toBe(1);
+  });
+
+  it('keeps the 200% mixer boost', () => {
+    expect(MAX_ITEM_GAIN).toBe(2);
+    expect(getItemGain(item('audio'), new Map([['audio-item', 150]]))).toBe(1.5);
+  });
+
+  it('limits mixer volume times keyframed volume to one maximum', () => {
+    const automated = item('audio', {
+      keyframes: {
+        volume: [
+          { id: 'a', time: 0, value: 200, easing: 'linear' },
+          { id: 'b', time: 10, value: 0, easing: 'linear' }
+        ]
+      }
+    });
+
+    expect(getItemGainAt(automated, new Map([['audio-item', 200]]), 0)).toBe(MAX_ITEM_GAIN);
+    expect(getItemGainAt(automated, new Map([['audio-item', 50]]), 0)).toBe(1);
+    expect(getItemGainAt(automated, new Map([['audio-item', 50]]), 5)).toBeCloseTo(0.5);
+    // Mixer 150% e keyframe 120%: il prodotto amplifica
+    expect(getItemGainAt(automated, new Map([['audio-item', 150]]), 4)).toBeCloseTo(1.8);
+    expect(getItemGainAt(automated, new Map(), 0)).toBe(2);
+
+    const curve = buildVolumeCurve(automated, new Map([['audio-item', 200]]), 0, 10, 1);
+    expect(Math.max(...curve)).toBe(MAX_ITEM_GAIN);
+    expect(curve[10]).toBe(0);
+  });
+
+  it('follows the fade effects like the preview', () => {
+    const curve = buildFadeCurve([item('effect', { duration: 2 }, 'fade-in')], 0, 4, 10);
+
+    expect(curve.length).toBe(41);
+    expect(curve[0]).toBe(0);
+    expect(curve[10]).toBeCloseTo(0.5);
+    expect(curve[30]).toBe(1);
+  });
+});
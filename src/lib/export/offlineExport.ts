@@ -0,0 +1,225 @@
+import type { TimelineItem } from "@/components/VideoEditor";
+import type { TimeRange } from "@/lib/timeline";
+import { FrameContext, getActiveMediaItems, getMediaTime, renderFrame } from "@/lib/render/compositor";
+import { EXPORT_CHANNELS, EXPORT_SAMPLE_RATE, renderAudioMix } from "./audioMix";
+import { EncodingSettings, ExportFormat, createMuxer, getAudioEncoderConfig, getVideoEncoderConfig } from "./formats";
+
+// Export offline con WebCodecs: ogni fotogramma viene decodificato, disegnato e codificato
+// con un timestamp esatto, indipendentemente dalla velocità della macchina
+
+// Un fotogramma chiave ogni N secondi per permettere il seek nel file esportato
+export const KEYFRAME_INTERVAL_SECONDS = 2;
+
+// Fotogrammi in coda all'encoder oltre i quali aspettiamo che si svuoti
+const MAX_ENCODE_QUEUE = 8;
+
+const SEEK_TIMEOUT_MS = 5000;
+
+export interface ExportMedia {
+  videos: Map<string, HTMLVideoElement>;
+  images: Map<string, HTMLImageElement>;
+}
+
+export interface OfflineExportProgress {
+  framesRendered: number;
+  framesTotal: number;
+}
+
+export interface OfflineExportOptions {
+  canvas: HTMLCanvasElement;
+  items: TimelineItem[];
+  media: ExportMedia;
+  trackVolumes: Map<string, number>;
+  range: TimeRange; // Il file esportato parte da 0 all'inizio dell'intervallo
+  format: ExportFormat;
+  settings: EncodingSettings; // Il canvas deve avere le dimensioni indicate qui
+  signal?: AbortSignal;
+  onProgress?: (progress: OfflineExportProgress) => void;
+  onEncoding?: () => void;
+}
+
+export const getTotalFrames = (duration: number, fps: number) => Math.ceil(duration * fps);
+
+// Timestamp e durata in microsecondi, calcolati dall'indice per non accumulare errori
+export const getFrameTimestamp = (frameIndex: number, fps: number) => Math.round((frameIndex * 1e6) / fps);
+
+export const getFrameDuration = (frameIndex: number, fps: number) =>
+  getFrameTimestamp(frameIndex + 1, fps) - getFrameTimestamp(frameIndex, fps);
+
+export const isKeyFrame = (frameIndex: number, fps: number) =>
+  frameIndex % Math.max(1, Math.round(fps * KEYFRAME_INTERVAL_SECONDS)) === 0;
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+};
+
+// Porta il video esattamente al tempo richiesto e aspetta che il fotogramma sia decodificato
+export const seekVideo = (video: HTMLVideoElement, time: number) => {
+  const target = Number.isFinite(video.duration) ? Math.min(time, Math.max(0, video.duration - 0.001)) : time;
+
+  if (Math.abs(video.currentTime - target) < 1e-4 && video.readyState >= 2 && !video.seeking) {
+    return Promise.resolve();
+  }
+
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timeout);
+      video.removeEventListener('seeked', done);
+      resolve();
+    };
+    const timeout = setTimeout(() => {
+      console.warn(`Seek timeout at ${target.toFixed(3)}s`);
+      done();
+    }, SEEK_TIMEOUT_MS);
+
+    video.addEventListener('seeked', done);
+    video.currentTime = target;
+  });
+};
+
+// Seek di tutti i video attivi prima di disegnare: nessuna corsa con il render
+export const drawFrameAt = async (ctx: FrameContext, items: TimelineItem[], media: ExportMedia, time: number) => {
+  await Promise.all(
+    getActiveMediaItems(items, time)
+      .filter(item => item.mediaFile.type === 'video' && media.videos.has(item.id))
+      .map(item => seekVideo(media.videos.get(item.id), getMediaTime(item, time)))
+  );
+
+  return renderFrame(ctx, {
+    time,
+    items,
+    resolveMedia: (item) => {
+      if (item.mediaFile.type === 'video') {
+        const video = media.videos.get(item.id);
+        return video && video.readyState >= 2 ? video : null;
+      }
+      if (item.mediaFile.type === 'image') {
+        const img = media.images.get(item.id);
+        return img && img.complete ? img : null;
+      }
+      return null;
+    }
+  });
+};
+
+export const waitForQueue = async (encoder: VideoEncoder | AudioEncoder) => {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await new Promise(resolve => setTimeout(resolve, 1));
+  }
+};
+
+// Codifica l'audio mixato a blocchi, fino al campione indicato
+export const createAudioFeeder = (encoder: AudioEncoder, buffer: AudioBuffer) => {
+  const channels = Array.from({ length: EXPORT_CHANNELS }, (_, channel) =>
+    buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1))
+  );
+  let position = 0;
+
+  return (untilSample: number) => {
+    const end = Math.min(untilSample, buffer.length);
+    while (position < end) {
+      const frames = Math.min(buffer.sampleRate, end - position);
+      const data = new Float32Array(frames * EXPORT_CHANNELS);
+      channels.forEach((channel, index) => {
+        data.set(channel.subarray(position, position + frames), index * frames);
+      });
+
+      const audioData = new AudioData({
+        format: 'f32-planar',
+        sampleRate: buffer.sampleRate,
+        numberOfFrames: frames,
+        numberOfChannels: EXPORT_CHANNELS,
+        timestamp: Math.round((position * 1e6) / buffer.sampleRate),
+        data
+      });
+      encoder.encode(audioData);
+      audioData.close();
+      position += frames;
+    }
+  };
+};
+
+export const exportTimelineOffline = async ({
+  canvas,
+  items,
+  media,
+  trackVolumes,
+  range,
+  format,
+  settings,
+  signal,
+  onProgress,
+  onEncoding
+}: OfflineExportOptions): Promise<Blob> => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+
+  const { fps } = settings;
+  const duration = range.end - range.start;
+  const framesTotal = getTotalFrames(duration, fps);
+
+  const audioBuffer = await renderAudioMix({ items, trackVolumes, startTime: range.start, duration, signal });
+  throwIfAborted(signal);
+
+  const muxer = createMuxer(format, settings, !!audioBuffer);
+
+  let encoderError: Error | null = null;
+  const onError = (error: DOMException) => {
+    encoderError = encoderError ?? new Error(`Encoder error: ${error.message}`);
+  };
+
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: onError
+  });
+  videoEncoder.configure(getVideoEncoderConfig(format, settings));
+
+  let audioEncoder: AudioEncoder | null = null;
+  let feedAudio: ((untilSample: number) => void) | null = null;
+  if (audioBuffer) {
+    audioEncoder = new AudioEncoder({
+      output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      error: onError
+    });
+    audioEncoder.configure(getAudioEncoderConfig(format, settings));
+    feedAudio = createAudioFeeder(audioEncoder, audioBuffer);
+  }
+
+  try {
+    for (let frameIndex = 0; frameIndex < framesTotal; frameIndex++) {
+      throwIfAborted(signal);
+      if (encoderError) throw encoderError;
+
+      const time = range.start + frameIndex / fps;
+
+      await drawFrameAt(ctx, items, media, time);
+      throwIfAborted(signal);
+
+      const frame = new VideoFrame(canvas, {
+        timestamp: getFrameTimestamp(frameIndex, fps),
+        duration: getFrameDuration(frameIndex, fps)
+      });
+      videoEncoder.encode(frame, { keyFrame: isKeyFrame(frameIndex, fps) });
+      frame.close();
+
+      // Audio intercalato al video così il muxer non deve trattenere tutto in memoria
+      feedAudio?.(Math.ceil(((frameIndex + 1) * EXPORT_SAMPLE_RATE) / fps));
+
+      await waitForQueue(videoEncoder);
+      if (audioEncoder) await waitForQueue(audioEncoder);
+
+      onProgress?.({ framesRendered: frameIndex + 1, framesTotal });
+    }
+
+    onEncoding?.();
+    feedAudio?.(Number.POSITIVE_INFINITY);
+    await videoEncoder.flush();
+    if (audioEncoder) await audioEncoder.flush();
+    if (encoderError) throw encoderError;
+
+    return muxer.finalize();
+  } finally {
+    if (videoEncoder.state !== 'closed') videoEncoder.close();
+    if (audioEncoder && audioEncoder.state !== 'closed') audioEncoder.close();
+  }
+};
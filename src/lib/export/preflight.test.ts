@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import type { MediaFile, TimelineItem } from "@/components/VideoEditor";
+import {
+  checkMediaSources,
+  checkTimeline,
+  findClippingItems,
+  findMissingLutItems,
+  findCoverageGaps,
+  findOrphanEffects,
+  findTrackOverlaps,
+  getFormatIssues,
+  getSequenceIssues,
+  hasBlockingIssues
+} from "./preflight";
+import { MAX_SEQUENCE_FRAMES, MAX_SEQUENCE_SIZE_MB } from "./stills";
+import { createLutAsset, setLutLibrary } from "@/lib/render/lut";
+
+const createItem = (
+  id: string,
+  type: MediaFile['type'],
+  startTime: number,
+  duration: number,
+  track = 0
+): TimelineItem => ({
+  id,
+  mediaFile: { id: `media-${id}`, name: `${id}.file`, type, url: `blob:${id}`, duration },
+  startTime,
+  duration,
+  track
+});
+
+describe("findCoverageGaps", () => {
+  it("finds uncovered spans between and after visuals", () => {
+    const items = [createItem('a', 'video', 0, 2), createItem('b', 'image', 3, 2, 1)];
+    expect(findCoverageGaps(items, { start: 0, end: 6 })).toEqual([
+      { start: 2, end: 3 },
+      { start: 5, end: 6 }
+    ]);
+  });
+
+  it("ignores audio and gaps shorter than the minimum", () => {
+    const items = [createItem('a', 'video', 0, 2), createItem('music', 'audio', 0, 5, 1), createItem('b', 'video', 2.01, 2)];
+    expect(findCoverageGaps(items, { start: 0, end: 4.01 }, 1 / 30)).toEqual([]);
+  });
+
+  it("clips the check to the export range", () => {
+    const items = [createItem('a', 'video', 0, 10)];
+    expect(findCoverageGaps(items, { start: 2, end: 4 })).toEqual([]);
+  });
+});
+
+describe("findTrackOverlaps", () => {
+  it("reports clips overlapping on the same track only", () => {
+    const items = [
+      createItem('a', 'video', 0, 3),
+      createItem('b', 'video', 2, 3),
+      createItem('c', 'video', 2, 3, 1)
+    ];
+    expect(findTrackOverlaps(items, { start: 0, end: 10 })).toEqual([
+      { track: 0, itemIds: ['a', 'b'], range: { start: 2, end: 3 } }
+    ]);
+  });
+
+  it("treats touching clips as adjacent", () => {
+    const items = [createItem('a', 'video', 0, 2), createItem('b', 'video', 2, 2)];
+    expect(findTrackOverlaps(items, { start: 0, end: 4 })).toEqual([]);
+  });
+});
+
+describe("findOrphanEffects", () => {
+  it("flags effects with no clip underneath", () => {
+    const items = [
+      createItem('a', 'video', 0, 2),
+      createItem('fade', 'effect', 1, 1, 1),
+      createItem('blur', 'effect', 5, 1, 1)
+    ];
+    expect(findOrphanEffects(items, { start: 0, end: 6 }).map(item => item.id)).toEqual(['blur']);
+  });
+});
+
+describe("findMissingLutItems", () => {
+  it("flags clips graded with a LUT that is not in the library", () => {
+    const asset = createLutAsset('identity.cube', 'LUT_1D_SIZE 2\n0 0 0\n1 1 1');
+    setLutLibrary([asset]);
+    const graded = (id: string, lutId: string) => ({ ...createItem(id, 'video', 0, 2), effects: [{ id: `lut-${id}`, type: 'lut', lutId }] });
+    const items = [graded('a', asset.id), graded('b', 'deleted-lut'), createItem('c', 'video', 2, 2)];
+
+    expect(findMissingLutItems(items, { start: 0, end: 4 }).map(item => item.id)).toEqual(['b']);
+    const issues = checkTimeline({ items, range: { start: 0, end: 4 }, trackVolumes: new Map(), fps: 30, checkVisuals: true, checkAudio: false });
+    expect(issues.map(issue => issue.check)).toContain('lut');
+    expect(hasBlockingIssues(issues)).toBe(true);
+    setLutLibrary([]);
+  });
+});
+
+describe("findClippingItems", () => {
+  it("flags audible items above 100%", () => {
+    const items = [createItem('a', 'video', 0, 2), createItem('b', 'audio', 0, 2, 1), createItem('c', 'image', 0, 2, 2)];
+    const volumes = new Map([['a', 150], ['b', 100], ['c', 180]]);
+    expect(findClippingItems(items, { start: 0, end: 2 }, volumes).map(({ item }) => item.id)).toEqual(['a']);
+  });
+
+  it("combines the mixer with keyframed volume inside the range", () => {
+    const boosted = {
+      ...createItem('a', 'audio', 0, 10, 1),
+      keyframes: {
+        volume: [
+          { id: 'k1', time: 0, value: 80, easing: 'linear' as const },
+          { id: 'k2', time: 10, value: 160, easing: 'linear' as const }
+        ]
+      }
+    };
+    const volumes = new Map([['a', 100]]);
+
+    expect(findClippingItems([boosted], { start: 0, end: 2 }, volumes)).toEqual([]);
+    const [clipping] = findClippingItems([boosted], { start: 0, end: 10 }, volumes);
+    expect(clipping.peakGain).toBeCloseTo(1.6);
+    // Mixer al 110% con il keyframe sotto il 90%: il mix resta sotto l'unità
+    expect(findClippingItems([boosted], { start: 0, end: 1 }, new Map([['a', 110]]))).toEqual([]);
+  });
+});
+
+describe("checkTimeline", () => {
+  it("skips visual checks for audio-only exports", () => {
+    const items = [createItem('music', 'audio', 0, 4, 1)];
+    const options = { items, range: { start: 0, end: 4 }, trackVolumes: new Map(), fps: 30, checkAudio: true };
+
+    expect(checkTimeline({ ...options, checkVisuals: true }).map(issue => issue.check)).toEqual(['gap']);
+    expect(checkTimeline({ ...options, checkVisuals: false })).toEqual([]);
+  });
+
+  it("reports warnings that do not block the export", () => {
+    const items = [createItem('a', 'video', 0, 3), createItem('b', 'video', 2, 3)];
+    const issues = checkTimeline({
+      items,
+      range: { start: 0, end: 5 },
+      trackVolumes: new Map(),
+      fps: 30,
+      checkVisuals: true,
+      checkAudio: true
+    });
+    expect(issues.map(issue => issue.check)).toEqual(['overlap']);
+    expect(hasBlockingIssues(issues)).toBe(false);
+  });
+});
+
+describe("getFormatIssues", () => {
+  it("blocks only formats known to be unsupported", () => {
+    expect(getFormatIssues('MP4', true)).toEqual([]);
+    expect(getFormatIssues('MP4', undefined)).toEqual([]);
+    expect(hasBlockingIssues(getFormatIssues('MP4', false))).toBe(true);
+  });
+});
+
+describe("getSequenceIssues", () => {
+  it("blocks image sequences over the image or size limit", () => {
+    expect(getSequenceIssues(MAX_SEQUENCE_FRAMES, MAX_SEQUENCE_SIZE_MB)).toEqual([]);
+    expect(hasBlockingIssues(getSequenceIssues(MAX_SEQUENCE_FRAMES + 1, 10))).toBe(true);
+    expect(hasBlockingIssues(getSequenceIssues(10, MAX_SEQUENCE_SIZE_MB + 1))).toBe(true);
+  });
+});
+
+describe("checkMediaSources", () => {
+  it("probes each source once and reports the clips using it", async () => {
+    const shared = createItem('a', 'video', 0, 2);
+    const copy = { ...shared, id: 'a2', startTime: 2 };
+    const probed: string[] = [];
+
+    const issues = await checkMediaSources(
+      [shared, copy, createItem('fade', 'effect', 0, 1, 1)],
+      { start: 0, end: 4 },
+      async url => {
+        probed.push(url);
+        return { ok: false, duration: 0, error: 'Source unavailable or unsupported' };
+      }
+    );
+
+    expect(probed).toEqual(['blob:a']);
+    expect(issues).toHaveLength(1);
+    expect(issues[0].itemIds).toEqual(['a', 'a2']);
+    expect(issues[0].mediaFileId).toBe('media-a');
+    expect(issues[0].message).toContain('used by 2 clips');
+  });
+});
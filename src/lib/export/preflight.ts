@@ -0,0 +1,270 @@
+import type { MediaFile, TimelineItem } from "@/components/VideoEditor";
+import { LoadableMediaType, MediaProbeResult, probeMediaUrl } from "@/lib/media";
+import { getLut } from "@/lib/render/lut";
+import { TimeRange, getItemEndTime } from "@/lib/timeline";
+import { hasKeyframes } from "@/lib/keyframes";
+import { buildVolumeCurve, getItemGainAt } from "./audioMix";
+import { getExportMediaItems } from "./mediaLoader";
+import { formatRangeTime } from "./range";
+import { MAX_SEQUENCE_FRAMES, MAX_SEQUENCE_SIZE_MB, getSequenceLimitMessage } from "./stills";
+
+// Controlli sulla timeline prima di accodare un export: meglio scoprire i problemi
+// qui che dopo minuti di rendering
+
+export type PreflightCheck = 'media' | 'lut' | 'gap' | 'overlap' | 'orphan-effect' | 'clipping' | 'format' | 'size';
+
+// Gli errori impediscono l'export, gli avvisi no
+export type PreflightSeverity = 'error' | 'warning';
+
+export interface PreflightIssue {
+  check: PreflightCheck;
+  severity: PreflightSeverity;
+  message: string;
+  itemIds: string[];
+  mediaFileId?: string; // Solo per i media non caricabili
+  reason?: string;
+}
+
+export const PREFLIGHT_CHECK_LABELS: Record<PreflightCheck, string> = {
+  media: 'Media unavailable',
+  lut: 'LUT missing',
+  gap: 'Black frames',
+  overlap: 'Overlapping clips',
+  'orphan-effect': 'Effect over nothing',
+  clipping: 'Audio clipping',
+  format: 'Unsupported format',
+  size: 'Export too large'
+};
+
+export interface TimelineCheckOptions {
+  items: TimelineItem[];
+  range: TimeRange;
+  trackVolumes: Map<string, number>;
+  fps: number;
+  checkVisuals: boolean; // Falso per l'export solo audio
+  checkAudio: boolean; // Falso per sequenze di immagini e GIF/WebP
+}
+
+// Sotto questa soglia due intervalli si considerano contigui
+const TIME_EPSILON = 0.001;
+
+const isVisual = (item: TimelineItem) => item.mediaFile.type === 'video' || item.mediaFile.type === 'image';
+
+const hasAudio = (item: TimelineItem) => item.mediaFile.type === 'video' || item.mediaFile.type === 'audio';
+
+const intersects = (item: TimelineItem, range: TimeRange) => {
+  return item.startTime < range.end - TIME_EPSILON && getItemEndTime(item) > range.start + TIME_EPSILON;
+};
+
+const formatSpan = (range: TimeRange) => `${formatRangeTime(range.start)} – ${formatRangeTime(range.end)}`;
+
+// Tratti dell'intervallo non coperti da nessun video o immagine
+export const findCoverageGaps = (items: TimelineItem[], range: TimeRange, minDuration = 0): TimeRange[] => {
+  const spans = items
+    .filter(item => isVisual(item) && intersects(item, range))
+    .map(item => ({ start: Math.max(item.startTime, range.start), end: Math.min(getItemEndTime(item), range.end) }))
+    .sort((a, b) => a.start - b.start);
+
+  const gaps: TimeRange[] = [];
+  let cursor = range.start;
+  spans.forEach(span => {
+    if (span.start - cursor > TIME_EPSILON) gaps.push({ start: cursor, end: span.start });
+    cursor = Math.max(cursor, span.end);
+  });
+  if (range.end - cursor > TIME_EPSILON) gaps.push({ start: cursor, end: range.end });
+
+  return gaps.filter(gap => gap.end - gap.start >= minDuration);
+};
+
+export interface TrackOverlap {
+  track: number;
+  itemIds: [string, string];
+  range: TimeRange;
+}
+
+// Coppie di elementi sulla stessa traccia che si sovrappongono dentro l'intervallo
+export const findTrackOverlaps = (items: TimelineItem[], range: TimeRange): TrackOverlap[] => {
+  const overlaps: TrackOverlap[] = [];
+  const byTrack = new Map<number, TimelineItem[]>();
+  items.filter(item => intersects(item, range)).forEach(item => {
+    byTrack.set(item.track, [...(byTrack.get(item.track) ?? []), item]);
+  });
+
+  byTrack.forEach((trackItems, track) => {
+    const sorted = [...trackItems].sort((a, b) => a.startTime - b.startTime);
+    sorted.forEach((item, index) => {
+      sorted.slice(index + 1).forEach(other => {
+        const start = Math.max(other.startTime, range.start);
+        const end = Math.min(getItemEndTime(item), getItemEndTime(other), range.end);
+        if (end - start > TIME_EPSILON) {
+          overlaps.push({ track, itemIds: [item.id, other.id], range: { start, end } });
+        }
+      });
+    });
+  });
+
+  return overlaps;
+};
+
+// Effetti che nell'intervallo non cadono sopra nessun video o immagine
+export const findOrphanEffects = (items: TimelineItem[], range: TimeRange) => {
+  const visuals = items.filter(isVisual);
+  return items.filter(item =>
+    item.mediaFile.type === 'effect' &&
+    intersects(item, range) &&
+    !visuals.some(visual => intersects(visual, { start: item.startTime, end: getItemEndTime(item) }))
+  );
+};
+
+// Clip con un effetto LUT la cui LUT non è nella libreria (o non si legge): il renderer la salterebbe
+export const findMissingLutItems = (items: TimelineItem[], range: TimeRange) => {
+  return items.filter(item =>
+    intersects(item, range) &&
+    item.effects?.some(effect => effect.lutId !== undefined && !getLut(effect.lutId))
+  );
+};
+
+// Guadagno più alto dell'elemento nell'intervallo, mixer e volume a keyframe compresi come nel mix
+export const getPeakItemGain = (item: TimelineItem, range: TimeRange, trackVolumes: Map<string, number>) => {
+  if (!hasKeyframes(item, 'volume')) return getItemGainAt(item, trackVolumes, item.startTime);
+
+  const start = Math.max(item.startTime, range.start);
+  const end = Math.min(getItemEndTime(item), range.end);
+  return buildVolumeCurve(item, trackVolumes, start, end - start).reduce((peak, gain) => Math.max(peak, gain), 0);
+};
+
+// Elementi amplificati oltre il 100% in qualche punto dell'intervallo: il mix rischia di saturare
+export const findClippingItems = (items: TimelineItem[], range: TimeRange, trackVolumes: Map<string, number>) => {
+  return items
+    .filter(item => hasAudio(item) && intersects(item, range))
+    .map(item => ({ item, peakGain: getPeakItemGain(item, range, trackVolumes) }))
+    .filter(({ peakGain }) => peakGain > 1);
+};
+
+// Controlli sincroni sulla struttura della timeline
+export const checkTimeline = ({
+  items,
+  range,
+  trackVolumes,
+  fps,
+  checkVisuals,
+  checkAudio
+}: TimelineCheckOptions): PreflightIssue[] => {
+  const issues: PreflightIssue[] = [];
+
+  if (checkVisuals) {
+    // Un buco più corto di un fotogramma potrebbe non finire in nessun frame
+    findCoverageGaps(items, range, 1 / fps).forEach(gap => {
+      issues.push({
+        check: 'gap',
+        severity: 'warning',
+        message: `${formatSpan(gap)} has no video or image (${(gap.end - gap.start).toFixed(1)}s of black)`,
+        itemIds: []
+      });
+    });
+
+    findOrphanEffects(items, range).forEach(effect => {
+      issues.push({
+        check: 'orphan-effect',
+        severity: 'warning',
+        message: `"${effect.mediaFile.name}" at ${formatRangeTime(effect.startTime)} is not over any clip`,
+        itemIds: [effect.id]
+      });
+    });
+
+    findMissingLutItems(items, range).forEach(item => {
+      issues.push({
+        check: 'lut',
+        severity: 'error',
+        message: `"${item.mediaFile.name}" at ${formatRangeTime(item.startTime)} uses a LUT that is no longer in the library`,
+        itemIds: [item.id]
+      });
+    });
+  }
+
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  findTrackOverlaps(items, range).forEach(overlap => {
+    const [first, second] = overlap.itemIds.map(id => itemsById.get(id)?.mediaFile.name);
+    issues.push({
+      check: 'overlap',
+      severity: 'warning',
+      message: `"${first}" and "${second}" overlap on track ${overlap.track + 1} at ${formatSpan(overlap.range)}`,
+      itemIds: overlap.itemIds
+    });
+  });
+
+  if (checkAudio) {
+    findClippingItems(items, range, trackVolumes).forEach(({ item, peakGain }) => {
+      issues.push({
+        check: 'clipping',
+        severity: 'warning',
+        message: `"${item.mediaFile.name}" reaches ${Math.round(peakGain * 100)}% volume and may clip`,
+        itemIds: [item.id]
+      });
+    });
+  }
+
+  return issues;
+};
+
+// Combinazione contenitore/codec che il browser non sa codificare (undefined = verifica in corso)
+export const getFormatIssues = (formatName: string, supported: boolean | undefined): PreflightIssue[] => {
+  if (supported !== false) return [];
+  return [{
+    check: 'format',
+    severity: 'error',
+    message: `${formatName} cannot be encoded by this browser`,
+    itemIds: []
+  }];
+};
+
+// La sequenza di immagini si impacchetta in memoria: oltre i limiti l'export non parte
+export const getSequenceIssues = (imageCount: number, sizeMB: number): PreflightIssue[] => {
+  if (imageCount <= MAX_SEQUENCE_FRAMES && sizeMB <= MAX_SEQUENCE_SIZE_MB) return [];
+  return [{
+    check: 'size',
+    severity: 'error',
+    message: getSequenceLimitMessage(),
+    itemIds: []
+  }];
+};
+
+export type MediaProbe = (url: string, type: LoadableMediaType) => Promise<MediaProbeResult>;
+
+// Ogni sorgente usata nell'intervallo viene aperta una sola volta, anche se compare in più clip
+export const checkMediaSources = async (
+  items: TimelineItem[],
+  range: TimeRange,
+  probe: MediaProbe = probeMediaUrl
+): Promise<PreflightIssue[]> => {
+  const usages = new Map<string, { mediaFile: MediaFile; itemIds: string[] }>();
+  getExportMediaItems(items, range).forEach(item => {
+    const usage = usages.get(item.mediaFile.id) ?? { mediaFile: item.mediaFile, itemIds: [] };
+    usage.itemIds.push(item.id);
+    usages.set(item.mediaFile.id, usage);
+  });
+
+  const results = await Promise.all(
+    Array.from(usages.values()).map(async usage => ({
+      usage,
+      result: await probe(usage.mediaFile.url, usage.mediaFile.type as LoadableMediaType)
+    }))
+  );
+
+  return results
+    .filter(({ result }) => !result.ok)
+    .map(({ usage, result }) => {
+      const reason = result.error ?? 'Failed to load';
+      const clips = usage.itemIds.length;
+      return {
+        check: 'media' as const,
+        severity: 'error' as const,
+        message: `"${usage.mediaFile.name}": ${reason} (used by ${clips} clip${clips !== 1 ? 's' : ''})`,
+        itemIds: usage.itemIds,
+        mediaFileId: usage.mediaFile.id,
+        reason
+      };
+    });
+};
+
+export const hasBlockingIssues = (issues: PreflightIssue[]) => issues.some(issue => issue.severity === 'error');
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { BUILT_IN_PRESETS, DEFAULT_PRESET, ExportSettings, calculateVideoBitrate, estimateFileSizeMB, getOutputSize } from "./presets";
+
+const settings = (overrides: Partial<ExportSettings> = {}): ExportSettings => ({ ...DEFAULT_PRESET.settings, ...overrides });
+
+describe('export presets', () => {
+  it('sizes standard resolutions by their short side for every aspect ratio', () => {
+    expect(getOutputSize(settings({ resolution: '1080p' }), '16:9')).toEqual({ width: 1920, height: 1080 });
+    expect(getOutputSize(settings({ resolution: '1080p' }), '9:16')).toEqual({ width: 1080, height: 1920 });
+    expect(getOutputSize(settings({ resolution: '1080p' }), '4:3')).toEqual({ width: 1440, height: 1080 });
+    expect(getOutputSize(settings({ resolution: '2160p' }), '16:9')).toEqual({ width: 3840, height: 2160 });
+    expect(getOutputSize(settings({ resolution: 'square' }), '16:9')).toEqual({ width: 1080, height: 1080 });
+  });
+
+  it('keeps the old standard and high sizes', () => {
+    const high = BUILT_IN_PRESETS.find(preset => preset.id === 'high');
+
+    expect(getOutputSize(DEFAULT_PRESET.settings, '16:9')).toEqual({ width: 1280, height: 720 });
+    expect(getOutputSize(high.settings, '16:9')).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it('clamps custom sizes and rounds them to even numbers', () => {
+    expect(getOutputSize(settings({ resolution: 'custom', customWidth: 1081, customHeight: 9999 }), '16:9'))
+      .toEqual({ width: 1082, height: 4096 });
+    expect(getOutputSize(settings({ resolution: 'custom', customWidth: 0, customHeight: 3 }), '16:9'))
+      .toEqual({ width: 16, height: 16 });
+  });
+
+  it('derives the video bitrate from a target file size', () => {
+    const target = settings({ bitrateMode: 'target-size', targetSizeMB: 50, audioBitrate: 128000 });
+    const videoBitrate = calculateVideoBitrate(target, 60);
+
+    expect(estimateFileSizeMB(videoBitrate, 128000, 60)).toBeCloseTo(50, 1);
+    expect(calculateVideoBitrate(settings({ bitrateMode: 'target-size', targetSizeMB: 1 }), 3600)).toBe(100000);
+    expect(calculateVideoBitrate(settings({ videoBitrate: 8000000 }), 60)).toBe(8000000);
+  });
+});
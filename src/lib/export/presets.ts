@@ -0,0 +1,163 @@
+import type { AspectRatio } from "@/lib/project";
+import { FrameSize, getFrameSize } from "@/lib/render/compositor";
+import { DEFAULT_EXPORT_FORMAT, ExportFormatId } from "./formats";
+
+// Impostazioni di export (risoluzione, bitrate) e preset salvati dall'utente
+
+export type ResolutionId = '720p' | '1080p' | '1440p' | '2160p' | 'square' | 'custom';
+
+export type BitrateMode = 'manual' | 'target-size';
+
+export interface ExportSettings {
+  formatId: ExportFormatId;
+  resolution: ResolutionId;
+  customWidth: number;
+  customHeight: number;
+  bitrateMode: BitrateMode;
+  videoBitrate: number; // bit/s, usato in modalità manuale
+  targetSizeMB: number; // Dimensione del file desiderata in modalità target-size
+  audioBitrate: number;
+}
+
+export interface ExportPreset {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  settings: ExportSettings;
+}
+
+export const RESOLUTIONS: Record<ResolutionId, { label: string; shortSide?: number }> = {
+  '720p': { label: '720p', shortSide: 720 },
+  '1080p': { label: '1080p', shortSide: 1080 },
+  '1440p': { label: '1440p', shortSide: 1440 },
+  '2160p': { label: '4K (2160p)', shortSide: 2160 },
+  'square': { label: 'Square (1080×1080)', shortSide: 1080 },
+  'custom': { label: 'Custom' }
+};
+
+// Limiti delle dimensioni personalizzate (H.264 level 5.1 arriva a 4096 di lato)
+export const MIN_OUTPUT_SIZE = 16;
+export const MAX_OUTPUT_SIZE = 4096;
+
+export const MIN_VIDEO_BITRATE = 100000;
+
+// Quota del file occupata da header e indici del contenitore
+const CONTAINER_OVERHEAD = 0.02;
+
+const PRESETS_STORAGE_KEY = 'lumo-export-presets';
+
+const DEFAULT_SETTINGS: ExportSettings = {
+  formatId: DEFAULT_EXPORT_FORMAT,
+  resolution: '720p',
+  customWidth: 1280,
+  customHeight: 720,
+  bitrateMode: 'manual',
+  videoBitrate: 5000000,
+  targetSizeMB: 50,
+  audioBitrate: 128000
+};
+
+const builtIn = (id: string, name: string, settings: Partial<ExportSettings>): ExportPreset => ({
+  id,
+  name,
+  builtIn: true,
+  settings: { ...DEFAULT_SETTINGS, ...settings }
+});
+
+export const BUILT_IN_PRESETS: ExportPreset[] = [
+  builtIn('standard', 'Standard', {}),
+  builtIn('high', 'High', { resolution: '1080p', videoBitrate: 10000000, audioBitrate: 192000 }),
+  builtIn('youtube-1080p', 'YouTube 1080p', { resolution: '1080p', videoBitrate: 12000000, audioBitrate: 192000 }),
+  builtIn('instagram-reel', 'Instagram Reel', {
+    resolution: 'custom',
+    customWidth: 1080,
+    customHeight: 1920,
+    videoBitrate: 8000000
+  }),
+  builtIn('twitter', 'Twitter', { resolution: '720p', videoBitrate: 5000000 })
+];
+
+export const DEFAULT_PRESET = BUILT_IN_PRESETS[0];
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Gli encoder 4:2:0 richiedono dimensioni pari
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+export const getOutputSize = (settings: ExportSettings, aspectRatio: AspectRatio): FrameSize => {
+  if (settings.resolution === 'custom') {
+    return {
+      width: toEven(clamp(settings.customWidth || 0, MIN_OUTPUT_SIZE, MAX_OUTPUT_SIZE)),
+      height: toEven(clamp(settings.customHeight || 0, MIN_OUTPUT_SIZE, MAX_OUTPUT_SIZE))
+    };
+  }
+
+  const shortSide = RESOLUTIONS[settings.resolution].shortSide;
+  if (settings.resolution === 'square') {
+    return { width: shortSide, height: shortSide };
+  }
+
+  // getFrameSize vuole il lato lungo
+  const longRatio = aspectRatio === '4:3' ? 4 / 3 : 16 / 9;
+  const size = getFrameSize(aspectRatio, Math.round(shortSide * longRatio));
+  return { width: toEven(size.width), height: toEven(size.height) };
+};
+
+// Bitrate video effettivo: manuale, oppure ricavato dalla dimensione desiderata meno l'audio
+export const calculateVideoBitrate = (settings: ExportSettings, duration: number) => {
+  if (settings.bitrateMode === 'manual' || duration <= 0) {
+    return Math.max(MIN_VIDEO_BITRATE, settings.videoBitrate);
+  }
+
+  const totalBits = settings.targetSizeMB * 8 * 1000 * 1000 * (1 - CONTAINER_OVERHEAD);
+  return Math.max(MIN_VIDEO_BITRATE, Math.floor(totalBits / duration - settings.audioBitrate));
+};
+
+export const estimateFileSizeMB = (videoBitrate: number, audioBitrate: number, duration: number) => {
+  return ((videoBitrate + audioBitrate) * duration) / 8 / 1000 / 1000 / (1 - CONTAINER_OVERHEAD);
+};
+
+const isValidPreset = (preset: unknown): preset is ExportPreset => {
+  const candidate = preset as ExportPreset;
+  return !!candidate &&
+    typeof candidate.id === 'string' &&
+    typeof candidate.name === 'string' &&
+    typeof candidate.settings === 'object' &&
+    candidate.settings !== null;
+};
+
+export const loadCustomPresets = (): ExportPreset[] => {
+  try {
+    const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    // I campi aggiunti in futuro prendono i valori di default
+    return parsed.filter(isValidPreset).map(preset => ({
+      id: preset.id,
+      name: preset.name,
+      builtIn: false,
+      settings: { ...DEFAULT_SETTINGS, ...preset.settings }
+    }));
+  } catch (error) {
+    console.warn('Failed to load export presets:', error);
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: ExportPreset[]) => {
+  try {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets.filter(preset => !preset.builtIn)));
+  } catch (error) {
+    console.warn('Failed to save export presets:', error);
+  }
+};
+
+export const createPreset = (name: string, settings: ExportSettings): ExportPreset => ({
+  id: `preset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim(),
+  builtIn: false,
+  settings: { ...settings }
+});
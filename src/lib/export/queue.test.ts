@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  ExportTask,
+  applyJobUpdate,
+  createExportJob,
+  MAX_RETAINED_EXPORTS,
+  formatTimeLeft,
+  getNextQueuedJob,
+  releaseOldExports
+} from "./queue";
+
+const task: ExportTask = {
+  kind: 'video',
+  label: 'MP4 1920×1080',
+  description: '16:9 · 30 fps',
+  fileName: 'video-export.mp4',
+  run: async () => new Blob()
+};
+
+describe("createExportJob", () => {
+  it("starts queued with no progress", () => {
+    const job = createExportJob(task, 1000);
+    expect(job.status).toBe('queued');
+    expect(job.progress).toBe(0);
+    expect(job.fileName).toBe('video-export.mp4');
+    expect(job.createdAt).toBe(1000);
+  });
+});
+
+describe("getNextQueuedJob", () => {
+  it("picks the oldest queued job", () => {
+    const first = createExportJob(task, 1);
+    const second = createExportJob(task, 2);
+    expect(getNextQueuedJob([first, second])?.id).toBe(first.id);
+  });
+
+  it("waits while another job is running", () => {
+    const running = { ...createExportJob(task, 1), status: 'rendering' as const };
+    const queued = createExportJob(task, 2);
+    expect(getNextQueuedJob([running, queued])).toBeNull();
+  });
+
+  it("skips finished jobs", () => {
+    const done = { ...createExportJob(task, 1), status: 'completed' as const };
+    const queued = createExportJob(task, 2);
+    expect(getNextQueuedJob([done, queued])?.id).toBe(queued.id);
+  });
+});
+
+describe("applyJobUpdate", () => {
+  it("derives progress from rendered frames", () => {
+    const job = applyJobUpdate(createExportJob(task, 0), { framesRendered: 25, framesTotal: 100 }, 0);
+    expect(job.progress).toBe(25);
+  });
+
+  it("projects the remaining time from the rendering speed", () => {
+    const rendering = applyJobUpdate(createExportJob(task, 0), { status: 'rendering' }, 1000);
+    expect(rendering.renderStartedAt).toBe(1000);
+
+    const halfway = applyJobUpdate(rendering, { framesRendered: 50, framesTotal: 100 }, 11000);
+    expect(halfway.etaSeconds).toBeCloseTo(10);
+  });
+
+  it("drops the estimate outside rendering", () => {
+    const rendering = applyJobUpdate(createExportJob(task, 0), { status: 'rendering' }, 0);
+    const encoding = applyJobUpdate({ ...rendering, progress: 50 }, { status: 'encoding' }, 5000);
+    expect(encoding.etaSeconds).toBeNull();
+  });
+});
+
+describe("releaseOldExports", () => {
+  const completed = (createdAt: number, bytes: number) => ({
+    ...createExportJob(task, createdAt),
+    status: 'completed' as const,
+    blob: new Blob([new Uint8Array(bytes)])
+  });
+
+  it("keeps only the most recent files in memory", () => {
+    const jobs = Array.from({ length: MAX_RETAINED_EXPORTS + 2 }, (_, index) => completed(index, 10));
+    const released = releaseOldExports(jobs);
+
+    expect(released.filter(job => job.blob)).toHaveLength(MAX_RETAINED_EXPORTS);
+    expect(released.slice(0, 2).every(job => !job.blob && job.blobReleased)).toBe(true);
+    expect(released[released.length - 1].blob).toBe(jobs[jobs.length - 1].blob);
+  });
+
+  it("keeps the latest file even when it exceeds the memory budget", () => {
+    const huge = { ...completed(2, 10), blob: { size: 1024 * 1024 * 1024 } as Blob };
+    const released = releaseOldExports([completed(1, 10), huge]);
+
+    expect(released[0].blob).toBeUndefined();
+    expect(released[1].blob).toBe(huge.blob);
+  });
+});
+
+describe("formatTimeLeft", () => {
+  it("formats minutes and seconds", () => {
+    expect(formatTimeLeft(0)).toBe('0:00');
+    expect(formatTimeLeft(65.4)).toBe('1:05');
+    expect(formatTimeLeft(-3)).toBe('0:00');
+  });
+});
@@ -0,0 +1,138 @@
+import type { MediaLoadFailure } from "./mediaLoader";
+
+// Coda degli export in background: i job vengono eseguiti uno alla volta mentre l'editing continua.
+// Limite noto: i fotogrammi si disegnano sul thread principale (elementi <video> del DOM e canvas del
+// documento), quindi durante un export la preview e l'interfaccia possono rallentare. Spostare il
+// rendering in un Worker richiede di decodificare i media con WebCodecs invece che con gli elementi DOM
+
+export type ExportKind = 'video' | 'audio' | 'frames' | 'animated';
+
+export type ExportEngine = 'webcodecs' | 'realtime';
+
+export type ExportJobStatus = 'queued' | 'loading' | 'rendering' | 'encoding' | 'completed' | 'failed' | 'cancelled';
+
+export interface ExportJob {
+  id: string;
+  kind: ExportKind;
+  label: string;
+  description: string;
+  fileName: string;
+  status: ExportJobStatus;
+  progress: number; // 0-100
+  framesRendered: number;
+  framesTotal: number;
+  engine?: ExportEngine;
+  createdAt: number;
+  renderStartedAt?: number; // Base per la stima del tempo rimanente
+  etaSeconds?: number | null;
+  error?: string;
+  failedMediaNames: string[];
+  blob?: Blob; // Tenuto in memoria per poterlo scaricare di nuovo
+  blobReleased?: boolean; // Il file è stato liberato per far posto agli export più recenti
+}
+
+export type ExportJobUpdate = Partial<Pick<ExportJob, 'status' | 'progress' | 'framesRendered' | 'framesTotal' | 'engine'>>;
+
+export interface ExportTaskContext {
+  signal: AbortSignal;
+  report: (update: ExportJobUpdate) => void;
+  reportMediaFailures: (failures: MediaLoadFailure[]) => void;
+}
+
+// Lavoro da eseguire: tutto ciò che serve è già fotografato al momento dell'accodamento
+export interface ExportTask {
+  kind: ExportKind;
+  label: string;
+  description: string;
+  fileName: string;
+  run: (context: ExportTaskContext) => Promise<Blob>;
+}
+
+export const EXPORT_JOB_STATUS_LABELS: Record<ExportJobStatus, string> = {
+  queued: 'Queued',
+  loading: 'Loading media',
+  rendering: 'Rendering',
+  encoding: 'Finalizing',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+export const createExportJob = (task: ExportTask, now = Date.now()): ExportJob => ({
+  id: `export-${now}-${Math.random().toString(36).slice(2, 8)}`,
+  kind: task.kind,
+  label: task.label,
+  description: task.description,
+  fileName: task.fileName,
+  status: 'queued',
+  progress: 0,
+  framesRendered: 0,
+  framesTotal: 0,
+  createdAt: now,
+  failedMediaNames: []
+});
+
+export const isJobActive = (job: ExportJob) => {
+  return job.status === 'loading' || job.status === 'rendering' || job.status === 'encoding';
+};
+
+export const isJobFinished = (job: ExportJob) => {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+};
+
+// Il job più vecchio in attesa, se nessun altro è in corso
+export const getNextQueuedJob = (jobs: ExportJob[]) => {
+  if (jobs.some(isJobActive)) return null;
+  return jobs.find(job => job.status === 'queued') ?? null;
+};
+
+// File tenuti in memoria per il nuovo download: il più recente resta sempre, gli altri finché stanno nei limiti
+export const MAX_RETAINED_EXPORTS = 3;
+export const MAX_RETAINED_EXPORT_BYTES = 512 * 1024 * 1024;
+
+export const releaseOldExports = (jobs: ExportJob[]): ExportJob[] => {
+  const retained = new Set<string>();
+  let bytes = 0;
+  [...jobs].reverse().filter(job => job.blob).forEach(job => {
+    const size = job.blob!.size;
+    const fits = retained.size < MAX_RETAINED_EXPORTS && bytes + size <= MAX_RETAINED_EXPORT_BYTES;
+    if (retained.size === 0 || fits) {
+      retained.add(job.id);
+      bytes += size;
+    }
+  });
+
+  return jobs.map(job => {
+    if (!job.blob || retained.has(job.id)) return job;
+    const { blob: _released, ...rest } = job;
+    return { ...rest, blobReleased: true };
+  });
+};
+
+// Tempo rimanente proiettato dalla velocità media dall'inizio del rendering
+export const estimateTimeLeft = (renderStartedAt: number, progress: number, now: number) => {
+  if (progress <= 0 || progress >= 100) return null;
+  const elapsed = (now - renderStartedAt) / 1000;
+  return (elapsed * (100 - progress)) / progress;
+};
+
+export const applyJobUpdate = (job: ExportJob, update: ExportJobUpdate, now = Date.now()): ExportJob => {
+  const next = { ...job, ...update };
+
+  if (update.status === 'rendering' && job.status !== 'rendering') {
+    next.renderStartedAt = now;
+  }
+  if (update.framesTotal !== undefined || update.framesRendered !== undefined) {
+    next.progress = next.framesTotal > 0 ? (next.framesRendered / next.framesTotal) * 100 : next.progress;
+  }
+  next.etaSeconds = next.status === 'rendering' && next.renderStartedAt !== undefined
+    ? estimateTimeLeft(next.renderStartedAt, next.progress, now)
+    : null;
+
+  return next;
+};
+
+export const formatTimeLeft = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,43 @@
+import type { TimelineItem } from "@/components/VideoEditor";
+import { InOutMarkers, TimeRange, getItemsSpan, getMarkedRange, getTimelineEnd } from "@/lib/timeline";
+
+// Porzione della timeline da esportare
+
+export type ExportRangeMode = 'timeline' | 'marked' | 'selection';
+
+export const EXPORT_RANGE_LABELS: Record<ExportRangeMode, string> = {
+  timeline: 'Whole project',
+  marked: 'In / Out',
+  selection: 'Selected clips'
+};
+
+export interface ExportRangeSources {
+  items: TimelineItem[];
+  markers: InOutMarkers;
+  selectedItemIds: string[];
+}
+
+// Intervallo per ogni modalità, null se non disponibile
+export const getExportRanges = ({ items, markers, selectedItemIds }: ExportRangeSources): Record<ExportRangeMode, TimeRange | null> => {
+  const timelineEnd = getTimelineEnd(items);
+  return {
+    // Almeno un secondo anche con la timeline vuota
+    timeline: { start: 0, end: Math.max(timelineEnd, 1) },
+    marked: getMarkedRange(markers, timelineEnd),
+    selection: getItemsSpan(items, selectedItemIds)
+  };
+};
+
+// Se sono stati impostati in/out l'editor vuole quasi sempre esportare quelli
+export const getDefaultRangeMode = (ranges: Record<ExportRangeMode, TimeRange | null>): ExportRangeMode => {
+  return ranges.marked ? 'marked' : 'timeline';
+};
+
+export const getRangeDuration = (range: TimeRange) => Math.max(0, range.end - range.start);
+
+// Tempo come m:ss.s, usato nei riepiloghi dell'export
+export const formatRangeTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${mins}:${secs}`;
+};
@@ -0,0 +1,203 @@
+import type { TimelineItem } from "@/components/VideoEditor";
+import type { TimeRange } from "@/lib/timeline";
+import { FrameContext, renderFrame } from "@/lib/render/compositor";
+import { calculateActiveEffects, calculateGlobalAlpha } from "@/lib/render/effects";
+import { EXPORT_SAMPLE_RATE, getItemGainAt } from "./audioMix";
+import { EncodingSettings, ExportFormat } from "./formats";
+import type { ExportMediaCache } from "./mediaLoader";
+import { OfflineExportProgress, getTotalFrames, throwIfAborted } from "./offlineExport";
+
+// Export in tempo reale con MediaRecorder, usato quando WebCodecs non sa codificare il formato scelto:
+// la timeline viene riprodotta sul canvas e registrata insieme all'audio degli elementi
+
+export interface RealtimeExportOptions {
+  canvas: HTMLCanvasElement;
+  items: TimelineItem[];
+  media: ExportMediaCache;
+  trackVolumes: Map<string, number>;
+  range: TimeRange;
+  format: ExportFormat;
+  settings: EncodingSettings;
+  signal?: AbortSignal;
+  onProgress?: (progress: OfflineExportProgress) => void;
+  onEncoding?: () => void;
+}
+
+// Scarto oltre il quale un elemento viene riallineato al tempo della timeline
+const SYNC_TOLERANCE_SECONDS = 0.1;
+
+interface AudioGraph {
+  context: AudioContext;
+  destination: MediaStreamAudioDestinationNode;
+  gains: Map<string, GainNode>;
+}
+
+type AudioContextWindow = typeof window & { webkitAudioContext?: typeof AudioContext };
+
+// Ogni elemento audio/video passa da un GainNode verso un'unica destinazione registrabile
+const createAudioGraph = (media: ExportMediaCache, trackVolumes: Map<string, number>): AudioGraph | null => {
+  try {
+    const AudioContextClass = window.AudioContext || (window as AudioContextWindow).webkitAudioContext;
+    const context = new AudioContextClass({ sampleRate: EXPORT_SAMPLE_RATE });
+    const destination = context.createMediaStreamDestination();
+    const gains = new Map<string, GainNode>();
+
+    const connect = (id: string, element: HTMLMediaElement) => {
+      try {
+        const source = context.createMediaElementSource(element);
+        const gain = context.createGain();
+        gain.gain.value = (trackVolumes.get(id) ?? 100) / 100;
+        source.connect(gain);
+        gain.connect(destination);
+        gains.set(id, gain);
+      } catch (error) {
+        console.warn(`Failed to setup audio for ${id}:`, error);
+      }
+    };
+
+    media.videos.forEach((video, id) => connect(id, video));
+    media.audios.forEach((audio, id) => connect(id, audio));
+
+    return { context, destination, gains };
+  } catch (error) {
+    console.error('Failed to setup audio context:', error);
+    return null;
+  }
+};
+
+const getMediaElement = (media: ExportMediaCache, item: TimelineItem): HTMLMediaElement | undefined => {
+  return item.mediaFile.type === 'video' ? media.videos.get(item.id) : media.audios.get(item.id);
+};
+
+// Avvia, riallinea o ferma gli elementi in base al tempo corrente, con volumi e fade della preview
+const syncAudio = (
+  graph: AudioGraph,
+  items: TimelineItem[],
+  media: ExportMediaCache,
+  trackVolumes: Map<string, number>,
+  time: number
+) => {
+  const activeItems = items.filter(item =>
+    (item.mediaFile.type === 'audio' || item.mediaFile.type === 'video') &&
+    time >= item.startTime &&
+    time < item.startTime + item.duration
+  );
+  const activeIds = new Set(activeItems.map(item => item.id));
+  const globalAlpha = calculateGlobalAlpha(calculateActiveEffects(items, time));
+
+  activeItems.forEach(item => {
+    const element = getMediaElement(media, item);
+    const gain = graph.gains.get(item.id);
+    if (!element || !gain) return;
+
+    const targetTime = time - item.startTime + (item.mediaStartOffset || 0);
+    if (targetTime >= 0 && targetTime <= element.duration) {
+      if (Math.abs(element.currentTime - targetTime) > SYNC_TOLERANCE_SECONDS) {
+        element.currentTime = Math.max(0, targetTime);
+      }
+      if (element.paused) {
+        element.play().catch(() => {});
+      }
+      gain.gain.value = getItemGainAt(item, trackVolumes, time) * globalAlpha;
+    } else {
+      element.pause();
+      gain.gain.value = 0;
+    }
+  });
+
+  graph.gains.forEach((gain, id) => {
+    if (activeIds.has(id)) return;
+    const element = media.videos.get(id) ?? media.audios.get(id);
+    element?.pause();
+    gain.gain.value = 0;
+  });
+};
+
+// I video scorrono da soli durante la registrazione: si riallineano solo se vanno fuori sincrono
+const drawRealtimeFrame = (ctx: FrameContext, items: TimelineItem[], media: ExportMediaCache, time: number) => {
+  renderFrame(ctx, {
+    time,
+    items,
+    resolveMedia: (item, mediaTime) => {
+      if (item.mediaFile.type === 'video') {
+        const video = media.videos.get(item.id);
+        if (!video) return null;
+        if (Math.abs(video.currentTime - mediaTime) > SYNC_TOLERANCE_SECONDS) {
+          video.currentTime = mediaTime;
+        }
+        return video.readyState >= 2 ? video : null;
+      }
+      if (item.mediaFile.type === 'image') {
+        const img = media.images.get(item.id);
+        return img && img.complete ? img : null;
+      }
+      return null;
+    }
+  });
+};
+
+export const exportTimelineRealtime = async ({
+  canvas,
+  items,
+  media,
+  trackVolumes,
+  range,
+  format,
+  settings,
+  signal,
+  onProgress,
+  onEncoding
+}: RealtimeExportOptions): Promise<Blob> => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+
+  const graph = createAudioGraph(media, trackVolumes);
+  const canvasStream = canvas.captureStream(settings.fps);
+  const stream = new MediaStream([
+    ...canvasStream.getVideoTracks(),
+    ...(graph?.destination.stream.getAudioTracks() ?? [])
+  ]);
+
+  const recorder = new MediaRecorder(stream, {
+    mimeType: format.recorderMimeType,
+    videoBitsPerSecond: settings.videoBitrate,
+    audioBitsPerSecond: settings.audioBitrate
+  });
+
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  const totalFrames = getTotalFrames(range.end - range.start, settings.fps);
+  const frameDelay = Math.max(1, 1000 / settings.fps - 5);
+
+  try {
+    recorder.start();
+
+    for (let frameIndex = 0; frameIndex < totalFrames && !signal?.aborted; frameIndex++) {
+      const time = range.start + frameIndex / settings.fps;
+      if (graph) syncAudio(graph, items, media, trackVolumes, time);
+      drawRealtimeFrame(ctx, items, media, time);
+      onProgress?.({ framesRendered: frameIndex + 1, framesTotal: totalFrames });
+
+      await new Promise(resolve => setTimeout(resolve, frameDelay));
+    }
+
+    if (recorder.state === 'recording') recorder.stop();
+    await stopped;
+    throwIfAborted(signal);
+
+    onEncoding?.();
+    return new Blob(chunks, { type: format.mimeType });
+  } finally {
+    if (recorder.state === 'recording') recorder.stop();
+    canvasStream.getTracks().forEach(track => track.stop());
+    media.videos.forEach(video => video.pause());
+    media.audios.forEach(audio => audio.pause());
+    graph?.context.close().catch(() => {});
+  }
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { unzipSync } from 'fflate';
+import {
+  MAX_SEQUENCE_FRAMES,
+  STILL_FORMATS,
+  estimateSequenceSizeMB,
+  exportImageSequence,
+  getSequenceFileName,
+  getSequenceFrameTimes
+} from './stills';
+
+describe('getSequenceFrameTimes', () => {
+  it('returns every frame of the range', () => {
+    const times = getSequenceFrameTimes({ start: 2, end: 3 }, 4, 1);
+    expect(times).toEqual([2, 2.25, 2.5, 2.75]);
+  });
+
+  it('keeps one frame every N', () => {
+    const times = getSequenceFrameTimes({ start: 0, end: 1 }, 10, 3);
+    expect(times).toHaveLength(4);
+    expect(times[1]).toBeCloseTo(0.3);
+  });
+
+  it('treats invalid steps as every frame', () => {
+    expect(getSequenceFrameTimes({ start: 0, end: 1 }, 5, 0)).toHaveLength(5);
+  });
+});
+
+describe('getSequenceFileName', () => {
+  it('pads numbers to at least four digits', () => {
+    expect(getSequenceFileName(0, 120, 'png')).toBe('frame_0001.png');
+  });
+
+  it('widens the padding for long sequences', () => {
+    expect(getSequenceFileName(41, 12000, 'jpg')).toBe('frame_00042.jpg');
+  });
+});
+
+describe('exportImageSequence', () => {
+  it('packs every rendered image into the ZIP in order', async () => {
+    let encoded = 0;
+    const canvas = {
+      width: 320,
+      height: 180,
+      toBlob: (callback: BlobCallback) => callback(new Blob([new Uint8Array([++encoded, 7])]))
+    } as unknown as HTMLCanvasElement;
+    const ctx = { canvas, save: vi.fn(), restore: vi.fn(), fillRect: vi.fn() };
+    canvas.getContext = (() => ctx) as unknown as HTMLCanvasElement['getContext'];
+
+    const zip = await exportImageSequence({
+      canvas,
+      items: [],
+      media: { videos: new Map(), images: new Map() },
+      range: { start: 0, end: 1 },
+      fps: 3,
+      everyNth: 1,
+      format: STILL_FORMATS.png
+    });
+    const files = unzipSync(new Uint8Array(await zip.arrayBuffer()));
+
+    expect(zip.type).toBe('application/zip');
+    expect(Object.keys(files)).toEqual(['frame_0001.png', 'frame_0002.png', 'frame_0003.png']);
+    expect(Array.from(files['frame_0003.png'])).toEqual([3, 7]);
+  });
+});
+
+describe('image sequence limits', () => {
+  it('estimates smaller archives for JPEG than for PNG', () => {
+    const frameSize = { width: 1920, height: 1080 };
+    expect(estimateSequenceSizeMB(STILL_FORMATS.jpeg, frameSize, 100))
+      .toBeLessThan(estimateSequenceSizeMB(STILL_FORMATS.png, frameSize, 100));
+  });
+
+  it('refuses sequences with too many images before rendering', async () => {
+    const drawImage = vi.fn();
+    const canvas = { width: 320, height: 180, getContext: () => ({ drawImage }) } as unknown as HTMLCanvasElement;
+
+    await expect(exportImageSequence({
+      canvas,
+      items: [],
+      media: { videos: new Map(), images: new Map() },
+      range: { start: 0, end: MAX_SEQUENCE_FRAMES / 10 + 1 },
+      fps: 10,
+      everyNth: 1,
+      format: STILL_FORMATS.png
+    })).rejects.toThrow(`${MAX_SEQUENCE_FRAMES} images`);
+    expect(drawImage).not.toHaveBeenCalled();
+  });
+});
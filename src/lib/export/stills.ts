@@ -0,0 +1,145 @@
+import { Zip, ZipPassThrough } from "fflate";
+import type { TimelineItem } from "@/components/VideoEditor";
+import type { TimeRange } from "@/lib/timeline";
+import type { FrameSize } from "@/lib/render/compositor";
+import { ExportMedia, drawFrameAt, getTotalFrames, throwIfAborted } from "./offlineExport";
+
+// Fotogrammi singoli e sequenze di immagini renderizzati con il compositor dell'export
+
+export type StillFormatId = 'png' | 'jpeg';
+
+export interface StillFormat {
+  id: StillFormatId;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const STILL_FORMATS: Record<StillFormatId, StillFormat> = {
+  'png': { id: 'png', label: 'PNG', extension: 'png', mimeType: 'image/png' },
+  'jpeg': { id: 'jpeg', label: 'JPEG', extension: 'jpg', mimeType: 'image/jpeg' }
+};
+
+export const JPEG_QUALITY = 0.92;
+
+// Larghezza di riferimento dei fotogrammi salvati dalla preview
+export const STILL_BASE_WIDTH = 1920;
+
+// Lo ZIP si costruisce in memoria, un'immagine alla volta: oltre questi limiti il browser rischia di esaurirla
+export const MAX_SEQUENCE_FRAMES = 5000;
+export const MAX_SEQUENCE_SIZE_MB = 1000;
+
+// Byte per pixel per immagine, stimati su contenuti video tipici
+const SEQUENCE_BYTES_PER_PIXEL: Record<StillFormatId, number> = {
+  'png': 1.5,
+  'jpeg': 0.2
+};
+
+export interface ImageSequenceOptions {
+  canvas: HTMLCanvasElement;
+  items: TimelineItem[];
+  media: ExportMedia;
+  range: TimeRange;
+  fps: number;
+  everyNth: number; // 1 = tutti i fotogrammi
+  format: StillFormat;
+  signal?: AbortSignal;
+  onProgress?: (progress: { framesRendered: number; framesTotal: number }) => void;
+  onEncoding?: () => void;
+}
+
+// La qualità conta solo per i formati lossy (JPEG, WebP)
+export const canvasToBlob = (
+  canvas: HTMLCanvasElement,
+  format: Pick<StillFormat, 'label' | 'mimeType'>,
+  quality = format.mimeType === 'image/jpeg' ? JPEG_QUALITY : undefined
+) => {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error(`Failed to encode ${format.label} image`))),
+      format.mimeType,
+      quality
+    );
+  });
+};
+
+// Tempi dei fotogrammi da salvare: uno ogni N fotogrammi della timeline, a partire dall'inizio dell'intervallo
+export const getSequenceFrameTimes = (range: TimeRange, fps: number, everyNth: number) => {
+  const step = Math.max(1, Math.floor(everyNth));
+  const total = getTotalFrames(range.end - range.start, fps);
+  const times: number[] = [];
+  for (let frameIndex = 0; frameIndex < total; frameIndex += step) {
+    times.push(range.start + frameIndex / fps);
+  }
+  return times;
+};
+
+// Numerazione a larghezza fissa così i file restano ordinati in qualunque file manager
+export const getSequenceFileName = (index: number, total: number, extension: string) => {
+  const digits = Math.max(4, String(total).length);
+  return `frame_${String(index + 1).padStart(digits, '0')}.${extension}`;
+};
+
+export const estimateSequenceSizeMB = (format: StillFormat, frameSize: FrameSize, frameCount: number) => {
+  return (frameSize.width * frameSize.height * frameCount * SEQUENCE_BYTES_PER_PIXEL[format.id]) / 1000 / 1000;
+};
+
+export const getSequenceLimitMessage = () => {
+  return `The image sequence would exceed ${MAX_SEQUENCE_FRAMES} images or ${MAX_SEQUENCE_SIZE_MB} MB. Lower the resolution, keep fewer frames or shorten the range.`;
+};
+
+export const exportImageSequence = async ({
+  canvas,
+  items,
+  media,
+  range,
+  fps,
+  everyNth,
+  format,
+  signal,
+  onProgress,
+  onEncoding
+}: ImageSequenceOptions): Promise<Blob> => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+
+  const times = getSequenceFrameTimes(range, fps, everyNth);
+  if (times.length > MAX_SEQUENCE_FRAMES) {
+    throw new Error(getSequenceLimitMessage());
+  }
+
+  const maxBytes = MAX_SEQUENCE_SIZE_MB * 1000 * 1000;
+  let totalBytes = 0;
+
+  // Ogni pezzo dello ZIP diventa subito un Blob: i byte delle immagini non restano nella memoria di JavaScript
+  // e l'archivio finale li riferisce senza copiarli. PNG e JPEG sono già compressi: lo ZIP li memorizza e basta
+  const parts: Blob[] = [];
+  const zip = new Zip((error, chunk) => {
+    if (error) throw error;
+    parts.push(new Blob([chunk]));
+  });
+
+  for (let index = 0; index < times.length; index++) {
+    throwIfAborted(signal);
+
+    await drawFrameAt(ctx, items, media, times[index]);
+    const blob = await canvasToBlob(canvas, format);
+    const file = new ZipPassThrough(getSequenceFileName(index, times.length, format.extension));
+    zip.add(file);
+    file.push(new Uint8Array(await blob.arrayBuffer()), true);
+
+    // Limite di dimensione: meglio fermarsi subito che esaurire la memoria
+    totalBytes += blob.size;
+    if (totalBytes > maxBytes) {
+      throw new Error(getSequenceLimitMessage());
+    }
+
+    onProgress?.({ framesRendered: index + 1, framesTotal: times.length });
+  }
+
+  throwIfAborted(signal);
+  onEncoding?.();
+
+  zip.end();
+  return new Blob(parts, { type: 'application/zip' });
+};
@@ -0,0 +1,213 @@
+import type { TimelineItem } from "@/components/VideoEditor";
+import type { AspectRatio } from "@/lib/project";
+import type { FrameSize } from "@/lib/render/compositor";
+import type { TimeRange } from "@/lib/timeline";
+import { ANIMATED_FORMATS, AnimatedSettings, exportAnimated } from "./animated";
+import { AudioFormat, exportTimelineAudio, isAudioFormatSupported } from "./audioExport";
+import { EncodingSettings, ExportFormat, checkFormatSupport, getExportFileName, isFormatSupported } from "./formats";
+import { ExportMediaCache, getFailedMediaNames, loadExportMedia, releaseExportMedia } from "./mediaLoader";
+import { OfflineExportProgress, exportTimelineOffline, throwIfAborted } from "./offlineExport";
+import { ExportTask, ExportTaskContext } from "./queue";
+import { formatRangeTime } from "./range";
+import { exportTimelineRealtime } from "./realtimeExport";
+import { StillFormat, exportImageSequence } from "./stills";
+
+// Traduce le impostazioni del dialog in job autonomi per la coda degli export
+
+// Stato della timeline fotografato all'accodamento: le modifiche successive non toccano il job
+export interface ExportSnapshot {
+  items: TimelineItem[];
+  trackVolumes: Map<string, number>;
+  range: TimeRange;
+  aspectRatio: AspectRatio;
+  fps: number;
+}
+
+export type ExportRequest = ExportSnapshot & (
+  | { kind: 'video'; format: ExportFormat; encoding: EncodingSettings }
+  | { kind: 'audio'; format: AudioFormat; bitrate: number }
+  | { kind: 'frames'; format: StillFormat; everyNth: number; size: FrameSize }
+  | { kind: 'animated'; settings: AnimatedSettings; size: FrameSize }
+);
+
+type RequestOf<K extends ExportRequest['kind']> = Extract<ExportRequest, { kind: K }>;
+
+const createCanvas = ({ width, height }: FrameSize) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const getDescription = ({ range, aspectRatio, fps }: ExportSnapshot, showVideo = true) => {
+  const span = `${formatRangeTime(range.start)} – ${formatRangeTime(range.end)}`;
+  return showVideo ? `${aspectRatio} · ${fps} fps · ${span}` : span;
+};
+
+const reportFrames = (context: ExportTaskContext) => ({ framesRendered, framesTotal }: OfflineExportProgress) => {
+  context.report({ framesRendered, framesTotal });
+};
+
+// Media caricati per il job; in caso di file mancanti il job fallisce e li segnala
+const loadMedia = async (request: ExportSnapshot, context: ExportTaskContext): Promise<ExportMediaCache> => {
+  context.report({ status: 'loading', progress: 0 });
+
+  const { media, failures } = await loadExportMedia({
+    items: request.items,
+    range: request.range,
+    onProgress: (loaded, total) => context.report({ progress: (loaded / total) * 100 })
+  });
+
+  if (failures.length > 0) {
+    releaseExportMedia(media);
+    context.reportMediaFailures(failures);
+    const count = getFailedMediaNames(failures).length;
+    throw new Error(`${count} media file${count !== 1 ? 's' : ''} could not be loaded`);
+  }
+  if (context.signal.aborted) {
+    releaseExportMedia(media);
+    throwIfAborted(context.signal);
+  }
+  return media;
+};
+
+const runVideo = async (request: RequestOf<'video'>, context: ExportTaskContext) => {
+  const { format, encoding } = request;
+
+  // Il supporto può cambiare tra l'accodamento e l'esecuzione (es. encoder hardware occupato)
+  const support = await checkFormatSupport(format, encoding);
+  if (!isFormatSupported(support)) {
+    throw new Error(`${format.label} (${format.description}) export is not supported by this browser`);
+  }
+
+  const media = await loadMedia(request, context);
+  try {
+    const options = {
+      canvas: createCanvas(encoding),
+      items: request.items,
+      media,
+      trackVolumes: request.trackVolumes,
+      range: request.range,
+      format,
+      settings: encoding,
+      signal: context.signal,
+      onProgress: reportFrames(context),
+      onEncoding: () => context.report({ status: 'encoding' })
+    };
+
+    if (support.offline) {
+      context.report({ status: 'rendering', engine: 'webcodecs', progress: 0 });
+      return await exportTimelineOffline(options);
+    }
+
+    context.report({ status: 'rendering', engine: 'realtime', progress: 0 });
+    return await exportTimelineRealtime(options);
+  } finally {
+    releaseExportMedia(media);
+  }
+};
+
+const runAudio = async (request: RequestOf<'audio'>, context: ExportTaskContext) => {
+  const { format, bitrate } = request;
+  if (!(await isAudioFormatSupported(format, bitrate))) {
+    throw new Error(`${format.label} audio export is not supported by this browser`);
+  }
+
+  context.report({ status: 'rendering', progress: 0 });
+  return exportTimelineAudio({
+    items: request.items,
+    trackVolumes: request.trackVolumes,
+    range: request.range,
+    format,
+    bitrate,
+    signal: context.signal,
+    onEncoding: () => context.report({ status: 'encoding', progress: 50 })
+  });
+};
+
+const runFrames = async (request: RequestOf<'frames'>, context: ExportTaskContext) => {
+  const media = await loadMedia(request, context);
+  try {
+    context.report({ status: 'rendering', progress: 0 });
+    return await exportImageSequence({
+      canvas: createCanvas(request.size),
+      items: request.items,
+      media,
+      range: request.range,
+      fps: request.fps,
+      everyNth: request.everyNth,
+      format: request.format,
+      signal: context.signal,
+      onProgress: reportFrames(context),
+      onEncoding: () => context.report({ status: 'encoding' })
+    });
+  } finally {
+    releaseExportMedia(media);
+  }
+};
+
+const runAnimated = async (request: RequestOf<'animated'>, context: ExportTaskContext) => {
+  const media = await loadMedia(request, context);
+  try {
+    context.report({ status: 'rendering', progress: 0 });
+    return await exportAnimated({
+      canvas: createCanvas(request.size),
+      items: request.items,
+      media,
+      range: request.range,
+      timelineFps: request.fps,
+      settings: request.settings,
+      signal: context.signal,
+      onProgress: reportFrames(context),
+      onEncoding: () => context.report({ status: 'encoding' })
+    });
+  } finally {
+    releaseExportMedia(media);
+  }
+};
+
+export const createExportTask = (request: ExportRequest): ExportTask => {
+  switch (request.kind) {
+    case 'video': {
+      const { format, encoding } = request;
+      return {
+        kind: 'video',
+        label: `${format.label} ${encoding.width}×${encoding.height}`,
+        description: getDescription(request),
+        fileName: getExportFileName('video-export', format.extension, request.aspectRatio, `${encoding.width}x${encoding.height}`),
+        run: context => runVideo(request, context)
+      };
+    }
+    case 'audio': {
+      const duration = Math.round(request.range.end - request.range.start);
+      return {
+        kind: 'audio',
+        label: `${request.format.label} audio`,
+        description: getDescription(request, false),
+        fileName: getExportFileName('audio-export', request.format.extension, `${duration}s`),
+        run: context => runAudio(request, context)
+      };
+    }
+    case 'frames': {
+      const { format, size } = request;
+      return {
+        kind: 'frames',
+        label: `${format.label} sequence ${size.width}×${size.height}`,
+        description: getDescription(request),
+        fileName: getExportFileName('frames-export', 'zip', format.extension, `${size.width}x${size.height}`),
+        run: context => runFrames(request, context)
+      };
+    }
+    case 'animated': {
+      const format = ANIMATED_FORMATS[request.settings.formatId];
+      const { size } = request;
+      return {
+        kind: 'animated',
+        label: `${format.label} ${size.width}×${size.height}`,
+        description: getDescription(request),
+        fileName: getExportFileName('animated-export', format.extension, request.aspectRatio, `${size.width}x${size.height}`),
+        run: context => runAnimated(request, context)
+      };
+    }
+  }
+};
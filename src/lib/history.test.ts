@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+import type { MediaFile, TimelineItem } from '@/components/VideoEditor';
+import {
+  COALESCE_WINDOW_MS,
+  MAX_HISTORY_ENTRIES,
+  createHistory,
+  deserializeHistory,
+  jumpToStep,
+  recordChange,
+  serializeHistory
+} from './history';
+import type { EditorDocument, EditorHistory } from './history';
+
+const clipMedia: MediaFile = { id: 'clip-media', name: 'clip.mp4', type: 'video', url: 'blob:clip', duration: 10 };
+
+const item = (id: string, overrides: Partial<TimelineItem> = {}): TimelineItem => ({
+  id,
+  mediaFile: clipMedia,
+  startTime: 0,
+  duration: 5,
+  track: 0,
+  ...overrides
+});
+
+const initialDocument: EditorDocument = {
+  timelineItems: [],
+  tracks: [],
+  trackVolumes: new Map(),
+  aspectRatio: '16:9',
+  exportFPS: 30
+};
+
+// Registra una serie di modifiche e restituisce la history e i documenti dopo ciascuna
+const record = (
+  changes: { label: string; patch: Partial<EditorDocument>; coalesceKey?: string; now?: number }[],
+  history: EditorHistory = createHistory()
+) => {
+  const documents = [initialDocument];
+  const result = changes.reduce((current, { label, patch, coalesceKey, now = 0 }) => {
+    const before = documents[documents.length - 1];
+    const after = { ...before, ...patch };
+    documents.push(after);
+    return recordChange(current, label, before, after, { coalesceKey, now });
+  }, history);
+  return { history: result, documents };
+};
+
+describe('recordChange', () => {
+  it('ignores changes that leave the document untouched', () => {
+    const history = createHistory();
+    expect(recordChange(history, 'Nothing', initialDocument, { ...initialDocument })).toBe(history);
+  });
+
+  it('stores only the changed fields', () => {
+    const { history } = record([{ label: 'Aspect ratio 4:3', patch: { aspectRatio: '4:3' } }]);
+
+    expect(history.index).toBe(1);
+    expect(history.entries[0].before).toEqual({ aspectRatio: '16:9' });
+    expect(history.entries[0].after).toEqual({ aspectRatio: '4:3' });
+  });
+
+  it('stores only the timeline items that changed', () => {
+    const clips = [item('a'), item('b', { startTime: 5 }), item('c', { startTime: 10 })];
+    const { history } = record([
+      { label: 'Add clips', patch: { timelineItems: clips } },
+      { label: 'Move clip', patch: { timelineItems: [clips[0], { ...clips[1], startTime: 6 }, clips[2]] } },
+      { label: 'Delete clip', patch: { timelineItems: [clips[0], { ...clips[1], startTime: 6 }] } }
+    ]);
+
+    expect(history.entries[1].before.timelineItems).toEqual({ upserted: [clips[1]], removedIds: [] });
+    expect(history.entries[1].after.timelineItems).toEqual({ upserted: [{ ...clips[1], startTime: 6 }], removedIds: [] });
+    expect(history.entries[2].before.timelineItems).toEqual({ upserted: [clips[2]], removedIds: [] });
+    expect(history.entries[2].after.timelineItems).toEqual({ upserted: [], removedIds: ['c'] });
+  });
+
+  it('merges changes with the same key inside the coalesce window', () => {
+    const { history } = record([
+      { label: 'Volume 50%', patch: { trackVolumes: new Map([['a', 50]]) }, coalesceKey: 'volume:a', now: 0 },
+      { label: 'Volume 40%', patch: { trackVolumes: new Map([['a', 40]]) }, coalesceKey: 'volume:a', now: COALESCE_WINDOW_MS },
+      { label: 'Volume 30%', patch: { trackVolumes: new Map([['a', 30]]) }, coalesceKey: 'volume:a', now: 2 * COALESCE_WINDOW_MS }
+    ]);
+
+    expect(history.entries).toHaveLength(1);
+    expect(history.entries[0].label).toBe('Volume 30%');
+    expect(history.entries[0].before.trackVolumes).toEqual(new Map());
+    expect(history.entries[0].after.trackVolumes).toEqual(new Map([['a', 30]]));
+  });
+
+  it('drops the merged step when the change goes back to where it started', () => {
+    const { history } = record([
+      { label: 'Aspect ratio 4:3', patch: { aspectRatio: '4:3' } },
+      { label: 'Move clip', patch: { timelineItems: [item('a', { startTime: 1 })] }, coalesceKey: 'move:a' },
+      { label: 'Move clip', patch: { timelineItems: [] }, coalesceKey: 'move:a' }
+    ]);
+
+    expect(history.entries.map(entry => entry.label)).toEqual(['Aspect ratio 4:3']);
+    expect(history.index).toBe(1);
+  });
+
+  it('starts a new step after the window or with another key', () => {
+    const { history } = record([
+      { label: 'Volume a', patch: { trackVolumes: new Map([['a', 50]]) }, coalesceKey: 'volume:a', now: 0 },
+      { label: 'Volume a', patch: { trackVolumes: new Map([['a', 40]]) }, coalesceKey: 'volume:a', now: COALESCE_WINDOW_MS + 1 },
+      { label: 'Volume b', patch: { trackVolumes: new Map([['a', 40], ['b', 20]]) }, coalesceKey: 'volume:b', now: COALESCE_WINDOW_MS + 2 }
+    ]);
+
+    expect(history.entries.map(entry => entry.label)).toEqual(['Volume a', 'Volume a', 'Volume b']);
+  });
+
+  it('keeps only the most recent entries', () => {
+    const changes = Array.from({ length: MAX_HISTORY_ENTRIES + 5 }, (_, index) => ({
+      label: `Move ${index}`,
+      patch: { timelineItems: [item('a', { startTime: index + 1 })] }
+    }));
+    const { history } = record(changes);
+
+    expect(history.entries).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history.index).toBe(MAX_HISTORY_ENTRIES);
+    expect(history.entries[0].label).toBe('Move 5');
+  });
+
+  it('drops the redo branch when a new change is recorded after an undo', () => {
+    const { history, documents } = record([
+      { label: 'Aspect ratio 4:3', patch: { aspectRatio: '4:3' } },
+      { label: 'Frame rate 60 fps', patch: { exportFPS: 60 } }
+    ]);
+    const undone = jumpToStep(history, documents[2], 1);
+
+    const next = recordChange(undone.history, 'Frame rate 24 fps', undone.document, { ...undone.document, exportFPS: 24 });
+
+    expect(next.entries.map(entry => entry.label)).toEqual(['Aspect ratio 4:3', 'Frame rate 24 fps']);
+    expect(next.index).toBe(2);
+  });
+});
+
+describe('jumpToStep', () => {
+  const { history, documents } = record([
+    { label: 'Add clip', patch: { timelineItems: [item('a')] } },
+    { label: 'Aspect ratio 9:16', patch: { aspectRatio: '9:16' } },
+    { label: 'Move clip', patch: { timelineItems: [item('a', { startTime: 3 })] } }
+  ]);
+
+  it('undoes and redoes several steps at once', () => {
+    const undone = jumpToStep(history, documents[3], 0);
+    expect(undone.history.index).toBe(0);
+    expect(undone.document).toEqual(initialDocument);
+
+    const redone = jumpToStep(undone.history, undone.document, 2);
+    expect(redone.history.index).toBe(2);
+    expect(redone.document).toEqual(documents[2]);
+  });
+
+  it('restores removed clips and the original order', () => {
+    const clips = [item('a'), item('b'), item('c')];
+    const steps = record([
+      { label: 'Add clips', patch: { timelineItems: clips } },
+      { label: 'Reorder clips', patch: { timelineItems: [clips[2], clips[0], clips[1]] } },
+      { label: 'Delete clip', patch: { timelineItems: [clips[2], clips[1]] } }
+    ]);
+
+    const undone = jumpToStep(steps.history, steps.documents[3], 1);
+    expect(undone.document.timelineItems).toEqual(clips);
+
+    const redone = jumpToStep(undone.history, undone.document, 3);
+    expect(redone.document.timelineItems).toEqual([clips[2], clips[1]]);
+  });
+
+  it('clamps the target to the recorded steps', () => {
+    expect(jumpToStep(history, documents[3], 10).history.index).toBe(3);
+    expect(jumpToStep(history, documents[3], -1).document).toEqual(initialDocument);
+  });
+});
+
+describe('history serialization', () => {
+  it('restores the entries with the media and the volumes', () => {
+    const { history } = record([
+      { label: 'Add clip', patch: { timelineItems: [item('a')] } },
+      { label: 'Volume clip.mp4: 50%', patch: { trackVolumes: new Map([['a', 50]]) } }
+    ]);
+
+    const serialized = JSON.parse(JSON.stringify(serializeHistory(history)));
+    expect(serialized.entries[0].after.timelineItems.upserted[0]).toEqual({ id: 'a', mediaFileId: 'clip-media', startTime: 0, duration: 5, track: 0 });
+
+    const restored = deserializeHistory(serialized, [clipMedia]);
+    expect(restored.index).toBe(2);
+    expect(restored.entries[0].after.timelineItems).toEqual({ upserted: [item('a')], removedIds: [] });
+    expect(restored.entries[1].after.trackVolumes).toEqual(new Map([['a', 50]]));
+  });
+
+  it('drops items whose media is gone and clamps the index', () => {
+    const { history } = record([{ label: 'Add clip', patch: { timelineItems: [item('a')] } }]);
+    const serialized = { ...serializeHistory(history), index: 5 };
+
+    const restored = deserializeHistory(serialized, []);
+    expect(restored.index).toBe(1);
+    expect(restored.entries[0].after.timelineItems?.upserted).toEqual([]);
+  });
+});
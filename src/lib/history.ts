@@ -0,0 +1,312 @@
+import type { MediaFile, TimelineItem } from "@/components/VideoEditor";
+import type { Track } from "@/components/Timeline";
+import {
+  AspectRatio,
+  ExportFPS,
+  SerializedTimelineItem,
+  deserializeTimelineItems,
+  serializeTimelineItems
+} from "@/lib/project";
+
+// Oltre questo numero di operazioni le più vecchie vengono scartate
+export const MAX_HISTORY_ENTRIES = 100;
+
+// Modifiche con la stessa chiave entro questo intervallo diventano un solo passo (es. slider del volume)
+export const COALESCE_WINDOW_MS = 1000;
+
+// Parte dello stato dell'editor coperta da undo/redo
+export interface EditorDocument {
+  timelineItems: TimelineItem[];
+  tracks: Track[];
+  trackVolumes: Map<string, number>;
+  aspectRatio: AspectRatio;
+  exportFPS: ExportFPS;
+}
+
+export type DocumentPatch = Partial<EditorDocument>;
+
+// Elementi della timeline toccati da un passo, per id: quelli da sostituire o aggiungere e quelli da togliere.
+// order (gli id nell'ordine finale) c'è solo se non basta accodare gli elementi nuovi
+export interface TimelineItemsPatch {
+  upserted: TimelineItem[];
+  removedIds: string[];
+  order?: string[];
+}
+
+// Come DocumentPatch, ma la timeline porta solo gli elementi cambiati: la history cresce con la modifica, non col progetto
+export interface HistoryPatch extends Omit<DocumentPatch, 'timelineItems'> {
+  timelineItems?: TimelineItemsPatch;
+}
+
+// Ogni operazione salva solo i campi modificati, prima e dopo
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  before: HistoryPatch;
+  after: HistoryPatch;
+  coalesceKey?: string;
+}
+
+// index = numero di operazioni applicate (0 = stato iniziale)
+export interface EditorHistory {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+export interface RecordOptions {
+  coalesceKey?: string;
+  now?: number;
+}
+
+export interface SerializedTimelineItemsPatch extends Omit<TimelineItemsPatch, 'upserted'> {
+  upserted: SerializedTimelineItem[];
+}
+
+export interface SerializedHistoryPatch {
+  timelineItems?: SerializedTimelineItemsPatch;
+  tracks?: Track[];
+  trackVolumes?: [string, number][];
+  aspectRatio?: AspectRatio;
+  exportFPS?: ExportFPS;
+}
+
+export interface SerializedHistoryEntry extends Omit<HistoryEntry, 'before' | 'after'> {
+  before: SerializedHistoryPatch;
+  after: SerializedHistoryPatch;
+}
+
+export interface SerializedHistory {
+  entries: SerializedHistoryEntry[];
+  index: number;
+}
+
+// La timeline ha un confronto per elemento a parte
+const DOCUMENT_KEYS: Exclude<keyof EditorDocument, 'timelineItems'>[] = ['tracks', 'trackVolumes', 'aspectRatio', 'exportFPS'];
+
+export const createHistory = (): EditorHistory => ({ entries: [], index: 0 });
+
+export const canUndo = (history: EditorHistory) => history.index > 0;
+
+export const canRedo = (history: EditorHistory) => history.index < history.entries.length;
+
+const shallowEqual = <T extends object>(a: T, b: T) => {
+  const keys = Object.keys(a) as (keyof T)[];
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
+
+const tracksEqual = (a: Track[], b: Track[]) => {
+  return a.length === b.length && a.every((track, index) => shallowEqual(track, b[index]));
+};
+
+const volumesEqual = (a: Map<string, number>, b: Map<string, number>) => {
+  return a.size === b.size && Array.from(a).every(([id, volume]) => b.get(id) === volume);
+};
+
+const fieldEqual = <K extends keyof EditorDocument>(key: K, a: EditorDocument[K], b: EditorDocument[K]) => {
+  if (a === b) return true;
+  switch (key) {
+    case 'tracks':
+      return tracksEqual(a as Track[], b as Track[]);
+    case 'trackVolumes':
+      return volumesEqual(a as Map<string, number>, b as Map<string, number>);
+    default:
+      return false;
+  }
+};
+
+const sameIds = (a: TimelineItem[], b: TimelineItem[]) => {
+  return a.length === b.length && a.every((item, index) => item.id === b[index].id);
+};
+
+export const applyItemsPatch = (items: TimelineItem[], patch: TimelineItemsPatch): TimelineItem[] => {
+  const removed = new Set(patch.removedIds);
+  const upserted = new Map(patch.upserted.map(item => [item.id, item]));
+  const result = items.filter(item => !removed.has(item.id)).map(item => upserted.get(item.id) ?? item);
+  const present = new Set(result.map(item => item.id));
+  result.push(...patch.upserted.filter(item => !present.has(item.id)));
+  if (!patch.order) return result;
+
+  const byId = new Map(result.map(item => [item.id, item]));
+  return patch.order.map(id => byId.get(id)).filter((item): item is TimelineItem => !!item);
+};
+
+// Patch che porta la timeline da from a to: gli elementi di to nuovi o cambiati, gli id spariti
+const getItemsPatch = (from: TimelineItem[], to: TimelineItem[]): TimelineItemsPatch => {
+  const fromById = new Map(from.map(item => [item.id, item]));
+  const toIds = new Set(to.map(item => item.id));
+  const patch: TimelineItemsPatch = {
+    upserted: to.filter(item => {
+      const previous = fromById.get(item.id);
+      return !previous || (previous !== item && !shallowEqual(previous, item));
+    }),
+    removedIds: from.filter(item => !toIds.has(item.id)).map(item => item.id)
+  };
+  return sameIds(applyItemsPatch(from, patch), to) ? patch : { ...patch, order: to.map(item => item.id) };
+};
+
+const isEmptyItemsPatch = (patch: TimelineItemsPatch) => {
+  return patch.upserted.length === 0 && patch.removedIds.length === 0 && !patch.order;
+};
+
+// Confronta due documenti e restituisce solo i campi cambiati (null se identici); della timeline
+// tiene solo gli elementi aggiunti, tolti o modificati
+export const diffDocuments = (
+  before: EditorDocument,
+  after: EditorDocument
+): { before: HistoryPatch; after: HistoryPatch } | null => {
+  const beforePatch: HistoryPatch = {};
+  const afterPatch: HistoryPatch = {};
+
+  DOCUMENT_KEYS.forEach(key => {
+    if (!fieldEqual(key, before[key], after[key])) {
+      (beforePatch as Record<string, unknown>)[key] = before[key];
+      (afterPatch as Record<string, unknown>)[key] = after[key];
+    }
+  });
+
+  if (before.timelineItems !== after.timelineItems) {
+    const forward = getItemsPatch(before.timelineItems, after.timelineItems);
+    if (!isEmptyItemsPatch(forward)) {
+      beforePatch.timelineItems = getItemsPatch(after.timelineItems, before.timelineItems);
+      afterPatch.timelineItems = forward;
+    }
+  }
+
+  return Object.keys(afterPatch).length > 0 ? { before: beforePatch, after: afterPatch } : null;
+};
+
+export const applyPatch = (document: EditorDocument, patch: DocumentPatch): EditorDocument => ({
+  ...document,
+  ...patch
+});
+
+export const applyHistoryPatch = (document: EditorDocument, { timelineItems, ...rest }: HistoryPatch): EditorDocument => ({
+  ...document,
+  ...rest,
+  ...(timelineItems && { timelineItems: applyItemsPatch(document.timelineItems, timelineItems) })
+});
+
+// Registra un'operazione: scarta il ramo di redo e unisce le modifiche consecutive con la stessa chiave
+export const recordChange = (
+  history: EditorHistory,
+  label: string,
+  before: EditorDocument,
+  after: EditorDocument,
+  { coalesceKey, now = Date.now() }: RecordOptions = {}
+): EditorHistory => {
+  const diff = diffDocuments(before, after);
+  if (!diff) return history;
+
+  const entries = history.entries.slice(0, history.index);
+  const last = entries[entries.length - 1];
+
+  if (coalesceKey && last?.coalesceKey === coalesceKey && now - last.timestamp <= COALESCE_WINDOW_MS) {
+    // before è lo stato dopo l'ultimo passo: il passo unito va dallo stato precedente a after.
+    // Se la modifica torna al punto di partenza il passo sparisce
+    const merged = diffDocuments(applyHistoryPatch(before, last.before), after);
+    if (merged) {
+      entries[entries.length - 1] = { ...last, label, timestamp: now, ...merged };
+    } else {
+      entries.pop();
+    }
+    return { entries, index: entries.length };
+  }
+
+  entries.push({
+    id: `history-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    label,
+    timestamp: now,
+    before: diff.before,
+    after: diff.after,
+    coalesceKey
+  });
+
+  const overflow = Math.max(0, entries.length - MAX_HISTORY_ENTRIES);
+  const trimmed = overflow > 0 ? entries.slice(overflow) : entries;
+  return { entries: trimmed, index: trimmed.length };
+};
+
+// Porta il documento al passo indicato applicando gli undo/redo necessari
+export const jumpToStep = (
+  history: EditorHistory,
+  document: EditorDocument,
+  targetIndex: number
+): { history: EditorHistory; document: EditorDocument } => {
+  const target = Math.max(0, Math.min(targetIndex, history.entries.length));
+  let result = document;
+
+  for (let i = history.index - 1; i >= target; i--) {
+    result = applyHistoryPatch(result, history.entries[i].before);
+  }
+  for (let i = history.index; i < target; i++) {
+    result = applyHistoryPatch(result, history.entries[i].after);
+  }
+
+  return { history: { ...history, index: target }, document: result };
+};
+
+// Elementi della timeline che undo e redo possono riportare (oltre a quelli già nel documento)
+export const getHistoryItems = (history: EditorHistory): TimelineItem[] => {
+  return history.entries.flatMap(entry => [
+    ...(entry.before.timelineItems?.upserted ?? []),
+    ...(entry.after.timelineItems?.upserted ?? [])
+  ]);
+};
+
+// Applica una trasformazione a tutti gli elementi della timeline salvati nella history (es. relink dei media)
+export const mapHistoryItems = (
+  history: EditorHistory,
+  transform: (items: TimelineItem[]) => TimelineItem[]
+): EditorHistory => {
+  const mapPatch = (patch: HistoryPatch): HistoryPatch => patch.timelineItems
+    ? { ...patch, timelineItems: { ...patch.timelineItems, upserted: transform(patch.timelineItems.upserted) } }
+    : patch;
+
+  return {
+    ...history,
+    entries: history.entries.map(entry => ({
+      ...entry,
+      before: mapPatch(entry.before),
+      after: mapPatch(entry.after)
+    }))
+  };
+};
+
+const serializePatch = (patch: HistoryPatch): SerializedHistoryPatch => {
+  const { timelineItems, trackVolumes, ...rest } = patch;
+  return {
+    ...rest,
+    ...(timelineItems && { timelineItems: { ...timelineItems, upserted: serializeTimelineItems(timelineItems.upserted) } }),
+    ...(trackVolumes && { trackVolumes: Array.from(trackVolumes.entries()) })
+  };
+};
+
+const deserializePatch = (patch: SerializedHistoryPatch, mediaFiles: MediaFile[]): HistoryPatch => {
+  const { timelineItems, trackVolumes, ...rest } = patch;
+  return {
+    ...rest,
+    ...(timelineItems && {
+      timelineItems: { ...timelineItems, upserted: deserializeTimelineItems(timelineItems.upserted, mediaFiles) }
+    }),
+    ...(trackVolumes && { trackVolumes: new Map(trackVolumes) })
+  };
+};
+
+export const serializeHistory = (history: EditorHistory): SerializedHistory => ({
+  index: history.index,
+  entries: history.entries.map(entry => ({
+    ...entry,
+    before: serializePatch(entry.before),
+    after: serializePatch(entry.after)
+  }))
+});
+
+export const deserializeHistory = (history: SerializedHistory, mediaFiles: MediaFile[]): EditorHistory => ({
+  index: Math.min(history.index, history.entries.length),
+  entries: history.entries.map(entry => ({
+    ...entry,
+    before: deserializePatch(entry.before, mediaFiles),
+    after: deserializePatch(entry.after, mediaFiles)
+  }))
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { TimelineItem } from "@/components/VideoEditor";
+import { splitItemAt } from "./timeline";
+import {
+  Keyframe,
+  cubicBezier,
+  evaluateKeyframes,
+  getClipParameterValue,
+  getKeyframeTimes,
+  moveKeyframesAt,
+  removeKeyframesAt,
+  setKeyframe
+} from "./keyframes";
+import { calculateClipEffects } from "./render/effects";
+
+const keyframe = (time: number, value: number, easing: Keyframe['easing'] = 'linear'): Keyframe => ({
+  id: `k-${time}`,
+  time,
+  value,
+  easing
+});
+
+const clip = (overrides: Partial<TimelineItem> = {}): TimelineItem => ({
+  id: 'clip',
+  mediaFile: { id: 'media', name: 'clip.mp4', type: 'video', url: 'blob:clip', duration: 20 },
+  startTime: 10,
+  duration: 10,
+  track: 0,
+  ...overrides
+});
+
+describe('evaluateKeyframes', () => {
+  it('interpolates between keyframes and holds outside them', () => {
+    const keyframes = [keyframe(1, 0), keyframe(3, 100)];
+
+    expect(evaluateKeyframes(keyframes, 0)).toBe(0);
+    expect(evaluateKeyframes(keyframes, 2)).toBe(50);
+    expect(evaluateKeyframes(keyframes, 5)).toBe(100);
+    expect(evaluateKeyframes([], 2)).toBeUndefined();
+  });
+
+  it('applies the easing of the outgoing keyframe', () => {
+    expect(evaluateKeyframes([keyframe(0, 0, 'hold'), keyframe(2, 100)], 1.9)).toBe(0);
+    expect(evaluateKeyframes([keyframe(0, 0, 'ease-in'), keyframe(2, 100)], 1)!).toBeLessThan(50);
+    expect(evaluateKeyframes([keyframe(0, 0, 'ease-out'), keyframe(2, 100)], 1)!).toBeGreaterThan(50);
+  });
+
+  it('solves cubic bezier curves', () => {
+    expect(cubicBezier([0, 0, 1, 1], 0.3)).toBeCloseTo(0.3);
+    expect(cubicBezier([0.42, 0, 0.58, 1], 0.5)).toBeCloseTo(0.5);
+    expect(cubicBezier([0.25, 0.1, 0.25, 1], 0.25)).toBeCloseTo(0.4085, 3);
+  });
+});
+
+describe('clip keyframes', () => {
+  it('uses times relative to the clip so animations move with it', () => {
+    let items = setKeyframe([clip()], 'clip', 'opacity', 0, 0);
+    items = setKeyframe(items, 'clip', 'opacity', 2, 100);
+
+    expect(getClipParameterValue(items[0], 'opacity', 11)).toBe(50);
+    expect(getClipParameterValue({ ...items[0], startTime: 30 }, 'opacity', 31)).toBe(50);
+    expect(getClipParameterValue(items[0], 'scale', 11)).toBe(100);
+  });
+
+  it('updates the keyframe already at the same time instead of adding one', () => {
+    let items = setKeyframe([clip()], 'clip', 'scale', 1, 120);
+    items = setKeyframe(items, 'clip', 'scale', 1.001, 150);
+
+    expect(items[0].keyframes!.scale.map(k => k.value)).toEqual([150]);
+  });
+
+  it('moves and removes every keyframe at a diamond', () => {
+    let items = setKeyframe([clip()], 'clip', 'opacity', 1, 50);
+    items = setKeyframe(items, 'clip', 'rotation', 1, 90);
+    items = setKeyframe(items, 'clip', 'rotation', 4, 0);
+
+    items = moveKeyframesAt(items, 'clip', 1, 2);
+    expect(getKeyframeTimes(items[0])).toEqual([2, 4]);
+
+    items = removeKeyframesAt(items, 'clip', 2);
+    expect(Object.keys(items[0].keyframes!)).toEqual(['rotation']);
+  });
+
+  it('keeps the animation continuous across a split', () => {
+    const items = [clip({ keyframes: { opacity: [keyframe(0, 0), keyframe(4, 100)] } })];
+    const [first, second] = splitItemAt(items, 'clip', 12);
+
+    expect(getClipParameterValue(first, 'opacity', 11)).toBe(25);
+    expect(getClipParameterValue(first, 'opacity', 12)).toBe(50);
+    expect(getClipParameterValue(second, 'opacity', 12)).toBe(50);
+    expect(getClipParameterValue(second, 'opacity', 13)).toBe(75);
+  });
+
+  it('animates clip effect intensity instead of the linear ramp', () => {
+    const item = clip({
+      effects: [{ id: 'zoom', type: 'zoom-in', intensity: 100 }],
+      keyframes: { 'effect:zoom': [keyframe(0, 0), keyframe(10, 50)] }
+    });
+
+    expect(calculateClipEffects(item, 10).zoomScale).toBe(1);
+    expect(calculateClipEffects(item, 20).zoomScale).toBeCloseTo(2);
+  });
+});
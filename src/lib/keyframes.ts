@@ -0,0 +1,343 @@
+import type { MediaFile, TimelineItem } from "@/components/VideoEditor";
+import { ClipTransform, getTransform, setItemTransform } from "@/lib/render/transform";
+
+// Animazione a keyframe dei parametri numerici di un clip. I tempi dei keyframe sono relativi
+// all'inizio del clip, così l'animazione si sposta insieme al clip sulla timeline
+
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'bezier' | 'hold';
+
+// Punti di controllo di una cubic-bezier CSS: x1, y1, x2, y2
+export type BezierHandles = [number, number, number, number];
+
+export interface Keyframe {
+  id: string;
+  time: number; // Secondi dall'inizio del clip
+  value: number;
+  easing: Easing; // Curva verso il keyframe successivo
+  bezier?: BezierHandles; // Solo con easing 'bezier'
+}
+
+// Keyframe per parametro, ordinati per tempo
+export type KeyframeTracks = Record<string, Keyframe[]>;
+
+export interface AnimatableParameter {
+  id: string;
+  name: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+  unit: string;
+  mediaTypes: MediaFile['type'][]; // Tipi di clip che hanno questo parametro
+}
+
+export const CLIP_PARAMETERS: AnimatableParameter[] = [
+  { id: 'opacity', name: 'Opacity', min: 0, max: 100, step: 1, defaultValue: 100, unit: '%', mediaTypes: ['video', 'image'] },
+  { id: 'scale', name: 'Scale', min: 10, max: 400, step: 1, defaultValue: 100, unit: '%', mediaTypes: ['video', 'image'] },
+  { id: 'positionX', name: 'Position X', min: -1280, max: 1280, step: 1, defaultValue: 0, unit: 'px', mediaTypes: ['video', 'image'] },
+  { id: 'positionY', name: 'Position Y', min: -1280, max: 1280, step: 1, defaultValue: 0, unit: 'px', mediaTypes: ['video', 'image'] },
+  { id: 'rotation', name: 'Rotation', min: -360, max: 360, step: 1, defaultValue: 0, unit: '°', mediaTypes: ['video', 'image'] },
+  { id: 'blur', name: 'Blur', min: 0, max: 20, step: 0.5, defaultValue: 0, unit: 'px', mediaTypes: ['video', 'image'] },
+  { id: 'volume', name: 'Volume', min: 0, max: 200, step: 1, defaultValue: 100, unit: '%', mediaTypes: ['video', 'audio'] }
+];
+
+export const EASINGS: { type: Easing; name: string }[] = [
+  { type: 'linear', name: 'Linear' },
+  { type: 'ease-in', name: 'Ease In' },
+  { type: 'ease-out', name: 'Ease Out' },
+  { type: 'ease-in-out', name: 'Ease In/Out' },
+  { type: 'bezier', name: 'Bezier' },
+  { type: 'hold', name: 'Hold' }
+];
+
+export const DEFAULT_BEZIER: BezierHandles = [0.25, 0.1, 0.25, 1];
+
+const EASING_CURVES: Partial<Record<Easing, BezierHandles>> = {
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1]
+};
+
+// Due keyframe più vicini di così sono lo stesso keyframe (mezzo fotogramma a 60 fps)
+export const KEYFRAME_TIME_TOLERANCE = 1 / 120;
+
+const EFFECT_PARAMETER_PREFIX = 'effect:';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const getClipParameters = (item: TimelineItem) => {
+  return CLIP_PARAMETERS.filter(parameter => parameter.mediaTypes.includes(item.mediaFile.type));
+};
+
+export const getClipParameter = (parameterId: string) => {
+  return CLIP_PARAMETERS.find(parameter => parameter.id === parameterId);
+};
+
+// L'intensità degli effetti di clip è animabile come parametro del clip che la contiene
+export const getEffectParameterId = (effectId: string) => `${EFFECT_PARAMETER_PREFIX}${effectId}`;
+
+// Valore della cubic-bezier (0,0)-(x1,y1)-(x2,y2)-(1,1) all'ascissa t
+export const cubicBezier = ([x1, y1, x2, y2]: BezierHandles, t: number) => {
+  const curve = (a: number, b: number, s: number) => 3 * a * s * (1 - s) ** 2 + 3 * b * s * s * (1 - s) + s ** 3;
+  const slope = (a: number, b: number, s: number) => 3 * a * (1 - s) ** 2 + 6 * (b - a) * s * (1 - s) + 3 * (1 - b) * s * s;
+
+  // Newton, con bisezione quando la pendenza è troppo piatta
+  let s = t;
+  for (let i = 0; i < 8; i++) {
+    const error = curve(x1, x2, s) - t;
+    if (Math.abs(error) < 1e-6) return curve(y1, y2, s);
+    const derivative = slope(x1, x2, s);
+    if (Math.abs(derivative) < 1e-6) break;
+    s = clamp(s - error / derivative, 0, 1);
+  }
+
+  let low = 0;
+  let high = 1;
+  s = t;
+  for (let i = 0; i < 30; i++) {
+    const x = curve(x1, x2, s);
+    if (Math.abs(x - t) < 1e-6) break;
+    if (x < t) low = s;
+    else high = s;
+    s = (low + high) / 2;
+  }
+  return curve(y1, y2, s);
+};
+
+// Avanzamento 0-1 secondo la curva; usato anche fuori dai keyframe (es. la curva dei fade)
+export const getEasedProgress = (easing: Easing, t: number, bezier: BezierHandles = DEFAULT_BEZIER) => {
+  const progress = clamp(t, 0, 1);
+  switch (easing) {
+    case 'hold':
+      return 0;
+    case 'linear':
+      return progress;
+    case 'bezier':
+      return cubicBezier(bezier, progress);
+    default:
+      return cubicBezier(EASING_CURVES[easing] ?? DEFAULT_BEZIER, progress);
+  }
+};
+
+export const applyEasing = (keyframe: Keyframe, t: number) => getEasedProgress(keyframe.easing, t, keyframe.bezier);
+
+// Valore animato al tempo locale indicato; undefined se il parametro non ha keyframe.
+// Prima del primo e dopo l'ultimo keyframe il valore resta fermo
+export const evaluateKeyframes = (keyframes: Keyframe[] | undefined, localTime: number): number | undefined => {
+  if (!keyframes || keyframes.length === 0) return undefined;
+
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (localTime <= first.time) return first.value;
+  if (localTime >= last.time) return last.value;
+
+  const nextIndex = keyframes.findIndex(keyframe => keyframe.time > localTime);
+  const from = keyframes[nextIndex - 1];
+  const to = keyframes[nextIndex];
+  const eased = applyEasing(from, (localTime - from.time) / (to.time - from.time));
+  return from.value + (to.value - from.value) * eased;
+};
+
+export const hasKeyframes = (item: TimelineItem, parameterId?: string) => {
+  if (!item.keyframes) return false;
+  if (parameterId) return (item.keyframes[parameterId]?.length ?? 0) > 0;
+  return Object.values(item.keyframes).some(keyframes => keyframes.length > 0);
+};
+
+// Valore del parametro al tempo della timeline, o il fallback se il parametro non è animato
+export const getParameterValue = (item: TimelineItem, parameterId: string, time: number, fallback: number) => {
+  return evaluateKeyframes(item.keyframes?.[parameterId], time - item.startTime) ?? fallback;
+};
+
+// Parametri che senza keyframe prendono il valore dalla trasformazione del clip
+const TRANSFORM_FIELDS: Record<string, keyof Pick<ClipTransform, 'x' | 'y' | 'scale' | 'rotation'>> = {
+  positionX: 'x',
+  positionY: 'y',
+  scale: 'scale',
+  rotation: 'rotation'
+};
+
+// Valore del parametro quando non è animato
+export const getStaticValue = (item: TimelineItem, parameter: AnimatableParameter) => {
+  const field = TRANSFORM_FIELDS[parameter.id];
+  if (field) return getTransform(item)[field];
+  if (parameter.id === 'opacity') return item.opacity ?? parameter.defaultValue;
+  return parameter.defaultValue;
+};
+
+// Come getParameterValue, con il valore statico del parametro del clip
+export const getClipParameterValue = (item: TimelineItem, parameterId: string, time: number) => {
+  const parameter = getClipParameter(parameterId);
+  return getParameterValue(item, parameterId, time, parameter ? getStaticValue(item, parameter) : 0);
+};
+
+export const findKeyframeAt = (keyframes: Keyframe[] | undefined, localTime: number) => {
+  return keyframes?.find(keyframe => Math.abs(keyframe.time - localTime) <= KEYFRAME_TIME_TOLERANCE);
+};
+
+// Tempi distinti con almeno un keyframe, per i rombi sul clip della timeline
+export const getKeyframeTimes = (item: TimelineItem) => {
+  const times: number[] = [];
+  Object.values(item.keyframes ?? {}).forEach(keyframes => {
+    keyframes.forEach(keyframe => {
+      if (!times.some(time => Math.abs(time - keyframe.time) <= KEYFRAME_TIME_TOLERANCE)) times.push(keyframe.time);
+    });
+  });
+  return times.sort((a, b) => a - b);
+};
+
+const sortKeyframes = (keyframes: Keyframe[]) => [...keyframes].sort((a, b) => a.time - b.time);
+
+// Sostituisce i keyframe di un parametro (lista vuota = parametro non più animato)
+export const setParameterKeyframes = (
+  items: TimelineItem[],
+  itemId: string,
+  parameterId: string,
+  keyframes: Keyframe[]
+): TimelineItem[] => {
+  return items.map(item => {
+    if (item.id !== itemId) return item;
+
+    const { [parameterId]: _previous, ...others } = item.keyframes ?? {};
+    const tracks: KeyframeTracks = keyframes.length > 0 ? { ...others, [parameterId]: sortKeyframes(keyframes) } : others;
+    if (Object.keys(tracks).length === 0) {
+      const { keyframes: _removed, ...rest } = item;
+      return rest;
+    }
+    return { ...item, keyframes: tracks };
+  });
+};
+
+const createKeyframeId = () => `keyframe-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Aggiunge un keyframe al tempo locale indicato, o aggiorna il valore di quello già presente
+export const setKeyframe = (
+  items: TimelineItem[],
+  itemId: string,
+  parameterId: string,
+  localTime: number,
+  value: number
+): TimelineItem[] => {
+  const item = items.find(i => i.id === itemId);
+  if (!item) return items;
+
+  const keyframes = item.keyframes?.[parameterId] ?? [];
+  const existing = findKeyframeAt(keyframes, localTime);
+  const time = clamp(localTime, 0, item.duration);
+  const updated = existing
+    ? keyframes.map(keyframe => keyframe.id === existing.id ? { ...keyframe, value } : keyframe)
+    : [...keyframes, { id: createKeyframeId(), time, value, easing: 'linear' as Easing }];
+
+  return setParameterKeyframes(items, itemId, parameterId, updated);
+};
+
+// Modifica un parametro al tempo della timeline: se è animato aggiunge o aggiorna il keyframe,
+// altrimenti cambia il valore statico (trasformazione, opacità o intensità dell'effetto) quando esiste
+export const setParameterValue = (
+  items: TimelineItem[],
+  itemId: string,
+  parameterId: string,
+  time: number,
+  value: number
+): TimelineItem[] => {
+  const item = items.find(i => i.id === itemId);
+  if (!item) return items;
+
+  const field = TRANSFORM_FIELDS[parameterId];
+  if (!hasKeyframes(item, parameterId) && field) {
+    return setItemTransform(items, itemId, { [field]: value });
+  }
+  if (!hasKeyframes(item, parameterId) && parameterId === 'opacity') {
+    return items.map(i => i.id === itemId ? { ...i, opacity: value } : i);
+  }
+  if (!hasKeyframes(item, parameterId) && parameterId.startsWith(EFFECT_PARAMETER_PREFIX)) {
+    const effectId = parameterId.slice(EFFECT_PARAMETER_PREFIX.length);
+    return items.map(i => i.id !== itemId ? i : {
+      ...i,
+      effects: (i.effects ?? []).map(effect => effect.id === effectId ? { ...effect, intensity: value } : effect)
+    });
+  }
+  // Elementi 'effect' della timeline: il valore statico è tra i parametri del plugin
+  if (!hasKeyframes(item, parameterId) && item.mediaFile.type === 'effect') {
+    return items.map(i => i.id === itemId ? { ...i, effectParams: { ...i.effectParams, [parameterId]: value } } : i);
+  }
+  return setKeyframe(items, itemId, parameterId, time - item.startTime, value);
+};
+
+export const removeKeyframe = (items: TimelineItem[], itemId: string, parameterId: string, keyframeId: string) => {
+  const item = items.find(i => i.id === itemId);
+  if (!item) return items;
+  return setParameterKeyframes(
+    items,
+    itemId,
+    parameterId,
+    (item.keyframes?.[parameterId] ?? []).filter(keyframe => keyframe.id !== keyframeId)
+  );
+};
+
+export const updateKeyframe = (
+  items: TimelineItem[],
+  itemId: string,
+  parameterId: string,
+  keyframeId: string,
+  patch: Partial<Omit<Keyframe, 'id'>>
+) => {
+  const item = items.find(i => i.id === itemId);
+  if (!item) return items;
+  return setParameterKeyframes(
+    items,
+    itemId,
+    parameterId,
+    (item.keyframes?.[parameterId] ?? []).map(keyframe => keyframe.id === keyframeId ? { ...keyframe, ...patch } : keyframe)
+  );
+};
+
+// Sposta tutti i keyframe che cadono a un certo tempo (un rombo della timeline) restando dentro il clip
+export const moveKeyframesAt = (items: TimelineItem[], itemId: string, fromTime: number, toTime: number): TimelineItem[] => {
+  return items.map(item => {
+    if (item.id !== itemId || !item.keyframes) return item;
+    const time = clamp(toTime, 0, item.duration);
+    const tracks: KeyframeTracks = {};
+    Object.entries(item.keyframes).forEach(([parameterId, keyframes]) => {
+      tracks[parameterId] = sortKeyframes(keyframes.map(keyframe =>
+        Math.abs(keyframe.time - fromTime) <= KEYFRAME_TIME_TOLERANCE ? { ...keyframe, time } : keyframe
+      ));
+    });
+    return { ...item, keyframes: tracks };
+  });
+};
+
+export const removeKeyframesAt = (items: TimelineItem[], itemId: string, localTime: number): TimelineItem[] => {
+  const item = items.find(i => i.id === itemId);
+  if (!item?.keyframes) return items;
+  return Object.entries(item.keyframes).reduce((result, [parameterId, keyframes]) => setParameterKeyframes(
+    result,
+    itemId,
+    parameterId,
+    keyframes.filter(keyframe => Math.abs(keyframe.time - localTime) > KEYFRAME_TIME_TOLERANCE)
+  ), items);
+};
+
+// Divide le animazioni in due al tempo locale indicato. Ai bordi del taglio si aggiunge un keyframe
+// con il valore corrente, così entrambe le parti partono e finiscono dove l'originale passava
+export const splitKeyframes = (tracks: KeyframeTracks, localTime: number): [KeyframeTracks, KeyframeTracks] => {
+  const first: KeyframeTracks = {};
+  const second: KeyframeTracks = {};
+
+  Object.entries(tracks).forEach(([parameterId, keyframes]) => {
+    if (keyframes.length === 0) return;
+    const value = evaluateKeyframes(keyframes, localTime)!;
+    const boundary = findKeyframeAt(keyframes, localTime);
+    const before = keyframes.filter(keyframe => keyframe.time < localTime - KEYFRAME_TIME_TOLERANCE);
+    const after = keyframes.filter(keyframe => keyframe.time > localTime + KEYFRAME_TIME_TOLERANCE);
+    const easing = boundary?.easing ?? before[before.length - 1]?.easing ?? 'linear';
+
+    first[parameterId] = [...before, { id: createKeyframeId(), time: localTime, value, easing }];
+    second[parameterId] = [
+      { id: createKeyframeId(), time: 0, value, easing, bezier: boundary?.bezier ?? before[before.length - 1]?.bezier },
+      ...after.map(keyframe => ({ ...keyframe, time: keyframe.time - localTime }))
+    ];
+  });
+
+  return [first, second];
+};
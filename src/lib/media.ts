@@ -0,0 +1,80 @@
+import type { MediaFile } from "@/components/VideoEditor";
+
+export type LoadableMediaType = Exclude<MediaFile['type'], 'effect'>;
+
+export interface MediaProbeResult {
+  ok: boolean;
+  duration: number;
+  error?: string;
+}
+
+export const getMediaTypeFromFile = (file: File): LoadableMediaType | null => {
+  if (file.type.startsWith('video/')) return 'video';
+  if (file.type.startsWith('audio/')) return 'audio';
+  if (file.type.startsWith('image/')) return 'image';
+  return null;
+};
+
+// Verifica che una sorgente sia caricabile (blob URL revocati, file spostati, ecc.)
+export const probeMediaUrl = (
+  url: string,
+  type: LoadableMediaType,
+  timeoutMs = 8000
+): Promise<MediaProbeResult> => {
+  if (!url) {
+    return Promise.resolve({ ok: false, duration: 0, error: 'No source linked' });
+  }
+
+  return new Promise((resolve) => {
+    let settled = false;
+    const finish = (result: MediaProbeResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      resolve(result);
+    };
+
+    const timeout = setTimeout(() => {
+      finish({ ok: false, duration: 0, error: `Timed out after ${timeoutMs / 1000}s` });
+    }, timeoutMs);
+
+    if (type === 'image') {
+      const img = new Image();
+      img.onload = () => finish({ ok: true, duration: 0 });
+      img.onerror = () => finish({ ok: false, duration: 0, error: 'Image could not be decoded' });
+      img.src = url;
+      return;
+    }
+
+    const element = document.createElement(type);
+    element.preload = 'metadata';
+    element.onloadedmetadata = () => {
+      finish({ ok: true, duration: element.duration || 0 });
+      element.removeAttribute('src');
+      element.load();
+    };
+    element.onerror = () => {
+      const code = element.error?.code;
+      finish({
+        ok: false,
+        duration: 0,
+        error: code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED ? 'Source unavailable or unsupported' : 'Failed to load'
+      });
+    };
+    element.src = url;
+  });
+};
+
+// Durata di un file locale (0 per le immagini)
+export const probeFileDuration = async (file: File): Promise<number> => {
+  const type = getMediaTypeFromFile(file);
+  if (!type || type === 'image') return 0;
+
+  const url = URL.createObjectURL(file);
+  try {
+    const result = await probeMediaUrl(url, type);
+    return result.duration;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
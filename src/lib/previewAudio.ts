@@ -0,0 +1,60 @@
+// Audio della preview: HTMLMediaElement.volume non va oltre 1, quindi ogni <video>/<audio> passa
+// da un GainNode e il volume del mixer fino al 200% si sente come nell'export
+
+let context: AudioContext | null = null;
+const gainNodes = new WeakMap<HTMLMediaElement, { source: MediaElementAudioSourceNode; gain: GainNode }>();
+
+const getContext = () => {
+  if (!context && typeof AudioContext !== 'undefined') {
+    context = new AudioContext();
+  }
+  return context;
+};
+
+const connectElement = (element: HTMLMediaElement) => {
+  const existing = gainNodes.get(element);
+  if (existing) return existing.gain;
+
+  const audioContext = getContext();
+  if (!audioContext) return null;
+
+  try {
+    const source = audioContext.createMediaElementSource(element);
+    const gain = audioContext.createGain();
+    source.connect(gain);
+    gain.connect(audioContext.destination);
+    gainNodes.set(element, { source, gain });
+    element.volume = 1;
+    return gain;
+  } catch (error) {
+    console.warn('Web Audio not available for preview audio:', error);
+    return null;
+  }
+};
+
+// gain = guadagno dell'elemento per il volume del player (0 = muto, 2 = +6 dB)
+export const setPreviewGain = (element: HTMLMediaElement, gain: number) => {
+  const value = Math.max(0, gain);
+  const node = connectElement(element);
+  if (node) {
+    node.gain.value = value;
+  } else {
+    // Senza Web Audio resta solo il volume dell'elemento: il boost non si sente
+    element.volume = Math.min(1, value);
+  }
+};
+
+// Il contesto nasce sospeso finché l'utente non interagisce: va ripreso all'avvio della riproduzione
+export const resumePreviewAudio = () => {
+  if (context?.state === 'suspended') {
+    context.resume().catch(error => console.warn('Failed to resume preview audio:', error));
+  }
+};
+
+export const releasePreviewAudio = (element: HTMLMediaElement) => {
+  const nodes = gainNodes.get(element);
+  if (!nodes) return;
+  nodes.source.disconnect();
+  nodes.gain.disconnect();
+  gainNodes.delete(element);
+};
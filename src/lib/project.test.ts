@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { PROJECT_FILE_VERSION, PROJECT_FORMAT, collectProjectMedia, deserializeProject, migrateProject } from './project';
+import type { MediaFile } from '@/components/VideoEditor';
+import type { ProjectFile, SerializedTimelineItem } from './project';
+
+const effectItem = (id: string, overrides: Partial<SerializedTimelineItem> = {}): SerializedTimelineItem => ({
+  id,
+  mediaFileId: 'blur',
+  startTime: 0,
+  duration: 2,
+  track: 1,
+  ...overrides
+});
+
+const createProject = (timelineItems: SerializedTimelineItem[]): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_FILE_VERSION,
+  savedAt: '2026-01-01T00:00:00.000Z',
+  media: [{
+    id: 'blur',
+    name: 'Blur',
+    type: 'effect',
+    duration: 2,
+    effectType: 'blur'
+  }],
+  timelineItems,
+  tracks: [],
+  trackVolumes: [],
+  aspectRatio: '16:9',
+  exportFPS: 30,
+  markers: { inPoint: null, outPoint: null },
+  luts: []
+});
+
+describe('deserializeProject', () => {
+  it('restores the in/out markers', () => {
+    const markers = { inPoint: 1, outPoint: null };
+    expect(deserializeProject({ ...createProject([]), markers }).state.markers).toEqual(markers);
+  });
+});
+
+describe('collectProjectMedia', () => {
+  it('includes media used only on the timeline, once', () => {
+    const library: MediaFile = { id: 'library', name: 'a.mp4', type: 'video', url: 'blob:a', duration: 5 };
+    const removed: MediaFile = { id: 'removed', name: 'b.mp4', type: 'video', url: 'blob:b', duration: 5 };
+    const timelineItems = [library, removed, removed].map((mediaFile, index) => ({
+      id: `item-${index}`,
+      mediaFile,
+      startTime: index * 5,
+      duration: 5,
+      track: 0
+    }));
+
+    expect(collectProjectMedia([library], timelineItems)).toEqual([library, removed]);
+  });
+});
+
+describe('migrateProject', () => {
+  it('accepts a complete project file', () => {
+    const project = createProject([effectItem('a')]);
+    expect(migrateProject(JSON.parse(JSON.stringify(project)))).toEqual(project);
+  });
+
+  it('rejects files that are not projects or miss parts of the document', () => {
+    const project = JSON.parse(JSON.stringify(createProject([effectItem('a')])));
+
+    expect(() => migrateProject({ ...project, format: 'other' })).toThrow('Not a Lumo project file');
+    expect(() => migrateProject({ ...project, timelineItems: undefined })).toThrow('Not a Lumo project file');
+    expect(() => migrateProject({ ...project, tracks: {} })).toThrow('Not a Lumo project file');
+    expect(() => migrateProject({ ...project, timelineItems: [{ id: 'a', mediaFileId: 'blur', startTime: '0' }] }))
+      .toThrow('Not a Lumo project file');
+    expect(() => migrateProject(null)).toThrow('Not a Lumo project file');
+  });
+
+  it('migrates version 1 projects', () => {
+    const { markers: _markers, luts: _luts, ...current } = createProject([
+      effectItem('a'),
+      effectItem('b', { effectParams: { intensity: 80, type: 'horizontal' } })
+    ]);
+    const legacy = JSON.parse(JSON.stringify({
+      ...current,
+      version: 1,
+      media: current.media.map(reference => ({ ...reference, effectParams: { intensity: 30, type: 'gaussian' } }))
+    }));
+
+    const project = migrateProject(legacy);
+
+    expect(project.version).toBe(PROJECT_FILE_VERSION);
+    expect(project.media[0]).not.toHaveProperty('effectParams');
+    expect(project.timelineItems.map(item => item.effectParams)).toEqual([
+      { intensity: 30, type: 'gaussian' },
+      { intensity: 80, type: 'horizontal' }
+    ]);
+    expect(project.markers).toEqual({ inPoint: null, outPoint: null });
+    expect(project.luts).toEqual([]);
+  });
+
+  it('rejects projects from a newer editor', () => {
+    const project = JSON.parse(JSON.stringify(createProject([])));
+    expect(() => migrateProject({ ...project, version: PROJECT_FILE_VERSION + 1 })).toThrow('newer version');
+  });
+});
@@ -0,0 +1,420 @@
+import type { MediaFile, TimelineItem } from "@/components/VideoEditor";
+import type { Track } from "@/components/Timeline";
+import type { EffectParams } from "@/lib/effects";
+import type { LutAsset } from "@/lib/render/lut";
+import { EMPTY_MARKERS, InOutMarkers } from "@/lib/timeline";
+
+// Formato del file di progetto (.lumo.json)
+export const PROJECT_FORMAT = 'lumo-project';
+export const PROJECT_FILE_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = '.lumo.json';
+
+// Quanti byte leggere dall'inizio del file per calcolare l'hash (evita di leggere video interi)
+const HASH_SAMPLE_BYTES = 1024 * 1024;
+
+export type AspectRatio = '16:9' | '4:3' | '9:16';
+export type ExportFPS = 24 | 30 | 60;
+
+// Stato dell'editor che viene salvato nel progetto
+export interface ProjectState {
+  mediaFiles: MediaFile[];
+  timelineItems: TimelineItem[];
+  tracks: Track[];
+  trackVolumes: Map<string, number>;
+  aspectRatio: AspectRatio;
+  exportFPS: ExportFPS;
+  markers: InOutMarkers;
+  luts: LutAsset[];
+}
+
+// Riferimento a un media: il File originale non è serializzabile,
+// quindi salviamo nome/dimensione/hash per poterlo ricollegare all'apertura
+export interface MediaReference {
+  id: string;
+  name: string;
+  type: MediaFile['type'];
+  duration: number;
+  size?: number;
+  mimeType?: string;
+  lastModified?: number;
+  hash?: string;
+  effectType?: string;
+  effectIntensity?: number;
+}
+
+export interface SerializedTimelineItem extends Omit<TimelineItem, 'mediaFile'> {
+  mediaFileId: string;
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  media: MediaReference[];
+  timelineItems: SerializedTimelineItem[];
+  tracks: Track[];
+  trackVolumes: [string, number][];
+  aspectRatio: AspectRatio;
+  exportFPS: ExportFPS;
+  markers: InOutMarkers;
+  luts: LutAsset[];
+}
+
+// Risultato dell'apertura: i media senza File vanno ricollegati dall'utente
+export interface LoadedProject {
+  state: ProjectState;
+  unresolvedMedia: MediaReference[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isArrayOf = (value: unknown, isValid: (entry: Record<string, unknown>) => boolean) => {
+  return Array.isArray(value) && value.every(entry => isRecord(entry) && isValid(entry));
+};
+
+// Migrazioni tra versioni: la chiave è la versione di partenza,
+// la funzione restituisce il progetto nella versione successiva
+type ProjectMigration = (project: Record<string, unknown>) => Record<string, unknown>;
+
+const MIGRATIONS: Record<number, ProjectMigration> = {
+  // Versione 1 → 2: libreria LUT e punti di in/out sempre presenti; i parametri degli effetti
+  // passano dal media (effectParams) agli elementi della timeline che lo usano
+  1: (project) => {
+    const media = Array.isArray(project.media) ? project.media : [];
+    const legacyParams = new Map<unknown, EffectParams>(
+      media.filter(reference => isRecord(reference?.effectParams)).map(reference => [reference.id, reference.effectParams])
+    );
+
+    return {
+      ...project,
+      version: 2,
+      media: Array.isArray(project.media)
+        ? media.map(reference => {
+          if (!isRecord(reference)) return reference;
+          const { effectParams, ...rest } = reference;
+          return rest;
+        })
+        : project.media,
+      timelineItems: Array.isArray(project.timelineItems)
+        ? project.timelineItems.map(item => {
+          const effectParams = isRecord(item) && !item.effectParams ? legacyParams.get(item.mediaFileId) : undefined;
+          return effectParams ? { ...item, effectParams: { ...effectParams } } : item;
+        })
+        : project.timelineItems,
+      markers: project.markers ?? EMPTY_MARKERS,
+      luts: project.luts ?? []
+    };
+  }
+};
+
+// Controlla la struttura minima letta da deserializeProject (dopo le migrazioni)
+const hasProjectStructure = (project: Record<string, unknown>) => {
+  return isArrayOf(project.media, reference => typeof reference.id === 'string' && typeof reference.type === 'string')
+    && isArrayOf(project.timelineItems, item =>
+      typeof item.id === 'string'
+      && typeof item.mediaFileId === 'string'
+      && typeof item.startTime === 'number'
+      && typeof item.duration === 'number'
+      && typeof item.track === 'number'
+    )
+    && isArrayOf(project.tracks, track => typeof track.index === 'number' && (track.type === 'video' || track.type === 'audio'))
+    && Array.isArray(project.trackVolumes)
+    && typeof project.aspectRatio === 'string'
+    && typeof project.exportFPS === 'number';
+};
+
+export const migrateProject = (raw: unknown): ProjectFile => {
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new Error('Not a Lumo project file');
+  }
+
+  let project = raw;
+  let version = typeof project.version === 'number' ? project.version : 0;
+
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(`Project was saved with a newer version of the editor (v${version})`);
+  }
+
+  while (version < PROJECT_FILE_VERSION) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration available from project version ${version}`);
+    }
+    project = migration(project);
+    version = project.version as number;
+  }
+
+  if (!hasProjectStructure(project)) {
+    throw new Error('Not a Lumo project file');
+  }
+
+  return project as unknown as ProjectFile;
+};
+
+// Hash SHA-256 dei primi HASH_SAMPLE_BYTES del file, combinato con la dimensione
+const hashCache = new WeakMap<File, Promise<string>>();
+
+export const hashFile = (file: File): Promise<string> => {
+  const cached = hashCache.get(file);
+  if (cached) return cached;
+
+  const promise = (async () => {
+    const sample = await file.slice(0, HASH_SAMPLE_BYTES).arrayBuffer();
+    const digest = await crypto.subtle.digest('SHA-256', sample);
+    const hex = Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+    return `${file.size}:${hex}`;
+  })();
+
+  hashCache.set(file, promise);
+  return promise;
+};
+
+// Riferimento minimo per un media già presente nell'editor (senza hash)
+export const describeMediaFile = (mediaFile: MediaFile): MediaReference => ({
+  id: mediaFile.id,
+  name: mediaFile.name,
+  type: mediaFile.type,
+  duration: mediaFile.duration,
+  size: mediaFile.file?.size,
+  mimeType: mediaFile.file?.type,
+  lastModified: mediaFile.file?.lastModified
+});
+
+const createMediaReference = async (mediaFile: MediaFile): Promise<MediaReference> => {
+  const reference: MediaReference = {
+    id: mediaFile.id,
+    name: mediaFile.name,
+    type: mediaFile.type,
+    duration: mediaFile.duration,
+    effectType: mediaFile.effectType,
+    effectIntensity: mediaFile.effectIntensity
+  };
+
+  if (mediaFile.file) {
+    reference.size = mediaFile.file.size;
+    reference.mimeType = mediaFile.file.type;
+    reference.lastModified = mediaFile.file.lastModified;
+    try {
+      reference.hash = await hashFile(mediaFile.file);
+    } catch (error) {
+      console.warn(`Failed to hash ${mediaFile.name}:`, error);
+    }
+  }
+
+  return reference;
+};
+
+// Gli elementi della timeline salvano solo l'id del media, non l'oggetto completo
+export const serializeTimelineItems = (timelineItems: TimelineItem[]): SerializedTimelineItem[] => {
+  return timelineItems.map(({ mediaFile, ...item }) => ({
+    ...item,
+    mediaFileId: mediaFile.id
+  }));
+};
+
+export const deserializeTimelineItems = (
+  items: SerializedTimelineItem[],
+  mediaFiles: MediaFile[]
+): TimelineItem[] => {
+  const mediaById = new Map(mediaFiles.map(file => [file.id, file]));
+  return items
+    .filter(item => mediaById.has(item.mediaFileId))
+    .map(({ mediaFileId, ...item }) => ({
+      ...item,
+      mediaFile: mediaById.get(mediaFileId)!
+    }));
+};
+
+// Media del progetto: quelli della libreria e quelli usati solo dalla timeline (senza duplicati)
+export const collectProjectMedia = (mediaFiles: MediaFile[], timelineItems: TimelineItem[]): MediaFile[] => {
+  const mediaById = new Map<string, MediaFile>();
+  mediaFiles.forEach(file => mediaById.set(file.id, file));
+  timelineItems.forEach(item => {
+    if (!mediaById.has(item.mediaFile.id)) {
+      mediaById.set(item.mediaFile.id, item.mediaFile);
+    }
+  });
+  return Array.from(mediaById.values());
+};
+
+export const serializeProject = async (state: ProjectState): Promise<ProjectFile> => {
+  const media = await Promise.all(collectProjectMedia(state.mediaFiles, state.timelineItems).map(createMediaReference));
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    media,
+    timelineItems: serializeTimelineItems(state.timelineItems),
+    tracks: state.tracks.map(track => ({ ...track })),
+    trackVolumes: Array.from(state.trackVolumes.entries()),
+    aspectRatio: state.aspectRatio,
+    exportFPS: state.exportFPS,
+    markers: { ...state.markers },
+    luts: state.luts.map(lut => ({ ...lut }))
+  };
+};
+
+// Ricostruisce lo stato dell'editor. I media non ancora ricollegati hanno url vuoto
+export const deserializeProject = (project: ProjectFile, files: Map<string, File> = new Map()): LoadedProject => {
+  const unresolvedMedia: MediaReference[] = [];
+
+  const mediaFiles: MediaFile[] = project.media.map(reference => {
+    const mediaFile: MediaFile = {
+      id: reference.id,
+      name: reference.name,
+      type: reference.type,
+      url: '',
+      duration: reference.duration,
+      effectType: reference.effectType,
+      effectIntensity: reference.effectIntensity
+    };
+
+    if (reference.type !== 'effect') {
+      const file = files.get(reference.id);
+      if (file) {
+        mediaFile.file = file;
+        mediaFile.url = URL.createObjectURL(file);
+      } else {
+        unresolvedMedia.push(reference);
+      }
+    }
+
+    return mediaFile;
+  });
+
+  return {
+    state: {
+      mediaFiles,
+      timelineItems: deserializeTimelineItems(project.timelineItems, mediaFiles),
+      tracks: project.tracks,
+      trackVolumes: new Map(project.trackVolumes),
+      aspectRatio: project.aspectRatio,
+      exportFPS: project.exportFPS,
+      markers: project.markers,
+      luts: project.luts
+    },
+    unresolvedMedia
+  };
+};
+
+export const parseProjectFile = async (file: File): Promise<ProjectFile> => {
+  const text = await file.text();
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The selected file is not valid JSON');
+  }
+  return migrateProject(raw);
+};
+
+// Tolleranza (secondi) per considerare uguali due durate
+const DURATION_MATCH_TOLERANCE = 0.5;
+
+const isSameMediaKind = (reference: MediaReference, file: File) => {
+  return file.type === '' || file.type.startsWith(`${reference.type}/`);
+};
+
+// Abbina i file scelti dall'utente ai riferimenti: prima per hash, poi per nome, dimensione e durata
+export const matchFilesToReferences = async (
+  references: MediaReference[],
+  candidates: File[],
+  candidateDurations: Map<File, number> = new Map()
+): Promise<Map<string, File>> => {
+  const matches = new Map<string, File>();
+  const available = new Set(candidates);
+
+  const candidateHashes = new Map<File, string>();
+  await Promise.all(candidates.map(async file => {
+    try {
+      candidateHashes.set(file, await hashFile(file));
+    } catch (error) {
+      console.warn(`Failed to hash ${file.name}:`, error);
+    }
+  }));
+
+  const sameDuration = (reference: MediaReference, file: File) => {
+    const duration = candidateDurations.get(file);
+    if (duration === undefined || reference.type === 'image') return false;
+    return Math.abs(duration - reference.duration) <= DURATION_MATCH_TOLERANCE;
+  };
+
+  const strategies: ((reference: MediaReference, file: File) => boolean)[] = [
+    (reference, file) => !!reference.hash && candidateHashes.get(file) === reference.hash,
+    (reference, file) => file.name === reference.name && file.size === reference.size,
+    (reference, file) => file.name === reference.name && sameDuration(reference, file),
+    (reference, file) => reference.size !== undefined && file.size === reference.size && sameDuration(reference, file),
+    (reference, file) => file.name === reference.name
+  ];
+
+  strategies.forEach(strategy => {
+    references.forEach(reference => {
+      if (matches.has(reference.id) || reference.type === 'effect') return;
+      const match = Array.from(available).find(file => isSameMediaKind(reference, file) && strategy(reference, file));
+      if (match) {
+        matches.set(reference.id, match);
+        available.delete(match);
+      }
+    });
+  });
+
+  return matches;
+};
+
+// Aggiorna gli elementi della timeline che usano uno dei media sostituiti
+export const replaceMediaInItems = (
+  timelineItems: TimelineItem[],
+  replacements: Map<string, MediaFile>
+): TimelineItem[] => {
+  return timelineItems.map(item => {
+    const updated = replacements.get(item.mediaFile.id);
+    return updated ? { ...item, mediaFile: updated } : item;
+  });
+};
+
+// Sostituisce il File di un media e aggiorna tutti gli elementi della timeline che lo usano
+export const relinkMediaFiles = (
+  mediaFiles: MediaFile[],
+  timelineItems: TimelineItem[],
+  files: Map<string, File>
+): { mediaFiles: MediaFile[]; timelineItems: TimelineItem[]; relinked: Map<string, MediaFile> } => {
+  const relinked = new Map<string, MediaFile>();
+
+  const newMediaFiles = mediaFiles.map(mediaFile => {
+    const file = files.get(mediaFile.id);
+    if (!file) return mediaFile;
+
+    const updated: MediaFile = {
+      ...mediaFile,
+      file,
+      url: URL.createObjectURL(file)
+    };
+    relinked.set(mediaFile.id, updated);
+    return updated;
+  });
+
+  return {
+    mediaFiles: newMediaFiles,
+    timelineItems: replaceMediaInItems(timelineItems, relinked),
+    relinked
+  };
+};
+
+export const downloadProjectFile = (project: ProjectFile, fileName = `lumo-project-${Date.now()}`) => {
+  const blob = new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName.endsWith(PROJECT_FILE_EXTENSION) ? fileName : `${fileName}${PROJECT_FILE_EXTENSION}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
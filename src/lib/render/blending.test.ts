@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import type { TimelineItem } from "@/components/VideoEditor";
+import { getClipParameterValue, setKeyframe, setParameterValue } from "../keyframes";
+import { getCompositeOperation, isBlended, setItemBlendMode } from "./blending";
+
+const clip = (overrides: Partial<TimelineItem> = {}): TimelineItem => ({
+  id: 'clip',
+  mediaFile: { id: 'media', name: 'clip.mp4', type: 'video', url: 'blob:clip', duration: 20 },
+  startTime: 0,
+  duration: 10,
+  track: 1,
+  ...overrides
+});
+
+describe('blend modes', () => {
+  it('maps blend modes onto canvas composite operations', () => {
+    expect(getCompositeOperation('multiply')).toBe('multiply');
+    expect(getCompositeOperation('add')).toBe('lighter');
+    expect(getCompositeOperation('normal')).toBe('source-over');
+    expect(getCompositeOperation(undefined)).toBe('source-over');
+  });
+
+  it('stores only blend modes other than normal', () => {
+    const [screen] = setItemBlendMode([clip()], 'clip', 'screen');
+    expect(screen.blendMode).toBe('screen');
+    expect(isBlended(screen.blendMode)).toBe(true);
+
+    const [normal] = setItemBlendMode([screen], 'clip', 'normal');
+    expect('blendMode' in normal).toBe(false);
+  });
+});
+
+describe('clip opacity', () => {
+  it('keeps a static opacity until it is animated', () => {
+    let items = setParameterValue([clip()], 'clip', 'opacity', 5, 40);
+    expect(items[0].opacity).toBe(40);
+    expect(getClipParameterValue(items[0], 'opacity', 5)).toBe(40);
+
+    items = setKeyframe(items, 'clip', 'opacity', 0, 100);
+    items = setParameterValue(items, 'clip', 'opacity', 10, 0);
+    expect(getClipParameterValue(items[0], 'opacity', 5)).toBe(50);
+    expect(items[0].opacity).toBe(40);
+  });
+});
@@ -0,0 +1,60 @@
+import type { TimelineItem } from "@/components/VideoEditor";
+
+// Metodi di fusione dei clip con le tracce sottostanti, tradotti nelle operazioni di composizione del canvas
+
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'add'
+  | 'difference'
+  | 'exclusion'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
+export const BLEND_MODES: { id: BlendMode; name: string; operation: GlobalCompositeOperation }[] = [
+  { id: 'normal', name: 'Normal', operation: 'source-over' },
+  { id: 'multiply', name: 'Multiply', operation: 'multiply' },
+  { id: 'screen', name: 'Screen', operation: 'screen' },
+  { id: 'overlay', name: 'Overlay', operation: 'overlay' },
+  { id: 'darken', name: 'Darken', operation: 'darken' },
+  { id: 'lighten', name: 'Lighten', operation: 'lighten' },
+  { id: 'add', name: 'Add', operation: 'lighter' },
+  { id: 'difference', name: 'Difference', operation: 'difference' },
+  { id: 'exclusion', name: 'Exclusion', operation: 'exclusion' },
+  { id: 'color-dodge', name: 'Color Dodge', operation: 'color-dodge' },
+  { id: 'color-burn', name: 'Color Burn', operation: 'color-burn' },
+  { id: 'hard-light', name: 'Hard Light', operation: 'hard-light' },
+  { id: 'soft-light', name: 'Soft Light', operation: 'soft-light' },
+  { id: 'hue', name: 'Hue', operation: 'hue' },
+  { id: 'saturation', name: 'Saturation', operation: 'saturation' },
+  { id: 'color', name: 'Color', operation: 'color' },
+  { id: 'luminosity', name: 'Luminosity', operation: 'luminosity' }
+];
+
+export const getCompositeOperation = (mode: BlendMode | undefined): GlobalCompositeOperation => {
+  return BLEND_MODES.find(blend => blend.id === mode)?.operation ?? 'source-over';
+};
+
+export const isBlended = (mode: BlendMode | undefined) => !!mode && mode !== 'normal';
+
+// Imposta il metodo di fusione di un clip; 'normal' rimuove il campo
+export const setItemBlendMode = (items: TimelineItem[], itemId: string, mode: BlendMode): TimelineItem[] => {
+  return items.map(item => {
+    if (item.id !== itemId) return item;
+    if (!isBlended(mode)) {
+      const { blendMode: _removed, ...rest } = item;
+      return rest;
+    }
+    return { ...item, blendMode: mode };
+  });
+};
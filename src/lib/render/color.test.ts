@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import type { TimelineItem } from "@/components/VideoEditor";
+import {
+  ColorCorrection,
+  DEFAULT_COLOR_CORRECTION,
+  applyColorCorrection,
+  buildChannelLuts,
+  evaluateCurve,
+  hasColorCorrection,
+  setItemColorCorrection,
+  withoutColorCorrection
+} from "./color";
+
+const clip = (overrides: Partial<TimelineItem> = {}): TimelineItem => ({
+  id: 'clip',
+  mediaFile: { id: 'media', name: 'clip.mp4', type: 'video', url: 'blob:clip', duration: 20 },
+  startTime: 0,
+  duration: 10,
+  track: 0,
+  ...overrides
+});
+
+const correct = (patch: Partial<ColorCorrection>, pixel: number[]) => {
+  const data = new Uint8ClampedArray([...pixel, 255]);
+  applyColorCorrection(data, { ...DEFAULT_COLOR_CORRECTION, ...patch });
+  return Array.from(data.slice(0, 3));
+};
+
+describe('color curves', () => {
+  it('passes through its points without overshooting them', () => {
+    const points = [{ x: 0, y: 0 }, { x: 0.5, y: 0.8 }, { x: 1, y: 1 }];
+
+    expect(evaluateCurve(points, 0.5)).toBeCloseTo(0.8);
+    expect(evaluateCurve(points, 0.75)).toBeGreaterThan(0.8);
+    expect(evaluateCurve(points, 0.75)).toBeLessThanOrEqual(1);
+    expect(evaluateCurve([{ x: 0, y: 0 }, { x: 1, y: 1 }], 0.3)).toBeCloseTo(0.3);
+  });
+});
+
+describe('color correction', () => {
+  it('leaves pixels untouched when neutral', () => {
+    expect(Array.from(buildChannelLuts(DEFAULT_COLOR_CORRECTION)[0].slice(0, 4))).toEqual([0, 1, 2, 3]);
+    expect(correct({}, [10, 128, 250])).toEqual([10, 128, 250]);
+  });
+
+  it('brightens with exposure and warms with temperature', () => {
+    expect(correct({ exposure: 1 }, [50, 50, 50])).toEqual([100, 100, 100]);
+
+    const [red, , blue] = correct({ temperature: 100 }, [100, 100, 100]);
+    expect(red).toBeGreaterThan(100);
+    expect(blue).toBeLessThan(100);
+  });
+
+  it('desaturates towards the luma and lifts the shadows', () => {
+    const [r, g, b] = correct({ saturation: 0 }, [200, 50, 50]);
+    expect(r).toBe(g);
+    expect(g).toBe(b);
+
+    expect(correct({ lift: 100 }, [0, 0, 0])[0]).toBeGreaterThan(100);
+    expect(correct({ lift: 100 }, [255, 255, 255])[0]).toBe(255);
+  });
+
+  it('applies the channel curve after the master curve', () => {
+    const curves = { ...DEFAULT_COLOR_CORRECTION.curves, blue: [{ x: 0, y: 1 }, { x: 1, y: 1 }] };
+    expect(correct({ curves }, [0, 0, 0])).toEqual([0, 0, 255]);
+  });
+
+  it('drops the correction once it is back to neutral', () => {
+    let items = setItemColorCorrection([clip()], 'clip', { contrast: 20 });
+    expect(hasColorCorrection(items[0])).toBe(true);
+    expect(withoutColorCorrection(items)[0].colorCorrection).toBeUndefined();
+
+    items = setItemColorCorrection(items, 'clip', { contrast: 0 });
+    expect(items[0].colorCorrection).toBeUndefined();
+  });
+});
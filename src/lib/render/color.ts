@@ -0,0 +1,220 @@
+import type { TimelineItem } from "@/components/VideoEditor";
+
+// Correzione colore per clip: regolazioni di base, lift/gamma/gain e curve.
+// Tutto tranne la saturazione si riduce a una tabella di 256 valori per canale; la saturazione mescola i canali
+
+export interface CurvePoint {
+  x: number; // Ingresso 0-1
+  y: number; // Uscita 0-1
+}
+
+export type CurveChannel = 'master' | 'red' | 'green' | 'blue';
+
+export interface ColorCorrection {
+  exposure: number; // Stop, -3..3
+  contrast: number; // -100..100
+  saturation: number; // Percentuale, 0..200
+  temperature: number; // -100 (freddo)..100 (caldo)
+  tint: number; // -100 (verde)..100 (magenta)
+  lift: number; // Ombre, -100..100
+  gamma: number; // Mezzitoni, -100..100
+  gain: number; // Luci, -100..100
+  curves: Record<CurveChannel, CurvePoint[]>;
+}
+
+export type ColorAdjustment = Exclude<keyof ColorCorrection, 'curves'>;
+
+export const IDENTITY_CURVE: CurvePoint[] = [{ x: 0, y: 0 }, { x: 1, y: 1 }];
+
+export const DEFAULT_COLOR_CORRECTION: ColorCorrection = {
+  exposure: 0,
+  contrast: 0,
+  saturation: 100,
+  temperature: 0,
+  tint: 0,
+  lift: 0,
+  gamma: 0,
+  gain: 0,
+  curves: { master: IDENTITY_CURVE, red: IDENTITY_CURVE, green: IDENTITY_CURVE, blue: IDENTITY_CURVE }
+};
+
+export const COLOR_ADJUSTMENTS: {
+  id: ColorAdjustment;
+  name: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  group: 'basic' | 'wheels';
+}[] = [
+  { id: 'exposure', name: 'Exposure', min: -3, max: 3, step: 0.1, unit: ' EV', group: 'basic' },
+  { id: 'contrast', name: 'Contrast', min: -100, max: 100, step: 1, unit: '', group: 'basic' },
+  { id: 'saturation', name: 'Saturation', min: 0, max: 200, step: 1, unit: '%', group: 'basic' },
+  { id: 'temperature', name: 'Temperature', min: -100, max: 100, step: 1, unit: '', group: 'basic' },
+  { id: 'tint', name: 'Tint', min: -100, max: 100, step: 1, unit: '', group: 'basic' },
+  { id: 'lift', name: 'Lift', min: -100, max: 100, step: 1, unit: '', group: 'wheels' },
+  { id: 'gamma', name: 'Gamma', min: -100, max: 100, step: 1, unit: '', group: 'wheels' },
+  { id: 'gain', name: 'Gain', min: -100, max: 100, step: 1, unit: '', group: 'wheels' }
+];
+
+export const CURVE_CHANNELS: { id: CurveChannel; name: string; color: string }[] = [
+  { id: 'master', name: 'Master', color: '#ffffff' },
+  { id: 'red', name: 'Red', color: '#ef4444' },
+  { id: 'green', name: 'Green', color: '#22c55e' },
+  { id: 'blue', name: 'Blue', color: '#3b82f6' }
+];
+
+// Quanto temperatura e tinta spostano i canali agli estremi
+const WHITE_BALANCE_RANGE = 0.2;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+export const getColorCorrection = (item: TimelineItem): ColorCorrection => ({
+  ...DEFAULT_COLOR_CORRECTION,
+  ...item.colorCorrection,
+  curves: { ...DEFAULT_COLOR_CORRECTION.curves, ...item.colorCorrection?.curves }
+});
+
+const isIdentityCurve = (points: CurvePoint[]) => points.every(point => Math.abs(point.x - point.y) < 1e-6);
+
+export const isNeutralColorCorrection = (correction: ColorCorrection) => {
+  const adjusted = COLOR_ADJUSTMENTS.some(({ id }) => correction[id] !== DEFAULT_COLOR_CORRECTION[id]);
+  return !adjusted && Object.values(correction.curves).every(isIdentityCurve);
+};
+
+export const hasColorCorrection = (item: TimelineItem) => {
+  return !!item.colorCorrection && !isNeutralColorCorrection(getColorCorrection(item));
+};
+
+// Aggiorna la correzione di un clip; null, o una correzione neutra, la rimuove
+export const setItemColorCorrection = (
+  items: TimelineItem[],
+  itemId: string,
+  patch: Partial<ColorCorrection> | null
+): TimelineItem[] => {
+  return items.map(item => {
+    if (item.id !== itemId) return item;
+
+    const correction = patch ? { ...getColorCorrection(item), ...patch } : null;
+    if (!correction || isNeutralColorCorrection(correction)) {
+      const { colorCorrection: _removed, ...rest } = item;
+      return rest;
+    }
+    return { ...item, colorCorrection: correction };
+  });
+};
+
+// Per la vista prima/dopo
+export const withoutColorCorrection = (items: TimelineItem[]): TimelineItem[] => {
+  return items.map(item => {
+    if (!item.colorCorrection) return item;
+    const { colorCorrection: _removed, ...rest } = item;
+    return rest;
+  });
+};
+
+// Curva monotona (Fritsch-Carlson) tra i punti, così la curva non oscilla oltre i punti di controllo
+export const evaluateCurve = (points: CurvePoint[], x: number) => {
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+  if (sorted.length === 0) return x;
+  if (x <= sorted[0].x) return sorted[0].y;
+  if (x >= sorted[sorted.length - 1].x) return sorted[sorted.length - 1].y;
+
+  const count = sorted.length;
+  const slopes = sorted.slice(0, -1).map((point, i) => {
+    const next = sorted[i + 1];
+    return next.x === point.x ? 0 : (next.y - point.y) / (next.x - point.x);
+  });
+  const tangents = sorted.map((_, i) => {
+    if (i === 0) return slopes[0];
+    if (i === count - 1) return slopes[count - 2];
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  });
+  slopes.forEach((slope, i) => {
+    if (slope === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      return;
+    }
+    const a = tangents[i] / slope;
+    const b = tangents[i + 1] / slope;
+    const magnitude = a * a + b * b;
+    if (magnitude > 9) {
+      const factor = 3 / Math.sqrt(magnitude);
+      tangents[i] = factor * a * slope;
+      tangents[i + 1] = factor * b * slope;
+    }
+  });
+
+  const index = sorted.findIndex((point, i) => i < count - 1 && x <= sorted[i + 1].x);
+  const start = sorted[index];
+  const end = sorted[index + 1];
+  const h = end.x - start.x;
+  const t = (x - start.x) / h;
+  const t2 = t * t;
+  const t3 = t2 * t;
+
+  return (2 * t3 - 3 * t2 + 1) * start.y
+    + (t3 - 2 * t2 + t) * h * tangents[index]
+    + (-2 * t3 + 3 * t2) * end.y
+    + (t3 - t2) * h * tangents[index + 1];
+};
+
+export type ChannelLuts = [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray];
+
+// Le correzioni nello stato sono immutabili: le tabelle si ricalcolano solo quando cambiano
+const channelLutCache = new WeakMap<ColorCorrection, ChannelLuts>();
+
+export const buildChannelLuts = (correction: ColorCorrection): ChannelLuts => {
+  const cached = channelLutCache.get(correction);
+  if (cached) return cached;
+
+  const exposure = Math.pow(2, correction.exposure);
+  const temperature = (correction.temperature / 100) * WHITE_BALANCE_RANGE;
+  const tint = (correction.tint / 100) * WHITE_BALANCE_RANGE;
+  const balance = [1 + temperature, 1 - tint, 1 - temperature];
+  const lift = (correction.lift / 100) * 0.5;
+  const gain = 1 + correction.gain / 100;
+  const gamma = Math.pow(2, correction.gamma / 50);
+  const contrast = (100 + correction.contrast) / 100;
+  const channelCurves = [correction.curves.red, correction.curves.green, correction.curves.blue];
+
+  const luts = channelCurves.map((curve, channel) => {
+    const lut = new Uint8ClampedArray(256);
+    for (let i = 0; i < 256; i++) {
+      let value = (i / 255) * exposure * balance[channel];
+      value = clamp01(value * (1 - lift) + lift) * gain;
+      value = Math.pow(clamp01(value), 1 / gamma);
+      value = clamp01((value - 0.5) * contrast + 0.5);
+      value = clamp01(evaluateCurve(correction.curves.master, value));
+      value = clamp01(evaluateCurve(curve, value));
+      lut[i] = Math.round(value * 255);
+    }
+    return lut;
+  }) as ChannelLuts;
+
+  channelLutCache.set(correction, luts);
+  return luts;
+};
+
+// Applica la correzione a pixel RGBA, sul posto
+export const applyColorCorrection = (data: Uint8ClampedArray, correction: ColorCorrection) => {
+  const [red, green, blue] = buildChannelLuts(correction);
+  const saturation = correction.saturation / 100;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = red[data[i]];
+    const g = green[data[i + 1]];
+    const b = blue[data[i + 2]];
+    if (saturation === 1) {
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+      continue;
+    }
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    data[i] = luma + (r - luma) * saturation;
+    data[i + 1] = luma + (g - luma) * saturation;
+    data[i + 2] = luma + (b - luma) * saturation;
+  }
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import type { MediaFile, TimelineItem } from "@/components/VideoEditor";
+import type { FrameContext } from "./compositor";
+import { applyClipEffects, getActiveMediaItems, getFrameSize, getItemRect, getMediaTime, getPixelScale } from "./compositor";
+import { calculateClipEffects } from "./effects";
+
+const item = (type: MediaFile['type'], overrides: Partial<TimelineItem> = {}): TimelineItem => ({
+  id: `${type}-item`,
+  mediaFile: { id: `${type}-media`, name: type, type, url: 'blob:test', duration: 10 },
+  startTime: 0,
+  duration: 10,
+  track: 0,
+  ...overrides
+});
+
+describe('compositor layout', () => {
+  it('computes frame sizes for every aspect ratio', () => {
+    expect(getFrameSize('16:9')).toEqual({ width: 1280, height: 720 });
+    expect(getFrameSize('4:3', 1920)).toEqual({ width: 1920, height: 1440 });
+    expect(getFrameSize('9:16')).toEqual({ width: 720, height: 1280 });
+  });
+
+  it('fits video to the whole frame and images to 80%', () => {
+    const frame = getFrameSize('16:9');
+
+    expect(getItemRect(item('video'), { width: 1920, height: 1080 }, frame)).toEqual({ x: 0, y: 0, width: 1280, height: 720 });
+    expect(getItemRect(item('image'), { width: 1000, height: 1000 }, frame)).toEqual({ x: 352, y: 72, width: 576, height: 576 });
+  });
+
+  it('scales the track inset with the output resolution so preview and export match', () => {
+    const source = { width: 1920, height: 1080 };
+    const preview = getItemRect(item('video', { track: 1 }), source, getFrameSize('16:9'));
+    const exported = getItemRect(item('video', { track: 1 }), source, getFrameSize('16:9', 1920));
+    const scale = getPixelScale(1920, 1080);
+
+    expect(preview).toEqual({ x: 20, y: 20, width: 1240, height: 680 });
+    expect(exported.x).toBeCloseTo(preview.x * scale);
+    expect(exported.width).toBeCloseTo(preview.width * scale);
+  });
+
+  it('draws only visual items active at the given time, lowest track first', () => {
+    const items = [
+      item('image', { id: 'top', track: 2 }),
+      item('video', { id: 'bottom', track: 0 }),
+      item('audio', { id: 'music', track: 1 }),
+      item('video', { id: 'later', startTime: 20 })
+    ];
+
+    expect(getActiveMediaItems(items, 5).map(i => i.id)).toEqual(['bottom', 'top']);
+  });
+
+  it('maps timeline time to source time using the media offset', () => {
+    expect(getMediaTime(item('video', { startTime: 4, mediaStartOffset: 2 }), 5)).toBe(3);
+  });
+});
+
+describe('applyClipEffects', () => {
+  it('stacks the clip alpha on top of the global one and leaves black & white to the pixel steps', () => {
+    const ctx = { globalAlpha: 0.5, filter: 'blur(2px)' } as unknown as FrameContext;
+    const overlay = item('video', {
+      startTime: 0,
+      effects: [{ id: 'bw', type: 'black-white' }, { id: 'in', type: 'fade-in', duration: 4 }]
+    });
+
+    applyClipEffects(ctx, calculateClipEffects(overlay, 1), { x: 0, y: 0, width: 100, height: 50 });
+
+    expect(ctx.filter).toBe('blur(2px)');
+    expect(ctx.globalAlpha).toBeCloseTo(0.125);
+  });
+});
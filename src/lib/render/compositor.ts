@@ -0,0 +1,386 @@
+import type { TimelineItem } from "@/components/VideoEditor";
+import type { AspectRatio } from "@/lib/project";
+import { getClipParameterValue, hasKeyframes } from "@/lib/keyframes";
+import { ClipPlacement, Rect, getFitRect, getSourceRect, getTransform } from "./transform";
+import { getCompositeOperation, isBlended } from "./blending";
+import { getColorCorrection, hasColorCorrection } from "./color";
+import { PixelStep, getProcessingSize, renderPixelSteps } from "./pixels";
+import { getColorCorrectionStep, getGaussianBlurSteps, getGrayscaleStep } from "./shaders";
+import {
+  FrameEffects,
+  calculateClipEffects,
+  calculateFrameEffects,
+  getClipEffectIntensity,
+  hasClipEffects
+} from "./effects";
+import {
+  ActiveTransition,
+  TransitionLayer,
+  drawTransition,
+  getActiveTransitions,
+  getTransitionItemIds,
+  getTransitionProgress
+} from "./transitions";
+
+// Motore di composizione dei fotogrammi: preview ed export disegnano con le stesse regole
+
+export type FrameContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Sorgente già pronta da disegnare per un elemento (null se non ancora caricata)
+export type MediaResolver = (item: TimelineItem, mediaTime: number) => CanvasImageSource | null;
+
+export interface RenderFrameOptions {
+  time: number;
+  items: TimelineItem[];
+  resolveMedia: MediaResolver;
+  background?: string;
+}
+
+export interface RenderedFrame {
+  mediaItems: TimelineItem[]; // Elementi visivi attivi, in ordine di disegno
+  drawnItemIds: string[]; // Elementi effettivamente disegnati (sorgente pronta)
+  effects: FrameEffects;
+}
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+// Tutte le misure in pixel sono espresse per questa larghezza e scalate con il canvas
+export const REFERENCE_WIDTH = 1280;
+
+// Rientro per ogni livello di traccia, così le tracce superiori restano visibili sopra le inferiori
+export const TRACK_INSET = 20;
+
+// Le immagini occupano al massimo questa frazione del fotogramma
+export const IMAGE_FIT_RATIO = 0.8;
+
+export const getFrameSize = (aspectRatio: AspectRatio, baseWidth = REFERENCE_WIDTH): FrameSize => {
+  switch (aspectRatio) {
+    case '4:3':
+      return { width: baseWidth, height: Math.round(baseWidth / (4 / 3)) };
+    case '9:16':
+      return { width: Math.round(baseWidth * (9 / 16)), height: baseWidth };
+    case '16:9':
+    default:
+      return { width: baseWidth, height: Math.round(baseWidth / (16 / 9)) };
+  }
+};
+
+// Per i formati verticali la dimensione di riferimento è il lato lungo
+export const getPixelScale = (width: number, height: number) => Math.max(width, height) / REFERENCE_WIDTH;
+
+export const getSourceSize = (source: CanvasImageSource): FrameSize => {
+  if (source instanceof HTMLVideoElement) {
+    return { width: source.videoWidth, height: source.videoHeight };
+  }
+  if (source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth || source.width, height: source.naturalHeight || source.height };
+  }
+  if (typeof VideoFrame !== 'undefined' && source instanceof VideoFrame) {
+    return { width: source.displayWidth, height: source.displayHeight };
+  }
+  const sized = source as { width: number | SVGAnimatedLength; height: number | SVGAnimatedLength };
+  return {
+    width: typeof sized.width === 'number' ? sized.width : sized.width.baseVal.value,
+    height: typeof sized.height === 'number' ? sized.height : sized.height.baseVal.value
+  };
+};
+
+// Elementi visivi da disegnare, compresi i clip che a questo tempo partecipano a una transizione
+export const getActiveMediaItems = (items: TimelineItem[], time: number) => {
+  const transitionItemIds = getTransitionItemIds(items, time);
+  return items
+    .filter(item =>
+      item.mediaFile.type !== 'effect' &&
+      item.mediaFile.type !== 'audio' &&
+      ((time >= item.startTime && time < item.startTime + item.duration) || transitionItemIds.has(item.id))
+    )
+    .sort((a, b) => a.track - b.track);
+};
+
+// Tempo all'interno del file sorgente per un elemento della timeline
+export const getMediaTime = (item: TimelineItem, time: number) => {
+  return Math.max(0, time - item.startTime + (item.mediaStartOffset || 0));
+};
+
+// Rettangolo di destinazione: adatta la sorgente (ritagliata) al fotogramma; senza trasformazione
+// applica l'impaginazione storica con il rientro della traccia
+export const getItemRect = (
+  item: TimelineItem,
+  sourceSize: FrameSize,
+  frameSize: FrameSize
+): Rect => {
+  // Con una trasformazione il clip segue la sua modalità di adattamento, senza rientri
+  if (item.transform) {
+    const transform = getTransform(item);
+    return getFitRect(getSourceRect(sourceSize, transform.crop), frameSize, transform.fit);
+  }
+
+  const fitRatio = item.mediaFile.type === 'image' ? IMAGE_FIT_RATIO : 1;
+  const sourceAspect = sourceSize.width / sourceSize.height;
+  const frameAspect = frameSize.width / frameSize.height;
+
+  let width: number;
+  let height: number;
+  if (sourceAspect > frameAspect) {
+    width = frameSize.width * fitRatio;
+    height = width / sourceAspect;
+  } else {
+    height = frameSize.height * fitRatio;
+    width = height * sourceAspect;
+  }
+
+  const inset = item.track * TRACK_INSET * getPixelScale(frameSize.width, frameSize.height);
+  const insetWidth = Math.max(1, width - inset * 2);
+  const insetHeight = Math.max(1, height - inset * 2);
+
+  return {
+    x: (frameSize.width - insetWidth) / 2,
+    y: (frameSize.height - insetHeight) / 2,
+    width: insetWidth,
+    height: insetHeight
+  };
+};
+
+// Bianco e nero e blur gaussiano degli effetti, come passaggi per pixel (shader o fallback Canvas2D).
+// blurRadius è in pixel dell'immagine elaborata
+const getEffectPixelSteps = (effects: FrameEffects, blurRadius: number): PixelStep[] => [
+  ...(effects.blackWhite ? [getGrayscaleStep()] : []),
+  ...(blurRadius > 0 ? getGaussianBlurSteps(blurRadius) : [])
+];
+
+const applyZoom = (ctx: FrameContext, zoomScale: number, centerX: number, centerY: number) => {
+  if (zoomScale === 1.0) return;
+  ctx.translate(centerX, centerY);
+  ctx.scale(zoomScale, zoomScale);
+  ctx.translate(-centerX, -centerY);
+};
+
+// Applica fade e zoom al contesto (da chiamare tra save e restore); bianco e nero e blur
+// si applicano al fotogramma finito
+export const applyFrameEffects = (ctx: FrameContext, effects: FrameEffects, frameSize: FrameSize) => {
+  ctx.globalAlpha = effects.globalAlpha;
+
+  // Lo zoom scala dal centro scelto, in frazione del fotogramma
+  applyZoom(ctx, effects.zoomScale, frameSize.width * effects.zoomCenter.x, frameSize.height * effects.zoomCenter.y);
+};
+
+// Come applyFrameEffects ma per un solo clip: si somma agli effetti globali già sul contesto
+// e lo zoom resta dentro il rettangolo del clip. Bianco e nero e blur stanno nei passaggi per pixel del clip
+export const applyClipEffects = (ctx: FrameContext, effects: FrameEffects, rect: Rect) => {
+  ctx.globalAlpha *= effects.globalAlpha;
+
+  if (effects.zoomScale !== 1.0) {
+    ctx.beginPath();
+    ctx.rect(rect.x, rect.y, rect.width, rect.height);
+    ctx.clip();
+    applyZoom(ctx, effects.zoomScale, rect.x + rect.width * effects.zoomCenter.x, rect.y + rect.height * effects.zoomCenter.y);
+  }
+};
+
+// Fade verso un colore: il colore si stende sopra il rettangolo, dosato dall'avanzamento
+const applyColorFade = (ctx: FrameContext, effects: FrameEffects, rect: Rect) => {
+  if (!effects.colorFade || effects.colorFade.amount <= 0) return;
+  ctx.save();
+  ctx.globalAlpha *= Math.min(1, effects.colorFade.amount);
+  ctx.fillStyle = effects.colorFade.color;
+  ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+  ctx.restore();
+};
+
+// Parametri animabili di un clip al tempo indicato (keyframe o valore statico), nelle unità dell'inspector
+export interface ClipAnimation {
+  opacity: number;
+  scale: number;
+  positionX: number;
+  positionY: number;
+  rotation: number;
+  blur: number;
+}
+
+export const getClipAnimation = (item: TimelineItem, time: number): ClipAnimation => ({
+  opacity: getClipParameterValue(item, 'opacity', time),
+  scale: getClipParameterValue(item, 'scale', time),
+  positionX: getClipParameterValue(item, 'positionX', time),
+  positionY: getClipParameterValue(item, 'positionY', time),
+  rotation: getClipParameterValue(item, 'rotation', time),
+  blur: getClipParameterValue(item, 'blur', time)
+});
+
+// Dove finisce il clip nel fotogramma: usato per disegnare e per le maniglie della preview
+export const getClipPlacement = (
+  item: TimelineItem,
+  sourceSize: FrameSize,
+  frameSize: FrameSize,
+  time: number,
+  animation = getClipAnimation(item, time)
+): ClipPlacement => {
+  const transform = getTransform(item);
+  const rect = getItemRect(item, sourceSize, frameSize);
+  const pixelScale = getPixelScale(frameSize.width, frameSize.height);
+
+  return {
+    rect,
+    sourceRect: item.transform ? getSourceRect(sourceSize, transform.crop) : { x: 0, y: 0, ...sourceSize },
+    pivot: { x: rect.x + rect.width * transform.anchorX, y: rect.y + rect.height * transform.anchorY },
+    offsetX: animation.positionX * pixelScale,
+    offsetY: animation.positionY * pixelScale,
+    scale: animation.scale / 100,
+    rotation: animation.rotation,
+    flipX: transform.flipX,
+    flipY: transform.flipY
+  };
+};
+
+// Porta il contesto nelle coordinate del rettangolo di base del clip
+export const applyClipPlacement = (ctx: FrameContext, placement: ClipPlacement) => {
+  const { pivot } = placement;
+  ctx.translate(pivot.x + placement.offsetX, pivot.y + placement.offsetY);
+  ctx.rotate((placement.rotation * Math.PI) / 180);
+  ctx.scale(placement.scale * (placement.flipX ? -1 : 1), placement.scale * (placement.flipY ? -1 : 1));
+  ctx.translate(-pivot.x, -pivot.y);
+};
+
+// L'opacità del clip si somma a quella già sul contesto; il blur animato sta nei passaggi per pixel
+const applyClipAppearance = (ctx: FrameContext, animation: ClipAnimation) => {
+  ctx.globalAlpha *= Math.max(0, Math.min(1, animation.opacity / 100));
+};
+
+// Elaborazioni per pixel del clip: prima la correzione colore, poi quelle degli effetti nell'ordine dello stack,
+// infine bianco e nero e blur (effetti e keyframe insieme). blurRadius è in pixel dell'immagine elaborata
+const getPixelSteps = (item: TimelineItem, clipEffects: FrameEffects | null, blurRadius: number): PixelStep[] => {
+  const steps = clipEffects
+    ? [...clipEffects.pixelSteps, ...getEffectPixelSteps(clipEffects, blurRadius)]
+    : blurRadius > 0 ? getGaussianBlurSteps(blurRadius) : [];
+  if (!hasColorCorrection(item)) return steps;
+  return [getColorCorrectionStep(getColorCorrection(item), item.colorCorrection!), ...steps];
+};
+
+// Sorgente e posizione di un elemento, pronte da disegnare (eventualmente spostate da una transizione).
+// Il metodo di fusione vale solo se sotto c'è già qualcosa: sul solo sfondo il clip si disegna normale
+const prepareLayer = (
+  ctx: FrameContext,
+  item: TimelineItem,
+  time: number,
+  resolveMedia: MediaResolver,
+  frameSize: FrameSize,
+  hasLayersBelow: boolean
+): TransitionLayer | null => {
+  const source = resolveMedia(item, getMediaTime(item, time));
+  if (!source) return null;
+
+  const sourceSize = getSourceSize(source);
+  if (!sourceSize.width || !sourceSize.height) return null;
+
+  const clipEffects = hasClipEffects(item) ? calculateClipEffects(item, time) : null;
+  const animation = item.transform || item.opacity !== undefined || hasKeyframes(item) ? getClipAnimation(item, time) : null;
+  const placement = animation ? getClipPlacement(item, sourceSize, frameSize, time, animation) : null;
+  const rect = placement?.rect ?? getItemRect(item, sourceSize, frameSize);
+  const blended = hasLayersBelow && isBlended(item.blendMode);
+  const sourceRect = placement?.sourceRect ?? { x: 0, y: 0, ...sourceSize };
+  const drawSize = { width: rect.width * (placement?.scale ?? 1), height: rect.height * (placement?.scale ?? 1) };
+  // Il blur degli effetti e quello dei keyframe sono gaussiani: in sequenza valgono un solo blur con sigma = ipotenusa.
+  // Il raggio è nei pixel del fotogramma: si riporta alla dimensione a cui si elabora la sorgente
+  const frameBlur = Math.hypot(clipEffects?.blurRadius ?? 0, animation?.blur ?? 0);
+  const blurRadius = frameBlur > 0
+    ? frameBlur * getPixelScale(frameSize.width, frameSize.height) * (getProcessingSize(sourceRect, drawSize).width / drawSize.width)
+    : 0;
+  const pixelSteps = getPixelSteps(item, clipEffects, blurRadius);
+
+  return {
+    rect,
+    draw: (offsetX = 0, offsetY = 0) => {
+      // I pixel si elaborano al momento del disegno: il canvas di appoggio è condiviso
+      const processed = pixelSteps.length > 0 && renderPixelSteps(source, sourceRect, drawSize, pixelSteps);
+      const image = processed || source;
+      const imageRect = processed ? { x: 0, y: 0, ...getSourceSize(processed) } : sourceRect;
+
+      if (!clipEffects && !placement && !blended) {
+        ctx.drawImage(image, imageRect.x, imageRect.y, imageRect.width, imageRect.height, rect.x + offsetX, rect.y + offsetY, rect.width, rect.height);
+        return;
+      }
+
+      ctx.save();
+      if (blended) ctx.globalCompositeOperation = getCompositeOperation(item.blendMode);
+      ctx.translate(offsetX, offsetY);
+      if (placement) {
+        applyClipAppearance(ctx, animation!);
+        applyClipPlacement(ctx, placement);
+      }
+      if (clipEffects) applyClipEffects(ctx, clipEffects, rect);
+
+      ctx.drawImage(image, imageRect.x, imageRect.y, imageRect.width, imageRect.height, rect.x, rect.y, rect.width, rect.height);
+      if (clipEffects) applyColorFade(ctx, clipEffects, rect);
+      ctx.restore();
+    }
+  };
+};
+
+// Effetti della timeline che lavorano sul fotogramma finito: passaggi per pixel (bianco e nero, blur), poi il colore dei fade
+const applyFinishedFrameEffects = (ctx: FrameContext, effects: FrameEffects, frameSize: FrameSize) => {
+  const frameRect = { x: 0, y: 0, ...frameSize };
+  const blurRadius = effects.blurRadius * getPixelScale(frameSize.width, frameSize.height);
+  const pixelSteps = [...getEffectPixelSteps(effects, blurRadius), ...effects.pixelSteps];
+  if (pixelSteps.length > 0) {
+    const processed = renderPixelSteps(ctx.canvas, frameRect, frameSize, pixelSteps);
+    if (processed) ctx.drawImage(processed, 0, 0, frameSize.width, frameSize.height);
+  }
+  applyColorFade(ctx, effects, frameRect);
+};
+
+// Disegna il fotogramma al tempo indicato sull'intero canvas del contesto
+export const renderFrame = (ctx: FrameContext, { time, items, resolveMedia, background = '#000000' }: RenderFrameOptions): RenderedFrame => {
+  const frameSize = { width: ctx.canvas.width, height: ctx.canvas.height };
+  const mediaItems = getActiveMediaItems(items, time);
+  const effects = calculateFrameEffects(items, time);
+  const transitions = getActiveTransitions(items, time);
+  const drawnTransitions = new Set<ActiveTransition>();
+  const drawnItemIds: string[] = [];
+
+  ctx.save();
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, frameSize.width, frameSize.height);
+  ctx.restore();
+
+  if (mediaItems.length === 0) {
+    return { mediaItems, drawnItemIds, effects };
+  }
+
+  ctx.save();
+  applyFrameEffects(ctx, effects, frameSize);
+
+  mediaItems.forEach(item => {
+    try {
+      // I due clip di una transizione si disegnano insieme, una sola volta
+      const transition = transitions.find(active => active.outgoing.id === item.id || active.incoming.id === item.id);
+      if (transition) {
+        if (drawnTransitions.has(transition)) return;
+        drawnTransitions.add(transition);
+
+        const hasLayersBelow = drawnItemIds.length > 0;
+        const outgoing = prepareLayer(ctx, transition.outgoing, time, resolveMedia, frameSize, hasLayersBelow);
+        const incoming = prepareLayer(ctx, transition.incoming, time, resolveMedia, frameSize, hasLayersBelow);
+        drawTransition(ctx, transition.transition.type, getTransitionProgress(transition, time), outgoing, incoming, frameSize);
+        if (outgoing) drawnItemIds.push(transition.outgoing.id);
+        if (incoming) drawnItemIds.push(transition.incoming.id);
+        return;
+      }
+
+      const layer = prepareLayer(ctx, item, time, resolveMedia, frameSize, drawnItemIds.length > 0);
+      if (!layer) return;
+
+      layer.draw();
+      drawnItemIds.push(item.id);
+    } catch (error) {
+      console.warn(`Error rendering item ${item.id}:`, error);
+    }
+  });
+
+  ctx.restore();
+
+  applyFinishedFrameEffects(ctx, effects, frameSize);
+
+  return { mediaItems, drawnItemIds, effects };
+};
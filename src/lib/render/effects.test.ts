@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import type { TimelineItem } from "@/components/VideoEditor";
+import { splitItemAt } from "@/lib/timeline";
+import { setKeyframe, setParameterValue } from "@/lib/keyframes";
+import {
+  ClipEffect,
+  addClipEffect,
+  calculateActiveEffects,
+  calculateBlurRadius,
+  calculateClipEffects,
+  calculateFrameEffects,
+  calculateGlobalAlpha,
+  calculateZoomScale,
+  getEffectItemParams,
+  getEffectItemParamsAt,
+  moveClipEffect,
+  removeClipEffect,
+  setEffectItemParams
+} from "./effects";
+
+const effect = (effectType: string, startTime: number, duration: number, effectIntensity?: number): TimelineItem => ({
+  id: `${effectType}-${startTime}`,
+  mediaFile: {
+    id: `media-${effectType}-${startTime}`,
+    name: effectType,
+    type: 'effect',
+    url: '',
+    duration,
+    effectType,
+    effectIntensity
+  },
+  startTime,
+  duration,
+  track: 0
+});
+
+describe('frame effects', () => {
+  it('fades in and out through the global alpha', () => {
+    const items = [effect('fade-in', 0, 2), effect('fade-out', 8, 2)];
+
+    expect(calculateGlobalAlpha(calculateActiveEffects(items, 0.5))).toBeCloseTo(0.25);
+    expect(calculateGlobalAlpha(calculateActiveEffects(items, 5))).toBe(1);
+    expect(calculateGlobalAlpha(calculateActiveEffects(items, 9.5))).toBeCloseTo(0.25);
+  });
+
+  it('ignores effects outside their time range', () => {
+    const items = [effect('black-white', 2, 2)];
+
+    expect(calculateFrameEffects(items, 1.99).blackWhite).toBe(false);
+    expect(calculateFrameEffects(items, 2).blackWhite).toBe(true);
+    expect(calculateFrameEffects(items, 4).blackWhite).toBe(false);
+  });
+
+  it('zooms in progressively up to 3x at full intensity', () => {
+    const items = [effect('zoom-in', 0, 4, 100)];
+
+    expect(calculateZoomScale(items, 0)).toBe(1);
+    expect(calculateZoomScale(items, 2)).toBeCloseTo(2);
+  });
+
+  it('zooms out towards 0.2x and uses the default intensity when missing', () => {
+    expect(calculateZoomScale([effect('zoom-out', 0, 4, 100)], 2)).toBeCloseTo(0.6);
+    expect(calculateZoomScale([effect('zoom-out', 0, 4)], 2)).toBeCloseTo(0.8);
+  });
+
+  it('keeps the strongest blur when blurs overlap', () => {
+    const items = [effect('blur', 0, 4, 30), effect('blur', 1, 4, 80)];
+
+    expect(calculateBlurRadius(items, 0.5)).toBeCloseTo(3);
+    expect(calculateBlurRadius(items, 2)).toBeCloseTo(8);
+  });
+});
+
+describe('effect parameters', () => {
+  it('prefers the item parameters over the legacy intensity', () => {
+    const legacy = effect('zoom-in', 0, 4, 100);
+    expect(getEffectItemParams(legacy)).toMatchObject({ intensity: 100, centerX: 50, centerY: 50 });
+
+    const [updated] = setEffectItemParams([legacy], legacy.id, { intensity: 0, centerX: 25, centerY: 75 });
+    expect(calculateZoomScale([updated], 2)).toBe(1);
+    expect(calculateFrameEffects([updated], 2).zoomCenter).toEqual({ x: 0.25, y: 0.75 });
+  });
+
+  it('fades through a color with the chosen curve', () => {
+    const item = { ...effect('fade-in', 0, 2), effectParams: { target: 'color', color: '#ffffff', curve: 'ease-in' } };
+
+    const effects = calculateFrameEffects([item], 1);
+    expect(effects.globalAlpha).toBe(1);
+    expect(effects.colorFade!.color).toBe('#ffffff');
+    // Ease-in: a metà del fade il colore copre ancora più di metà
+    expect(effects.colorFade!.amount).toBeGreaterThan(0.5);
+  });
+
+  it('follows intensity keyframes instead of the linear ramp', () => {
+    const item = {
+      ...effect('zoom-in', 2, 4, 100),
+      keyframes: { intensity: [{ id: 'k-0', time: 0, value: 0, easing: 'linear' as const }, { id: 'k-4', time: 4, value: 50, easing: 'linear' as const }] }
+    };
+
+    expect(calculateZoomScale([item], 2)).toBe(1);
+    expect(calculateZoomScale([item], 4)).toBeCloseTo(1.5);
+    expect(getEffectItemParamsAt(item, 4)).toMatchObject({ intensity: 25, centerX: 50 });
+  });
+
+  it('changes the static intensity until the effect is animated', () => {
+    const item = effect('zoom-in', 0, 4, 100);
+
+    const [updated] = setParameterValue([item], item.id, 'intensity', 1, 40);
+    expect(updated.effectParams).toEqual({ intensity: 40 });
+    expect(updated.keyframes).toBeUndefined();
+
+    const [animated] = setParameterValue(setKeyframe([updated], item.id, 'intensity', 0, 40), item.id, 'intensity', 2, 80);
+    expect(animated.keyframes!.intensity.map(keyframe => keyframe.value)).toEqual([40, 80]);
+  });
+
+  it('turns directional blur into a pass on the finished frame', () => {
+    const item = { ...effect('blur', 0, 4, 50), effectParams: { type: 'horizontal' } };
+
+    const effects = calculateFrameEffects([item], 1);
+    expect(effects.blurRadius).toBe(0);
+    expect(effects.pixelSteps.map(step => step.shaderId)).toEqual(['directional-blur']);
+  });
+});
+
+const clip = (id: string, effects: ClipEffect[], overrides: Partial<TimelineItem> = {}): TimelineItem => ({
+  id,
+  mediaFile: { id: `media-${id}`, name: id, type: 'video', url: 'blob:test', duration: 20 },
+  startTime: 10,
+  duration: 10,
+  track: 1,
+  effects,
+  ...overrides
+});
+
+describe('clip effects', () => {
+  it('times fades from the edges of the clip', () => {
+    const item = clip('overlay', [
+      { id: 'in', type: 'fade-in', duration: 2 },
+      { id: 'out', type: 'fade-out', duration: 4 }
+    ]);
+
+    expect(calculateClipEffects(item, 11).globalAlpha).toBeCloseTo(0.5);
+    expect(calculateClipEffects(item, 15).globalAlpha).toBe(1);
+    expect(calculateClipEffects(item, 19).globalAlpha).toBeCloseTo(0.25);
+  });
+
+  it('runs zoom over the whole clip and keeps black & white constant', () => {
+    const item = clip('overlay', [
+      { id: 'bw', type: 'black-white' },
+      { id: 'zoom', type: 'zoom-in', intensity: 100 }
+    ]);
+
+    const effects = calculateClipEffects(item, 15);
+    expect(effects.blackWhite).toBe(true);
+    expect(effects.zoomScale).toBeCloseTo(2);
+    expect(effects.activeEffects.map(effect => effect.name)).toEqual(['Black & White', 'Zoom In']);
+  });
+
+  it('does not leak clip effects into the global frame effects', () => {
+    const items = [clip('base', [], { track: 0 }), clip('overlay', [{ id: 'bw', type: 'black-white' }])];
+
+    expect(calculateFrameEffects(items, 15).blackWhite).toBe(false);
+    expect(calculateClipEffects(items[0], 15).blackWhite).toBe(false);
+    expect(calculateClipEffects(items[1], 15).blackWhite).toBe(true);
+  });
+
+  it('moves effects with the clip', () => {
+    const item = clip('overlay', [{ id: 'in', type: 'fade-in', duration: 2 }]);
+    const moved = { ...item, startTime: 30 };
+
+    expect(calculateClipEffects(moved, 31).globalAlpha).toBeCloseTo(0.5);
+  });
+
+  it('adds, reorders and removes effects in the stack', () => {
+    let items = [clip('overlay', [])];
+    items = addClipEffect(items, 'overlay', { id: 'a', type: 'blur', intensity: 20 });
+    items = addClipEffect(items, 'overlay', { id: 'b', type: 'black-white' });
+    items = moveClipEffect(items, 'overlay', 'b', -1);
+    expect(items[0].effects!.map(effect => effect.id)).toEqual(['b', 'a']);
+
+    expect(moveClipEffect(items, 'overlay', 'b', -1)).toBe(items);
+
+    items = removeClipEffect(removeClipEffect(items, 'overlay', 'a'), 'overlay', 'b');
+    expect('effects' in items[0]).toBe(false);
+  });
+
+  it('keeps fades on the matching part when splitting', () => {
+    const items = [clip('overlay', [
+      { id: 'in', type: 'fade-in' },
+      { id: 'bw', type: 'black-white' },
+      { id: 'out', type: 'fade-out' }
+    ])];
+
+    const [first, second] = splitItemAt(items, 'overlay', 15);
+    expect(first.effects!.map(effect => effect.id)).toEqual(['in', 'bw']);
+    expect(second.effects!.map(effect => effect.id)).toEqual(['bw', 'out']);
+  });
+});
@@ -0,0 +1,281 @@
+import type { TimelineItem } from "@/components/VideoEditor";
+import { getEffectParameterId, getParameterValue, hasKeyframes } from "@/lib/keyframes";
+import {
+  ColorFade,
+  EffectContext,
+  EffectDefinition,
+  EffectOutput,
+  EffectParams,
+  EffectPoint,
+  INTENSITY_PARAMETER,
+  getEffectDefinition,
+  getIntensityParameter,
+  resolveEffectParams
+} from "@/lib/effects";
+import type { PixelStep } from "./pixels";
+
+// Calcolo degli effetti della timeline a un dato tempo, condiviso da preview ed export.
+// Gli effetti globali sono elementi 'effect' sulla timeline; quelli di clip vivono nello stack del clip.
+// Cosa fa ogni effetto lo decide il suo plugin (vedi @/lib/effects): qui si valutano e si combinano
+
+// Effetto nello stack di un clip, applicato nell'ordine dello stack e solo a quel clip
+export interface ClipEffect {
+  id: string;
+  type: string; // Id del plugin, come per gli effetti globali (fade-in, black-white, ...)
+  intensity?: number; // Parametro 'intensity' (animabile a keyframe); per le LUT è il mix con l'originale
+  duration?: number; // Solo per i fade: secondi dall'inizio (fade-in) o dalla fine (fade-out) del clip
+  lutId?: string; // Solo per 'lut': voce della libreria LUT del progetto
+  params?: EffectParams; // Gli altri parametri dello schema del plugin
+}
+
+export interface ActiveEffect {
+  id: string;
+  name: string;
+  type: string;
+  progress: number; // 0 a 1
+  intensity: number; // Opacità risultante (0 a 1): varia solo per i fade
+}
+
+// Stato combinato degli effetti da applicare al fotogramma
+export interface FrameEffects {
+  activeEffects: ActiveEffect[];
+  globalAlpha: number;
+  blackWhite: boolean;
+  zoomScale: number;
+  zoomCenter: EffectPoint; // Frazione del fotogramma o del rettangolo del clip
+  blurRadius: number; // In pixel alla larghezza di riferimento del compositor
+  colorFade: ColorFade | null; // Colore da stendere sopra (fade verso un colore)
+  pixelSteps: PixelStep[]; // Nell'ordine dello stack; sulla timeline vanno sul fotogramma finito
+}
+
+// Intensità usata quando il plugin non ne dichiara una
+export const DEFAULT_EFFECT_INTENSITY = 50;
+
+// Durata dei fade di clip quando non specificata
+export const DEFAULT_CLIP_FADE_DURATION = 1;
+
+const MIN_ZOOM_SCALE = 0.1;
+const MAX_ZOOM_SCALE = 5.0;
+
+const DEFAULT_ZOOM_CENTER: EffectPoint = { x: 0.5, y: 0.5 };
+
+interface EvaluatedEffect {
+  active: ActiveEffect;
+  output: EffectOutput;
+}
+
+const isActiveAt = (item: TimelineItem, time: number) =>
+  time >= item.startTime && time < item.startTime + item.duration;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const getActiveEffectItems = (items: TimelineItem[], time: number, effectTypes?: string[]) => {
+  return items.filter(item =>
+    item.mediaFile.type === 'effect' &&
+    isActiveAt(item, time) &&
+    (!effectTypes || effectTypes.includes(item.mediaFile.effectType || ''))
+  );
+};
+
+const evaluate = (
+  id: string,
+  type: string,
+  name: string,
+  definition: EffectDefinition | null,
+  params: EffectParams,
+  context: EffectContext
+): EvaluatedEffect => {
+  const output = definition?.render(params, context) ?? {};
+  return {
+    active: {
+      id,
+      name,
+      type: type || 'unknown',
+      progress: clamp(context.progress, 0, 1),
+      intensity: clamp(output.alpha ?? 1, 0, 1)
+    },
+    output
+  };
+};
+
+// Parametri di un elemento 'effect' della timeline, validati sullo schema del plugin.
+// I progetti precedenti ai parametri hanno solo mediaFile.effectIntensity (0 o assente = predefinita)
+export const getEffectItemParams = (item: TimelineItem): EffectParams => {
+  const definition = getEffectDefinition(item.mediaFile.effectType);
+  if (!definition) return {};
+  return resolveEffectParams(definition, {
+    ...(item.mediaFile.effectIntensity ? { [INTENSITY_PARAMETER]: item.mediaFile.effectIntensity } : {}),
+    ...item.effectParams
+  });
+};
+
+export const setEffectItemParams = (items: TimelineItem[], itemId: string, params: EffectParams): TimelineItem[] => {
+  return items.map(item => (item.id === itemId ? { ...item, effectParams: params } : item));
+};
+
+// Parametri di un elemento 'effect' al tempo indicato: l'intensità animata a keyframe sta in keyframes.intensity
+export const getEffectItemParamsAt = (item: TimelineItem, time: number): EffectParams => {
+  const definition = getEffectDefinition(item.mediaFile.effectType);
+  const params = getEffectItemParams(item);
+  const intensity = getIntensityParameter(definition);
+  if (!definition || !intensity) return params;
+  return resolveEffectParams(definition, {
+    ...params,
+    [INTENSITY_PARAMETER]: getParameterValue(item, INTENSITY_PARAMETER, time, params[INTENSITY_PARAMETER] as number)
+  });
+};
+
+// Elemento 'effect' della timeline: avanza dall'inizio alla fine dell'elemento, oppure segue i keyframe dell'intensità
+const evaluateTimelineEffect = (effect: TimelineItem, time: number) => {
+  const type = effect.mediaFile.effectType || '';
+  const progress = hasKeyframes(effect, INTENSITY_PARAMETER) ? 1 : (time - effect.startTime) / effect.duration;
+  return evaluate(effect.id, type, effect.mediaFile.name, getEffectDefinition(type), getEffectItemParamsAt(effect, time), { scope: 'timeline', progress });
+};
+
+const combineEffects = (evaluated: EvaluatedEffect[]): FrameEffects => {
+  const activeEffects = evaluated.map(effect => effect.active);
+  const outputs = evaluated.map(effect => effect.output);
+  return {
+    activeEffects,
+    globalAlpha: calculateGlobalAlpha(activeEffects),
+    blackWhite: outputs.some(output => output.grayscale),
+    zoomScale: clamp(outputs.reduce((scale, output) => scale * (output.zoomScale ?? 1), 1.0), MIN_ZOOM_SCALE, MAX_ZOOM_SCALE),
+    zoomCenter: outputs.reduce((center, output) => output.zoomCenter ?? center, DEFAULT_ZOOM_CENTER),
+    blurRadius: outputs.reduce((radius, output) => Math.max(radius, output.blurRadius ?? 0), 0),
+    colorFade: outputs.reduce<ColorFade | null>(
+      (strongest, output) => (output.colorFade && output.colorFade.amount > (strongest?.amount ?? 0) ? output.colorFade : strongest),
+      null
+    ),
+    pixelSteps: outputs.filter(output => output.pixelStep).map(output => output.pixelStep!)
+  };
+};
+
+export const calculateActiveEffects = (items: TimelineItem[], time: number): ActiveEffect[] => {
+  return getActiveEffectItems(items, time).map(effect => evaluateTimelineEffect(effect, time).active);
+};
+
+// Alfa globale: prodotto delle opacità degli effetti attivi (i fade)
+export const calculateGlobalAlpha = (activeEffects: ActiveEffect[]) => {
+  const globalAlpha = activeEffects.reduce((alpha, effect) => alpha * effect.intensity, 1.0);
+  return clamp(globalAlpha, 0, 1);
+};
+
+// Gli effetti della timeline valgono per l'intero fotogramma
+export const calculateFrameEffects = (items: TimelineItem[], time: number): FrameEffects => {
+  return combineEffects(getActiveEffectItems(items, time).map(effect => evaluateTimelineEffect(effect, time)));
+};
+
+// Se più blur si sovrappongono vince il più forte
+export const calculateBlurRadius = (items: TimelineItem[], time: number) => calculateFrameEffects(items, time).blurRadius;
+
+// Gli zoom sovrapposti si moltiplicano
+export const calculateZoomScale = (items: TimelineItem[], time: number) => calculateFrameEffects(items, time).zoomScale;
+
+// Progresso (0-1) di un effetto di clip: i fade coprono solo la loro durata, gli altri il clip intero
+const getClipEffectProgress = (item: TimelineItem, effect: ClipEffect, definition: EffectDefinition | null, time: number) => {
+  const localTime = time - item.startTime;
+  const fadeDuration = Math.min(item.duration, effect.duration ?? DEFAULT_CLIP_FADE_DURATION);
+
+  switch (definition?.edge) {
+    case 'in':
+      return clamp(localTime / fadeDuration, 0, 1);
+    case 'out':
+      return clamp(1 - (item.duration - localTime) / fadeDuration, 0, 1);
+    default:
+      return clamp(localTime / item.duration, 0, 1);
+  }
+};
+
+// Effetti con un parametro di intensità (e quindi un parametro animabile)
+export const hasEffectIntensity = (effectType: string) => !!getIntensityParameter(getEffectDefinition(effectType));
+
+// Intensità salvata, o quella predefinita dal plugin
+export const getStoredEffectIntensity = (effect: ClipEffect) => {
+  return effect.intensity ?? getIntensityParameter(getEffectDefinition(effect.type))?.defaultValue ?? DEFAULT_EFFECT_INTENSITY;
+};
+
+export const getClipEffectIntensity = (item: TimelineItem, effect: ClipEffect, time: number) => {
+  return getParameterValue(item, getEffectParameterId(effect.id), time, getStoredEffectIntensity(effect));
+};
+
+// Valori salvati di un effetto di clip: intensità e LUT hanno campi propri, gli altri stanno in params
+export const getClipEffectValues = (effect: ClipEffect): Partial<EffectParams> => ({
+  ...effect.params,
+  ...(effect.intensity !== undefined ? { [INTENSITY_PARAMETER]: effect.intensity } : {}),
+  ...(effect.lutId !== undefined ? { lutId: effect.lutId } : {})
+});
+
+// Parametri di un effetto di clip al tempo indicato, con l'intensità dei keyframe
+export const getClipEffectParams = (item: TimelineItem, effect: ClipEffect, time: number) => {
+  const definition = getEffectDefinition(effect.type);
+  if (!definition) return {};
+  const values = getClipEffectValues(effect);
+  if (getIntensityParameter(definition)) values[INTENSITY_PARAMETER] = getClipEffectIntensity(item, effect, time);
+  return resolveEffectParams(definition, values);
+};
+
+// Nuovo effetto di clip dai parametri scelti nel dialog
+export const createClipEffect = (definition: EffectDefinition, params: EffectParams, clipDuration: number): ClipEffect => {
+  const { [INTENSITY_PARAMETER]: intensity, lutId, ...rest } = resolveEffectParams(definition, params);
+  return {
+    id: `clip-effect-${Date.now()}-${Math.random()}`,
+    type: definition.id,
+    ...(typeof intensity === 'number' ? { intensity } : {}),
+    ...(definition.edge ? { duration: Math.min(definition.defaultDuration, clipDuration) } : {}),
+    ...(typeof lutId === 'string' ? { lutId } : {}),
+    ...(Object.keys(rest).length > 0 ? { params: rest } : {})
+  };
+};
+
+// Effetti dello stack di un clip al tempo indicato (anche fuori dal clip durante una transizione)
+export const calculateClipEffects = (item: TimelineItem, time: number): FrameEffects => {
+  return combineEffects((item.effects ?? []).map(effect => {
+    const definition = getEffectDefinition(effect.type);
+    // Con l'intensità animata a keyframe gli effetti progressivi seguono i keyframe invece della rampa lineare
+    const progress = hasKeyframes(item, getEffectParameterId(effect.id)) ? 1 : getClipEffectProgress(item, effect, definition, time);
+    const name = definition?.name ?? effect.type;
+    return evaluate(effect.id, effect.type, name, definition, getClipEffectParams(item, effect, time), { scope: 'clip', progress });
+  }));
+};
+
+export const hasClipEffects = (item: TimelineItem) => (item.effects?.length ?? 0) > 0;
+
+export const isLutUsed = (items: TimelineItem[], lutId: string) => {
+  return items.some(item => item.effects?.some(effect => effect.lutId === lutId));
+};
+
+// Sostituisce lo stack di effetti di un clip (stack vuoto = campo rimosso)
+export const setClipEffects = (items: TimelineItem[], itemId: string, effects: ClipEffect[]): TimelineItem[] => {
+  return items.map(item => {
+    if (item.id !== itemId) return item;
+    if (effects.length === 0) {
+      const { effects: _removed, ...rest } = item;
+      return rest;
+    }
+    return { ...item, effects };
+  });
+};
+
+export const addClipEffect = (items: TimelineItem[], itemId: string, effect: ClipEffect) => {
+  const item = items.find(i => i.id === itemId);
+  if (!item) return items;
+  return setClipEffects(items, itemId, [...(item.effects ?? []), effect]);
+};
+
+export const removeClipEffect = (items: TimelineItem[], itemId: string, effectId: string) => {
+  const item = items.find(i => i.id === itemId);
+  if (!item) return items;
+  return setClipEffects(items, itemId, (item.effects ?? []).filter(effect => effect.id !== effectId));
+};
+
+// Sposta un effetto di una posizione nello stack (-1 verso l'alto, 1 verso il basso)
+export const moveClipEffect = (items: TimelineItem[], itemId: string, effectId: string, direction: -1 | 1) => {
+  const item = items.find(i => i.id === itemId);
+  const stack = [...(item?.effects ?? [])];
+  const index = stack.findIndex(effect => effect.id === effectId);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= stack.length) return items;
+
+  [stack[index], stack[target]] = [stack[target], stack[index]];
+  return setClipEffects(items, itemId, stack);
+};
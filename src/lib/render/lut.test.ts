@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { applyLut, createLutAsset, getLut, parseCubeLut, setLutLibrary } from "./lut";
+
+// LUT 3D 2x2x2 che inverte i colori, con il rosso che varia più velocemente
+const INVERT_CUBE = `# Inverte i colori
+TITLE "Invert"
+LUT_3D_SIZE 2
+1 1 1
+0 1 1
+1 0 1
+0 0 1
+1 1 0
+0 1 0
+1 0 0
+0 0 0
+`;
+
+const apply = (cube: string, pixel: number[], mix = 1) => {
+  const data = new Uint8ClampedArray([...pixel, 255]);
+  applyLut(data, parseCubeLut(cube), mix);
+  return Array.from(data);
+};
+
+describe('parseCubeLut', () => {
+  it('reads the header and the table', () => {
+    const lut = parseCubeLut(INVERT_CUBE);
+
+    expect(lut.title).toBe('Invert');
+    expect(lut.kind).toBe('3d');
+    expect(lut.size).toBe(2);
+    expect(lut.table).toHaveLength(24);
+    expect(lut.domainMax).toEqual([1, 1, 1]);
+  });
+
+  it('rejects malformed files with the offending line', () => {
+    expect(() => parseCubeLut('0 0 0')).toThrow('Line 1: table data before the LUT size');
+    expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0')).toThrow('Line 2: expected three numbers');
+    expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0 0')).toThrow('Expected 8 table entries, found 1');
+    expect(() => parseCubeLut('TITLE "Empty"')).toThrow('Missing LUT_3D_SIZE or LUT_1D_SIZE');
+  });
+});
+
+describe('applyLut', () => {
+  it('interpolates 3D LUTs and keeps alpha', () => {
+    expect(apply(INVERT_CUBE, [0, 255, 51])).toEqual([255, 0, 204, 255]);
+  });
+
+  it('mixes the result with the original', () => {
+    expect(apply(INVERT_CUBE, [0, 0, 0], 0.5)).toEqual([128, 128, 128, 255]);
+    expect(apply(INVERT_CUBE, [10, 20, 30], 0)).toEqual([10, 20, 30, 255]);
+  });
+
+  it('maps each channel on its own with 1D LUTs', () => {
+    // Il rosso satura già a metà, verde e blu restano lineari
+    const cube = 'LUT_1D_SIZE 3\n0 0 0\n1 0.5 0.5\n1 1 1';
+    expect(apply(cube, [128, 64, 255])).toEqual([255, 64, 255, 255]);
+  });
+});
+
+describe('LUT library', () => {
+  it('resolves assets by id until they are removed', () => {
+    const asset = createLutAsset('invert.cube', INVERT_CUBE);
+    setLutLibrary([asset]);
+    expect(getLut(asset.id)?.title).toBe('Invert');
+
+    setLutLibrary([]);
+    expect(getLut(asset.id)).toBeNull();
+  });
+});
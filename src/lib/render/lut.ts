@@ -0,0 +1,220 @@
+// LUT in formato .cube (Adobe/Resolve): parser, libreria del progetto e applicazione ai pixel.
+// I clip fanno riferimento alle LUT per id; il testo originale resta nella libreria e si salva nel progetto
+
+export type LutKind = '1d' | '3d';
+
+export interface CubeLut {
+  title: string;
+  kind: LutKind;
+  size: number; // Campioni per canale
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  table: Float32Array; // RGB in sequenza; per le 3D il rosso varia più velocemente
+}
+
+// Voce della libreria LUT del progetto
+export interface LutAsset {
+  id: string;
+  name: string;
+  kind: LutKind;
+  size: number;
+  source: string; // Contenuto del file .cube
+}
+
+export const LUT_FILE_EXTENSION = '.cube';
+
+// Limiti della specifica .cube
+const MAX_3D_SIZE = 256;
+const MAX_1D_SIZE = 65536;
+
+const parseTriplet = (parts: string[], lineNumber: number): [number, number, number] => {
+  const values = parts.map(Number);
+  if (values.length !== 3 || values.some(value => !Number.isFinite(value))) {
+    throw new Error(`Line ${lineNumber}: expected three numbers`);
+  }
+  return values as [number, number, number];
+};
+
+export const parseCubeLut = (text: string): CubeLut => {
+  let title = '';
+  let kind: LutKind | null = null;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const [keyword, ...rest] = line.split(/\s+/);
+    switch (keyword) {
+      case 'TITLE':
+        title = line.slice(keyword.length).trim().replace(/^"|"$/g, '');
+        return;
+      case 'LUT_1D_SIZE':
+      case 'LUT_3D_SIZE': {
+        if (kind) throw new Error(`Line ${lineNumber}: LUT size declared twice`);
+        kind = keyword === 'LUT_1D_SIZE' ? '1d' : '3d';
+        size = Number(rest[0]);
+        const maxSize = kind === '3d' ? MAX_3D_SIZE : MAX_1D_SIZE;
+        if (!Number.isInteger(size) || size < 2 || size > maxSize) {
+          throw new Error(`Line ${lineNumber}: invalid LUT size ${rest[0] ?? ''}`.trim());
+        }
+        return;
+      }
+      case 'DOMAIN_MIN':
+        domainMin = parseTriplet(rest, lineNumber);
+        return;
+      case 'DOMAIN_MAX':
+        domainMax = parseTriplet(rest, lineNumber);
+        return;
+      case 'LUT_1D_INPUT_RANGE':
+      case 'LUT_3D_INPUT_RANGE': {
+        // Variante Resolve: stesso intervallo per i tre canali
+        const [min, max] = rest.map(Number);
+        if (!Number.isFinite(min) || !Number.isFinite(max)) throw new Error(`Line ${lineNumber}: invalid input range`);
+        domainMin = [min, min, min];
+        domainMax = [max, max, max];
+        return;
+      }
+      default:
+        // Parole chiave sconosciute (estensioni dei vari programmi) si ignorano
+        if (/^[A-Za-z_]/.test(keyword)) return;
+        if (!kind) throw new Error(`Line ${lineNumber}: table data before the LUT size`);
+        values.push(...parseTriplet([keyword, ...rest], lineNumber));
+    }
+  });
+
+  if (!kind) throw new Error('Missing LUT_3D_SIZE or LUT_1D_SIZE');
+  const expected = (kind === '3d' ? size * size * size : size) * 3;
+  if (values.length !== expected) {
+    throw new Error(`Expected ${expected / 3} table entries, found ${values.length / 3}`);
+  }
+  if (domainMin.some((min, channel) => min >= domainMax[channel])) {
+    throw new Error('DOMAIN_MIN must be lower than DOMAIN_MAX');
+  }
+
+  return { title, kind, size, domainMin, domainMax, table: Float32Array.from(values) };
+};
+
+// Nuova voce di libreria da un file .cube (lancia un errore se il file non è valido)
+export const createLutAsset = (name: string, source: string): LutAsset => {
+  const lut = parseCubeLut(source);
+  return {
+    id: `lut-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: lut.title || name.replace(/\.cube$/i, ''),
+    kind: lut.kind,
+    size: lut.size,
+    source
+  };
+};
+
+// Le LUT analizzate si tengono in memoria per id. La libreria viene sincronizzata dall'editor,
+// così preview ed export trovano le stesse LUT senza passarle a ogni fotogramma
+const lutLibrary = new Map<string, { asset: LutAsset; lut: CubeLut }>();
+
+export const setLutLibrary = (assets: LutAsset[]) => {
+  const ids = new Set(assets.map(asset => asset.id));
+  Array.from(lutLibrary.keys()).forEach(id => {
+    if (!ids.has(id)) lutLibrary.delete(id);
+  });
+
+  assets.forEach(asset => {
+    if (lutLibrary.get(asset.id)?.asset === asset) return;
+    try {
+      lutLibrary.set(asset.id, { asset, lut: parseCubeLut(asset.source) });
+    } catch (error) {
+      console.warn(`Invalid LUT ${asset.name}:`, error);
+      lutLibrary.delete(asset.id);
+    }
+  });
+};
+
+export const getLut = (lutId: string | undefined) => (lutId ? lutLibrary.get(lutId)?.lut ?? null : null);
+
+// Voci valide della libreria, nell'ordine di importazione
+export const getLutAssets = () => Array.from(lutLibrary.values()).map(entry => entry.asset);
+
+// Indice e peso di interpolazione per ogni valore a 8 bit di un canale
+const buildSampleIndex = (lut: CubeLut, channel: number) => {
+  const lower = new Uint16Array(256);
+  const weight = new Float32Array(256);
+  const min = lut.domainMin[channel];
+  const range = lut.domainMax[channel] - min;
+
+  for (let i = 0; i < 256; i++) {
+    const position = Math.max(0, Math.min(1, (i / 255 - min) / range)) * (lut.size - 1);
+    lower[i] = Math.min(lut.size - 2, Math.floor(position));
+    weight[i] = position - lower[i];
+  }
+  return { lower, weight };
+};
+
+const sampleIndexCache = new WeakMap<CubeLut, ReturnType<typeof buildSampleIndex>[]>();
+
+const getSampleIndex = (lut: CubeLut) => {
+  let index = sampleIndexCache.get(lut);
+  if (!index) {
+    index = [0, 1, 2].map(channel => buildSampleIndex(lut, channel));
+    sampleIndexCache.set(lut, index);
+  }
+  return index;
+};
+
+// Applica la LUT a pixel RGBA sul posto; mix 0-1 dosa il risultato con l'originale.
+// Le 3D usano l'interpolazione trilineare, le 1D quella lineare per canale
+export const applyLut = (data: Uint8ClampedArray, lut: CubeLut, mix = 1) => {
+  if (mix <= 0) return;
+
+  const [red, green, blue] = getSampleIndex(lut);
+  const { table, size } = lut;
+
+  if (lut.kind === '1d') {
+    const channels = [red, green, blue];
+    for (let i = 0; i < data.length; i += 4) {
+      for (let c = 0; c < 3; c++) {
+        const value = data[i + c];
+        const lower = channels[c].lower[value];
+        const w = channels[c].weight[value];
+        const mapped = table[lower * 3 + c] * (1 - w) + table[(lower + 1) * 3 + c] * w;
+        data[i + c] = value + (mapped * 255 - value) * mix;
+      }
+    }
+    return;
+  }
+
+  const strideG = size * 3;
+  const strideB = size * size * 3;
+  for (let i = 0; i < data.length; i += 4) {
+    const r0 = red.lower[data[i]];
+    const g0 = green.lower[data[i + 1]];
+    const b0 = blue.lower[data[i + 2]];
+    const wr = red.weight[data[i]];
+    const wg = green.weight[data[i + 1]];
+    const wb = blue.weight[data[i + 2]];
+    const base = r0 * 3 + g0 * strideG + b0 * strideB;
+
+    for (let c = 0; c < 3; c++) {
+      const c000 = table[base + c];
+      const c100 = table[base + 3 + c];
+      const c010 = table[base + strideG + c];
+      const c110 = table[base + strideG + 3 + c];
+      const c001 = table[base + strideB + c];
+      const c101 = table[base + strideB + 3 + c];
+      const c011 = table[base + strideB + strideG + c];
+      const c111 = table[base + strideB + strideG + 3 + c];
+
+      const c00 = c000 + (c100 - c000) * wr;
+      const c10 = c010 + (c110 - c010) * wr;
+      const c01 = c001 + (c101 - c001) * wr;
+      const c11 = c011 + (c111 - c011) * wr;
+      const c0 = c00 + (c10 - c00) * wg;
+      const c1 = c01 + (c11 - c01) * wg;
+      const mapped = (c0 + (c1 - c0) * wb) * 255;
+
+      data[i + c] = data[i + c] + (mapped - data[i + c]) * mix;
+    }
+  }
+};
@@ -0,0 +1,166 @@
+import type { TimelineItem } from "@/components/VideoEditor";
+import { getEffectDefinition } from "@/lib/effects";
+import { FrameContext, FrameSize, RenderedFrame, getItemRect, getMediaTime, getPixelScale, getSourceSize } from "./compositor";
+import { ClipPlacement, Point, getPlacementCorners, isPointInPlacement, placePoint } from "./transform";
+
+// Indicatori disegnati sopra il fotogramma solo nella preview (mai nell'export)
+
+// Bordo tratteggiato ed etichetta per ogni effetto attivo
+export const drawEffectIndicators = (ctx: FrameContext, frame: RenderedFrame) => {
+  const { activeEffects } = frame.effects;
+  if (activeEffects.length === 0) return;
+
+  const { width, height } = ctx.canvas;
+
+  ctx.save();
+  ctx.globalAlpha = 0.8;
+
+  activeEffects.forEach((effect, index) => {
+    ctx.strokeStyle = '#ff0000';
+    ctx.lineWidth = 3;
+    ctx.setLineDash([8, 4]);
+    ctx.strokeRect(5 + index * 3, 5 + index * 3, width - 10 - index * 6, height - 10 - index * 6);
+
+    const textY = 25 + index * 25;
+    const definition = getEffectDefinition(effect.type);
+    ctx.fillStyle = definition?.indicatorColor ?? 'rgba(255, 0, 0, 0.9)';
+    ctx.fillRect(10, textY - 15, 180, 20);
+
+    const detail = definition?.formatIndicator?.(frame.effects) ?? `${(effect.progress * 100).toFixed(0)}%`;
+    const displayText = `${effect.name} (${detail})`;
+
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '12px Arial';
+    ctx.textAlign = 'left';
+    ctx.fillText(displayText, 15, textY);
+  });
+
+  ctx.restore();
+};
+
+// Nome e tempo sorgente sopra ogni video disegnato
+export const drawItemLabels = (
+  ctx: FrameContext,
+  frame: RenderedFrame,
+  time: number,
+  resolveMedia: (item: TimelineItem) => CanvasImageSource | null
+) => {
+  const frameSize = { width: ctx.canvas.width, height: ctx.canvas.height };
+
+  ctx.save();
+  frame.mediaItems
+    .filter(item => item.mediaFile.type === 'video' && frame.drawnItemIds.includes(item.id))
+    .forEach(item => {
+      const source = resolveMedia(item);
+      if (!source) return;
+
+      const rect = getItemRect(item, getSourceSize(source), frameSize);
+      const muted = source instanceof HTMLVideoElement && source.muted;
+
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+      ctx.fillRect(rect.x, rect.y, 250, 30);
+      ctx.fillStyle = '#ffffff';
+      ctx.font = '14px Arial';
+      ctx.textAlign = 'left';
+      ctx.fillText(
+        `${muted ? '🔇' : '🔊'} ${item.mediaFile.name} (${getMediaTime(item, time).toFixed(1)}s)`,
+        rect.x + 10,
+        rect.y + 20
+      );
+    });
+  ctx.restore();
+};
+
+// Maniglie di trasformazione del clip selezionato: riquadro, angoli per la scala e cerchio per la rotazione
+
+export type TransformHandle = 'move' | 'scale' | 'rotate';
+
+// Misure in pixel alla larghezza di riferimento
+const HANDLE_SIZE = 12;
+const ROTATE_HANDLE_DISTANCE = 36;
+
+const getRotateHandle = (placement: ClipPlacement, pixelScale: number): Point => {
+  const [topLeft, topRight] = getPlacementCorners(placement);
+  const center = placePoint(placement, { x: placement.rect.x + placement.rect.width / 2, y: placement.rect.y + placement.rect.height / 2 });
+  const topCenter = { x: (topLeft.x + topRight.x) / 2, y: (topLeft.y + topRight.y) / 2 };
+  const length = Math.hypot(topCenter.x - center.x, topCenter.y - center.y) || 1;
+  const distance = ROTATE_HANDLE_DISTANCE * pixelScale;
+  return {
+    x: topCenter.x + ((topCenter.x - center.x) / length) * distance,
+    y: topCenter.y + ((topCenter.y - center.y) / length) * distance
+  };
+};
+
+export const drawTransformHandles = (ctx: FrameContext, placement: ClipPlacement) => {
+  const pixelScale = getPixelScale(ctx.canvas.width, ctx.canvas.height);
+  const corners = getPlacementCorners(placement);
+  const rotateHandle = getRotateHandle(placement, pixelScale);
+  const size = HANDLE_SIZE * pixelScale;
+
+  ctx.save();
+  ctx.strokeStyle = '#facc15';
+  ctx.fillStyle = '#ffffff';
+  ctx.lineWidth = 2 * pixelScale;
+
+  ctx.beginPath();
+  corners.forEach((corner, index) => index === 0 ? ctx.moveTo(corner.x, corner.y) : ctx.lineTo(corner.x, corner.y));
+  ctx.closePath();
+  ctx.stroke();
+
+  const topCenter = { x: (corners[0].x + corners[1].x) / 2, y: (corners[0].y + corners[1].y) / 2 };
+  ctx.beginPath();
+  ctx.moveTo(topCenter.x, topCenter.y);
+  ctx.lineTo(rotateHandle.x, rotateHandle.y);
+  ctx.stroke();
+
+  corners.forEach(corner => {
+    ctx.fillRect(corner.x - size / 2, corner.y - size / 2, size, size);
+    ctx.strokeRect(corner.x - size / 2, corner.y - size / 2, size, size);
+  });
+
+  ctx.beginPath();
+  ctx.arc(rotateHandle.x, rotateHandle.y, size / 2, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Quale maniglia si trova sotto il punto (in pixel del canvas), con un margine di tolleranza
+export const hitTestTransformHandles = (placement: ClipPlacement, point: Point, frameSize: FrameSize): TransformHandle | null => {
+  const pixelScale = getPixelScale(frameSize.width, frameSize.height);
+  const tolerance = HANDLE_SIZE * pixelScale;
+  const isNear = (target: Point) => Math.hypot(target.x - point.x, target.y - point.y) <= tolerance;
+
+  if (isNear(getRotateHandle(placement, pixelScale))) return 'rotate';
+  if (getPlacementCorners(placement).some(isNear)) return 'scale';
+  if (isPointInPlacement(placement, point)) return 'move';
+  return null;
+};
+
+// Vista prima/dopo della correzione colore: a sinistra della linea i colori originali
+export const drawCompareDivider = (ctx: FrameContext, splitX: number) => {
+  const { height } = ctx.canvas;
+  const pixelScale = getPixelScale(ctx.canvas.width, height);
+  const labelY = 24 * pixelScale;
+
+  ctx.save();
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 2 * pixelScale;
+  ctx.beginPath();
+  ctx.moveTo(splitX, 0);
+  ctx.lineTo(splitX, height);
+  ctx.stroke();
+
+  ctx.font = `${Math.round(14 * pixelScale)}px Arial`;
+  ctx.textBaseline = 'middle';
+  [{ text: 'Before', align: 'right' as const, x: splitX - 10 * pixelScale }, { text: 'After', align: 'left' as const, x: splitX + 10 * pixelScale }]
+    .forEach(({ text, align, x }) => {
+      const width = ctx.measureText(text).width + 12 * pixelScale;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+      ctx.fillRect(align === 'right' ? x - width : x, labelY - 11 * pixelScale, width, 22 * pixelScale);
+      ctx.fillStyle = '#ffffff';
+      ctx.textAlign = align;
+      ctx.fillText(text, align === 'right' ? x - 6 * pixelScale : x + 6 * pixelScale, labelY);
+    });
+  ctx.restore();
+};
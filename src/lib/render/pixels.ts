@@ -0,0 +1,87 @@
+import type { FrameContext, FrameSize } from "./compositor";
+import type { Rect } from "./transform";
+import { renderWithWebGL } from "./webgl";
+
+// Elaborazione per pixel (correzione colore, LUT, effetti shader): il Canvas2D non ha filtri del genere.
+// Con il backend WebGL2 i passaggi girano come shader; con Canvas2D (o se WebGL non è disponibile)
+// la sorgente passa da un canvas di appoggio e si modificano i pixel in JavaScript
+
+export type RenderBackend = 'canvas2d' | 'webgl2';
+
+// Modifica pixel RGBA sul posto
+export type PixelPass = (data: Uint8ClampedArray, width: number, height: number) => void;
+
+export type UniformValue = number | number[];
+
+// Tabella di lookup caricata come texture: 2D (larghezza x 1) o 3D (lato x lato x lato), RGBA a 8 bit.
+// key identifica la tabella per riusare la texture finché l'oggetto da cui nasce non cambia
+export interface LookupTable {
+  key: object;
+  dimensions: 2 | 3;
+  size: number;
+  build: () => Uint8Array;
+}
+
+// Un passaggio della catena: lo shader per WebGL e l'equivalente in JavaScript per Canvas2D
+export interface PixelStep {
+  shaderId: string;
+  uniforms: Record<string, UniformValue>;
+  lookup?: LookupTable;
+  cpu: PixelPass;
+}
+
+let backend: RenderBackend = 'canvas2d';
+
+// Backend scelto nelle impostazioni, condiviso da preview ed export
+export const setRenderBackend = (value: RenderBackend) => {
+  backend = value;
+};
+
+export const getRenderBackend = () => backend;
+
+// Il canvas di appoggio si disegna e si rilegge subito, quindi ne basta uno per preview ed export
+let scratchCanvas: OffscreenCanvas | HTMLCanvasElement | null = null;
+
+const getScratchContext = (size: FrameSize) => {
+  if (!scratchCanvas) {
+    scratchCanvas = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(size.width, size.height)
+      : document.createElement('canvas');
+  }
+  scratchCanvas.width = size.width;
+  scratchCanvas.height = size.height;
+  return scratchCanvas.getContext('2d', { willReadFrequently: true }) as FrameContext | null;
+};
+
+const renderWithCanvas = (source: CanvasImageSource, sourceRect: Rect, size: FrameSize, steps: PixelStep[]) => {
+  const ctx = getScratchContext(size);
+  if (!ctx) return null;
+
+  ctx.drawImage(source, sourceRect.x, sourceRect.y, sourceRect.width, sourceRect.height, 0, 0, size.width, size.height);
+  const image = ctx.getImageData(0, 0, size.width, size.height);
+  steps.forEach(step => step.cpu(image.data, size.width, size.height));
+  ctx.putImageData(image, 0, 0);
+  return ctx.canvas;
+};
+
+// Dimensione di lavoro: quella a cui la sorgente verrà disegnata, mai oltre quella della sorgente
+export const getProcessingSize = (sourceRect: Rect, drawSize: FrameSize): FrameSize => ({
+  width: Math.max(1, Math.round(Math.min(sourceRect.width, drawSize.width))),
+  height: Math.max(1, Math.round(Math.min(sourceRect.height, drawSize.height)))
+});
+
+// Porzione della sorgente elaborata dalla catena di passaggi.
+// Il risultato va disegnato subito: la chiamata successiva riusa lo stesso canvas
+export const renderPixelSteps = (
+  source: CanvasImageSource,
+  sourceRect: Rect,
+  drawSize: FrameSize,
+  steps: PixelStep[]
+): CanvasImageSource | null => {
+  const size = getProcessingSize(sourceRect, drawSize);
+  if (backend === 'webgl2') {
+    const rendered = renderWithWebGL(source, sourceRect, size, steps);
+    if (rendered) return rendered;
+  }
+  return renderWithCanvas(source, sourceRect, size, steps);
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { parseCubeLut } from "./lut";
+import { getDefaultEffectParams, getEffectDefinitions } from "@/lib/effects";
+import { SEPIA_MATRIX } from "@/lib/effects/sepia";
+import {
+  GRAYSCALE_MATRIX,
+  applyColorMatrix,
+  applyDirectionalBlur,
+  applyGaussianBlur,
+  applyPixelate,
+  applySharpen,
+  applyVignette,
+  getFragmentShader,
+  getGaussianBlurSteps,
+  getLutStep
+} from "./shaders";
+
+// Immagine width x height riempita da fill(x, y) -> [r, g, b]
+const image = (width: number, height: number, fill: (x: number, y: number) => number[]) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...fill(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return data;
+};
+
+const pixelAt = (data: Uint8ClampedArray, width: number, x: number, y: number) => {
+  return Array.from(data.slice((y * width + x) * 4, (y * width + x) * 4 + 3));
+};
+
+describe('shader registry', () => {
+  it('has a fragment shader for every clip effect', () => {
+    getEffectDefinitions().forEach(definition => {
+      const step = definition.render(getDefaultEffectParams(definition), { scope: 'clip', progress: 0.5 }).pixelStep;
+      if (step) expect(getFragmentShader(step.shaderId)).toContain('vec4 effect(vec2 uv)');
+    });
+    expect(getFragmentShader('missing')).toBeNull();
+  });
+
+  it('splits the gaussian blur into a horizontal and a vertical pass', () => {
+    const steps = getGaussianBlurSteps(4);
+
+    expect(steps.map(step => step.uniforms.uDirection)).toEqual([[1, 0], [0, 1]]);
+    expect(getFragmentShader('gaussian-blur')).toContain('uniform float uSigma');
+  });
+
+  it('uploads LUT tables as 8 bit RGBA texels', () => {
+    const step = getLutStep(parseCubeLut('LUT_1D_SIZE 2\n0 0 0\n1 0.5 1'), 1);
+
+    expect(step.shaderId).toBe('lut-1d');
+    expect(Array.from(step.lookup!.build())).toEqual([0, 0, 0, 255, 255, 128, 255, 255]);
+  });
+});
+
+describe('canvas fallbacks', () => {
+  it('darkens the corners with the vignette and keeps the center', () => {
+    const data = image(9, 9, () => [200, 200, 200]);
+    applyVignette(data, 9, 9, 1);
+
+    expect(pixelAt(data, 9, 4, 4)).toEqual([200, 200, 200]);
+    expect(pixelAt(data, 9, 0, 0)[0]).toBeLessThan(50);
+  });
+
+  it('leaves flat areas alone when sharpening and boosts edges', () => {
+    const flat = image(4, 4, () => [100, 100, 100]);
+    applySharpen(flat, 4, 4, 1);
+    expect(pixelAt(flat, 4, 1, 1)).toEqual([100, 100, 100]);
+
+    const edge = image(4, 1, x => (x < 2 ? [50, 50, 50] : [150, 150, 150]));
+    applySharpen(edge, 4, 1, 1);
+    expect(pixelAt(edge, 4, 1, 0)[0]).toBeLessThan(50);
+    expect(pixelAt(edge, 4, 2, 0)[0]).toBeGreaterThan(150);
+  });
+
+  it('fills each pixelate block with one color', () => {
+    const data = image(4, 4, (x, y) => [x * 60, y * 60, 0]);
+    applyPixelate(data, 4, 4, 2);
+
+    expect(pixelAt(data, 4, 0, 0)).toEqual(pixelAt(data, 4, 1, 1));
+    expect(pixelAt(data, 4, 2, 2)).toEqual(pixelAt(data, 4, 3, 3));
+    expect(pixelAt(data, 4, 0, 0)).not.toEqual(pixelAt(data, 4, 3, 3));
+  });
+
+  it('blurs only along the chosen direction', () => {
+    const data = image(5, 5, x => (x === 2 ? [255, 255, 255] : [0, 0, 0]));
+    applyDirectionalBlur(data, 5, 5, [0, 1], 0.4);
+    expect(pixelAt(data, 5, 2, 2)).toEqual([255, 255, 255]);
+
+    applyDirectionalBlur(data, 5, 5, [1, 0], 0.4);
+    expect(pixelAt(data, 5, 1, 2)[0]).toBeGreaterThan(0);
+    expect(pixelAt(data, 5, 2, 2)[0]).toBeLessThan(255);
+  });
+
+  it('spreads the gaussian blur symmetrically and keeps flat areas', () => {
+    const data = image(9, 1, x => (x === 4 ? [255, 255, 255] : [0, 0, 0]));
+    applyGaussianBlur(data, 9, 1, [1, 0], 1);
+
+    expect(pixelAt(data, 9, 4, 0)[0]).toBeLessThan(255);
+    expect(pixelAt(data, 9, 3, 0)).toEqual(pixelAt(data, 9, 5, 0));
+    expect(pixelAt(data, 9, 3, 0)[0]).toBeGreaterThan(pixelAt(data, 9, 2, 0)[0]);
+
+    const flat = image(4, 4, () => [80, 120, 160]);
+    applyGaussianBlur(flat, 4, 4, [0, 1], 2);
+    expect(pixelAt(flat, 4, 1, 1)).toEqual([80, 120, 160]);
+  });
+
+  it('turns colors to their luminance for black & white', () => {
+    const data = image(1, 1, () => [200, 100, 50]);
+    applyColorMatrix(data, GRAYSCALE_MATRIX, 1);
+    const [r, g, b] = pixelAt(data, 1, 0, 0);
+
+    expect(r).toBe(g);
+    expect(g).toBe(b);
+    expect(r).toBe(Math.round(200 * 0.2126 + 100 * 0.7152 + 50 * 0.0722));
+  });
+
+  it('tones with the color matrix, mixed with the original', () => {
+    const data = image(1, 1, () => [100, 100, 100]);
+    applyColorMatrix(data, SEPIA_MATRIX, 1);
+    const [r, g, b] = pixelAt(data, 1, 0, 0);
+    expect(r).toBeGreaterThan(g);
+    expect(g).toBeGreaterThan(b);
+
+    const untouched = image(1, 1, () => [100, 100, 100]);
+    applyColorMatrix(untouched, SEPIA_MATRIX, 0);
+    expect(pixelAt(untouched, 1, 0, 0)).toEqual([100, 100, 100]);
+  });
+});
@@ -0,0 +1,463 @@
+import { ColorCorrection, applyColorCorrection, buildChannelLuts } from "./color";
+import { CubeLut, applyLut } from "./lut";
+import type { PixelStep } from "./pixels";
+import { REFERENCE_WIDTH } from "./compositor";
+
+// Registro degli effetti shader. Ogni effetto ha il fragment shader per il backend WebGL2
+// e la stessa elaborazione in JavaScript per il fallback Canvas2D, così preview ed export coincidono
+
+// Spostamento massimo dei canali rosso e blu (in frazione del fotogramma dal centro)
+const MAX_ABERRATION_SHIFT = 0.03;
+
+// Lato massimo dei blocchi di pixelate, in pixel di elaborazione
+const MAX_PIXEL_BLOCK = 32;
+
+// Inizio della sfumatura della vignettatura (0 = centro, 1 = angolo)
+const VIGNETTE_START = 0.25;
+
+// Campioni lungo la direzione del blur direzionale
+const BLUR_TAPS = 9;
+
+// Campioni per parte del blur gaussiano: coprono tre deviazioni standard
+const GAUSSIAN_HALF_TAPS = 12;
+const GAUSSIAN_REACH = 3;
+
+// Parte comune dei fragment shader: ogni effetto definisce effect(uv), il risultato si dosa con uMix
+const FRAGMENT_HEADER = `#version 300 es
+precision highp float;
+precision highp sampler3D;
+uniform sampler2D uSource;
+uniform vec2 uResolution;
+uniform float uMix;
+in vec2 vUv;
+out vec4 outColor;
+`;
+
+const FRAGMENT_MAIN = `
+void main() {
+  vec4 original = texture(uSource, vUv);
+  outColor = mix(original, effect(vUv), uMix);
+}
+`;
+
+const SHADER_BODIES: Record<string, string> = {
+  // Copia la porzione ritagliata della sorgente nel buffer di lavoro
+  'copy': `
+vec4 effect(vec2 uv) {
+  return texture(uSource, uv);
+}`,
+  'color-correction': `
+uniform sampler2D uLookup;
+uniform float uSaturation;
+vec4 effect(vec2 uv) {
+  vec4 color = texture(uSource, uv);
+  vec3 index = (color.rgb * 255.0 + 0.5) / 256.0;
+  vec3 mapped = vec3(
+    texture(uLookup, vec2(index.r, 0.5)).r,
+    texture(uLookup, vec2(index.g, 0.5)).g,
+    texture(uLookup, vec2(index.b, 0.5)).b
+  );
+  float luma = dot(mapped, vec3(0.2126, 0.7152, 0.0722));
+  return vec4(mix(vec3(luma), mapped, uSaturation), color.a);
+}`,
+  'lut-3d': `
+uniform sampler3D uLookup;
+uniform float uLutSize;
+uniform vec3 uDomainMin;
+uniform vec3 uDomainMax;
+vec4 effect(vec2 uv) {
+  vec4 color = texture(uSource, uv);
+  vec3 position = clamp((color.rgb - uDomainMin) / (uDomainMax - uDomainMin), 0.0, 1.0);
+  vec3 coord = (position * (uLutSize - 1.0) + 0.5) / uLutSize;
+  return vec4(texture(uLookup, coord).rgb, color.a);
+}`,
+  'lut-1d': `
+uniform sampler2D uLookup;
+uniform float uLutSize;
+uniform vec3 uDomainMin;
+uniform vec3 uDomainMax;
+vec4 effect(vec2 uv) {
+  vec4 color = texture(uSource, uv);
+  vec3 position = clamp((color.rgb - uDomainMin) / (uDomainMax - uDomainMin), 0.0, 1.0);
+  vec3 coord = (position * (uLutSize - 1.0) + 0.5) / uLutSize;
+  return vec4(
+    texture(uLookup, vec2(coord.r, 0.5)).r,
+    texture(uLookup, vec2(coord.g, 0.5)).g,
+    texture(uLookup, vec2(coord.b, 0.5)).b,
+    color.a
+  );
+}`,
+  'vignette': `
+vec4 effect(vec2 uv) {
+  vec4 color = texture(uSource, uv);
+  float dist = length(uv - 0.5) * 1.41421356;
+  return vec4(color.rgb * (1.0 - smoothstep(${VIGNETTE_START.toFixed(2)}, 1.0, dist)), color.a);
+}`,
+  'sharpen': `
+vec4 effect(vec2 uv) {
+  vec2 texel = 1.0 / uResolution;
+  vec4 color = texture(uSource, uv);
+  vec3 neighbours = texture(uSource, uv + vec2(texel.x, 0.0)).rgb
+    + texture(uSource, uv - vec2(texel.x, 0.0)).rgb
+    + texture(uSource, uv + vec2(0.0, texel.y)).rgb
+    + texture(uSource, uv - vec2(0.0, texel.y)).rgb;
+  return vec4(clamp(color.rgb * 5.0 - neighbours, 0.0, 1.0), color.a);
+}`,
+  'chromatic-aberration': `
+uniform float uShift;
+vec4 effect(vec2 uv) {
+  vec2 offset = (uv - 0.5) * uShift;
+  vec4 color = texture(uSource, uv);
+  return vec4(texture(uSource, uv + offset).r, color.g, texture(uSource, uv - offset).b, color.a);
+}`,
+  'pixelate': `
+uniform float uBlockSize;
+vec4 effect(vec2 uv) {
+  vec2 center = uResolution / 2.0;
+  vec2 block = floor((uv * uResolution - center) / uBlockSize);
+  vec2 target = clamp(center + (block + 0.5) * uBlockSize, vec2(0.5), uResolution - 0.5);
+  return texture(uSource, target / uResolution);
+}`,
+  'directional-blur': `
+uniform vec2 uDirection;
+uniform float uSpread;
+vec4 effect(vec2 uv) {
+  vec2 reach = uDirection * uSpread * uResolution.x / uResolution;
+  vec4 sum = vec4(0.0);
+  for (int i = 0; i < ${BLUR_TAPS}; i++) {
+    sum += texture(uSource, uv + reach * (float(i) / ${(BLUR_TAPS - 1).toFixed(1)} * 2.0 - 1.0));
+  }
+  return sum / ${BLUR_TAPS.toFixed(1)};
+}`,
+  // Una passata del blur gaussiano separabile: prima orizzontale, poi verticale
+  'gaussian-blur': `
+uniform vec2 uDirection;
+uniform float uSigma;
+vec4 effect(vec2 uv) {
+  float spacing = uSigma * ${GAUSSIAN_REACH.toFixed(1)} / ${GAUSSIAN_HALF_TAPS.toFixed(1)};
+  vec4 sum = vec4(0.0);
+  float total = 0.0;
+  for (int i = -${GAUSSIAN_HALF_TAPS}; i <= ${GAUSSIAN_HALF_TAPS}; i++) {
+    float t = float(i) / ${GAUSSIAN_HALF_TAPS.toFixed(1)} * ${GAUSSIAN_REACH.toFixed(1)};
+    float weight = exp(-0.5 * t * t);
+    sum += texture(uSource, uv + uDirection * float(i) * spacing / uResolution) * weight;
+    total += weight;
+  }
+  return sum / total;
+}`,
+  'color-matrix': `
+uniform mat4 uMatrix;
+uniform vec4 uOffset;
+vec4 effect(vec2 uv) {
+  return clamp(uMatrix * texture(uSource, uv) + uOffset, 0.0, 1.0);
+}`
+};
+
+export const getFragmentShader = (shaderId: string) => {
+  const body = SHADER_BODIES[shaderId];
+  return body ? FRAGMENT_HEADER + body + FRAGMENT_MAIN : null;
+};
+
+// Matrice 4x5 per righe (R, G, B, A; l'ultima colonna è l'offset 0-1)
+export type ColorMatrix = number[];
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// Elaborazioni in JavaScript: stessi calcoli degli shader, pixel RGBA sul posto
+
+export const applyVignette = (data: Uint8ClampedArray, width: number, height: number, amount: number) => {
+  for (let y = 0; y < height; y++) {
+    const dy = (y + 0.5) / height - 0.5;
+    for (let x = 0; x < width; x++) {
+      const dx = (x + 0.5) / width - 0.5;
+      const darken = smoothstep(VIGNETTE_START, 1, Math.sqrt(dx * dx + dy * dy) * Math.SQRT2) * amount;
+      const i = (y * width + x) * 4;
+      data[i] *= 1 - darken;
+      data[i + 1] *= 1 - darken;
+      data[i + 2] *= 1 - darken;
+    }
+  }
+};
+
+export const applySharpen = (data: Uint8ClampedArray, width: number, height: number, amount: number) => {
+  const source = data.slice();
+  const at = (x: number, y: number, c: number) => {
+    return source[(Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))) * 4 + c];
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const neighbours = at(x + 1, y, c) + at(x - 1, y, c) + at(x, y + 1, c) + at(x, y - 1, c);
+        const sharpened = Math.max(0, Math.min(255, source[i + c] * 5 - neighbours));
+        data[i + c] = source[i + c] + (sharpened - source[i + c]) * amount;
+      }
+    }
+  }
+};
+
+export const applyChromaticAberration = (data: Uint8ClampedArray, width: number, height: number, shift: number) => {
+  const source = data.slice();
+  const sample = (x: number, y: number, c: number) => {
+    const sx = Math.min(width - 1, Math.max(0, Math.floor(x)));
+    const sy = Math.min(height - 1, Math.max(0, Math.floor(y)));
+    return source[(sy * width + sx) * 4 + c];
+  };
+
+  for (let y = 0; y < height; y++) {
+    const py = y + 0.5;
+    const offsetY = (py - height / 2) * shift;
+    for (let x = 0; x < width; x++) {
+      const px = x + 0.5;
+      const offsetX = (px - width / 2) * shift;
+      const i = (y * width + x) * 4;
+      data[i] = sample(px + offsetX, py + offsetY, 0);
+      data[i + 2] = sample(px - offsetX, py - offsetY, 2);
+    }
+  }
+};
+
+// I blocchi partono dal centro del fotogramma, così il risultato non dipende dal verso delle righe
+export const applyPixelate = (data: Uint8ClampedArray, width: number, height: number, blockSize: number) => {
+  const source = data.slice();
+  const blockCenter = (value: number, size: number) => {
+    const center = size / 2;
+    const block = Math.floor((value + 0.5 - center) / blockSize);
+    return Math.min(size - 1, Math.max(0, Math.floor(center + (block + 0.5) * blockSize)));
+  };
+
+  for (let y = 0; y < height; y++) {
+    const sy = blockCenter(y, height);
+    for (let x = 0; x < width; x++) {
+      const from = (sy * width + blockCenter(x, width)) * 4;
+      const i = (y * width + x) * 4;
+      data[i] = source[from];
+      data[i + 1] = source[from + 1];
+      data[i + 2] = source[from + 2];
+      data[i + 3] = source[from + 3];
+    }
+  }
+};
+
+// Somma pesata dei campioni spostati di (dx, dy), con i bordi bloccati; i pesi sommano a 1.
+// Sul backend Canvas2D gira a ogni frame: cicli su typed array, senza allocazioni per pixel
+const convolve = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  dx: Int32Array,
+  dy: Int32Array,
+  weights: Float64Array
+) => {
+  const source = data.slice();
+  const taps = weights.length;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let tap = 0; tap < taps; tap++) {
+        const sx = Math.min(width - 1, Math.max(0, x + dx[tap]));
+        const sy = Math.min(height - 1, Math.max(0, y + dy[tap]));
+        const from = (sy * width + sx) * 4;
+        const weight = weights[tap];
+        r += source[from] * weight;
+        g += source[from + 1] * weight;
+        b += source[from + 2] * weight;
+        a += source[from + 3] * weight;
+      }
+      const i = (y * width + x) * 4;
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+      data[i + 3] = a;
+    }
+  }
+};
+
+// Media di BLUR_TAPS campioni lungo direction, fino a spread (frazione della larghezza) per parte
+export const applyDirectionalBlur = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  direction: [number, number],
+  spread: number
+) => {
+  const reach = spread * width;
+  const dx = new Int32Array(BLUR_TAPS);
+  const dy = new Int32Array(BLUR_TAPS);
+  for (let tap = 0; tap < BLUR_TAPS; tap++) {
+    const t = (tap / (BLUR_TAPS - 1)) * 2 - 1;
+    dx[tap] = Math.round(direction[0] * reach * t);
+    dy[tap] = Math.round(direction[1] * reach * t);
+  }
+  convolve(data, width, height, dx, dy, new Float64Array(BLUR_TAPS).fill(1 / BLUR_TAPS));
+};
+
+// Pesi normalizzati del blur gaussiano per i campioni da -GAUSSIAN_HALF_TAPS a GAUSSIAN_HALF_TAPS, come nello shader
+const GAUSSIAN_WEIGHTS = (() => {
+  const weights = Float64Array.from({ length: GAUSSIAN_HALF_TAPS * 2 + 1 }, (_, i) => {
+    const t = ((i - GAUSSIAN_HALF_TAPS) / GAUSSIAN_HALF_TAPS) * GAUSSIAN_REACH;
+    return Math.exp(-0.5 * t * t);
+  });
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map(weight => weight / total);
+})();
+
+// Una passata del blur gaussiano lungo direction; sigma (deviazione standard) in pixel
+export const applyGaussianBlur = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  direction: [number, number],
+  sigma: number
+) => {
+  const spacing = (sigma * GAUSSIAN_REACH) / GAUSSIAN_HALF_TAPS;
+  // Arrotondamento simmetrico: i campioni a -0.5 e +0.5 pixel devono cadere alla stessa distanza
+  const roundSymmetric = (value: number) => Math.sign(value) * Math.round(Math.abs(value));
+  const taps = GAUSSIAN_WEIGHTS.length;
+  const dx = new Int32Array(taps);
+  const dy = new Int32Array(taps);
+  for (let tap = 0; tap < taps; tap++) {
+    dx[tap] = roundSymmetric(direction[0] * (tap - GAUSSIAN_HALF_TAPS) * spacing);
+    dy[tap] = roundSymmetric(direction[1] * (tap - GAUSSIAN_HALF_TAPS) * spacing);
+  }
+  convolve(data, width, height, dx, dy, GAUSSIAN_WEIGHTS);
+};
+
+export const applyColorMatrix = (data: Uint8ClampedArray, matrix: ColorMatrix, mix = 1) => {
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const a = data[i + 3];
+    for (let row = 0; row < 4; row++) {
+      const m = row * 5;
+      const value = matrix[m] * r + matrix[m + 1] * g + matrix[m + 2] * b + matrix[m + 3] * a + matrix[m + 4] * 255;
+      const original = data[i + row];
+      data[i + row] = original + (Math.max(0, Math.min(255, value)) - original) * mix;
+    }
+  }
+};
+
+// La matrice 4x5 per righe diventa mat4 (per colonne) più offset per lo shader
+const toMatrixUniforms = (matrix: ColorMatrix) => ({
+  uMatrix: [0, 1, 2, 3].flatMap(column => [0, 1, 2, 3].map(row => matrix[row * 5 + column])),
+  uOffset: [0, 1, 2, 3].map(row => matrix[row * 5 + 4])
+});
+
+// Passaggi pronti per la catena di un clip
+
+// cacheKey identifica la correzione salvata nel clip: la texture si ricrea solo quando cambia
+export const getColorCorrectionStep = (correction: ColorCorrection, cacheKey: object): PixelStep => {
+  return {
+    shaderId: 'color-correction',
+    uniforms: { uMix: 1, uSaturation: correction.saturation / 100 },
+    lookup: {
+      key: cacheKey,
+      dimensions: 2,
+      size: 256,
+      build: () => {
+        const [red, green, blue] = buildChannelLuts(correction);
+        const texels = new Uint8Array(256 * 4);
+        for (let i = 0; i < 256; i++) {
+          texels.set([red[i], green[i], blue[i], 255], i * 4);
+        }
+        return texels;
+      }
+    },
+    cpu: data => applyColorCorrection(data, correction)
+  };
+};
+
+export const getLutStep = (lut: CubeLut, mix: number): PixelStep => ({
+  shaderId: lut.kind === '3d' ? 'lut-3d' : 'lut-1d',
+  uniforms: { uMix: mix, uLutSize: lut.size, uDomainMin: lut.domainMin, uDomainMax: lut.domainMax },
+  lookup: {
+    key: lut,
+    dimensions: lut.kind === '3d' ? 3 : 2,
+    size: lut.size,
+    build: () => {
+      const entries = lut.table.length / 3;
+      const texels = new Uint8Array(entries * 4);
+      for (let i = 0; i < entries; i++) {
+        for (let c = 0; c < 3; c++) {
+          texels[i * 4 + c] = Math.round(Math.max(0, Math.min(1, lut.table[i * 3 + c])) * 255);
+        }
+        texels[i * 4 + 3] = 255;
+      }
+      return texels;
+    }
+  },
+  cpu: data => applyLut(data, lut, mix)
+});
+
+export const getColorMatrixStep = (matrix: ColorMatrix, mix: number): PixelStep => ({
+  shaderId: 'color-matrix',
+  uniforms: { uMix: mix, ...toMatrixUniforms(matrix) },
+  cpu: data => applyColorMatrix(data, matrix, mix)
+});
+
+// Luminanza con i pesi del filtro CSS grayscale(1)
+export const GRAYSCALE_MATRIX: ColorMatrix = [
+  0.2126, 0.7152, 0.0722, 0, 0,
+  0.2126, 0.7152, 0.0722, 0, 0,
+  0.2126, 0.7152, 0.0722, 0, 0,
+  0, 0, 0, 1, 0
+];
+
+export const getGrayscaleStep = (): PixelStep => getColorMatrixStep(GRAYSCALE_MATRIX, 1);
+
+// Blur gaussiano come due passate separate; sigma in pixel dell'immagine elaborata
+export const getGaussianBlurSteps = (sigma: number): PixelStep[] => {
+  return ([[1, 0], [0, 1]] as [number, number][]).map(direction => ({
+    shaderId: 'gaussian-blur',
+    uniforms: { uMix: 1, uDirection: direction, uSigma: sigma },
+    cpu: (data, width, height) => applyGaussianBlur(data, width, height, direction, sigma)
+  }));
+};
+
+// Passaggi degli effetti shader, con amount 0-1
+
+export const getVignetteStep = (amount: number): PixelStep => ({
+  shaderId: 'vignette',
+  uniforms: { uMix: amount },
+  cpu: (data, width, height) => applyVignette(data, width, height, amount)
+});
+
+export const getSharpenStep = (amount: number): PixelStep => ({
+  shaderId: 'sharpen',
+  uniforms: { uMix: amount },
+  cpu: (data, width, height) => applySharpen(data, width, height, amount)
+});
+
+export const getChromaticAberrationStep = (amount: number): PixelStep => ({
+  shaderId: 'chromatic-aberration',
+  uniforms: { uMix: 1, uShift: amount * MAX_ABERRATION_SHIFT },
+  cpu: (data, width, height) => applyChromaticAberration(data, width, height, amount * MAX_ABERRATION_SHIFT)
+});
+
+export const getPixelateStep = (amount: number): PixelStep => {
+  const blockSize = Math.max(1, Math.round(amount * MAX_PIXEL_BLOCK));
+  return {
+    shaderId: 'pixelate',
+    uniforms: { uMix: 1, uBlockSize: blockSize },
+    cpu: (data, width, height) => applyPixelate(data, width, height, blockSize)
+  };
+};
+
+// radius in pixel alla larghezza di riferimento del compositor, per parte
+export const getDirectionalBlurStep = (radius: number, direction: [number, number]): PixelStep => {
+  const spread = radius / REFERENCE_WIDTH;
+  return {
+    shaderId: 'directional-blur',
+    uniforms: { uMix: 1, uDirection: direction, uSpread: spread },
+    cpu: (data, width, height) => applyDirectionalBlur(data, width, height, direction, spread)
+  };
+};
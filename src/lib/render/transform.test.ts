@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { TimelineItem } from "@/components/VideoEditor";
+import { getClipParameterValue, setKeyframe, setParameterValue } from "../keyframes";
+import { getClipPlacement, getFrameSize, getItemRect } from "./compositor";
+import { DEFAULT_TRANSFORM, clampCrop, getFitRect, getSourceRect, placePoint, setItemTransform, unplacePoint } from "./transform";
+
+const clip = (overrides: Partial<TimelineItem> = {}): TimelineItem => ({
+  id: 'clip',
+  mediaFile: { id: 'media', name: 'clip.mp4', type: 'video', url: 'blob:clip', duration: 20 },
+  startTime: 0,
+  duration: 10,
+  track: 1,
+  ...overrides
+});
+
+const frame = getFrameSize('16:9');
+
+describe('fit modes', () => {
+  const square = { width: 1000, height: 1000 };
+
+  it('letterboxes, covers or stretches the source', () => {
+    expect(getFitRect(square, frame, 'fit')).toEqual({ x: 280, y: 0, width: 720, height: 720 });
+    expect(getFitRect(square, frame, 'fill')).toEqual({ x: 0, y: -280, width: 1280, height: 1280 });
+    expect(getFitRect(square, frame, 'stretch')).toEqual({ x: 0, y: 0, width: 1280, height: 720 });
+  });
+
+  it('crops the source before fitting it', () => {
+    const crop = { top: 0, right: 0.25, bottom: 0, left: 0.25 };
+
+    expect(getSourceRect(square, crop)).toEqual({ x: 250, y: 0, width: 500, height: 1000 });
+    expect(clampCrop({ top: 0.7, right: 0, bottom: 0.7, left: -1 })).toEqual({ top: 0.7, right: 0, bottom: 0.25, left: 0 });
+  });
+
+  it('drops the track inset once the clip has a transform', () => {
+    const source = { width: 1920, height: 1080 };
+
+    expect(getItemRect(clip(), source, frame)).toEqual({ x: 20, y: 20, width: 1240, height: 680 });
+    expect(getItemRect(clip({ transform: DEFAULT_TRANSFORM }), source, frame)).toEqual({ x: 0, y: 0, width: 1280, height: 720 });
+  });
+});
+
+describe('clip placement', () => {
+  it('maps points into the frame and back', () => {
+    const [item] = setItemTransform([clip()], 'clip', { x: 100, scale: 50, rotation: 30, flipX: true, anchorX: 0 });
+    const placement = getClipPlacement(item, { width: 1920, height: 1080 }, frame, 0);
+    const point = { x: 900, y: 200 };
+    const back = unplacePoint(placement, placePoint(placement, point));
+
+    expect(back.x).toBeCloseTo(point.x);
+    expect(back.y).toBeCloseTo(point.y);
+  });
+
+  it('writes static values until the parameter is animated', () => {
+    let items = setParameterValue([clip()], 'clip', 'rotation', 2, 45);
+    expect(items[0].transform!.rotation).toBe(45);
+    expect(items[0].keyframes).toBeUndefined();
+
+    items = setKeyframe(items, 'clip', 'rotation', 0, 0);
+    items = setParameterValue(items, 'clip', 'rotation', 4, 90);
+    expect(getClipParameterValue(items[0], 'rotation', 2)).toBe(45);
+    expect(items[0].transform!.rotation).toBe(45);
+  });
+});
@@ -0,0 +1,188 @@
+import type { TimelineItem } from "@/components/VideoEditor";
+
+// Trasformazione di un clip nel fotogramma: adattamento, ritaglio, posizione, scala, rotazione e ribaltamento.
+// I clip senza trasformazione mantengono l'impaginazione storica (rientro per traccia, immagini all'80%)
+
+export type FitMode = 'fit' | 'fill' | 'stretch';
+
+// Ritaglio come frazione (0-1) della sorgente tolta da ogni lato
+export interface CropInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface ClipTransform {
+  x: number; // Spostamento in pixel alla larghezza di riferimento
+  y: number;
+  scale: number; // Percentuale
+  rotation: number; // Gradi, in senso orario
+  anchorX: number; // Punto di ancoraggio per scala e rotazione, frazione (0-1) del clip
+  anchorY: number;
+  crop: CropInsets;
+  flipX: boolean;
+  flipY: boolean;
+  fit: FitMode;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_TRANSFORM: ClipTransform = {
+  x: 0,
+  y: 0,
+  scale: 100,
+  rotation: 0,
+  anchorX: 0.5,
+  anchorY: 0.5,
+  crop: { top: 0, right: 0, bottom: 0, left: 0 },
+  flipX: false,
+  flipY: false,
+  fit: 'fit'
+};
+
+export const FIT_MODES: { id: FitMode; name: string; description: string }[] = [
+  { id: 'fit', name: 'Fit', description: 'Whole clip visible, letterboxed' },
+  { id: 'fill', name: 'Fill', description: 'Cover the frame, edges cropped' },
+  { id: 'stretch', name: 'Stretch', description: 'Distort to the frame size' }
+];
+
+// Il ritaglio non può lasciare meno di così della sorgente
+const MIN_CROP_REMAINDER = 0.05;
+
+export const getTransform = (item: TimelineItem): ClipTransform => ({
+  ...DEFAULT_TRANSFORM,
+  ...item.transform,
+  crop: { ...DEFAULT_TRANSFORM.crop, ...item.transform?.crop }
+});
+
+// Aggiorna la trasformazione di un clip; null la rimuove (torna all'impaginazione predefinita)
+export const setItemTransform = (
+  items: TimelineItem[],
+  itemId: string,
+  patch: Partial<ClipTransform> | null
+): TimelineItem[] => {
+  return items.map(item => {
+    if (item.id !== itemId) return item;
+    if (!patch) {
+      const { transform: _removed, ...rest } = item;
+      return rest;
+    }
+    return { ...item, transform: { ...getTransform(item), ...patch } };
+  });
+};
+
+export const clampCrop = (crop: CropInsets): CropInsets => {
+  const clampSide = (value: number) => Math.max(0, Math.min(1 - MIN_CROP_REMAINDER, value));
+  const left = clampSide(crop.left);
+  const top = clampSide(crop.top);
+  return {
+    left,
+    top,
+    right: Math.min(clampSide(crop.right), 1 - MIN_CROP_REMAINDER - left),
+    bottom: Math.min(clampSide(crop.bottom), 1 - MIN_CROP_REMAINDER - top)
+  };
+};
+
+// Porzione della sorgente da disegnare, in pixel della sorgente
+export const getSourceRect = (sourceSize: { width: number; height: number }, crop: CropInsets): Rect => {
+  const { top, right, bottom, left } = clampCrop(crop);
+  return {
+    x: sourceSize.width * left,
+    y: sourceSize.height * top,
+    width: sourceSize.width * (1 - left - right),
+    height: sourceSize.height * (1 - top - bottom)
+  };
+};
+
+// Rettangolo centrato nel fotogramma secondo la modalità di adattamento
+export const getFitRect = (
+  sourceSize: { width: number; height: number },
+  frameSize: { width: number; height: number },
+  fit: FitMode
+): Rect => {
+  if (fit === 'stretch') {
+    return { x: 0, y: 0, width: frameSize.width, height: frameSize.height };
+  }
+
+  const sourceAspect = sourceSize.width / sourceSize.height;
+  const frameAspect = frameSize.width / frameSize.height;
+  const matchWidth = fit === 'fit' ? sourceAspect > frameAspect : sourceAspect <= frameAspect;
+  const width = matchWidth ? frameSize.width : frameSize.height * sourceAspect;
+  const height = matchWidth ? frameSize.width / sourceAspect : frameSize.height;
+
+  return {
+    x: (frameSize.width - width) / 2,
+    y: (frameSize.height - height) / 2,
+    width,
+    height
+  };
+};
+
+// Posizionamento finale di un clip: rettangolo di base più spostamento, scala e rotazione attorno all'ancora.
+// Tutte le misure sono in pixel del fotogramma
+export interface ClipPlacement {
+  rect: Rect;
+  sourceRect: Rect;
+  pivot: Point;
+  offsetX: number;
+  offsetY: number;
+  scale: number; // Fattore (1 = 100%)
+  rotation: number; // Gradi
+  flipX: boolean;
+  flipY: boolean;
+}
+
+// Da coordinate del clip (rettangolo di base) a coordinate del fotogramma
+export const placePoint = (placement: ClipPlacement, point: Point): Point => {
+  const { pivot, scale, offsetX, offsetY } = placement;
+  const angle = (placement.rotation * Math.PI) / 180;
+  const dx = (point.x - pivot.x) * scale * (placement.flipX ? -1 : 1);
+  const dy = (point.y - pivot.y) * scale * (placement.flipY ? -1 : 1);
+  return {
+    x: pivot.x + offsetX + dx * Math.cos(angle) - dy * Math.sin(angle),
+    y: pivot.y + offsetY + dx * Math.sin(angle) + dy * Math.cos(angle)
+  };
+};
+
+// Inversa di placePoint, per capire dove cade un punto del fotogramma dentro il clip
+export const unplacePoint = (placement: ClipPlacement, point: Point): Point => {
+  const { pivot, scale, offsetX, offsetY } = placement;
+  const angle = (placement.rotation * Math.PI) / 180;
+  const x = point.x - pivot.x - offsetX;
+  const y = point.y - pivot.y - offsetY;
+  const dx = x * Math.cos(angle) + y * Math.sin(angle);
+  const dy = -x * Math.sin(angle) + y * Math.cos(angle);
+  const safeScale = scale || 1;
+  return {
+    x: pivot.x + (dx / safeScale) * (placement.flipX ? -1 : 1),
+    y: pivot.y + (dy / safeScale) * (placement.flipY ? -1 : 1)
+  };
+};
+
+// Angoli del clip nel fotogramma: in alto a sinistra, in alto a destra, in basso a destra, in basso a sinistra
+export const getPlacementCorners = (placement: ClipPlacement): Point[] => {
+  const { x, y, width, height } = placement.rect;
+  return [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height }
+  ].map(point => placePoint(placement, point));
+};
+
+export const isPointInPlacement = (placement: ClipPlacement, point: Point) => {
+  const local = unplacePoint(placement, point);
+  const { x, y, width, height } = placement.rect;
+  return local.x >= x && local.x <= x + width && local.y >= y && local.y <= y + height;
+};
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import type { MediaFile, TimelineItem } from "@/components/VideoEditor";
+import type { FrameContext } from "./compositor";
+import { getActiveMediaItems } from "./compositor";
+import { splitItemAt } from "@/lib/timeline";
+import {
+  TransitionLayer,
+  drawTransition,
+  findTransitionCuts,
+  getActiveTransitions,
+  getTransitionProgress,
+  getTransitions,
+  setItemTransition
+} from "./transitions";
+
+const item = (id: string, overrides: Partial<TimelineItem> = {}, type: MediaFile['type'] = 'video'): TimelineItem => ({
+  id,
+  mediaFile: { id: `${id}-media`, name: id, type, url: 'blob:test', duration: 10 },
+  startTime: 0,
+  duration: 4,
+  track: 0,
+  ...overrides
+});
+
+// Contesto finto: registra alfa e ritagli usati mentre i livelli vengono disegnati
+const createContext = () => {
+  const clips: number[][] = [];
+  const fills: { style: string; alpha: number }[] = [];
+  const ctx = {
+    globalAlpha: 1,
+    fillStyle: '',
+    save: () => {},
+    restore: () => {},
+    beginPath: () => {},
+    rect: (x: number, y: number, width: number, height: number) => clips.push([x, y, width, height]),
+    clip: () => {},
+    fillRect: () => fills.push({ style: ctx.fillStyle, alpha: ctx.globalAlpha })
+  };
+  return { ctx: ctx as unknown as FrameContext, clips, fills };
+};
+
+const createLayer = (ctx: FrameContext, draws: { alpha: number; offsetX: number }[]): TransitionLayer => ({
+  rect: { x: 0, y: 0, width: 100, height: 50 },
+  draw: (offsetX = 0) => draws.push({ alpha: ctx.globalAlpha, offsetX })
+});
+
+const frameSize = { width: 100, height: 50 };
+
+describe('transition cuts', () => {
+  it('finds adjacent visual clips on the same track', () => {
+    const items = [
+      item('a'),
+      item('b', { startTime: 4 }),
+      item('c', { startTime: 4, track: 1 }),
+      item('music', { startTime: 4, track: 2 }, 'audio'),
+      item('d', { startTime: 9 })
+    ];
+
+    expect(findTransitionCuts(items).map(cut => [cut.outgoing.id, cut.incoming.id])).toEqual([['a', 'b']]);
+  });
+
+  it('centers the window on the cut and clamps it to the shorter clip', () => {
+    const items = [
+      item('a'),
+      item('b', { startTime: 4, duration: 1, transition: { type: 'cross-dissolve', duration: 3 } })
+    ];
+
+    const [transition] = getTransitions(items);
+    expect(transition.window).toEqual({ start: 3.5, end: 4.5 });
+    expect(getTransitionProgress(transition, 4)).toBe(0.5);
+  });
+
+  it('ignores transitions on clips that are no longer adjacent', () => {
+    const items = [item('a'), item('b', { startTime: 5, transition: { type: 'wipe-left', duration: 1 } })];
+    expect(getTransitions(items)).toEqual([]);
+  });
+
+  it('keeps both clips active for the whole window', () => {
+    const items = [item('a'), item('b', { startTime: 4, transition: { type: 'cross-dissolve', duration: 2 } })];
+
+    expect(getActiveMediaItems(items, 3.5).map(i => i.id)).toEqual(['a', 'b']);
+    expect(getActiveMediaItems(items, 4.5).map(i => i.id)).toEqual(['a', 'b']);
+    expect(getActiveMediaItems(items, 5).map(i => i.id)).toEqual(['b']);
+    expect(getActiveTransitions(items, 2.9)).toEqual([]);
+  });
+
+  it('sets, replaces and removes the incoming transition', () => {
+    const items = [item('a'), item('b', { startTime: 4 })];
+    const withTransition = setItemTransition(items, 'b', { type: 'push-left', duration: 1 });
+    expect(withTransition[1].transition).toEqual({ type: 'push-left', duration: 1 });
+    expect('transition' in setItemTransition(withTransition, 'b', null)[1]).toBe(false);
+  });
+
+  it('leaves the transition on the original cut when splitting', () => {
+    const items = [item('a'), item('b', { startTime: 4, transition: { type: 'cross-dissolve', duration: 1 } })];
+    const split = splitItemAt(items, 'b', 6);
+    expect(split.filter(i => i.transition).map(i => i.id)).toEqual(['b']);
+  });
+});
+
+describe('drawTransition', () => {
+  it('cross dissolves the incoming clip over the outgoing one', () => {
+    const { ctx } = createContext();
+    const outgoing: { alpha: number; offsetX: number }[] = [];
+    const incoming: { alpha: number; offsetX: number }[] = [];
+
+    drawTransition(ctx, 'cross-dissolve', 0.25, createLayer(ctx, outgoing), createLayer(ctx, incoming), frameSize);
+
+    expect(outgoing).toEqual([{ alpha: 1, offsetX: 0 }]);
+    expect(incoming).toEqual([{ alpha: 0.25, offsetX: 0 }]);
+    expect(ctx.globalAlpha).toBe(1);
+  });
+
+  it('dips through the color at the midpoint', () => {
+    const { ctx, fills } = createContext();
+    const outgoing: { alpha: number; offsetX: number }[] = [];
+    const incoming: { alpha: number; offsetX: number }[] = [];
+
+    drawTransition(ctx, 'dip-to-white', 0.75, createLayer(ctx, outgoing), createLayer(ctx, incoming), frameSize);
+
+    expect(outgoing).toEqual([]);
+    expect(incoming).toHaveLength(1);
+    expect(fills).toEqual([{ style: '#ffffff', alpha: 0.5 }]);
+  });
+
+  it('wipes the incoming clip in from the right edge', () => {
+    const { ctx, clips } = createContext();
+    drawTransition(ctx, 'wipe-left', 0.3, createLayer(ctx, []), createLayer(ctx, []), frameSize);
+    expect(clips).toEqual([[70, 0, 30, 50]]);
+  });
+
+  it('pushes the outgoing clip out as the incoming one enters', () => {
+    const { ctx } = createContext();
+    const outgoing: { alpha: number; offsetX: number }[] = [];
+    const incoming: { alpha: number; offsetX: number }[] = [];
+
+    drawTransition(ctx, 'push-left', 0.4, createLayer(ctx, outgoing), createLayer(ctx, incoming), frameSize);
+
+    expect(outgoing[0].offsetX).toBeCloseTo(-40);
+    expect(incoming[0].offsetX).toBeCloseTo(60);
+  });
+});
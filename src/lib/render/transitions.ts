@@ -0,0 +1,234 @@
+import type { TimelineItem } from "@/components/VideoEditor";
+import type { TimeRange } from "@/lib/timeline";
+import type { FrameContext, FrameSize } from "./compositor";
+
+// Transizioni sul taglio tra due clip adiacenti della stessa traccia: la transizione appartiene
+// al clip entrante ed è centrata sul taglio, metà sul clip uscente e metà su quello entrante
+
+export type TransitionType =
+  | 'cross-dissolve'
+  | 'dip-to-black'
+  | 'dip-to-white'
+  | 'wipe-left'
+  | 'wipe-right'
+  | 'wipe-up'
+  | 'wipe-down'
+  | 'slide-left'
+  | 'slide-right'
+  | 'push-left'
+  | 'push-right';
+
+export interface ClipTransition {
+  type: TransitionType;
+  duration: number; // Secondi, a cavallo del taglio
+}
+
+export interface TransitionDefinition {
+  type: TransitionType;
+  name: string;
+  category: 'Dissolve' | 'Wipe' | 'Slide';
+}
+
+export const TRANSITIONS: TransitionDefinition[] = [
+  { type: 'cross-dissolve', name: 'Cross Dissolve', category: 'Dissolve' },
+  { type: 'dip-to-black', name: 'Dip to Black', category: 'Dissolve' },
+  { type: 'dip-to-white', name: 'Dip to White', category: 'Dissolve' },
+  { type: 'wipe-left', name: 'Wipe Left', category: 'Wipe' },
+  { type: 'wipe-right', name: 'Wipe Right', category: 'Wipe' },
+  { type: 'wipe-up', name: 'Wipe Up', category: 'Wipe' },
+  { type: 'wipe-down', name: 'Wipe Down', category: 'Wipe' },
+  { type: 'slide-left', name: 'Slide Left', category: 'Slide' },
+  { type: 'slide-right', name: 'Slide Right', category: 'Slide' },
+  { type: 'push-left', name: 'Push Left', category: 'Slide' },
+  { type: 'push-right', name: 'Push Right', category: 'Slide' }
+];
+
+export const DEFAULT_TRANSITION_DURATION = 1;
+export const MIN_TRANSITION_DURATION = 0.1;
+
+// Tolleranza per considerare due clip attaccati (arrotondamenti dello snap)
+const CUT_TOLERANCE = 0.001;
+
+export interface TransitionCut {
+  outgoing: TimelineItem;
+  incoming: TimelineItem;
+  time: number; // Posizione del taglio sulla timeline
+}
+
+export interface ActiveTransition extends TransitionCut {
+  transition: ClipTransition;
+  window: TimeRange;
+}
+
+const isVisual = (item: TimelineItem) => item.mediaFile.type === 'video' || item.mediaFile.type === 'image';
+
+export const getTransitionDefinition = (type: TransitionType) => {
+  return TRANSITIONS.find(definition => definition.type === type) ?? TRANSITIONS[0];
+};
+
+// Tagli tra video o immagini che si toccano sulla stessa traccia
+export const findTransitionCuts = (items: TimelineItem[]): TransitionCut[] => {
+  const visuals = items.filter(isVisual);
+  const cuts: TransitionCut[] = [];
+
+  visuals.forEach(incoming => {
+    const outgoing = visuals.find(item =>
+      item.id !== incoming.id &&
+      item.track === incoming.track &&
+      item.startTime < incoming.startTime &&
+      Math.abs(item.startTime + item.duration - incoming.startTime) <= CUT_TOLERANCE
+    );
+    if (outgoing) cuts.push({ outgoing, incoming, time: incoming.startTime });
+  });
+
+  return cuts;
+};
+
+// Metà transizione non può superare metà di uno dei due clip: così due transizioni sullo stesso clip non si toccano
+export const getMaxTransitionDuration = (outgoing: TimelineItem, incoming: TimelineItem) => {
+  return Math.max(MIN_TRANSITION_DURATION, Math.min(outgoing.duration, incoming.duration));
+};
+
+export const clampTransitionDuration = (duration: number, outgoing: TimelineItem, incoming: TimelineItem) => {
+  return Math.max(MIN_TRANSITION_DURATION, Math.min(duration, getMaxTransitionDuration(outgoing, incoming)));
+};
+
+export const getTransitionWindow = (cut: TransitionCut, transition: ClipTransition): TimeRange => {
+  const half = clampTransitionDuration(transition.duration, cut.outgoing, cut.incoming) / 2;
+  return { start: cut.time - half, end: cut.time + half };
+};
+
+// Tutte le transizioni valide: quelle su clip non più adiacenti restano salvate ma non vengono disegnate
+export const getTransitions = (items: TimelineItem[]): ActiveTransition[] => {
+  return findTransitionCuts(items)
+    .filter(cut => cut.incoming.transition)
+    .map(cut => ({ ...cut, transition: cut.incoming.transition!, window: getTransitionWindow(cut, cut.incoming.transition!) }));
+};
+
+export const getActiveTransitions = (items: TimelineItem[], time: number) => {
+  return getTransitions(items).filter(active => time >= active.window.start && time < active.window.end);
+};
+
+// Clip coinvolti in una transizione: vanno disegnati (e sincronizzati) anche fuori dalla loro durata
+export const getTransitionItemIds = (items: TimelineItem[], time: number) => {
+  return new Set(getActiveTransitions(items, time).flatMap(active => [active.outgoing.id, active.incoming.id]));
+};
+
+export const getTransitionProgress = (active: ActiveTransition, time: number) => {
+  const { start, end } = active.window;
+  return Math.max(0, Math.min(1, (time - start) / (end - start)));
+};
+
+// Imposta o rimuove (null) la transizione in ingresso di un clip
+export const setItemTransition = (items: TimelineItem[], itemId: string, transition: ClipTransition | null): TimelineItem[] => {
+  return items.map(item => {
+    if (item.id !== itemId) return item;
+    if (!transition) {
+      const { transition: _removed, ...rest } = item;
+      return rest;
+    }
+    return { ...item, transition };
+  });
+};
+
+// Un livello da disegnare durante la transizione: il compositor sa già come disegnare il clip
+export interface TransitionLayer {
+  rect: { x: number; y: number; width: number; height: number };
+  draw: (offsetX?: number, offsetY?: number) => void;
+}
+
+type Rect = TransitionLayer['rect'];
+
+const unionRect = (a: Rect | undefined, b: Rect | undefined): Rect | null => {
+  if (!a || !b) return a ?? b ?? null;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y
+  };
+};
+
+const withClip = (ctx: FrameContext, rect: Rect, draw: () => void) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(rect.x, rect.y, rect.width, rect.height);
+  ctx.clip();
+  draw();
+  ctx.restore();
+};
+
+const withAlpha = (ctx: FrameContext, alpha: number, draw: () => void) => {
+  const baseAlpha = ctx.globalAlpha;
+  ctx.globalAlpha = baseAlpha * alpha;
+  draw();
+  ctx.globalAlpha = baseAlpha;
+};
+
+// Disegna i due clip mescolati; progress va da 0 (solo uscente) a 1 (solo entrante).
+// Il contesto arriva già con fade, filtri e zoom globali applicati
+export const drawTransition = (
+  ctx: FrameContext,
+  type: TransitionType,
+  progress: number,
+  outgoing: TransitionLayer | null,
+  incoming: TransitionLayer | null,
+  frameSize: FrameSize
+) => {
+  const area = unionRect(outgoing?.rect, incoming?.rect) ?? { x: 0, y: 0, ...frameSize };
+
+  switch (type) {
+    case 'dip-to-black':
+    case 'dip-to-white': {
+      // Prima metà: l'uscente sfuma nel colore; seconda metà: l'entrante emerge dal colore
+      const layer = progress < 0.5 ? outgoing : incoming;
+      const amount = progress < 0.5 ? progress * 2 : (1 - progress) * 2;
+      layer?.draw();
+      withAlpha(ctx, amount, () => {
+        ctx.fillStyle = type === 'dip-to-black' ? '#000000' : '#ffffff';
+        ctx.fillRect(area.x, area.y, area.width, area.height);
+      });
+      return;
+    }
+    case 'wipe-left':
+    case 'wipe-right':
+    case 'wipe-up':
+    case 'wipe-down': {
+      outgoing?.draw();
+      if (!incoming) return;
+      const reveal: Rect = type === 'wipe-left'
+        ? { ...area, x: area.x + area.width * (1 - progress), width: area.width * progress }
+        : type === 'wipe-right'
+          ? { ...area, width: area.width * progress }
+          : type === 'wipe-up'
+            ? { ...area, y: area.y + area.height * (1 - progress), height: area.height * progress }
+            : { ...area, height: area.height * progress };
+      withClip(ctx, reveal, () => incoming.draw());
+      return;
+    }
+    case 'slide-left':
+    case 'slide-right': {
+      const direction = type === 'slide-left' ? 1 : -1;
+      withClip(ctx, area, () => {
+        outgoing?.draw();
+        incoming?.draw(direction * area.width * (1 - progress), 0);
+      });
+      return;
+    }
+    case 'push-left':
+    case 'push-right': {
+      const direction = type === 'push-left' ? 1 : -1;
+      withClip(ctx, area, () => {
+        outgoing?.draw(-direction * area.width * progress, 0);
+        incoming?.draw(direction * area.width * (1 - progress), 0);
+      });
+      return;
+    }
+    case 'cross-dissolve':
+    default:
+      outgoing?.draw();
+      if (incoming) withAlpha(ctx, progress, () => incoming.draw());
+  }
+};
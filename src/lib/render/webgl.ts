@@ -0,0 +1,281 @@
+import { FrameSize, getSourceSize } from "./compositor";
+import type { LookupTable, PixelStep, UniformValue } from "./pixels";
+import { getFragmentShader } from "./shaders";
+import type { Rect } from "./transform";
+
+// Backend WebGL2 per la catena di passaggi di un clip: la sorgente si carica come texture,
+// ogni passaggio è un fragment shader tra due framebuffer e l'ultimo disegna sul canvas WebGL,
+// che il compositor disegna poi come una qualsiasi immagine. Un solo contesto per preview ed export
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 aPosition;
+uniform vec4 uSourceRect;
+out vec2 vUv;
+void main() {
+  vUv = uSourceRect.xy + aPosition * uSourceRect.zw;
+  gl_Position = vec4(aPosition * 2.0 - 1.0, 0.0, 1.0);
+}
+`;
+
+interface ShaderProgram {
+  program: WebGLProgram;
+  locations: Map<string, WebGLUniformLocation | null>;
+}
+
+interface RenderTarget {
+  texture: WebGLTexture;
+  framebuffer: WebGLFramebuffer;
+}
+
+interface WebGLState {
+  gl: WebGL2RenderingContext;
+  programs: Map<string, ShaderProgram | null>;
+  lookups: WeakMap<object, WebGLTexture>;
+  sourceTexture: WebGLTexture;
+  targets: RenderTarget[];
+  targetSize: FrameSize | null;
+}
+
+let state: WebGLState | null = null;
+let unavailable = false;
+
+const createTexture = (gl: WebGL2RenderingContext, target: number = gl.TEXTURE_2D) => {
+  const texture = gl.createTexture();
+  gl.bindTexture(target, texture);
+  gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(target, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(target, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  if (target === gl.TEXTURE_3D) gl.texParameteri(target, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+  return texture;
+};
+
+const createContext = (): WebGLState | null => {
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(1, 1)
+    : typeof document !== 'undefined' ? document.createElement('canvas') : null;
+  const gl = canvas?.getContext('webgl2', {
+    alpha: true,
+    premultipliedAlpha: false,
+    preserveDrawingBuffer: true,
+    antialias: false
+  }) as WebGL2RenderingContext | null;
+  if (!gl) return null;
+
+  // Se il contesto viene perso si ricrea al fotogramma successivo
+  canvas.addEventListener('webglcontextlost', (event: Event) => {
+    event.preventDefault();
+    state = null;
+  });
+
+  // Quadrato a tutto schermo, condiviso da tutti i programmi (attributo 0)
+  const vertexArray = gl.createVertexArray();
+  gl.bindVertexArray(vertexArray);
+  gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer());
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+  return {
+    gl,
+    programs: new Map(),
+    lookups: new WeakMap(),
+    sourceTexture: createTexture(gl),
+    targets: [],
+    targetSize: null
+  };
+};
+
+const getState = () => {
+  if (unavailable) return null;
+  if (!state) {
+    state = createContext();
+    if (!state) unavailable = true;
+  }
+  return state;
+};
+
+// Indica se il browser supporta il backend WebGL2 (per le impostazioni)
+export const isWebGL2Available = () => !!getState();
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compilation failed: ${log}`);
+  }
+  return shader;
+};
+
+const getProgram = ({ gl, programs }: WebGLState, shaderId: string) => {
+  if (programs.has(shaderId)) return programs.get(shaderId)!;
+
+  let compiled: ShaderProgram | null = null;
+  const fragment = getFragmentShader(shaderId);
+  try {
+    if (!fragment) throw new Error(`Unknown shader ${shaderId}`);
+    const program = gl.createProgram();
+    gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+    gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, fragment));
+    gl.bindAttribLocation(program, 0, 'aPosition');
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`Shader link failed: ${gl.getProgramInfoLog(program)}`);
+    }
+    compiled = { program, locations: new Map() };
+  } catch (error) {
+    console.warn(`WebGL shader ${shaderId} unavailable:`, error);
+  }
+
+  // Un programma che non compila resta null: quel passaggio userà il fallback Canvas2D
+  programs.set(shaderId, compiled);
+  return compiled;
+};
+
+const setUniform = (gl: WebGL2RenderingContext, compiled: ShaderProgram, name: string, value: UniformValue) => {
+  if (!compiled.locations.has(name)) {
+    compiled.locations.set(name, gl.getUniformLocation(compiled.program, name));
+  }
+  const location = compiled.locations.get(name);
+  if (!location) return;
+
+  if (typeof value === 'number') {
+    gl.uniform1f(location, value);
+    return;
+  }
+  switch (value.length) {
+    case 2: gl.uniform2fv(location, value); break;
+    case 3: gl.uniform3fv(location, value); break;
+    case 4: gl.uniform4fv(location, value); break;
+    case 16: gl.uniformMatrix4fv(location, false, value); break;
+  }
+};
+
+// Le tabelle di lookup si caricano una volta e restano finché esiste l'oggetto da cui nascono
+const getLookupTexture = ({ gl, lookups }: WebGLState, lookup: LookupTable) => {
+  const cached = lookups.get(lookup.key);
+  if (cached) return cached;
+
+  const target = lookup.dimensions === 3 ? gl.TEXTURE_3D : gl.TEXTURE_2D;
+  const texture = createTexture(gl, target);
+  const texels = lookup.build();
+  if (lookup.dimensions === 3) {
+    gl.texImage3D(target, 0, gl.RGBA8, lookup.size, lookup.size, lookup.size, 0, gl.RGBA, gl.UNSIGNED_BYTE, texels);
+  } else {
+    gl.texImage2D(target, 0, gl.RGBA8, lookup.size, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, texels);
+  }
+  lookups.set(lookup.key, texture);
+  return texture;
+};
+
+const getTargets = (current: WebGLState, size: FrameSize) => {
+  const { gl } = current;
+  if (current.targetSize?.width === size.width && current.targetSize?.height === size.height) return current.targets;
+
+  current.targets.forEach(target => {
+    gl.deleteTexture(target.texture);
+    gl.deleteFramebuffer(target.framebuffer);
+  });
+  current.targets = [0, 1].map(() => {
+    const texture = createTexture(gl);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, size.width, size.height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+    const framebuffer = gl.createFramebuffer();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    return { texture, framebuffer };
+  });
+  current.targetSize = size;
+  return current.targets;
+};
+
+const drawPass = (
+  current: WebGLState,
+  compiled: ShaderProgram,
+  input: WebGLTexture,
+  output: WebGLFramebuffer | null,
+  size: FrameSize,
+  uniforms: Record<string, UniformValue>,
+  lookup?: WebGLTexture,
+  lookupTarget?: number
+) => {
+  const { gl } = current;
+  gl.bindFramebuffer(gl.FRAMEBUFFER, output);
+  gl.viewport(0, 0, size.width, size.height);
+  gl.useProgram(compiled.program);
+
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, input);
+  gl.uniform1i(gl.getUniformLocation(compiled.program, 'uSource'), 0);
+  if (lookup) {
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(lookupTarget!, lookup);
+    gl.uniform1i(gl.getUniformLocation(compiled.program, 'uLookup'), 1);
+  }
+
+  setUniform(gl, compiled, 'uResolution', [size.width, size.height]);
+  setUniform(gl, compiled, 'uSourceRect', [0, 0, 1, 1]);
+  Object.entries(uniforms).forEach(([name, value]) => setUniform(gl, compiled, name, value));
+  gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+};
+
+// Elabora la porzione della sorgente con la catena di passaggi. Restituisce il canvas WebGL
+// (da disegnare subito) o null se il backend non è disponibile e serve il fallback
+export const renderWithWebGL = (
+  source: CanvasImageSource,
+  sourceRect: Rect,
+  size: FrameSize,
+  steps: PixelStep[]
+): CanvasImageSource | null => {
+  const current = getState();
+  if (!current) return null;
+
+  const { gl } = current;
+  const copy = getProgram(current, 'copy');
+  const passes = steps.map(step => ({ step, compiled: getProgram(current, step.shaderId) }));
+  if (!copy || passes.some(pass => !pass.compiled)) return null;
+
+  try {
+    const canvas = gl.canvas as OffscreenCanvas | HTMLCanvasElement;
+    if (canvas.width !== size.width || canvas.height !== size.height) {
+      canvas.width = size.width;
+      canvas.height = size.height;
+    }
+
+    // La sorgente si capovolge al caricamento: in WebGL la riga 0 è in basso
+    gl.bindTexture(gl.TEXTURE_2D, current.sourceTexture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, source as TexImageSource);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+
+    const targets = getTargets(current, size);
+    const textureSize = getSourceSize(source);
+
+    // Primo passaggio: ritaglio e ridimensionamento della sorgente alla dimensione di lavoro
+    drawPass(current, copy, current.sourceTexture, passes.length > 0 ? targets[0].framebuffer : null, size, {
+      uMix: 1,
+      uSourceRect: [
+        sourceRect.x / textureSize.width,
+        1 - (sourceRect.y + sourceRect.height) / textureSize.height,
+        sourceRect.width / textureSize.width,
+        sourceRect.height / textureSize.height
+      ]
+    });
+
+    // Poi i passaggi si alternano tra i due framebuffer; l'ultimo disegna sul canvas
+    passes.forEach(({ step, compiled }, index) => {
+      const input = targets[index % 2];
+      const output = index === passes.length - 1 ? null : targets[(index + 1) % 2].framebuffer;
+      const lookup = step.lookup ? getLookupTexture(current, step.lookup) : undefined;
+      const lookupTarget = step.lookup?.dimensions === 3 ? gl.TEXTURE_3D : gl.TEXTURE_2D;
+      drawPass(current, compiled!, input.texture, output, size, step.uniforms, lookup, lookupTarget);
+    });
+
+    return canvas;
+  } catch (error) {
+    console.warn('WebGL rendering failed, falling back to Canvas2D:', error);
+    return null;
+  }
+};
@@ -0,0 +1,244 @@
+import type { ProjectFile } from "@/lib/project";
+import type { SerializedHistory } from "@/lib/history";
+
+// Database IndexedDB per autosave e recupero dopo un crash della tab
+const DB_NAME = 'lumo-editor';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const MEDIA_STORE = 'media';
+
+// Pulizia automatica delle sessioni vecchie
+export const MAX_STORED_SESSIONS = 5;
+export const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface StoredSession {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  project: ProjectFile;
+  history: SerializedHistory;
+  currentTime: number;
+}
+
+interface StoredMedia {
+  key: string;
+  sessionId: string;
+  mediaId: string;
+  blob: Blob;
+}
+
+export interface SessionSummary {
+  id: string;
+  updatedAt: number;
+  itemCount: number;
+  mediaCount: number;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export const isQuotaExceededError = (error: unknown) => {
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+};
+
+export const isSessionStoreAvailable = () => typeof indexedDB !== 'undefined';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+        const mediaStore = db.createObjectStore(MEDIA_STORE, { keyPath: 'key' });
+        mediaStore.createIndex('sessionId', 'sessionId', { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const mediaKey = (sessionId: string, mediaId: string) => `${sessionId}:${mediaId}`;
+
+export const saveSession = async (session: StoredSession): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).put(session);
+  await transactionDone(transaction);
+};
+
+// Salva il blob di un media importato (solo una volta per sessione)
+export const saveSessionMedia = async (sessionId: string, mediaId: string, blob: Blob): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MEDIA_STORE, 'readwrite');
+  const record: StoredMedia = { key: mediaKey(sessionId, mediaId), sessionId, mediaId, blob };
+  transaction.objectStore(MEDIA_STORE).put(record);
+  await transactionDone(transaction);
+};
+
+export const listSessionMediaIds = async (sessionId: string): Promise<string[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MEDIA_STORE, 'readonly');
+  const keys = await requestToPromise(
+    transaction.objectStore(MEDIA_STORE).index('sessionId').getAllKeys(IDBKeyRange.only(sessionId))
+  );
+  return keys.map(key => String(key).slice(sessionId.length + 1));
+};
+
+// Rimuove i media della sessione che non fanno più parte del progetto
+export const pruneSessionMedia = async (sessionId: string, keepMediaIds: Set<string>): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MEDIA_STORE, 'readwrite');
+  const index = transaction.objectStore(MEDIA_STORE).index('sessionId');
+  const keys = await requestToPromise(index.getAllKeys(IDBKeyRange.only(sessionId)));
+
+  keys.forEach(key => {
+    const mediaId = String(key).slice(sessionId.length + 1);
+    if (!keepMediaIds.has(mediaId)) {
+      transaction.objectStore(MEDIA_STORE).delete(key);
+    }
+  });
+
+  await transactionDone(transaction);
+};
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readonly');
+  const sessions = await requestToPromise(transaction.objectStore(SESSIONS_STORE).getAll()) as StoredSession[];
+
+  return sessions
+    .map(session => ({
+      id: session.id,
+      updatedAt: session.updatedAt,
+      itemCount: session.project.timelineItems.length,
+      mediaCount: session.project.media.filter(media => media.type !== 'effect').length
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+const hasTimelineSnapshots = (history: SerializedHistory) => {
+  return history.entries.some(entry => Array.isArray(entry.before.timelineItems) || Array.isArray(entry.after.timelineItems));
+};
+
+export const loadSession = async (sessionId: string): Promise<{ session: StoredSession; files: Map<string, File> } | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, MEDIA_STORE], 'readonly');
+  const session = await requestToPromise(transaction.objectStore(SESSIONS_STORE).get(sessionId)) as StoredSession | undefined;
+  if (!session) return null;
+
+  // Le sessioni salvate prima della history a operazioni contenevano snapshot completi, e quelle prima
+  // delle differenze per elemento la timeline intera in ogni passo: si riparte da zero
+  if (!session.history || Array.isArray(session.history) || hasTimelineSnapshots(session.history)) {
+    session.history = { entries: [], index: 0 };
+  }
+
+  const media = await requestToPromise(
+    transaction.objectStore(MEDIA_STORE).index('sessionId').getAll(IDBKeyRange.only(sessionId))
+  ) as StoredMedia[];
+
+  // I blob vengono riconvertiti in File usando il nome salvato nel progetto
+  const files = new Map<string, File>();
+  media.forEach(record => {
+    const reference = session.project.media.find(m => m.id === record.mediaId);
+    if (!reference) return;
+    const file = record.blob instanceof File
+      ? record.blob
+      : new File([record.blob], reference.name, {
+          type: reference.mimeType || record.blob.type,
+          lastModified: reference.lastModified
+        });
+    files.set(record.mediaId, file);
+  });
+
+  return { session, files };
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, MEDIA_STORE], 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+
+  const mediaStore = transaction.objectStore(MEDIA_STORE);
+  const keys = await requestToPromise(mediaStore.index('sessionId').getAllKeys(IDBKeyRange.only(sessionId)));
+  keys.forEach(key => mediaStore.delete(key));
+
+  await transactionDone(transaction);
+};
+
+// Elimina le sessioni troppo vecchie e mantiene solo le più recenti
+export const purgeSessions = async ({
+  keep = MAX_STORED_SESSIONS,
+  maxAgeMs = SESSION_MAX_AGE_MS,
+  excludeId
+}: { keep?: number; maxAgeMs?: number; excludeId?: string } = {}): Promise<number> => {
+  const sessions = (await listSessions()).filter(session => session.id !== excludeId);
+  const now = Date.now();
+
+  const toDelete = sessions.filter((session, index) =>
+    index >= keep || now - session.updatedAt > maxAgeMs
+  );
+
+  for (const session of toDelete) {
+    await deleteSession(session.id);
+  }
+
+  return toDelete.length;
+};
+
+export const deleteAllSessions = async (excludeId?: string): Promise<void> => {
+  const sessions = await listSessions();
+  for (const session of sessions) {
+    if (session.id !== excludeId) {
+      await deleteSession(session.id);
+    }
+  }
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const estimate = await navigator.storage.estimate();
+  return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0 };
+};
+
+// Chiede al browser di non cancellare i dati salvati sotto pressione di spazio
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  try {
+    return await navigator.storage.persist();
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,42 @@
+import type { RenderBackend } from "@/lib/render/pixels";
+
+// Preferenze dell'editor, per browser (non fanno parte del progetto)
+
+export interface EditorSettings {
+  renderer: RenderBackend; // Backend delle elaborazioni per pixel (correzione colore, LUT, effetti shader)
+}
+
+export const RENDERER_OPTIONS: { id: RenderBackend; name: string; description: string }[] = [
+  { id: 'webgl2', name: 'WebGL 2', description: 'Shaders on the GPU. Falls back to Canvas 2D when unavailable.' },
+  { id: 'canvas2d', name: 'Canvas 2D', description: 'Pixel processing on the CPU. Slower, but works everywhere.' }
+];
+
+export const DEFAULT_EDITOR_SETTINGS: EditorSettings = {
+  renderer: 'webgl2'
+};
+
+const SETTINGS_STORAGE_KEY = 'lumo-editor-settings';
+
+export const loadEditorSettings = (): EditorSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_EDITOR_SETTINGS;
+
+    const parsed = JSON.parse(stored);
+    const renderer = RENDERER_OPTIONS.some(option => option.id === parsed?.renderer)
+      ? parsed.renderer
+      : DEFAULT_EDITOR_SETTINGS.renderer;
+    return { ...DEFAULT_EDITOR_SETTINGS, renderer };
+  } catch (error) {
+    console.warn('Failed to load editor settings:', error);
+    return DEFAULT_EDITOR_SETTINGS;
+  }
+};
+
+export const saveEditorSettings = (settings: EditorSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save editor settings:', error);
+  }
+};
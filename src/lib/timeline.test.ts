@@ -0,0 +1,325 @@
+import { describe, expect, it } from "vitest";
+import type { MediaFile, TimelineItem } from "@/components/VideoEditor";
+import type { Track } from "@/components/Timeline";
+import {
+  addTrack,
+  calculateOptimalStartTime,
+  calculateSnapPoints,
+  canRemoveTrack,
+  createPastedItems,
+  findFirstTrackForMedia,
+  findPotentialSnapPoint,
+  getItemsSpan,
+  getMarkedRange,
+  isValidTrack,
+  pasteItems,
+  removeItems,
+  removeTrack,
+  resizeItem,
+  setInPoint,
+  setOutPoint,
+  splitItem,
+  splitItemAt
+} from "./timeline";
+
+const media = (type: MediaFile['type'], id = `${type}-media`): MediaFile => ({
+  id,
+  name: `${id}.file`,
+  type,
+  url: type === 'effect' ? '' : `blob:${id}`,
+  duration: 10
+});
+
+const item = (id: string, overrides: Partial<TimelineItem> = {}): TimelineItem => ({
+  id,
+  mediaFile: media('video'),
+  startTime: 0,
+  duration: 5,
+  track: 0,
+  mediaStartOffset: 0,
+  ...overrides
+});
+
+const defaultTracks: Track[] = [
+  { id: 'video-0', type: 'video', index: 0, label: 'Video 1' },
+  { id: 'audio-0', type: 'audio', index: 1, label: 'Audio 1' },
+  { id: 'audio-1', type: 'audio', index: 2, label: 'Audio 2' }
+];
+
+describe('track compatibility', () => {
+  it('puts video, images and effects on video tracks and audio on audio tracks', () => {
+    expect(isValidTrack(defaultTracks, 0, 'video')).toBe(true);
+    expect(isValidTrack(defaultTracks, 0, 'image')).toBe(true);
+    expect(isValidTrack(defaultTracks, 0, 'effect')).toBe(true);
+    expect(isValidTrack(defaultTracks, 0, 'audio')).toBe(false);
+    expect(isValidTrack(defaultTracks, 2, 'audio')).toBe(true);
+    expect(isValidTrack(defaultTracks, 2, 'video')).toBe(false);
+  });
+
+  it('rejects track indexes that do not exist', () => {
+    expect(isValidTrack(defaultTracks, 5, 'video')).toBe(false);
+  });
+
+  it('finds the lowest-index track of the right type', () => {
+    const tracks: Track[] = [
+      { id: 'audio-b', type: 'audio', index: 2, label: 'Audio 2' },
+      { id: 'audio-a', type: 'audio', index: 1, label: 'Audio 1' },
+      { id: 'video-a', type: 'video', index: 0, label: 'Video 1' }
+    ];
+    expect(findFirstTrackForMedia(tracks, 'audio')?.id).toBe('audio-a');
+    expect(findFirstTrackForMedia(tracks.filter(t => t.type === 'audio'), 'image')).toBeNull();
+  });
+});
+
+describe('calculateOptimalStartTime', () => {
+  it('starts at zero on an empty track', () => {
+    expect(calculateOptimalStartTime([], defaultTracks, 'video')).toEqual({ startTime: 0, track: 0 });
+  });
+
+  it('places new media after the item that ends last on the first compatible track', () => {
+    const items = [
+      item('a', { startTime: 0, duration: 8 }),
+      item('b', { startTime: 2, duration: 3 }),
+      item('c', { startTime: 20, duration: 4, track: 1, mediaFile: media('audio') })
+    ];
+    expect(calculateOptimalStartTime(items, defaultTracks, 'image')).toEqual({ startTime: 8, track: 0 });
+    expect(calculateOptimalStartTime(items, defaultTracks, 'audio')).toEqual({ startTime: 24, track: 1 });
+  });
+
+  it('falls back to track 0 when no compatible track exists', () => {
+    const audioOnly = defaultTracks.filter(t => t.type === 'audio');
+    expect(calculateOptimalStartTime([], audioOnly, 'video')).toEqual({ startTime: 0, track: 0 });
+  });
+});
+
+describe('splitItem', () => {
+  it('splits at an absolute time and carries the media offset into the second part', () => {
+    const original = item('a', { startTime: 10, duration: 6, mediaStartOffset: 2 });
+    const parts = splitItem(original, 14, 'a-2');
+
+    expect(parts).not.toBeNull();
+    const [first, second] = parts!;
+    expect(first).toMatchObject({ id: 'a', startTime: 10, duration: 4, mediaStartOffset: 2 });
+    expect(second).toMatchObject({ id: 'a-2', startTime: 14, duration: 2, mediaStartOffset: 6 });
+  });
+
+  it('returns null when the time is on or outside the item edges', () => {
+    const original = item('a', { startTime: 10, duration: 6 });
+    expect(splitItem(original, 10)).toBeNull();
+    expect(splitItem(original, 16)).toBeNull();
+    expect(splitItem(original, 3)).toBeNull();
+  });
+
+  it('leaves the list untouched when the split is not possible', () => {
+    const items = [item('a', { startTime: 0, duration: 5 })];
+    expect(splitItemAt(items, 'a', 7)).toBe(items);
+    expect(splitItemAt(items, 'missing', 2)).toBe(items);
+  });
+
+  it('replaces the item with its two parts', () => {
+    const items = [item('a', { startTime: 0, duration: 5 }), item('b', { startTime: 5, duration: 5 })];
+    const result = splitItemAt(items, 'a', 2);
+
+    expect(result).toHaveLength(3);
+    expect(result.filter(i => i.id === 'a')).toHaveLength(1);
+    expect(result.reduce((total, i) => total + i.duration, 0)).toBe(10);
+    expect(items[0].duration).toBe(5);
+  });
+});
+
+describe('paste', () => {
+  let counter = 0;
+  const createId = (source: TimelineItem) => `${source.id}-paste-${++counter}`;
+
+  it('keeps the relative spacing of multiple pasted items', () => {
+    const clipboard = [
+      item('a', { startTime: 4, duration: 2 }),
+      item('b', { startTime: 7, duration: 1 })
+    ];
+    const pasted = createPastedItems(clipboard, { tracks: defaultTracks, startTime: 20, createId });
+
+    expect(pasted.map(i => i.startTime)).toEqual([20, 23]);
+    expect(new Set(pasted.map(i => i.id)).size).toBe(2);
+    expect(pasted.every(i => !clipboard.some(c => c.id === i.id))).toBe(true);
+  });
+
+  it('moves each item to the first compatible track when no target is given', () => {
+    const clipboard = [
+      item('v', { track: 0 }),
+      item('s', { track: 2, mediaFile: media('audio') })
+    ];
+    const pasted = createPastedItems(clipboard, { tracks: defaultTracks, startTime: 0, createId });
+    expect(pasted.map(i => i.track)).toEqual([0, 1]);
+  });
+
+  it('picks the compatible track with the lowest index, or keeps the original track', () => {
+    const tracks: Track[] = [
+      { id: 'audio-1', type: 'audio', index: 2, label: 'Audio 2' },
+      { id: 'audio-0', type: 'audio', index: 0, label: 'Audio 1' }
+    ];
+    const clipboard = [
+      item('s', { track: 2, mediaFile: media('audio') }),
+      item('v', { track: 3 })
+    ];
+    const pasted = createPastedItems(clipboard, { tracks, startTime: 0, createId });
+    expect(pasted.map(i => i.track)).toEqual([0, 3]);
+  });
+
+  it('keeps the original track when the target track is incompatible', () => {
+    const clipboard = [
+      item('v', { track: 0 }),
+      item('s', { track: 1, mediaFile: media('audio') })
+    ];
+    const pasted = createPastedItems(clipboard, { tracks: defaultTracks, startTime: 0, targetTrack: 2, createId });
+    expect(pasted.map(i => i.track)).toEqual([0, 2]);
+  });
+
+  it('checks the target track for a single item too', () => {
+    const pasted = createPastedItems([item('v', { track: 0 })], { tracks: defaultTracks, startTime: 0, targetTrack: 2, createId });
+    expect(pasted[0].track).toBe(0);
+  });
+
+  it('appends pasted items and defaults a missing media offset to zero', () => {
+    const items = [item('existing')];
+    const result = pasteItems(items, [item('a', { mediaStartOffset: undefined })], {
+      tracks: defaultTracks,
+      startTime: 3,
+      createId
+    });
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toBe(items[0]);
+    expect(result[1].mediaStartOffset).toBe(0);
+  });
+
+  it('removes items by id', () => {
+    const items = [item('a'), item('b'), item('c')];
+    expect(removeItems(items, new Set(['a', 'c'])).map(i => i.id)).toEqual(['b']);
+  });
+});
+
+describe('tracks', () => {
+  it('inserts a track after the given index and shifts later tracks and items', () => {
+    const items = [
+      item('v', { track: 0 }),
+      item('a1', { track: 1, mediaFile: media('audio') }),
+      item('a2', { track: 2, mediaFile: media('audio') })
+    ];
+    const result = addTrack(defaultTracks, items, 'video', 0, 'video-new');
+
+    expect(result.tracks.map(t => [t.id, t.index, t.label])).toEqual([
+      ['video-0', 0, 'Video 1'],
+      ['video-new', 1, 'Video 2'],
+      ['audio-0', 2, 'Audio 1'],
+      ['audio-1', 3, 'Audio 2']
+    ]);
+    expect(result.items.map(i => i.track)).toEqual([0, 2, 3]);
+  });
+
+  it('does not mutate the tracks it receives', () => {
+    const tracks = defaultTracks.map(t => ({ ...t }));
+    addTrack(tracks, [], 'audio', 0);
+    expect(tracks).toEqual(defaultTracks);
+  });
+
+  it('relabels tracks of the same type after inserting in the middle', () => {
+    const result = addTrack(defaultTracks, [], 'audio', 1, 'audio-new');
+    expect(result.tracks.map(t => t.label)).toEqual(['Video 1', 'Audio 1', 'Audio 2', 'Audio 3']);
+    expect(result.tracks.find(t => t.id === 'audio-new')?.label).toBe('Audio 2');
+  });
+
+  it('removes an empty track and shifts later tracks and items back', () => {
+    const items = [item('a2', { track: 2, mediaFile: media('audio') })];
+    const result = removeTrack(defaultTracks, items, 'audio-0');
+
+    expect(result).not.toBeNull();
+    expect(result!.tracks.map(t => [t.id, t.index, t.label])).toEqual([
+      ['video-0', 0, 'Video 1'],
+      ['audio-1', 1, 'Audio 1']
+    ]);
+    expect(result!.items[0].track).toBe(1);
+  });
+
+  it('refuses to remove a track with items or the last track of its type', () => {
+    const items = [item('a1', { track: 1, mediaFile: media('audio') })];
+    expect(canRemoveTrack(defaultTracks, items, defaultTracks[1])).toBe(false);
+    expect(removeTrack(defaultTracks, items, 'audio-0')).toBeNull();
+    expect(removeTrack(defaultTracks, [], 'video-0')).toBeNull();
+    expect(removeTrack(defaultTracks, [], 'missing')).toBeNull();
+  });
+});
+
+describe('snapping', () => {
+  const items = [
+    item('dragged', { startTime: 0, duration: 2 }),
+    item('a', { startTime: 5, duration: 3 }),
+    item('other-track', { startTime: 1, duration: 1, track: 1, mediaFile: media('audio') })
+  ];
+
+  it('collects the timeline start and the edges of other items on the same track', () => {
+    expect(calculateSnapPoints(items, 'dragged', 0)).toEqual([
+      { time: 0, type: 'timeline-start' },
+      { time: 5, type: 'start' },
+      { time: 8, type: 'end' }
+    ]);
+  });
+
+  it('snaps the start of the item first', () => {
+    const snapPoints = calculateSnapPoints(items, 'dragged', 0);
+    expect(findPotentialSnapPoint(7.9, 2, snapPoints, 0.2)).toEqual({ snapTime: 8, snapLine: 8, type: 'start' });
+  });
+
+  it('snaps the end of the item when the start is out of range', () => {
+    const snapPoints = calculateSnapPoints(items, 'dragged', 0);
+    expect(findPotentialSnapPoint(3.1, 2, snapPoints, 0.2)).toEqual({ snapTime: 3, snapLine: 5, type: 'end' });
+  });
+
+  it('returns null outside the threshold', () => {
+    const snapPoints = calculateSnapPoints(items, 'dragged', 0);
+    expect(findPotentialSnapPoint(2.5, 1, snapPoints, 0.2)).toBeNull();
+  });
+});
+
+describe('resizeItem', () => {
+  const original = item('a', { startTime: 4, duration: 4 });
+
+  it('moves the left edge and keeps the right edge in place', () => {
+    const { item: resized, snapLine } = resizeItem(original, 'left', 3, [], 0.2);
+    expect(resized).toMatchObject({ startTime: 3, duration: 5 });
+    expect(snapLine).toBeNull();
+  });
+
+  it('snaps an edge to a nearby point', () => {
+    const { item: resized, snapLine } = resizeItem(original, 'right', 9.9, [{ time: 10, type: 'start' }], 0.2);
+    expect(resized.duration).toBe(6);
+    expect(snapLine).toBe(10);
+  });
+
+  it('never shrinks below the minimum duration or before the timeline start', () => {
+    expect(resizeItem(original, 'right', 1, [], 0.2).item.duration).toBeCloseTo(0.1);
+    expect(resizeItem(original, 'left', 20, [], 0.2).item.duration).toBeCloseTo(0.1);
+    expect(resizeItem(original, 'left', -3, [], 0.2).item).toMatchObject({ startTime: 0, duration: 8 });
+  });
+});
+
+describe('in/out markers', () => {
+  it('drops the opposite marker when the new one would invert the range', () => {
+    expect(setInPoint({ inPoint: null, outPoint: 8 }, 3)).toEqual({ inPoint: 3, outPoint: 8 });
+    expect(setInPoint({ inPoint: null, outPoint: 8 }, 9)).toEqual({ inPoint: 9, outPoint: null });
+    expect(setOutPoint({ inPoint: 5, outPoint: null }, 2)).toEqual({ inPoint: null, outPoint: 2 });
+  });
+
+  it('defaults a missing marker to the timeline start or end', () => {
+    expect(getMarkedRange({ inPoint: null, outPoint: null }, 30)).toBeNull();
+    expect(getMarkedRange({ inPoint: 4, outPoint: null }, 30)).toEqual({ start: 4, end: 30 });
+    expect(getMarkedRange({ inPoint: null, outPoint: 12 }, 30)).toEqual({ start: 0, end: 12 });
+    expect(getMarkedRange({ inPoint: 30, outPoint: null }, 30)).toBeNull();
+  });
+
+  it('spans the selected clips from the first start to the last end', () => {
+    const items = [item('a', { startTime: 2, duration: 3 }), item('b', { startTime: 10, duration: 4 }), item('c', { startTime: 20 })];
+
+    expect(getItemsSpan(items, ['b', 'a'])).toEqual({ start: 2, end: 14 });
+    expect(getItemsSpan(items, [])).toBeNull();
+  });
+});
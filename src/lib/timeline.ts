@@ -0,0 +1,357 @@
+import type { MediaFile, TimelineItem } from "@/components/VideoEditor";
+import type { Track } from "@/components/Timeline";
+import { splitKeyframes } from "@/lib/keyframes";
+import { getEffectDefinition } from "@/lib/effects";
+
+// Modello della timeline indipendente da React: tutte le funzioni sono pure
+// e restituiscono nuovi array senza modificare quelli ricevuti
+
+export type TrackType = Track['type'];
+export type MediaType = MediaFile['type'];
+
+export type SnapPointType = 'start' | 'end' | 'timeline-start';
+
+export interface SnapPoint {
+  time: number;
+  type: SnapPointType;
+}
+
+export interface SnapResult {
+  snapTime: number; // Nuovo startTime dell'elemento
+  snapLine: number; // Dove disegnare la linea di snap
+  type: 'start' | 'end';
+}
+
+export interface TrackEditResult {
+  tracks: Track[];
+  items: TimelineItem[];
+}
+
+// Durata minima di un elemento dopo un resize o uno split
+export const MIN_ITEM_DURATION = 0.1;
+
+export const getItemEndTime = (item: TimelineItem) => item.startTime + item.duration;
+
+// Video, immagini ed effetti vanno sulle tracce video, l'audio sulle tracce audio
+export const getTrackTypeForMedia = (mediaType: MediaType): TrackType => {
+  return mediaType === 'audio' ? 'audio' : 'video';
+};
+
+export const isValidTrack = (tracks: Track[], trackIndex: number, mediaType: MediaType) => {
+  const track = tracks.find(t => t.index === trackIndex);
+  return !!track && track.type === getTrackTypeForMedia(mediaType);
+};
+
+// Prima traccia (per indice) compatibile con il tipo di media
+export const findFirstTrackForMedia = (tracks: Track[], mediaType: MediaType): Track | null => {
+  const targetType = getTrackTypeForMedia(mediaType);
+  const relevantTracks = tracks
+    .filter(track => track.type === targetType)
+    .sort((a, b) => a.index - b.index);
+  return relevantTracks[0] ?? null;
+};
+
+// Posizione per un nuovo media: in coda all'ultimo elemento della prima traccia compatibile
+export const calculateOptimalStartTime = (
+  items: TimelineItem[],
+  tracks: Track[],
+  mediaType: MediaType
+): { startTime: number; track: number } => {
+  const availableTrack = findFirstTrackForMedia(tracks, mediaType);
+  if (!availableTrack) {
+    return { startTime: 0, track: 0 };
+  }
+
+  const itemsInTrack = items.filter(item => item.track === availableTrack.index);
+  const startTime = itemsInTrack.reduce((end, item) => Math.max(end, getItemEndTime(item)), 0);
+  return { startTime, track: availableTrack.index };
+};
+
+export const removeItems = (items: TimelineItem[], itemIds: Iterable<string>): TimelineItem[] => {
+  const ids = new Set(itemIds);
+  return items.filter(item => !ids.has(item.id));
+};
+
+// Divide un elemento in due al tempo indicato (tempo assoluto della timeline)
+export const splitItem = (
+  item: TimelineItem,
+  time: number,
+  secondPartId = `${item.id}_split_${Date.now()}`
+): [TimelineItem, TimelineItem] | null => {
+  const splitTime = time - item.startTime;
+  if (splitTime <= 0 || splitTime >= item.duration) return null;
+
+  const originalMediaOffset = item.mediaStartOffset || 0;
+
+  const firstPart: TimelineItem = {
+    ...item,
+    duration: splitTime,
+    mediaStartOffset: originalMediaOffset
+  };
+
+  // La transizione resta sul taglio originale, cioè sulla prima parte
+  const { transition: _transition, ...rest } = item;
+  const secondPart: TimelineItem = {
+    ...rest,
+    id: secondPartId,
+    startTime: item.startTime + splitTime,
+    duration: item.duration - splitTime,
+    mediaStartOffset: originalMediaOffset + splitTime
+  };
+
+  // Il fade-in resta all'inizio e il fade-out alla fine; gli altri effetti valgono per entrambe le parti
+  if (item.effects) {
+    firstPart.effects = item.effects.filter(effect => getEffectDefinition(effect.type)?.edge !== 'out');
+    secondPart.effects = item.effects.filter(effect => getEffectDefinition(effect.type)?.edge !== 'in');
+  }
+
+  if (item.keyframes) {
+    [firstPart.keyframes, secondPart.keyframes] = splitKeyframes(item.keyframes, splitTime);
+  }
+
+  return [firstPart, secondPart];
+};
+
+// Sostituisce l'elemento con le due parti; restituisce gli stessi elementi se il tempo è fuori dall'elemento
+export const splitItemAt = (items: TimelineItem[], itemId: string, time: number): TimelineItem[] => {
+  const item = items.find(i => i.id === itemId);
+  const parts = item && splitItem(item, time);
+  if (!parts) return items;
+  return [...items.filter(i => i.id !== itemId), ...parts];
+};
+
+export interface PasteOptions {
+  tracks: Track[];
+  startTime: number;
+  // Traccia di destinazione: se non compatibile l'elemento resta sulla sua traccia.
+  // Senza traccia si usa la prima traccia compatibile con il tipo di media
+  targetTrack?: number;
+  createId?: (item: TimelineItem) => string;
+}
+
+const defaultPasteId = (item: TimelineItem) => `${item.id}_paste_${Date.now()}_${Math.random()}`;
+
+// Crea le copie da incollare mantenendo le distanze relative tra gli elementi copiati
+export const createPastedItems = (
+  clipboard: TimelineItem[],
+  { tracks, startTime, targetTrack, createId = defaultPasteId }: PasteOptions
+): TimelineItem[] => {
+  if (clipboard.length === 0) return [];
+
+  const earliestStart = Math.min(...clipboard.map(item => item.startTime));
+
+  return clipboard.map(item => {
+    let track: number;
+    if (targetTrack === undefined) {
+      track = findFirstTrackForMedia(tracks, item.mediaFile.type)?.index ?? item.track;
+    } else {
+      track = isValidTrack(tracks, targetTrack, item.mediaFile.type) ? targetTrack : item.track;
+    }
+
+    return {
+      ...item,
+      id: createId(item),
+      track,
+      startTime: startTime + (item.startTime - earliestStart),
+      mediaStartOffset: item.mediaStartOffset || 0
+    };
+  });
+};
+
+export const pasteItems = (items: TimelineItem[], clipboard: TimelineItem[], options: PasteOptions): TimelineItem[] => {
+  return [...items, ...createPastedItems(clipboard, options)];
+};
+
+// Rinumera le etichette ("Video 1", "Audio 2", ...) seguendo l'ordine delle tracce
+const relabelTracks = (tracks: Track[]): Track[] => {
+  let videoCounter = 1;
+  let audioCounter = 1;
+
+  return [...tracks]
+    .sort((a, b) => a.index - b.index)
+    .map(track => track.type === 'video'
+      ? { ...track, label: `Video ${videoCounter++}` }
+      : { ...track, label: `Audio ${audioCounter++}` });
+};
+
+// Inserisce una nuova traccia dopo l'indice indicato, spostando tracce ed elementi successivi
+export const addTrack = (
+  tracks: Track[],
+  items: TimelineItem[],
+  type: TrackType,
+  afterIndex: number,
+  trackId = `${type}-${Date.now()}`
+): TrackEditResult => {
+  const insertIndex = afterIndex + 1;
+
+  const shiftedTracks = tracks.map(track =>
+    track.index >= insertIndex ? { ...track, index: track.index + 1 } : track
+  );
+
+  const updatedItems = items.map(item =>
+    item.track >= insertIndex ? { ...item, track: item.track + 1 } : item
+  );
+
+  const newTrack: Track = { id: trackId, type, index: insertIndex, label: '' };
+
+  return {
+    tracks: relabelTracks([...shiftedTracks, newTrack]),
+    items: updatedItems
+  };
+};
+
+// Deve restare almeno una traccia per tipo e la traccia deve essere vuota
+export const canRemoveTrack = (tracks: Track[], items: TimelineItem[], track: Track) => {
+  const sameTypeTracks = tracks.filter(t => t.type === track.type);
+  const hasItems = items.some(item => item.track === track.index);
+  return sameTypeTracks.length > 1 && !hasItems;
+};
+
+// Rimuove una traccia vuota; null se la rimozione non è permessa
+export const removeTrack = (
+  tracks: Track[],
+  items: TimelineItem[],
+  trackId: string
+): TrackEditResult | null => {
+  const trackToRemove = tracks.find(t => t.id === trackId);
+  if (!trackToRemove || !canRemoveTrack(tracks, items, trackToRemove)) return null;
+
+  const remainingTracks = tracks
+    .filter(t => t.id !== trackId)
+    .map(track => track.index > trackToRemove.index ? { ...track, index: track.index - 1 } : track);
+
+  const updatedItems = items.map(item =>
+    item.track > trackToRemove.index ? { ...item, track: item.track - 1 } : item
+  );
+
+  return {
+    tracks: relabelTracks(remainingTracks),
+    items: updatedItems
+  };
+};
+
+// Punti magnetici: inizio della timeline e bordi degli altri elementi sulla stessa traccia
+export const calculateSnapPoints = (
+  items: TimelineItem[],
+  draggedItemId: string,
+  targetTrack: number
+): SnapPoint[] => {
+  const snapPoints: SnapPoint[] = [{ time: 0, type: 'timeline-start' }];
+
+  items
+    .filter(item => item.track === targetTrack && item.id !== draggedItemId)
+    .forEach(item => {
+      snapPoints.push({ time: item.startTime, type: 'start' });
+      snapPoints.push({ time: getItemEndTime(item), type: 'end' });
+    });
+
+  return snapPoints.sort((a, b) => a.time - b.time);
+};
+
+// Primo punto entro la soglia per un singolo tempo (usato dal resize dei bordi)
+export const findSnapTime = (time: number, snapPoints: SnapPoint[], thresholdTime: number): number | null => {
+  const snapPoint = snapPoints.find(point => Math.abs(time - point.time) <= thresholdTime);
+  return snapPoint ? snapPoint.time : null;
+};
+
+// Ridimensiona un bordo dell'elemento verso il tempo indicato, con snap ai punti vicini
+export const resizeItem = (
+  item: TimelineItem,
+  edge: 'left' | 'right',
+  time: number,
+  snapPoints: SnapPoint[],
+  thresholdTime: number
+): { item: TimelineItem; snapLine: number | null } => {
+  const snapLine = findSnapTime(time, snapPoints, thresholdTime);
+  const targetTime = snapLine ?? time;
+
+  if (edge === 'left') {
+    const maxStartTime = getItemEndTime(item) - MIN_ITEM_DURATION;
+    const newStartTime = Math.max(0, Math.min(targetTime, maxStartTime));
+    return {
+      item: { ...item, startTime: newStartTime, duration: item.duration + (item.startTime - newStartTime) },
+      snapLine
+    };
+  }
+
+  const newEndTime = Math.max(item.startTime + MIN_ITEM_DURATION, targetTime);
+  return {
+    item: { ...item, duration: newEndTime - item.startTime },
+    snapLine
+  };
+};
+
+// Controlla prima l'inizio dell'elemento, poi la fine
+export const findPotentialSnapPoint = (
+  startTime: number,
+  duration: number,
+  snapPoints: SnapPoint[],
+  thresholdTime: number
+): SnapResult | null => {
+  const startSnap = findSnapTime(startTime, snapPoints, thresholdTime);
+  if (startSnap !== null) {
+    return { snapTime: startSnap, snapLine: startSnap, type: 'start' };
+  }
+
+  const endSnap = findSnapTime(startTime + duration, snapPoints, thresholdTime);
+  if (endSnap !== null) {
+    return { snapTime: endSnap - duration, snapLine: endSnap, type: 'end' };
+  }
+
+  return null;
+};
+
+// Punti di in/out impostati sul righello (null = non impostato)
+export interface InOutMarkers {
+  inPoint: number | null;
+  outPoint: number | null;
+}
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export const EMPTY_MARKERS: InOutMarkers = { inPoint: null, outPoint: null };
+
+export const getTimelineEnd = (items: TimelineItem[]) => Math.max(0, ...items.map(getItemEndTime));
+
+// Un in dopo l'out (o viceversa) cancella l'altro punto invece di creare un intervallo vuoto
+export const setInPoint = (markers: InOutMarkers, time: number): InOutMarkers => {
+  const inPoint = Math.max(0, time);
+  return {
+    inPoint,
+    outPoint: markers.outPoint !== null && markers.outPoint <= inPoint ? null : markers.outPoint
+  };
+};
+
+export const setOutPoint = (markers: InOutMarkers, time: number): InOutMarkers => {
+  const outPoint = Math.max(0, time);
+  return {
+    inPoint: markers.inPoint !== null && markers.inPoint >= outPoint ? null : markers.inPoint,
+    outPoint
+  };
+};
+
+export const hasMarkers = (markers: InOutMarkers) => markers.inPoint !== null || markers.outPoint !== null;
+
+// Intervallo marcato: senza in si parte da 0, senza out si arriva alla fine della timeline
+export const getMarkedRange = (markers: InOutMarkers, timelineEnd: number): TimeRange | null => {
+  if (!hasMarkers(markers)) return null;
+
+  const start = markers.inPoint ?? 0;
+  const end = markers.outPoint ?? timelineEnd;
+  return end - start >= MIN_ITEM_DURATION ? { start, end } : null;
+};
+
+// Dall'inizio del primo all'ultima fine degli elementi indicati
+export const getItemsSpan = (items: TimelineItem[], itemIds: Iterable<string>): TimeRange | null => {
+  const ids = new Set(itemIds);
+  const selected = items.filter(item => ids.has(item.id));
+  if (selected.length === 0) return null;
+
+  return {
+    start: Math.min(...selected.map(item => item.startTime)),
+    end: Math.max(...selected.map(getItemEndTime))
+  };
+};